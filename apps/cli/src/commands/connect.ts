@@ -11,12 +11,15 @@ import {
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
   InitializeRequestSchema,
+  ListRootsRequestSchema,
   McpError,
+  RootsListChangedNotificationSchema,
   CallToolResult,
   GetPromptResult,
   ReadResourceResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { VERSION, SERVER_NAME } from "../mcpr.js";
+import { createProgressRelay } from "../progress.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 
@@ -112,6 +115,7 @@ class HttpMcpBridgeServer {
   private baseUrl: string;
   private token: string | null;
   private project: string | null;
+  private forwardRoots = false;
 
   constructor(options: { baseUrl: string; project?: string | null }) {
     this.baseUrl = normalizeBaseUrl(options.baseUrl);
@@ -172,10 +176,22 @@ class HttpMcpBridgeServer {
         // Extract client name and set it in the HTTP client
         if (request.params.clientInfo && request.params.clientInfo.name) {
           const clientName = request.params.clientInfo.name;
-          this.client = new Client({
-            name: clientName,
-            version: "0.0.1",
-          });
+          // Pass the client's roots through so project servers can see them
+          this.forwardRoots = !!request.params.capabilities?.roots;
+          this.client = new Client(
+            {
+              name: clientName,
+              version: "0.0.1",
+            },
+            this.forwardRoots
+              ? { capabilities: { roots: { listChanged: true } } }
+              : undefined,
+          );
+          if (this.forwardRoots) {
+            this.client.setRequestHandler(ListRootsRequestSchema, () =>
+              this.server.listRoots(),
+            );
+          }
           await this.client.connect(this.transport);
         }
         return {
@@ -219,32 +235,50 @@ class HttpMcpBridgeServer {
       }
     });
 
+    // Roots changed on the client side
+    this.server.setNotificationHandler(
+      RootsListChangedNotificationSchema,
+      async () => {
+        if (this.forwardRoots) {
+          await this.client.sendRootsListChanged();
+        }
+      },
+    );
+
     // Call Tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        const result = await this.client.callTool(
-          {
-            name: request.params.name,
-            arguments: request.params.arguments || {},
-          },
-          undefined,
-          {
-            timeout: 60 * 60 * 1000, // 60分
-            resetTimeoutOnProgress: true,
-          },
-        );
-        return result as CallToolResult;
-      } catch (error: any) {
-        // If already McpError, re-throw as-is to avoid wrapping
-        if (error instanceof McpError) {
-          throw error;
+    this.server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request, extra) => {
+        try {
+          const result = await this.client.callTool(
+            {
+              name: request.params.name,
+              arguments: request.params.arguments || {},
+            },
+            undefined,
+            {
+              timeout: 60 * 60 * 1000, // 60分
+              resetTimeoutOnProgress: true,
+              signal: extra.signal,
+              onprogress: createProgressRelay(
+                request.params._meta?.progressToken,
+                extra,
+              ),
+            },
+          );
+          return result as CallToolResult;
+        } catch (error: any) {
+          // If already McpError, re-throw as-is to avoid wrapping
+          if (error instanceof McpError) {
+            throw error;
+          }
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Error calling tool ${request.params.name}: ${error.message}`,
+          );
         }
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Error calling tool ${request.params.name}: ${error.message}`,
-        );
-      }
-    });
+      },
+    );
 
     // List Resources
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -3,7 +3,13 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { MCPAggregator } from "../mcp-aggregator.js";
-import type { ServeServerConfig } from "@mcp_router/shared";
+import type { ServeServerConfig, ToolNamingStrategy } from "@mcp_router/shared";
+
+const TOOL_NAMING_STRATEGIES: ToolNamingStrategy[] = [
+  "raw",
+  "prefix",
+  "prefix-on-collision",
+];
 
 /**
  * Executes the serve command, starting an HTTP server that accepts
@@ -31,12 +37,14 @@ function parseArgs(args: string[]): {
   servers: ServeServerConfig[];
   verbose?: boolean;
   token?: string;
+  toolNaming?: ToolNamingStrategy;
 } {
   const options = {
     port: 3283,
     servers: [] as ServeServerConfig[],
     verbose: false,
     token: undefined as string | undefined,
+    toolNaming: undefined as ToolNamingStrategy | undefined,
   };
 
   let i = 0;
@@ -47,6 +55,15 @@ function parseArgs(args: string[]): {
     } else if (args[i] === "--token" && i + 1 < args.length) {
       options.token = args[i + 1];
       i += 2;
+    } else if (args[i] === "--tool-naming" && i + 1 < args.length) {
+      const strategy = args[i + 1] as ToolNamingStrategy;
+      if (!TOOL_NAMING_STRATEGIES.includes(strategy)) {
+        throw new Error(
+          `Invalid --tool-naming value: ${args[i + 1]} (expected one of ${TOOL_NAMING_STRATEGIES.join(", ")})`,
+        );
+      }
+      options.toolNaming = strategy;
+      i += 2;
     } else if (args[i] === "--verbose" || args[i] === "-v") {
       options.verbose = true;
       i++;
@@ -95,8 +112,8 @@ function parseArgs(args: string[]): {
   if (options.servers.length === 0) {
     throw new Error(
       "No servers specified. Usage:\n" +
-        "  Single server: mcpr-cli serve [--port <port>] [--token <token>] [--verbose] <command> [args...]\n" +
-        "  Multiple servers: mcpr-cli serve [--port <port>] [--token <token>] [--verbose] --server <id> <name> <command> [args...] [--server ...]",
+        "  Single server: mcpr-cli serve [--port <port>] [--token <token>] [--tool-naming <raw|prefix|prefix-on-collision>] [--verbose] <command> [args...]\n" +
+        "  Multiple servers: mcpr-cli serve [--port <port>] [--token <token>] [--tool-naming <raw|prefix|prefix-on-collision>] [--verbose] --server <id> <name> <command> [args...] [--server ...]",
     );
   }
 
@@ -121,6 +138,7 @@ class StdioMcpBridgeServer {
       servers: ServeServerConfig[];
       verbose?: boolean;
       token?: string;
+      toolNaming?: ToolNamingStrategy;
     },
   ) {}
 
@@ -129,7 +147,9 @@ class StdioMcpBridgeServer {
    */
   async start(): Promise<void> {
     // Create the aggregator
-    this.aggregator = new MCPAggregator();
+    this.aggregator = new MCPAggregator({
+      toolNamingStrategy: this.options.toolNaming,
+    });
 
     // Create HTTP server and start listening immediately
     this.httpServer = createServer(async (req, res) => {
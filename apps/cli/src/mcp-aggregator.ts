@@ -1,5 +1,6 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
   ErrorCode,
@@ -11,7 +12,36 @@ import {
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { ServerClient } from "@mcp_router/shared";
+import type {
+  createPrefixedToolName as sharedCreatePrefixedToolName,
+  ServerClient,
+  TOOL_NAME_SEPARATOR as SHARED_TOOL_NAME_SEPARATOR,
+  ToolNamingStrategy,
+} from "@mcp_router/shared";
+import { createProgressRelay } from "./progress.js";
+
+/*
+ * @mcp_router/shared is only available to the CLI at compile time (it is
+ * not a runtime dependency of the published package), so the naming helpers
+ * are mirrored here. Their types are taken from the shared definitions,
+ * which makes the build fail if the separator or signature drifts.
+ */
+
+/**
+ * Separator between the server prefix and the tool name
+ */
+const TOOL_NAME_SEPARATOR: typeof SHARED_TOOL_NAME_SEPARATOR = "__";
+
+/**
+ * Create a server-prefixed tool name, e.g. `filesystem__read_file`
+ */
+const createPrefixedToolName: typeof sharedCreatePrefixedToolName = (
+  serverName,
+  toolName,
+) => {
+  const safeServerName = serverName.replace(/[^A-Za-z0-9_-]/g, "_");
+  return `${safeServerName}${TOOL_NAME_SEPARATOR}${toolName}`;
+};
 
 /**
  * Pure MCP Aggregator that combines capabilities from multiple MCP servers
@@ -19,10 +49,15 @@ import type { ServerClient } from "@mcp_router/shared";
 export class MCPAggregator {
   private server: Server;
   private clients: Map<string, ServerClient> = new Map();
-  private toolToServerMap: Map<string, string> = new Map();
+  private toolToServerMap: Map<string, { serverId: string; toolName: string }> =
+    new Map();
   private resourceProtocolMap: Map<string, string> = new Map();
+  private toolNamingStrategy: ToolNamingStrategy;
+
+  constructor(options: { toolNamingStrategy?: ToolNamingStrategy } = {}) {
+    this.toolNamingStrategy =
+      options.toolNamingStrategy ?? "prefix-on-collision";
 
-  constructor() {
     this.server = new Server(
       {
         name: "mcp-aggregator",
@@ -61,8 +96,8 @@ export class MCPAggregator {
     const serverClient = this.clients.get(id);
     if (serverClient) {
       // Clean up tool mappings for this server
-      for (const [toolName, serverId] of this.toolToServerMap) {
-        if (serverId === id) {
+      for (const [toolName, target] of this.toolToServerMap) {
+        if (target.serverId === id) {
           this.toolToServerMap.delete(toolName);
         }
       }
@@ -81,9 +116,18 @@ export class MCPAggregator {
     });
 
     // Call Tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      return await this.callTool(request.params);
-    });
+    this.server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request, extra) => {
+        return await this.callTool(request.params, {
+          signal: extra.signal,
+          onprogress: createProgressRelay(
+            request.params._meta?.progressToken,
+            extra,
+          ),
+        });
+      },
+    );
 
     // List Resources
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -136,7 +180,7 @@ export class MCPAggregator {
         try {
           const response = await serverClient.client.listTools();
           if (response && Array.isArray(response.tools)) {
-            return { serverId: serverClient.id, tools: response.tools };
+            return { serverClient, tools: response.tools };
           }
         } catch (error) {
           console.error(
@@ -150,13 +194,49 @@ export class MCPAggregator {
 
     const results = await Promise.all(toolPromises);
 
+    // Find tool names exposed by more than one server
+    const serversByTool = new Map<string, string[]>();
+    for (const result of results) {
+      if (!result) {
+        continue;
+      }
+      for (const tool of result.tools) {
+        const serverNames = serversByTool.get(tool.name) ?? [];
+        serverNames.push(result.serverClient.name);
+        serversByTool.set(tool.name, serverNames);
+      }
+    }
+    for (const [toolName, serverNames] of serversByTool) {
+      if (serverNames.length > 1) {
+        console.error(
+          `Tool name collision: "${toolName}" is provided by ${serverNames.join(", ")} (strategy: ${this.toolNamingStrategy})`,
+        );
+      }
+    }
+
     // Process results
     for (const result of results) {
       if (result) {
         for (const tool of result.tools) {
+          const shouldPrefix =
+            this.toolNamingStrategy === "prefix" ||
+            (this.toolNamingStrategy === "prefix-on-collision" &&
+              (serversByTool.get(tool.name)?.length ?? 0) > 1);
+          const exposedName = shouldPrefix
+            ? createPrefixedToolName(result.serverClient.name, tool.name)
+            : tool.name;
+
+          // raw: the first server to expose a name keeps it
+          if (this.toolToServerMap.has(exposedName)) {
+            continue;
+          }
+
           // Map tool to server
-          this.toolToServerMap.set(tool.name, result.serverId);
-          allTools.push(tool);
+          this.toolToServerMap.set(exposedName, {
+            serverId: result.serverClient.id,
+            toolName: tool.name,
+          });
+          allTools.push({ ...tool, name: exposedName });
         }
       }
     }
@@ -167,15 +247,18 @@ export class MCPAggregator {
   /**
    * Call a tool on the appropriate server
    */
-  private async callTool(params: any): Promise<any> {
+  private async callTool(
+    params: any,
+    options: Pick<RequestOptions, "signal" | "onprogress"> = {},
+  ): Promise<any> {
     const { name, arguments: args } = params;
-    const serverId = this.toolToServerMap.get(name);
+    const target = this.toolToServerMap.get(name);
 
-    if (!serverId) {
+    if (!target) {
       throw new McpError(ErrorCode.InvalidRequest, `Tool not found: ${name}`);
     }
 
-    const serverClient = this.clients.get(serverId);
+    const serverClient = this.clients.get(target.serverId);
     if (!serverClient) {
       throw new McpError(
         ErrorCode.InvalidRequest,
@@ -186,13 +269,14 @@ export class MCPAggregator {
     try {
       return await serverClient.client.callTool(
         {
-          name,
+          name: target.toolName,
           arguments: args || {},
         },
         undefined,
         {
           timeout: 60 * 60 * 1000, // 60分
           resetTimeoutOnProgress: true,
+          ...options,
         },
       );
     } catch (error) {
@@ -0,0 +1,32 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  Progress,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Create an onprogress callback that re-emits upstream progress to the
+ * calling client under the progress token it sent.
+ * Returns undefined when the caller did not request progress.
+ */
+export function createProgressRelay(
+  progressToken: ProgressToken | undefined,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): ((progress: Progress) => void) | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  return (progress: Progress) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { ...progress, progressToken },
+      })
+      .catch((error) => {
+        console.error("Failed to relay progress notification:", error);
+      });
+  };
+}
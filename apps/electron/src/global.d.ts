@@ -7,6 +7,9 @@ import type {
   MCPTool,
   MCPServer,
   Project,
+  ProjectUpdates,
+  RequestLogStatus,
+  ServerLogEntry,
   TokenServerAccess,
 } from "@mcp_router/shared";
 import {
@@ -50,6 +53,10 @@ declare global {
         id: string,
         permissions: Record<string, boolean>,
       ) => Promise<MCPServer>;
+      getMcpServerLogs: (id: string) => Promise<ServerLogEntry[]>;
+      onMcpServerLogs: (
+        callback: (serverId: string, entries: ServerLogEntry[]) => void,
+      ) => () => void;
 
       getRequestLogs: (options?: {
         clientId?: string;
@@ -57,7 +64,7 @@ declare global {
         requestType?: string;
         startDate?: Date;
         endDate?: Date;
-        responseStatus?: "success" | "error";
+        responseStatus?: RequestLogStatus;
         cursor?: string;
         limit?: number;
       }) => Promise<{
@@ -66,6 +73,7 @@ declare global {
         nextCursor?: string;
         hasMore: boolean;
       }>;
+      getRequestLogClients: () => Promise<string[]>;
 
       // Settings Management
       getSettings: () => Promise<AppSettings>;
@@ -142,10 +150,7 @@ declare global {
       // Projects Management
       listProjects: () => Promise<Project[]>;
       createProject: (input: { name: string }) => Promise<Project>;
-      updateProject: (
-        id: string,
-        updates: { name?: string },
-      ) => Promise<Project>;
+      updateProject: (id: string, updates: ProjectUpdates) => Promise<Project>;
       deleteProject: (id: string) => Promise<void>;
 
       // Workflow Management
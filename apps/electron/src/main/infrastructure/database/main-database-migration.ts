@@ -83,6 +83,37 @@ export class MainDatabaseMigration {
       execute: (db) => this.migrateAddToolPermissionsColumn(db),
     });
 
+    this.migrations.push({
+      id: "20261019_add_server_request_policy_column",
+      description: "Add server_request_policy column to servers table",
+      execute: (db) => this.migrateAddServerRequestPolicyColumn(db),
+    });
+
+    this.migrations.push({
+      id: "20261020_add_project_roots_columns",
+      description:
+        "Add roots and forward_client_roots columns to projects table",
+      execute: (db) => this.migrateAddProjectRootsColumns(db),
+    });
+
+    this.migrations.push({
+      id: "20261021_add_tool_call_limit_columns",
+      description: "Add tool call timeout and concurrency columns to servers",
+      execute: (db) => this.migrateAddToolCallLimitColumns(db),
+    });
+
+    this.migrations.push({
+      id: "20261022_add_tool_output_limit_columns",
+      description: "Add tool output limit columns to servers",
+      execute: (db) => this.migrateAddToolOutputLimitColumns(db),
+    });
+
+    this.migrations.push({
+      id: "20261023_add_workflow_priority_scope_columns",
+      description: "Add priority and scope columns to workflows table",
+      execute: (db) => this.migrateAddWorkflowPriorityScopeColumns(db),
+    });
+
     // Projects feature (servers.project_id 列とインデックス)
     this.migrations.push({
       id: "20251101_projects_bootstrap",
@@ -497,6 +528,173 @@ export class MainDatabaseMigration {
     }
   }
 
+  /**
+   * server_request_policy列を追加するマイグレーション
+   */
+  private migrateAddServerRequestPolicyColumn(db: SqliteManager): void {
+    try {
+      const tableExists = db.get(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name = 'servers'",
+        {},
+      );
+
+      if (!tableExists) {
+        console.log("servers table does not exist, skipping this migration");
+        return;
+      }
+
+      const tableInfo = db.all("PRAGMA table_info(servers)");
+      const columnNames = tableInfo.map((col: any) => col.name);
+
+      if (!columnNames.includes("server_request_policy")) {
+        console.log("Adding server_request_policy column to servers");
+        db.execute("ALTER TABLE servers ADD COLUMN server_request_policy TEXT");
+        console.log("server_request_policy column added");
+      } else {
+        console.log("server_request_policy column already exists, skipping");
+      }
+    } catch (error) {
+      console.error("Error while adding server_request_policy column:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * projectsテーブルにroots/forward_client_roots列を追加するマイグレーション
+   * テーブルが未作成の場合はProjectRepositoryが新しいスキーマで作成する
+   */
+  private migrateAddProjectRootsColumns(db: SqliteManager): void {
+    try {
+      const tableExists = db.get(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name = 'projects'",
+        {},
+      );
+
+      if (!tableExists) {
+        console.log("projects table does not exist, skipping this migration");
+        return;
+      }
+
+      const tableInfo = db.all("PRAGMA table_info(projects)");
+      const columnNames = tableInfo.map((col: any) => col.name);
+
+      if (!columnNames.includes("roots")) {
+        db.execute("ALTER TABLE projects ADD COLUMN roots TEXT");
+      }
+      if (!columnNames.includes("forward_client_roots")) {
+        db.execute(
+          "ALTER TABLE projects ADD COLUMN forward_client_roots INTEGER NOT NULL DEFAULT 0",
+        );
+      }
+    } catch (error) {
+      console.error("Error while adding project roots columns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * serversテーブルにツール呼び出しのタイムアウト/同時実行数の列を追加するマイグレーション
+   */
+  private migrateAddToolCallLimitColumns(db: SqliteManager): void {
+    try {
+      const tableExists = db.get(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name = 'servers'",
+        {},
+      );
+
+      if (!tableExists) {
+        console.log("servers table does not exist, skipping this migration");
+        return;
+      }
+
+      const tableInfo = db.all("PRAGMA table_info(servers)");
+      const columnNames = tableInfo.map((col: any) => col.name);
+
+      const columns: Array<[string, string]> = [
+        ["tool_call_timeout_sec", "INTEGER"],
+        ["tool_timeout_overrides", "TEXT"],
+        ["max_concurrent_tool_calls", "INTEGER"],
+      ];
+      for (const [name, type] of columns) {
+        if (!columnNames.includes(name)) {
+          db.execute(`ALTER TABLE servers ADD COLUMN ${name} ${type}`);
+        }
+      }
+    } catch (error) {
+      console.error("Error while adding tool call limit columns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * serversテーブルにツール出力の文字数上限の列を追加するマイグレーション
+   */
+  private migrateAddToolOutputLimitColumns(db: SqliteManager): void {
+    try {
+      const tableExists = db.get(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name = 'servers'",
+        {},
+      );
+
+      if (!tableExists) {
+        console.log("servers table does not exist, skipping this migration");
+        return;
+      }
+
+      const tableInfo = db.all("PRAGMA table_info(servers)");
+      const columnNames = tableInfo.map((col: any) => col.name);
+
+      const columns: Array<[string, string]> = [
+        ["max_tool_output_chars", "INTEGER"],
+        ["tool_output_limit_overrides", "TEXT"],
+      ];
+      for (const [name, type] of columns) {
+        if (!columnNames.includes(name)) {
+          db.execute(`ALTER TABLE servers ADD COLUMN ${name} ${type}`);
+        }
+      }
+    } catch (error) {
+      console.error("Error while adding tool output limit columns:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * workflowsテーブルに優先度と適用範囲の列を追加するマイグレーション
+   */
+  private migrateAddWorkflowPriorityScopeColumns(db: SqliteManager): void {
+    try {
+      const tableExists = db.get(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name = 'workflows'",
+        {},
+      );
+
+      if (!tableExists) {
+        console.log("workflows table does not exist, skipping this migration");
+        return;
+      }
+
+      const tableInfo = db.all("PRAGMA table_info(workflows)");
+      const columnNames = tableInfo.map((col: any) => col.name);
+
+      const columns: Array<[string, string]> = [
+        ["priority", "INTEGER DEFAULT 0"],
+        ["scope", "TEXT"],
+      ];
+      for (const [name, type] of columns) {
+        if (!columnNames.includes(name)) {
+          db.execute(`ALTER TABLE workflows ADD COLUMN ${name} ${type}`);
+        }
+      }
+    } catch (error) {
+      console.error(
+        "Error while adding workflow priority/scope columns:",
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * トークンテーブルをメインDBに確実に作成するマイグレーション
    */
@@ -93,8 +93,15 @@ function cleanAIResponse(text: string): string {
   return result.trim();
 }
 
+// Embedding 缓存上限（条），工具文本很少变化，缓存可避免每次搜索都重新请求
+const MAX_EMBEDDING_CACHE_SIZE = 5000;
+
+// Embedding 请求超时（毫秒），超时后搜索回退到 BM25，而不是一直等待
+const EMBEDDING_TIMEOUT_MS = 10 * 1000;
+
 export class AISummaryService {
   private config: AIConfig;
+  private embeddingCache: Map<string, number[]> = new Map();
 
   constructor() {
     this.config = getSharedConfigManager().getAIConfig();
@@ -294,6 +301,74 @@ Generate a concise description (max 50 characters) for this MCP server:`;
     }
   }
 
+  /**
+   * 检查是否可以生成Embedding（已启用且配置了Embedding模型）
+   */
+  public isEmbeddingEnabled(): boolean {
+    return (
+      this.config.enabled &&
+      Boolean(this.config.baseUrl) &&
+      Boolean(this.config.apiKey) &&
+      Boolean(this.config.embeddingModel?.trim())
+    );
+  }
+
+  /**
+   * 使用 /embeddings 接口生成文本向量，未启用时返回 null
+   */
+  public async createEmbeddings(texts: string[]): Promise<number[][] | null> {
+    if (!this.isEmbeddingEnabled()) {
+      return null;
+    }
+
+    const model = this.config.embeddingModel!.trim();
+    const cacheKey = (text: string) =>
+      `${this.config.baseUrl}\n${model}\n${text}`;
+    const missing = Array.from(
+      new Set(texts.filter((text) => !this.embeddingCache.has(cacheKey(text)))),
+    );
+
+    if (missing.length > 0) {
+      const response = await fetch(`${this.config.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, input: missing }),
+        signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding API error: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      const items: Array<{ index?: number; embedding: number[] }> =
+        data.data || [];
+      if (items.length !== missing.length) {
+        throw new Error("Unexpected embedding response");
+      }
+      items.forEach((item, i) => {
+        this.cacheEmbedding(cacheKey(missing[item.index ?? i]), item.embedding);
+      });
+    }
+
+    return texts.map((text) => this.embeddingCache.get(cacheKey(text)) ?? []);
+  }
+
+  private cacheEmbedding(key: string, embedding: number[]): void {
+    if (this.embeddingCache.size >= MAX_EMBEDDING_CACHE_SIZE) {
+      // Map 保持插入顺序，删除最早的一条
+      const oldest = this.embeddingCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.embeddingCache.delete(oldest);
+      }
+    }
+    this.embeddingCache.set(key, embedding);
+  }
+
   /**
    * 检查是否已配置且启用
    */
@@ -0,0 +1,55 @@
+/**
+ * Entry Endpoints
+ * 命名入口端点（/mcp/e/<name>）的查找与服务器筛选
+ */
+
+import {
+  ENTRY_ENDPOINT_NAME_PATTERN,
+  type EntryEndpointConfig,
+  type MCPServer,
+} from "@mcp_router/shared";
+
+/**
+ * 命名入口端点的路径前缀
+ */
+export const ENTRY_ENDPOINT_PATH_PREFIX = "/mcp/e/";
+
+/**
+ * 命名入口端点的技能名称前缀
+ */
+export const ENTRY_ENDPOINT_SKILL_PREFIX = "mcp-router-";
+
+/**
+ * 按名称查找端点；名称格式不正确时视为不存在
+ */
+export function findEntryEndpoint(
+  endpoints: EntryEndpointConfig[] | undefined,
+  name: string,
+): EntryEndpointConfig | undefined {
+  if (!ENTRY_ENDPOINT_NAME_PATTERN.test(name)) {
+    return undefined;
+  }
+  return endpoints?.find((endpoint) => endpoint.name === name);
+}
+
+/**
+ * 服务器是否属于端点：被直接选中，或属于端点指定的项目
+ */
+export function isServerInEntryEndpoint(
+  endpoint: EntryEndpointConfig,
+  server: Pick<MCPServer, "id" | "projectId">,
+): boolean {
+  return (
+    endpoint.serverIds.includes(server.id) ||
+    (!!endpoint.projectId && server.projectId === endpoint.projectId)
+  );
+}
+
+/**
+ * 端点对应的技能名称（也用作 SKILL.md 所在的目录名）
+ */
+export function getEntryEndpointSkillName(
+  endpoint: EntryEndpointConfig,
+): string {
+  return `${ENTRY_ENDPOINT_SKILL_PREFIX}${endpoint.name}`;
+}
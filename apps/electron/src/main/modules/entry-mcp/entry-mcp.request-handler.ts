@@ -0,0 +1,127 @@
+/**
+ * Entry MCP Request Handler
+ * 让入口模式的工具调用与聚合模式共用 Workflow/Hook 管线和日志
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerBase } from "@/main/modules/mcp-server-runtime/request-handler-base";
+import { TokenValidator } from "@/main/modules/mcp-server-runtime/token-validator";
+import { getLogService } from "@/main/modules/mcp-logger/mcp-logger.service";
+import { ENTRY_FALLBACK_CLIENT_ID } from "./entry-mcp.service";
+
+export class EntryRequestHandler extends RequestHandlerBase {
+  constructor() {
+    // 只用于解析 token 对应的客户端，不需要服务器名称映射
+    super(new TokenValidator(new Map()));
+  }
+
+  /**
+   * 根据 token 获取调用方的客户端ID
+   */
+  public resolveClientId(token?: string): string {
+    return token ? this.getClientId(token) : ENTRY_FALLBACK_CLIENT_ID;
+  }
+
+  /**
+   * 执行 call_mcp_tool：经过 tools/call 类型的 Workflow，并以 CallTool 记录日志
+   * handler 收到的参数可能已被 Workflow 的前置 Hook 改写
+   */
+  public async handleToolCall<T>(
+    target: {
+      serverName: string;
+      toolName: string;
+      arguments: Record<string, unknown>;
+      projectId?: string | null;
+    },
+    clientId: string,
+    handler: (args: Record<string, unknown>) => Promise<T>,
+  ): Promise<T> {
+    return this.executeWithHooksAndLogging(
+      "tools/call",
+      { name: target.toolName, arguments: target.arguments },
+      clientId,
+      target.serverName,
+      "CallTool",
+      (params) => handler(params?.arguments ?? {}),
+      {
+        serverName: target.serverName,
+        toolName: target.toolName,
+        projectId: target.projectId,
+      },
+    );
+  }
+
+  /**
+   * 执行 read_mcp_resource：与聚合模式的 resources/read 相同
+   * handler 收到的 URI 可能已被 Workflow 的前置 Hook 改写（服务器仍为 target.serverName）
+   */
+  public async handleResourceRead<T>(
+    target: { serverName: string; uri: string; projectId?: string | null },
+    clientId: string,
+    handler: (uri: string) => Promise<T>,
+  ): Promise<T> {
+    return this.executeWithHooksAndLogging(
+      "resources/read",
+      { uri: target.uri },
+      clientId,
+      target.serverName,
+      "ReadResource",
+      (params) => {
+        if (typeof params?.uri !== "string" || !params.uri) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid resource URI for server ${target.serverName}`,
+          );
+        }
+        return handler(params.uri);
+      },
+      { serverName: target.serverName, projectId: target.projectId },
+    );
+  }
+
+  /**
+   * 执行 get_mcp_prompt：与聚合模式的 prompts/get 相同
+   * handler 收到的参数可能已被 Workflow 的前置 Hook 改写
+   */
+  public async handlePromptGet<T>(
+    target: {
+      serverName: string;
+      promptName: string;
+      arguments: Record<string, unknown>;
+      projectId?: string | null;
+    },
+    clientId: string,
+    handler: (args: Record<string, unknown>) => Promise<T>,
+  ): Promise<T> {
+    return this.executeWithHooksAndLogging(
+      "prompts/get",
+      { name: target.promptName, arguments: target.arguments },
+      clientId,
+      target.serverName,
+      "GetPrompt",
+      (params) => handler(params?.arguments ?? {}),
+      { serverName: target.serverName, projectId: target.projectId },
+    );
+  }
+
+  /**
+   * 记录入口元工具（list_mcp_servers 等）的请求日志
+   */
+  public recordRequest(
+    requestType: string,
+    params: any,
+    clientId: string,
+    startTime: number,
+    errorMessage?: string,
+  ): void {
+    getLogService().recordMcpRequestLog({
+      timestamp: new Date().toISOString(),
+      requestType,
+      params,
+      result: errorMessage ? "error" : "success",
+      errorMessage,
+      duration: Date.now() - startTime,
+      clientId,
+    });
+  }
+}
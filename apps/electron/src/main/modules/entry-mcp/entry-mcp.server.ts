@@ -1,36 +1,61 @@
 /**
  * Entry MCP Server
- * 入口MCP服务器，只暴露两个工具：list_mcp_tools 和 call_mcp_tool
+ * 入口MCP服务器，只暴露用于发现和调用工具的元工具
  */
 
+import type { IncomingMessage, ServerResponse } from "http";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type ProgressToken,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { MCPServer, MCPToolInfo } from "@mcp_router/shared";
+import type {
+  CallMCPToolParams,
+  CallMCPToolsBatchResult,
+  EntryEndpointConfig,
+  MCPToolInfo,
+  PinnedToolRef,
+  SearchMCPToolsResult,
+  ToolResultContent,
+} from "@mcp_router/shared";
 import {
   EntryMCPService,
   getEntryMCPService,
+  type EntryAccessContext,
   type EntryMCPServiceDeps,
 } from "./entry-mcp.service";
 import { getLogService } from "@/main/modules/mcp-logger/mcp-logger.service";
+import { EntryRequestHandler } from "./entry-mcp.request-handler";
+import { getSettingsService } from "@/main/modules/settings/settings.service";
+import { StreamableSessionManager } from "@/main/modules/mcp-server-runtime/streamable-session-manager";
+import {
+  createProgressRelay,
+  type InboundRequestExtra,
+} from "@/main/utils/progress-utils";
+import { resolvePinningConfig } from "./tool-pinning";
+import { findEntryEndpoint } from "./entry-endpoints";
+import { getEntryMessages, type EntryMessages } from "./entry-messages";
 
 export type EntryMCPServerDeps = EntryMCPServiceDeps;
 
 /**
  * 入口MCP服务器
- * 将所有MCP服务器抽象为两个工具：list_mcp_tools 和 call_mcp_tool
+ * 将所有MCP服务器的工具、资源和提示词抽象为少量元工具（list_mcp_tools、call_mcp_tool 等）
+ * 指定 endpointName 时作为命名入口端点（/mcp/e/<name>），只暴露该端点选中的服务器
  */
 export class EntryMCPServer {
-  private server!: Server;
-  private transport!: StreamableHTTPServerTransport;
+  private sessionManager!: StreamableSessionManager;
   private service: EntryMCPService;
+  private requestHandler: EntryRequestHandler = new EntryRequestHandler();
+  // 混合模式：每个调用方（客户端+项目）最近一次 tools/list 暴露的固定工具
+  private pinnedToolMaps: Map<string, Map<string, PinnedToolRef>> = new Map();
   private initialized: Promise<void>;
+  private endpointName?: string;
 
-  constructor(deps: EntryMCPServerDeps) {
+  constructor(deps: EntryMCPServerDeps, endpointName?: string) {
     this.service = getEntryMCPService(deps);
+    this.endpointName = endpointName;
     this.initialized = this.initServer();
   }
 
@@ -46,34 +71,14 @@ export class EntryMCPServer {
    */
   private async initServer(): Promise<void> {
     try {
-      this.server = new Server(
-        {
-          name: "mcp-router-entry",
-          version: "1.0.0",
-        },
-        {
-          capabilities: {
-            tools: {},
-          },
-        },
-      );
-
-      this.setupHandlers();
-
-      this.server.onerror = (error) => {
-        console.error("[Entry MCP Server Error]", error);
-        getLogService().recordMcpRequestLog({
-          timestamp: new Date().toISOString(),
-          requestType: "EntryServerError",
-          params: {},
-          result: "error",
-          errorMessage: error.message || "Unknown server error",
-          duration: 0,
-          clientId: "entry-mcp-system",
-        });
-      };
-
-      await this.startServer();
+      this.sessionManager = new StreamableSessionManager({
+        name: this.endpointName
+          ? `EntryMCPServer:${this.endpointName}`
+          : "EntryMCPServer",
+        createServer: () => this.createServer(),
+        isStateless: () =>
+          !!getSettingsService().getSettings().mcpStatelessHttp,
+      });
       console.log("[EntryMCPServer] Initialized successfully");
     } catch (error) {
       console.error("[EntryMCPServer] Failed to initialize:", error);
@@ -81,70 +86,150 @@ export class EntryMCPServer {
     }
   }
 
+  /**
+   * 创建MCP服务器实例（每个会话一个）
+   */
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: this.endpointName
+          ? `mcp-router-entry-${this.endpointName}`
+          : "mcp-router-entry",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+        },
+        instructions: this.getEndpoint()?.description || undefined,
+      },
+    );
+
+    this.setupHandlers(server);
+
+    server.onerror = (error) => {
+      console.error("[Entry MCP Server Error]", error);
+      getLogService().recordMcpRequestLog({
+        timestamp: new Date().toISOString(),
+        requestType: "EntryServerError",
+        params: {},
+        result: "error",
+        errorMessage: error.message || "Unknown server error",
+        duration: 0,
+        clientId: "entry-mcp-system",
+      });
+    };
+
+    return server;
+  }
+
   /**
    * 设置请求处理器
    */
-  private setupHandlers(): void {
-    // 列出工具 - 只返回两个工具
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          EntryMCPService.getListMCPServersDefinition(),
-          EntryMCPService.getListMCPToolsDefinition(),
-          EntryMCPService.getCallMCPToolDefinition(),
-        ],
-      };
+  private setupHandlers(server: Server): void {
+    // 列出工具 - 元工具，混合模式下再加上固定的工具
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const tools: Array<{
+        name: string;
+        description?: string;
+        inputSchema: Record<string, unknown>;
+      }> = EntryMCPService.getMetaToolDefinitions(this.getMessages());
+
+      if (this.isHybridMode()) {
+        const access = this.getAccessContext(request.params?._meta);
+        const pinnedTools = await this.refreshPinnedTools(access);
+        for (const pinned of pinnedTools) {
+          tools.push({
+            name: pinned.exposedName,
+            description: pinned.tool.description,
+            inputSchema: pinned.tool.inputSchema ?? {
+              type: "object",
+              properties: {},
+            },
+          });
+        }
+      }
+
+      return { tools };
     });
 
     // 调用工具
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const toolName = request.params.name;
       const args = request.params.arguments || {};
+      const access = this.getAccessContext(request.params._meta);
+      const clientId = this.requestHandler.resolveClientId(access.token);
+      const messages = this.getMessages();
       const startTime = Date.now();
+      // 转发到上游服务器的调用由 requestHandler 记录日志
+      let forwarded = false;
 
       try {
         let result: any;
 
         if (toolName === "list_mcp_servers") {
-          const servers = this.service.listMCPServers();
-
-          getLogService().recordMcpRequestLog({
-            timestamp: new Date().toISOString(),
-            requestType: "EntryMCP:list_mcp_servers",
-            params: args,
-            result: "success",
-            duration: Date.now() - startTime,
-            clientId: "entry-mcp",
-          });
+          const servers = this.service.listMCPServers(access);
+
+          this.requestHandler.recordRequest(
+            "EntryMCP:list_mcp_servers",
+            args,
+            clientId,
+            startTime,
+          );
 
           return {
-            content: [
-              { type: "text", text: JSON.stringify(servers, null, 2) },
-            ],
+            content: [{ type: "text", text: JSON.stringify(servers, null, 2) }],
             isError: false,
           };
         } else if (toolName === "list_mcp_tools") {
-          result = await this.service.listMCPTools({
-            mcpName: args.mcpName as string | undefined,
-            projectId: args.projectId as string | undefined,
-          });
+          result = await this.service.listMCPTools(
+            {
+              mcpName: args.mcpName as string | undefined,
+              projectId: args.projectId as string | undefined,
+            },
+            access,
+          );
 
           // 格式化输出
-          const formattedOutput = this.formatListResult(result);
-
-          getLogService().recordMcpRequestLog({
-            timestamp: new Date().toISOString(),
-            requestType: "EntryMCP:list_mcp_tools",
-            params: args,
-            result: "success",
-            duration: Date.now() - startTime,
-            clientId: "entry-mcp",
-          });
+          const formattedOutput = this.formatListResult(result, messages);
+
+          this.requestHandler.recordRequest(
+            "EntryMCP:list_mcp_tools",
+            args,
+            clientId,
+            startTime,
+          );
 
           return {
             content: [{ type: "text", text: formattedOutput }],
             isError: false,
           };
+        } else if (toolName === "search_mcp_tools") {
+          const searchResult = await this.service.searchMCPTools(
+            {
+              query: args.query as string,
+              limit: args.limit as number | undefined,
+              mcpName: args.mcpName as string | undefined,
+            },
+            access,
+          );
+
+          this.requestHandler.recordRequest(
+            "EntryMCP:search_mcp_tools",
+            args,
+            clientId,
+            startTime,
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: this.formatSearchResult(searchResult, messages),
+              },
+            ],
+            isError: false,
+          };
         } else if (toolName === "call_mcp_tool") {
           const mcpName = args.mcpName as string;
           const targetToolName = args.toolName as string;
@@ -156,7 +241,7 @@ export class EntryMCPServer {
               content: [
                 {
                   type: "text",
-                  text: "Error: mcpName and toolName are required",
+                  text: `Error: ${messages.t("callTargetRequired")}`,
                 },
               ],
               isError: true,
@@ -173,7 +258,7 @@ export class EntryMCPServer {
               content: [
                 {
                   type: "text",
-                  text: "Error: timeoutSec must be a positive number",
+                  text: `Error: ${messages.t("timeoutSecInvalid")}`,
                 },
               ],
               isError: true,
@@ -183,44 +268,207 @@ export class EntryMCPServer {
           const timeoutSec =
             typeof timeoutSecRaw === "number" ? timeoutSecRaw : undefined;
 
-          result = await this.service.callMCPTool({
-            mcpName,
-            toolName: targetToolName,
-            arguments: toolArgs,
+          forwarded = true;
+          return await this.callUpstreamTool(
+            { mcpName, toolName: targetToolName, arguments: toolArgs },
             timeoutSec,
-          });
+            clientId,
+            access,
+            request.params._meta?.progressToken,
+            extra,
+          );
+        } else if (toolName === "call_mcp_tools_batch") {
+          // 每个调用单独经过 Workflow 并以 CallTool 记录日志
+          forwarded = true;
+          const batchResult = await this.service.callMCPToolsBatch(
+            {
+              calls: args.calls as CallMCPToolParams[],
+              concurrency: args.concurrency as number | undefined,
+            },
+            { signal: extra.signal, origin: extra, clientId },
+            access,
+            (call, execute) =>
+              this.requestHandler.handleToolCall(
+                {
+                  serverName: call.mcpName,
+                  toolName: call.toolName,
+                  arguments: call.arguments,
+                  projectId: access.projectId,
+                },
+                clientId,
+                execute,
+              ),
+          );
+
+          if (batchResult.errorCode) {
+            this.requestHandler.recordRequest(
+              "EntryMCP:call_mcp_tools_batch",
+              args,
+              clientId,
+              startTime,
+              batchResult.message,
+            );
+            return {
+              content: [
+                { type: "text", text: `Error: ${batchResult.message}` },
+              ],
+              isError: true,
+            };
+          }
 
-          getLogService().recordMcpRequestLog({
-            timestamp: new Date().toISOString(),
-            requestType: `EntryMCP:call_mcp_tool(${mcpName}/${targetToolName})`,
-            params: {
-              mcpName,
-              toolName: targetToolName,
-              arguments: toolArgs,
-              timeoutSec,
+          return {
+            content: this.formatBatchResult(batchResult, messages),
+            isError: false,
+          };
+        } else if (toolName === "read_tool_result") {
+          const readResult = this.service.readToolResult(
+            {
+              resultId: args.resultId as string,
+              offset: args.offset as number | undefined,
+              length: args.length as number | undefined,
             },
-            result: result.isError ? "error" : "success",
-            duration: Date.now() - startTime,
-            clientId: "entry-mcp",
-          });
+            clientId,
+          );
+
+          this.requestHandler.recordRequest(
+            "EntryMCP:read_tool_result",
+            args,
+            clientId,
+            startTime,
+            readResult.isError ? readResult.content[0]?.text : undefined,
+          );
+
+          return readResult;
+        } else if (
+          toolName === "list_mcp_resources" ||
+          toolName === "list_mcp_prompts"
+        ) {
+          const mcpName = args.mcpName as string | undefined;
+          const listResult =
+            toolName === "list_mcp_resources"
+              ? await this.service.listMCPResources({ mcpName }, access)
+              : await this.service.listMCPPrompts({ mcpName }, access);
+
+          this.requestHandler.recordRequest(
+            `EntryMCP:${toolName}`,
+            args,
+            clientId,
+            startTime,
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  listResult.message ||
+                  JSON.stringify(listResult.servers, null, 2),
+              },
+            ],
+            isError: false,
+          };
+        } else if (toolName === "read_mcp_resource") {
+          const mcpName = args.mcpName as string;
+          const uri = args.uri as string;
+
+          if (!mcpName || !uri) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error: ${messages.t("resourceTargetRequired")}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          forwarded = true;
+          result = await this.requestHandler.handleResourceRead(
+            { serverName: mcpName, uri, projectId: access.projectId },
+            clientId,
+            (resourceUri) =>
+              this.service.readMCPResource(
+                { mcpName, uri: resourceUri },
+                { signal: extra.signal, origin: extra, clientId },
+                access,
+              ),
+          );
+
+          return result;
+        } else if (toolName === "get_mcp_prompt") {
+          const mcpName = args.mcpName as string;
+          const promptName = args.promptName as string;
+          const promptArgs = (args.arguments || {}) as Record<string, unknown>;
+
+          if (!mcpName || !promptName) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error: ${messages.t("promptTargetRequired")}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          forwarded = true;
+          result = await this.requestHandler.handlePromptGet(
+            {
+              serverName: mcpName,
+              promptName,
+              arguments: promptArgs,
+              projectId: access.projectId,
+            },
+            clientId,
+            (promptArguments) =>
+              this.service.getMCPPrompt(
+                { mcpName, promptName, arguments: promptArguments },
+                { signal: extra.signal, origin: extra, clientId },
+                access,
+              ),
+          );
 
           return result;
+        }
+
+        // 混合模式下直接调用固定的工具
+        const pinned = this.isHybridMode()
+          ? await this.findPinnedTool(toolName, access)
+          : undefined;
+        if (pinned) {
+          forwarded = true;
+          return await this.callUpstreamTool(
+            {
+              mcpName: pinned.serverName,
+              toolName: pinned.toolName,
+              arguments: args,
+            },
+            undefined,
+            clientId,
+            access,
+            request.params._meta?.progressToken,
+            extra,
+          );
         } else {
           return {
-            content: [{ type: "text", text: `Unknown tool: ${toolName}` }],
+            content: [
+              { type: "text", text: messages.t("unknownTool", { toolName }) },
+            ],
             isError: true,
           };
         }
       } catch (error: any) {
-        getLogService().recordMcpRequestLog({
-          timestamp: new Date().toISOString(),
-          requestType: `EntryMCP:${toolName}`,
-          params: args,
-          result: "error",
-          errorMessage: error.message,
-          duration: Date.now() - startTime,
-          clientId: "entry-mcp",
-        });
+        if (!forwarded) {
+          this.requestHandler.recordRequest(
+            `EntryMCP:${toolName}`,
+            args,
+            clientId,
+            startTime,
+            error.message,
+          );
+        }
 
         return {
           content: [{ type: "text", text: `Error: ${error.message}` }],
@@ -230,10 +478,135 @@ export class EntryMCPServer {
     });
   }
 
+  /**
+   * 调用上游服务器的工具：与聚合模式的 tools/call 相同，经过 Workflow 并记录 CallTool 日志
+   */
+  private async callUpstreamTool(
+    target: {
+      mcpName: string;
+      toolName: string;
+      arguments: Record<string, unknown>;
+    },
+    timeoutSec: number | undefined,
+    clientId: string,
+    access: EntryAccessContext,
+    progressToken: ProgressToken | undefined,
+    extra: InboundRequestExtra,
+  ): Promise<any> {
+    return this.requestHandler.handleToolCall(
+      {
+        serverName: target.mcpName,
+        toolName: target.toolName,
+        arguments: target.arguments,
+        projectId: access.projectId,
+      },
+      clientId,
+      (args) =>
+        this.service.callMCPTool(
+          { ...target, arguments: args, timeoutSec },
+          {
+            signal: extra.signal,
+            origin: extra,
+            clientId,
+            onprogress: createProgressRelay(progressToken, extra),
+          },
+          access,
+        ),
+    );
+  }
+
+  private isHybridMode(): boolean {
+    return getSettingsService().getSettings().mcpEndpointMode === "hybrid";
+  }
+
+  /**
+   * 重新计算调用方的固定工具并记住名称映射
+   */
+  private async refreshPinnedTools(access: EntryAccessContext) {
+    const settings = getSettingsService().getSettings();
+    const clientId = access.token
+      ? this.requestHandler.resolveClientId(access.token)
+      : undefined;
+    const config = resolvePinningConfig(
+      settings.hybridEndpoint,
+      clientId,
+      access.projectId,
+    );
+    const pinnedTools = await this.service.listPinnedTools(config, access);
+
+    this.pinnedToolMaps.set(
+      this.getPinnedToolKey(access),
+      new Map(
+        pinnedTools.map((p) => [
+          p.exposedName,
+          { serverName: p.serverName, toolName: p.toolName },
+        ]),
+      ),
+    );
+    return pinnedTools;
+  }
+
+  /**
+   * 按暴露名称查找固定工具；客户端未先调用 tools/list 时重新计算
+   */
+  private async findPinnedTool(
+    exposedName: string,
+    access: EntryAccessContext,
+  ): Promise<PinnedToolRef | undefined> {
+    const key = this.getPinnedToolKey(access);
+    if (!this.pinnedToolMaps.get(key)?.has(exposedName)) {
+      await this.refreshPinnedTools(access);
+    }
+    return this.pinnedToolMaps.get(key)?.get(exposedName);
+  }
+
+  private getPinnedToolKey(access: EntryAccessContext): string {
+    return `${access.token ?? ""}\n${access.projectId ?? ""}`;
+  }
+
+  /**
+   * 从请求元数据中读取调用方的 token 与项目（由 MCPHttpServer 注入）
+   * 命名入口端点再加上当前的端点配置，修改服务器选择后立即生效
+   */
+  private getAccessContext(
+    meta: Record<string, unknown> | undefined,
+  ): EntryAccessContext {
+    return {
+      token: typeof meta?.token === "string" ? meta.token : undefined,
+      projectId:
+        typeof meta?.projectId === "string" && meta.projectId
+          ? meta.projectId
+          : null,
+      endpoint: this.endpointName
+        ? (this.getEndpoint() ?? { name: this.endpointName, serverIds: [] })
+        : undefined,
+    };
+  }
+
+  /**
+   * 当前的命名入口端点配置（端点被删除后返回 undefined）
+   */
+  private getEndpoint(): EntryEndpointConfig | undefined {
+    if (!this.endpointName) {
+      return undefined;
+    }
+    return findEntryEndpoint(
+      getSettingsService().getSettings().entryEndpoints,
+      this.endpointName,
+    );
+  }
+
+  /**
+   * 当前设置的面向模型的文本目录
+   */
+  private getMessages(): EntryMessages {
+    return getEntryMessages(getSettingsService().getSettings());
+  }
+
   /**
    * 格式化list_mcp_tools的结果
    */
-  private formatListResult(result: any): string {
+  private formatListResult(result: any, messages: EntryMessages): string {
     const { servers, message } = result;
 
     // 如果有提示信息（没有指定mcpName的情况）
@@ -242,24 +615,29 @@ export class EntryMCPServer {
     }
 
     if (servers.length === 0) {
-      return "未找到MCP服务器";
+      return messages.t("noServers");
     }
 
     let output = "";
 
     for (const server of servers) {
       output += `# ${server.name}\n`;
-      output += `${server.description || "无描述"}\n`;
-      output += `状态: ${server.status} | 工具数量: ${server.toolCount}\n\n`;
+      output += `${server.description || messages.t("noDescription")}\n`;
+      output += `${messages.t("serverStatus", {
+        status: server.status,
+        toolCount: server.toolCount,
+      })}\n\n`;
 
       if (server.tools && server.tools.length > 0) {
-        output += `可以使用 call_mcp_tool 调用以下工具（mcpName: "${server.name}"）:\n\n`;
-        output += "## 工具列表:\n\n";
+        output += `${messages.t("listToolsCallHint", { mcpName: server.name })}\n\n`;
+        output += `${messages.t("toolListHeading")}\n\n`;
         for (const tool of server.tools) {
           output += `### ${tool.name}\n`;
-          output += `${tool.description || "无描述"}\n`;
+          output += `${tool.description || messages.t("noDescription")}\n`;
           if (tool.inputSchema) {
-            output += `参数格式: \`${JSON.stringify(tool.inputSchema)}\`\n`;
+            output += `${messages.t("inputSchema", {
+              schema: JSON.stringify(tool.inputSchema),
+            })}\n`;
           }
           output += "\n";
         }
@@ -270,27 +648,77 @@ export class EntryMCPServer {
   }
 
   /**
-   * 启动服务器
+   * 格式化search_mcp_tools的结果
    */
-  private async startServer(): Promise<void> {
-    this.transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await this.server.connect(this.transport);
+  private formatSearchResult(
+    result: SearchMCPToolsResult,
+    messages: EntryMessages,
+  ): string {
+    if (result.results.length === 0) {
+      return result.message || messages.t("searchNoMatches");
+    }
+
+    let output = `${messages.t("searchResultsHeader", {
+      count: result.results.length,
+    })}\n\n`;
+    for (const match of result.results) {
+      output += `### ${match.toolName}\n`;
+      output += `${messages.t("searchMatch", {
+        mcpName: match.mcpName,
+        score: match.score,
+      })}\n`;
+      output += `${match.description || messages.t("noDescription")}\n`;
+      if (match.inputSchema) {
+        output += `${messages.t("inputSchema", {
+          schema: JSON.stringify(match.inputSchema),
+        })}\n`;
+      }
+      output += "\n";
+    }
+
+    return output;
   }
 
   /**
-   * 获取transport
+   * 格式化call_mcp_tools_batch的结果：每个调用前加一行标题，保留原始内容（含图片和资源）
    */
-  public getTransport(): StreamableHTTPServerTransport {
-    return this.transport;
+  private formatBatchResult(
+    result: CallMCPToolsBatchResult,
+    messages: EntryMessages,
+  ): ToolResultContent[] {
+    const failed = result.results.filter((r) => r.isError).length;
+    const content: ToolResultContent[] = [
+      {
+        type: "text",
+        text: messages.t("batchSummary", {
+          total: result.results.length,
+          succeeded: result.results.length - failed,
+          failed,
+        }),
+      },
+    ];
+    for (const item of result.results) {
+      const status = item.isError
+        ? `${messages.t("batchItemFailed")}${item.errorCode ? ` (${item.errorCode})` : ""}`
+        : messages.t("batchItemSucceeded");
+      content.push({
+        type: "text",
+        text: `## [${item.index + 1}] ${item.mcpName} / ${item.toolName}: ${status}`,
+      });
+      content.push(...item.content);
+    }
+    return content;
   }
 
   /**
-   * 获取服务器实例
+   * 处理 Streamable HTTP 请求（POST/GET/DELETE）
    */
-  public getServer(): Server {
-    return this.server;
+  public async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown,
+  ): Promise<void> {
+    await this.sessionManager.handleRequest(req, res, body);
   }
 
   /**
@@ -298,7 +726,7 @@ export class EntryMCPServer {
    */
   public async shutdown(): Promise<void> {
     try {
-      await this.server.close();
+      await this.sessionManager.shutdown();
       console.log("[EntryMCPServer] Shutdown complete");
     } catch (error) {
       console.error("[EntryMCPServer] Error during shutdown:", error);
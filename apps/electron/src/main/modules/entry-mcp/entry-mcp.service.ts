@@ -11,23 +11,177 @@ import type {
   ListMCPToolsResult,
   CallMCPToolParams,
   CallMCPToolResult,
+  CallMCPToolsBatchItemResult,
+  CallMCPToolsBatchParams,
+  CallMCPToolsBatchResult,
+  EntryEndpointConfig,
+  GetMCPPromptParams,
+  ListMCPPromptsParams,
+  ListMCPPromptsResult,
+  ListMCPResourcesParams,
+  ListMCPResourcesResult,
+  MCPPromptInfo,
+  MCPResourceInfo,
+  MCPResourceTemplateInfo,
+  PinnedToolRef,
+  ReadMCPResourceParams,
+  ReadToolResultParams,
+  SearchMCPToolsParams,
+  SearchMCPToolsResult,
+  ToolPinningConfig,
   ToolResultContent,
 } from "@mcp_router/shared";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { InboundRequestExtra } from "@/main/utils/progress-utils";
+import { resolveToolCallTimeoutMs } from "@/main/modules/mcp-server-manager/tool-call-limiter";
+import {
+  formatToolArgumentError,
+  validateToolArguments,
+} from "@/main/utils/tool-argument-validator";
+import {
+  READ_TOOL_RESULT_TOOL_NAME,
+  formatToolOutputPage,
+  type ToolOutputPage,
+} from "@/main/modules/mcp-server-manager/tool-output-limiter";
+import {
+  buildToolDocument,
+  cosineSimilarity,
+  rankBM25,
+  type SearchableTool,
+} from "./tool-search";
+import {
+  AUTO_PIN_WINDOW_MS,
+  assignPinnedToolNames,
+  toOriginalToolName,
+  type PinnedTool,
+} from "./tool-pinning";
+import { isServerInEntryEndpoint } from "./entry-endpoints";
+import { EntryMessages } from "./entry-messages";
+
+/**
+ * 转发给上游 callTool 的请求选项（取消信号与进度回调）
+ * origin 为发起调用的客户端请求上下文，用于转发 sampling/elicitation 请求
+ * clientId 为调用方的客户端ID，用于并发限制的统计
+ */
+export type CallToolRequestOptions = Pick<
+  RequestOptions,
+  "signal" | "onprogress"
+> & {
+  origin?: InboundRequestExtra;
+  clientId?: string;
+};
+
+/**
+ * 调用方的访问范围（来自请求的 token 与 x-mcpr-project 头）
+ * projectId 为 null 时不按项目过滤，与聚合模式一致
+ * endpoint 为请求所在的命名入口端点，只能访问其中的服务器
+ */
+export interface EntryAccessContext {
+  token?: string;
+  projectId: string | null;
+  endpoint?: EntryEndpointConfig;
+}
 
 export interface EntryMCPServiceDeps {
   getServers: () => MCPServer[];
+  hasServerAccess: (token: string, serverId: string) => boolean;
   getServerTools: (serverId: string) => Promise<MCPToolInfo[]>;
+  getServerResources: (serverId: string) => Promise<{
+    resources: MCPResourceInfo[];
+    resourceTemplates: MCPResourceTemplateInfo[];
+  }>;
+  getServerPrompts: (serverId: string) => Promise<MCPPromptInfo[]>;
   callTool: (
     serverName: string,
     toolName: string,
     args: Record<string, unknown>,
     timeoutMs?: number,
+    options?: CallToolRequestOptions,
   ) => Promise<any>;
+  readResource: (
+    serverName: string,
+    uri: string,
+    options?: CallToolRequestOptions,
+  ) => Promise<any>;
+  getPrompt: (
+    serverName: string,
+    promptName: string,
+    args: Record<string, string>,
+    options?: CallToolRequestOptions,
+  ) => Promise<any>;
+  /**
+   * 可选：生成文本向量（第一个为查询）；未配置 Embedding 时返回 null，
+   * search_mcp_tools 会退回到 BM25
+   */
+  embedTexts?: (texts: string[]) => Promise<number[][] | null>;
+  /**
+   * 可选：指定时刻以来各工具的调用次数（多的在前），用于混合模式的自动固定
+   */
+  getToolCallCounts?: (
+    since: number,
+    limit: number,
+  ) => Array<{ serverName: string; toolName: string; count: number }>;
+  /**
+   * 可选：校验参数时是否自动转换明显的类型错误（如数字字符串）
+   */
+  shouldCoerceArguments?: () => boolean;
+  /**
+   * 可选：按服务器/工具的输出上限截断文本内容，完整结果暂存以便 read_tool_result 分页读取
+   */
+  limitToolOutput?: (
+    serverId: string,
+    toolName: string,
+    clientId: string,
+    content: ToolResultContent[],
+  ) => ToolResultContent[];
+  /**
+   * 可选：读取暂存结果的一部分；不存在、已过期或属于其他客户端时返回 undefined
+   */
+  readToolOutput?: (
+    resultId: string,
+    clientId: string,
+    offset?: number,
+    length?: number,
+  ) => ToolOutputPage | undefined;
+  /**
+   * 可选：面向模型的文本目录（按设置的语言）；未提供时使用英文
+   */
+  getMessages?: () => EntryMessages;
 }
 
+/**
+ * 无法从 token 确定调用方时使用的客户端ID
+ */
+export const ENTRY_FALLBACK_CLIENT_ID = "entry-mcp";
+
 const DEFAULT_CALL_TOOL_TIMEOUT_SEC = 300;
 const DEFAULT_CALL_TOOL_TIMEOUT_MS = DEFAULT_CALL_TOOL_TIMEOUT_SEC * 1000;
 
+/**
+ * 服务器校验结果（call_mcp_tool / read_mcp_resource / get_mcp_prompt 共用）
+ */
+interface ServerValidation {
+  valid: boolean;
+  error?: string;
+  errorCode?: string;
+  server?: MCPServer;
+}
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+
+const MAX_BATCH_CALLS = 20;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * 包装批量调用中的单个调用（由调用方接入 Workflow 与日志）
+ */
+export type BatchCallRunner = (
+  call: CallMCPToolParams,
+  execute: (args?: Record<string, unknown>) => Promise<CallMCPToolResult>,
+) => Promise<CallMCPToolResult>;
+
 export class EntryMCPService {
   private deps: EntryMCPServiceDeps;
 
@@ -35,20 +189,27 @@ export class EntryMCPService {
     this.deps = deps;
   }
 
+  private get messages(): EntryMessages {
+    return this.deps.getMessages?.() ?? new EntryMessages();
+  }
+
   /**
    * 列出指定MCP服务器的工具
    * 必须指定mcpName，否则返回提示信息
    */
-  public async listMCPTools(params: ListMCPToolsParams): Promise<ListMCPToolsResult> {
+  public async listMCPTools(
+    params: ListMCPToolsParams,
+    access?: EntryAccessContext,
+  ): Promise<ListMCPToolsResult> {
     // 如果没有指定mcpName，返回提示
     if (!params.mcpName) {
       return {
         servers: [],
-        message: "请查看mcp-router技能",
+        message: this.messages.t("listToolsHint"),
       };
     }
 
-    const servers = this.deps.getServers();
+    const servers = this.getAccessibleServers(access);
 
     // 查找指定的服务器
     const server = servers.find(
@@ -58,7 +219,9 @@ export class EntryMCPService {
     if (!server) {
       return {
         servers: [],
-        message: `MCP服务器 "${params.mcpName}" 未找到或未运行`,
+        message: this.messages.t("serverNotFoundOrNotRunning", {
+          mcpName: params.mcpName,
+        }),
       };
     }
 
@@ -80,9 +243,312 @@ export class EntryMCPService {
       console.error(`[EntryMCP] Failed to get tools for server ${server.name}:`, error);
       return {
         servers: [],
-        message: `获取 "${params.mcpName}" 的工具列表失败`,
+        message: this.messages.t("listToolsFailed", {
+          mcpName: params.mcpName,
+        }),
+      };
+    }
+  }
+
+  /**
+   * 在可访问的服务器中按相关度搜索工具
+   */
+  public async searchMCPTools(
+    params: SearchMCPToolsParams,
+    access?: EntryAccessContext,
+  ): Promise<SearchMCPToolsResult> {
+    const query = typeof params.query === "string" ? params.query.trim() : "";
+    if (!query) {
+      return {
+        results: [],
+        method: "bm25",
+        message: this.messages.t("searchQueryRequired"),
+      };
+    }
+
+    const servers = this.getListableServers(params.mcpName, access);
+    const candidates = await this.collectSearchableTools(servers);
+    if (candidates.length === 0) {
+      return {
+        results: [],
+        method: "bm25",
+        message: this.messages.t("searchNoTools"),
+      };
+    }
+
+    const documents = candidates.map(buildToolDocument);
+    const embeddingScores = await this.scoreByEmbedding(query, documents);
+    const method = embeddingScores ? "embedding" : "bm25";
+    const scores = embeddingScores ?? rankBM25(query, documents);
+
+    const limit = this.resolveSearchLimit(params.limit);
+    const results = candidates
+      .map((candidate, index) => ({
+        mcpName: candidate.mcpName,
+        toolName: candidate.tool.name,
+        description: candidate.tool.description,
+        inputSchema: candidate.tool.inputSchema,
+        score: Math.round(scores[index] * 10000) / 10000,
+      }))
+      // BM25 得分为 0 表示没有任何词命中
+      .filter((result) => method === "embedding" || result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return {
+      results,
+      method,
+      message:
+        results.length === 0 ? this.messages.t("searchNoMatches") : undefined,
+    };
+  }
+
+  /**
+   * 列出可访问服务器上的资源和资源模板
+   */
+  public async listMCPResources(
+    params: ListMCPResourcesParams,
+    access?: EntryAccessContext,
+  ): Promise<ListMCPResourcesResult> {
+    const servers = this.getListableServers(params.mcpName, access);
+    if (params.mcpName && servers.length === 0) {
+      return {
+        servers: [],
+        message: this.messages.t("serverNotFoundOrNotRunning", {
+          mcpName: params.mcpName,
+        }),
+      };
+    }
+
+    const results = await Promise.all(
+      servers.map(async (server) => {
+        try {
+          const { resources, resourceTemplates } =
+            await this.deps.getServerResources(server.id);
+          return { name: server.name, resources, resourceTemplates };
+        } catch (error) {
+          console.error(
+            `[EntryMCP] Failed to get resources for server ${server.name}:`,
+            error,
+          );
+          return null;
+        }
+      }),
+    );
+    const withResources = results.filter(
+      (r): r is NonNullable<typeof r> =>
+        !!r && (r.resources.length > 0 || r.resourceTemplates.length > 0),
+    );
+
+    return {
+      servers: withResources,
+      message:
+        withResources.length === 0 ? this.messages.t("noResources") : undefined,
+    };
+  }
+
+  /**
+   * 读取指定MCP服务器上的资源
+   */
+  public async readMCPResource(
+    params: ReadMCPResourceParams,
+    options?: CallToolRequestOptions,
+    access?: EntryAccessContext,
+  ): Promise<CallMCPToolResult> {
+    const validation = this.validateServer(params.mcpName, access);
+    if (!validation.valid) {
+      return this.errorResult(validation.error!, validation.errorCode);
+    }
+
+    try {
+      const result = await this.deps.readResource(
+        params.mcpName,
+        params.uri,
+        options,
+      );
+      const contents: any[] = result?.contents || [];
+      return {
+        content: contents.map((item) => ({
+          type: "resource" as const,
+          resource: {
+            uri: item.uri,
+            mimeType: item.mimeType,
+            text: item.text,
+            blob: item.blob,
+          },
+        })),
+        isError: false,
+      };
+    } catch (error: any) {
+      return this.errorResult(`Error: ${error.message}`, "READ_FAILED");
+    }
+  }
+
+  /**
+   * 列出可访问服务器上的提示词
+   */
+  public async listMCPPrompts(
+    params: ListMCPPromptsParams,
+    access?: EntryAccessContext,
+  ): Promise<ListMCPPromptsResult> {
+    const servers = this.getListableServers(params.mcpName, access);
+    if (params.mcpName && servers.length === 0) {
+      return {
+        servers: [],
+        message: this.messages.t("serverNotFoundOrNotRunning", {
+          mcpName: params.mcpName,
+        }),
+      };
+    }
+
+    const results = await Promise.all(
+      servers.map(async (server) => {
+        try {
+          const prompts = await this.deps.getServerPrompts(server.id);
+          return { name: server.name, prompts };
+        } catch (error) {
+          console.error(
+            `[EntryMCP] Failed to get prompts for server ${server.name}:`,
+            error,
+          );
+          return null;
+        }
+      }),
+    );
+    const withPrompts = results.filter(
+      (r): r is NonNullable<typeof r> => !!r && r.prompts.length > 0,
+    );
+
+    return {
+      servers: withPrompts,
+      message:
+        withPrompts.length === 0 ? this.messages.t("noPrompts") : undefined,
+    };
+  }
+
+  /**
+   * 获取指定MCP服务器上的提示词内容
+   */
+  public async getMCPPrompt(
+    params: GetMCPPromptParams,
+    options?: CallToolRequestOptions,
+    access?: EntryAccessContext,
+  ): Promise<CallMCPToolResult> {
+    const validation = this.validateServer(params.mcpName, access);
+    if (!validation.valid) {
+      return this.errorResult(validation.error!, validation.errorCode);
+    }
+
+    // 提示词参数在协议中只能是字符串
+    const args: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params.arguments || {})) {
+      args[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+
+    try {
+      const result = await this.deps.getPrompt(
+        params.mcpName,
+        params.promptName,
+        args,
+        options,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { description: result?.description, messages: result?.messages },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: false,
       };
+    } catch (error: any) {
+      return this.errorResult(`Error: ${error.message}`, "GET_PROMPT_FAILED");
+    }
+  }
+
+  /**
+   * 混合模式下直接暴露的工具：手动固定的工具加上最近调用最多的工具
+   * 不可访问、未运行或已禁用的工具会被跳过
+   */
+  public async listPinnedTools(
+    config: ToolPinningConfig,
+    access?: EntryAccessContext,
+  ): Promise<PinnedTool[]> {
+    const servers = new Map(
+      this.getListableServers(undefined, access).map((s) => [s.name, s]),
+    );
+    const toolCache = new Map<string, Promise<MCPToolInfo[]>>();
+    const findTool = async (
+      ref: PinnedToolRef,
+    ): Promise<MCPToolInfo | undefined> => {
+      const server = servers.get(ref.serverName);
+      if (!server || server.toolPermissions?.[ref.toolName] === false) {
+        return undefined;
+      }
+      if (!toolCache.has(server.id)) {
+        toolCache.set(
+          server.id,
+          this.deps.getServerTools(server.id).catch((error) => {
+            console.error(
+              `[EntryMCP] Failed to get tools for server ${server.name}:`,
+              error,
+            );
+            return [];
+          }),
+        );
+      }
+      const tools = await toolCache.get(server.id)!;
+      return tools.find((t) => t.name === ref.toolName);
+    };
+
+    const selected: Array<PinnedToolRef & { tool: MCPToolInfo }> = [];
+    const isSelected = (ref: PinnedToolRef) =>
+      selected.some(
+        (s) => s.serverName === ref.serverName && s.toolName === ref.toolName,
+      );
+
+    for (const ref of config.tools) {
+      const tool = await findTool(ref);
+      if (tool && !isSelected(ref)) {
+        selected.push({ ...ref, tool });
+      }
+    }
+
+    const autoPinCount = Math.max(0, Math.floor(config.autoPinCount || 0));
+    if (autoPinCount > 0 && this.deps.getToolCallCounts) {
+      // 多取一些，跳过已固定或当前不可用的工具后仍能凑够数量
+      const counts = this.deps.getToolCallCounts(
+        Date.now() - AUTO_PIN_WINDOW_MS,
+        selected.length + autoPinCount * 4,
+      );
+      let added = 0;
+      for (const count of counts) {
+        if (added >= autoPinCount) {
+          break;
+        }
+        const ref = {
+          serverName: count.serverName,
+          toolName: toOriginalToolName(count.serverName, count.toolName),
+        };
+        if (isSelected(ref)) {
+          continue;
+        }
+        const tool = await findTool(ref);
+        if (tool) {
+          selected.push({ ...ref, tool });
+          added++;
+        }
+      }
     }
+
+    const reservedNames = new Set(
+      EntryMCPService.getMetaToolDefinitions().map((d) => d.name),
+    );
+    return assignPinnedToolNames(selected, reservedNames);
   }
 
   /**
@@ -90,9 +556,11 @@ export class EntryMCPService {
    */
   public async callMCPTool(
     params: CallMCPToolParams,
+    options?: CallToolRequestOptions,
+    access?: EntryAccessContext,
   ): Promise<CallMCPToolResult> {
     // 验证参数
-    const validation = await this.validateCallParams(params);
+    const validation = await this.validateCallParams(params, access);
     if (!validation.valid) {
       return {
         content: [{ type: "text", text: validation.error! }],
@@ -102,16 +570,32 @@ export class EntryMCPService {
     }
 
     try {
-      const timeoutMs = this.resolveTimeoutMs(params.timeoutSec);
+      const server = this.deps
+        .getServers()
+        .find((s) => s.id === validation.serverId);
+      const timeoutMs = this.resolveTimeoutMs(
+        params.timeoutSec,
+        server,
+        params.toolName,
+      );
       const result = await this.deps.callTool(
         params.mcpName,
         params.toolName,
-        params.arguments,
+        validation.arguments ?? params.arguments,
         timeoutMs,
+        options,
       );
 
+      const content = this.normalizeContent(result.content || []);
       return {
-        content: this.normalizeContent(result.content || []),
+        content: this.deps.limitToolOutput
+          ? this.deps.limitToolOutput(
+              validation.serverId!,
+              params.toolName,
+              options?.clientId ?? ENTRY_FALLBACK_CLIENT_ID,
+              content,
+            )
+          : content,
         isError: result.isError || false,
       };
     } catch (error: any) {
@@ -124,19 +608,154 @@ export class EntryMCPService {
   }
 
   /**
-   * 解析并标准化超时参数（毫秒）
+   * 分页读取因超出输出上限而被截断的工具结果
    */
-  private resolveTimeoutMs(timeoutSec?: number): number {
-    if (timeoutSec === undefined) {
-      return DEFAULT_CALL_TOOL_TIMEOUT_MS;
+  public readToolResult(
+    params: ReadToolResultParams,
+    clientId: string = ENTRY_FALLBACK_CLIENT_ID,
+  ): CallMCPToolResult {
+    if (!params.resultId) {
+      return this.errorResult(
+        `Error: ${this.messages.t("resultIdRequired")}`,
+        "INVALID_PARAMS",
+      );
+    }
+
+    const page = this.deps.readToolOutput?.(
+      params.resultId,
+      clientId,
+      params.offset,
+      params.length,
+    );
+    if (!page) {
+      return this.errorResult(
+        this.messages.t("resultNotFound", { resultId: params.resultId }),
+        "RESULT_NOT_FOUND",
+      );
+    }
+
+    return {
+      content: [{ type: "text", text: formatToolOutputPage(page) }],
+      isError: false,
+    };
+  }
+
+  /**
+   * 批量调用工具：以有限的并发执行，结果与 calls 顺序一致
+   * 单个调用失败不影响其他调用；runCall 用于让每个调用单独经过 Workflow 并记录日志
+   */
+  public async callMCPToolsBatch(
+    params: CallMCPToolsBatchParams,
+    options?: CallToolRequestOptions,
+    access?: EntryAccessContext,
+    runCall?: BatchCallRunner,
+  ): Promise<CallMCPToolsBatchResult> {
+    const calls = params.calls;
+    if (!Array.isArray(calls) || calls.length === 0) {
+      return {
+        results: [],
+        message: this.messages.t("batchCallsRequired"),
+        errorCode: "INVALID_PARAMS",
+      };
+    }
+    if (calls.length > MAX_BATCH_CALLS) {
+      return {
+        results: [],
+        message: this.messages.t("batchTooManyCalls", {
+          count: calls.length,
+          max: MAX_BATCH_CALLS,
+        }),
+        errorCode: "BATCH_TOO_LARGE",
+      };
     }
 
+    const concurrency = this.resolveBatchConcurrency(params.concurrency);
+    const results: CallMCPToolsBatchItemResult[] = new Array(calls.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < calls.length) {
+        const index = nextIndex++;
+        const call = calls[index];
+        results[index] = {
+          index,
+          mcpName: call?.mcpName ?? "",
+          toolName: call?.toolName ?? "",
+          ...(await this.runBatchCall(call, options, access, runCall)),
+        };
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, calls.length) }, worker),
+    );
+
+    return { results };
+  }
+
+  private async runBatchCall(
+    call: CallMCPToolParams | undefined,
+    options?: CallToolRequestOptions,
+    access?: EntryAccessContext,
+    runCall?: BatchCallRunner,
+  ): Promise<CallMCPToolResult> {
+    if (!call?.mcpName || !call.toolName) {
+      return this.errorResult(
+        `Error: ${this.messages.t("callTargetRequired")}`,
+        "INVALID_PARAMS",
+      );
+    }
+    if (options?.signal?.aborted) {
+      return this.errorResult(
+        `Error: ${this.messages.t("requestCancelled")}`,
+        "CANCELLED",
+      );
+    }
+
+    const target: CallMCPToolParams = {
+      mcpName: call.mcpName,
+      toolName: call.toolName,
+      arguments: call.arguments || {},
+      timeoutSec: call.timeoutSec,
+    };
+    // args：被 Workflow 改写后的参数
+    const execute = (args = target.arguments) =>
+      this.callMCPTool({ ...target, arguments: args }, options, access);
+    try {
+      return runCall ? await runCall(target, execute) : await execute();
+    } catch (error: any) {
+      return this.errorResult(`Error: ${error.message}`, "CALL_FAILED");
+    }
+  }
+
+  private resolveBatchConcurrency(concurrency: number | undefined): number {
+    if (typeof concurrency !== "number" || !Number.isFinite(concurrency)) {
+      return DEFAULT_BATCH_CONCURRENCY;
+    }
+    return Math.min(
+      Math.max(Math.floor(concurrency), 1),
+      MAX_BATCH_CONCURRENCY,
+    );
+  }
+
+  /**
+   * 解析并标准化超时参数（毫秒）
+   * 未指定时依次使用服务器的工具级/服务器级配置，最后回退到默认值
+   */
+  private resolveTimeoutMs(
+    timeoutSec: number | undefined,
+    server: MCPServer | undefined,
+    toolName: string,
+  ): number {
     if (
       typeof timeoutSec !== "number" ||
       !Number.isFinite(timeoutSec) ||
       timeoutSec <= 0
     ) {
-      return DEFAULT_CALL_TOOL_TIMEOUT_MS;
+      return resolveToolCallTimeoutMs(
+        server,
+        toolName,
+        DEFAULT_CALL_TOOL_TIMEOUT_MS,
+      );
     }
 
     return Math.floor(timeoutSec * 1000);
@@ -145,38 +764,21 @@ export class EntryMCPService {
   /**
    * 验证调用参数
    */
-  private async validateCallParams(params: CallMCPToolParams): Promise<{
+  private async validateCallParams(
+    params: CallMCPToolParams,
+    access?: EntryAccessContext,
+  ): Promise<{
     valid: boolean;
     error?: string;
     errorCode?: string;
     serverId?: string;
+    arguments?: Record<string, unknown>;
   }> {
-    const servers = this.deps.getServers();
-    const server = servers.find((s) => s.name === params.mcpName);
-
-    if (!server) {
-      return {
-        valid: false,
-        error: `MCP server not found: ${params.mcpName}`,
-        errorCode: "SERVER_NOT_FOUND",
-      };
-    }
-
-    if (server.status !== "running") {
-      return {
-        valid: false,
-        error: `MCP server is not running: ${params.mcpName}`,
-        errorCode: "SERVER_NOT_RUNNING",
-      };
-    }
-
-    if (server.disabled) {
-      return {
-        valid: false,
-        error: `MCP server is disabled: ${params.mcpName}`,
-        errorCode: "SERVER_DISABLED",
-      };
+    const validation = this.validateServer(params.mcpName, access);
+    if (!validation.valid) {
+      return validation;
     }
+    const server = validation.server!;
 
     // 动态获取工具列表并验证工具是否存在
     try {
@@ -185,7 +787,10 @@ export class EntryMCPService {
       if (!tool) {
         return {
           valid: false,
-          error: `Tool not found: ${params.toolName} on server ${params.mcpName}`,
+          error: this.messages.t("toolNotFound", {
+            toolName: params.toolName,
+            mcpName: params.mcpName,
+          }),
           errorCode: "TOOL_NOT_FOUND",
         };
       }
@@ -197,21 +802,227 @@ export class EntryMCPService {
       ) {
         return {
           valid: false,
-          error: `Tool is disabled: ${params.toolName}`,
+          error: this.messages.t("toolDisabled", { toolName: params.toolName }),
           errorCode: "TOOL_DISABLED",
         };
       }
 
-      return { valid: true, serverId: server.id };
+      // 按工具的 inputSchema 校验参数，避免把明显错误的参数转发给上游
+      const argumentValidation = validateToolArguments(
+        tool.inputSchema,
+        params.arguments,
+        { coerce: this.deps.shouldCoerceArguments?.() ?? false },
+      );
+      if (!argumentValidation.valid) {
+        return {
+          valid: false,
+          error: formatToolArgumentError(
+            params.toolName,
+            argumentValidation.issues,
+            tool.inputSchema,
+          ),
+          errorCode: "INVALID_ARGUMENTS",
+        };
+      }
+
+      return {
+        valid: true,
+        serverId: server.id,
+        arguments: argumentValidation.arguments,
+      };
     } catch (error) {
       return {
         valid: false,
-        error: `Failed to get tools from server: ${params.mcpName}`,
+        error: this.messages.t("toolsFetchFailed", { mcpName: params.mcpName }),
         errorCode: "TOOLS_FETCH_FAILED",
       };
     }
   }
 
+  /**
+   * 收集服务器上未被禁用的工具，获取失败的服务器会被跳过
+   */
+  private async collectSearchableTools(
+    servers: MCPServer[],
+  ): Promise<SearchableTool[]> {
+    const perServer = await Promise.all(
+      servers.map(async (server) => {
+        try {
+          const tools = await this.deps.getServerTools(server.id);
+          return tools
+            .filter((tool) => server.toolPermissions?.[tool.name] !== false)
+            .map((tool) => ({ mcpName: server.name, tool }));
+        } catch (error) {
+          console.error(
+            `[EntryMCP] Failed to get tools for server ${server.name}:`,
+            error,
+          );
+          return [];
+        }
+      }),
+    );
+    return perServer.flat();
+  }
+
+  /**
+   * 使用 Embedding 计算相似度；未配置或请求失败时返回 null
+   */
+  private async scoreByEmbedding(
+    query: string,
+    documents: string[],
+  ): Promise<number[] | null> {
+    if (!this.deps.embedTexts) {
+      return null;
+    }
+    try {
+      const vectors = await this.deps.embedTexts([query, ...documents]);
+      if (!vectors || vectors.length !== documents.length + 1) {
+        return null;
+      }
+      const [queryVector, ...documentVectors] = vectors;
+      return documentVectors.map((vector) =>
+        cosineSimilarity(queryVector, vector),
+      );
+    } catch (error) {
+      console.warn(
+        "[EntryMCP] Embedding search failed, falling back to BM25:",
+        error,
+      );
+      return null;
+    }
+  }
+
+  private resolveSearchLimit(limit: unknown): number {
+    if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 1) {
+      return DEFAULT_SEARCH_LIMIT;
+    }
+    return Math.min(Math.floor(limit), MAX_SEARCH_LIMIT);
+  }
+
+  /**
+   * 验证服务器存在、在访问范围内且正在运行
+   */
+  private validateServer(
+    mcpName: string,
+    access?: EntryAccessContext,
+  ): ServerValidation {
+    const servers = this.deps.getServers();
+    const server = servers.find((s) => s.name === mcpName);
+
+    if (!server) {
+      return {
+        valid: false,
+        error: this.messages.t("serverNotFound", { mcpName }),
+        errorCode: "SERVER_NOT_FOUND",
+      };
+    }
+
+    if (access && !this.matchesProject(server, access)) {
+      return {
+        valid: false,
+        error: this.messages.t("serverNotInProject", { mcpName }),
+        errorCode: "SERVER_NOT_IN_PROJECT",
+      };
+    }
+
+    if (access && !this.matchesEndpoint(server, access)) {
+      return {
+        valid: false,
+        error: this.messages.t("serverNotInEndpoint", { mcpName }),
+        errorCode: "SERVER_NOT_IN_ENDPOINT",
+      };
+    }
+
+    if (access && !this.hasTokenAccess(server, access)) {
+      return {
+        valid: false,
+        error: this.messages.t("serverAccessDenied", { mcpName }),
+        errorCode: "ACCESS_DENIED",
+      };
+    }
+
+    if (server.status !== "running") {
+      return {
+        valid: false,
+        error: this.messages.t("serverNotRunning", { mcpName }),
+        errorCode: "SERVER_NOT_RUNNING",
+      };
+    }
+
+    if (server.disabled) {
+      return {
+        valid: false,
+        error: this.messages.t("serverDisabled", { mcpName }),
+        errorCode: "SERVER_DISABLED",
+      };
+    }
+
+    return { valid: true, server };
+  }
+
+  private errorResult(text: string, errorCode?: string): CallMCPToolResult {
+    return {
+      content: [{ type: "text", text }],
+      isError: true,
+      errorCode,
+    };
+  }
+
+  /**
+   * 可访问且正在运行的服务器，可按名称过滤
+   */
+  private getListableServers(
+    mcpName: string | undefined,
+    access?: EntryAccessContext,
+  ): MCPServer[] {
+    return this.getAccessibleServers(access).filter(
+      (s) =>
+        s.status === "running" &&
+        !s.disabled &&
+        (!mcpName || s.name === mcpName),
+    );
+  }
+
+  /**
+   * 获取调用方可访问的服务器（未提供访问范围时返回全部）
+   */
+  private getAccessibleServers(access?: EntryAccessContext): MCPServer[] {
+    const servers = this.deps.getServers();
+    if (!access) {
+      return servers;
+    }
+    return servers.filter(
+      (s) =>
+        this.matchesProject(s, access) &&
+        this.matchesEndpoint(s, access) &&
+        this.hasTokenAccess(s, access),
+    );
+  }
+
+  private matchesProject(
+    server: MCPServer,
+    access: EntryAccessContext,
+  ): boolean {
+    return (
+      access.projectId === null ||
+      (server.projectId ?? null) === access.projectId
+    );
+  }
+
+  private matchesEndpoint(
+    server: MCPServer,
+    access: EntryAccessContext,
+  ): boolean {
+    return !access.endpoint || isServerInEntryEndpoint(access.endpoint, server);
+  }
+
+  private hasTokenAccess(
+    server: MCPServer,
+    access: EntryAccessContext,
+  ): boolean {
+    return !!access.token && this.deps.hasServerAccess(access.token, server.id);
+  }
+
   /**
    * 转换MCPServer为MCPServerInfo
    */
@@ -242,6 +1053,7 @@ export class EntryMCPService {
         text: item.text,
         data: item.data,
         mimeType: item.mimeType,
+        resource: item.resource,
       };
     });
   }
@@ -256,8 +1068,10 @@ export class EntryMCPService {
   /**
    * 列出所有MCP服务器的名称和描述
    */
-  public listMCPServers(): { name: string; description: string }[] {
-    const servers = this.deps.getServers();
+  public listMCPServers(
+    access?: EntryAccessContext,
+  ): { name: string; description: string }[] {
+    const servers = this.getAccessibleServers(access);
     return servers
       .filter((s) => s.status === "running" && !s.disabled)
       .map((s) => ({
@@ -266,14 +1080,36 @@ export class EntryMCPService {
       }));
   }
 
+  /**
+   * 获取入口模式的全部元工具定义
+   * @param messages 面向模型的文本目录（默认英文）
+   */
+  public static getMetaToolDefinitions(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return [
+      EntryMCPService.getListMCPServersDefinition(messages),
+      EntryMCPService.getListMCPToolsDefinition(messages),
+      EntryMCPService.getSearchMCPToolsDefinition(messages),
+      EntryMCPService.getCallMCPToolDefinition(messages),
+      EntryMCPService.getCallMCPToolsBatchDefinition(messages),
+      EntryMCPService.getReadToolResultDefinition(messages),
+      EntryMCPService.getListMCPResourcesDefinition(messages),
+      EntryMCPService.getReadMCPResourceDefinition(messages),
+      EntryMCPService.getListMCPPromptsDefinition(messages),
+      EntryMCPService.getGetMCPPromptDefinition(messages),
+    ];
+  }
+
   /**
    * 获取list_mcp_servers工具定义
    */
-  public static getListMCPServersDefinition() {
+  public static getListMCPServersDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
     return {
       name: "list_mcp_servers",
-      description:
-        "列出所有可用的MCP服务器名称及描述。返回当前运行中的MCP服务器列表，不包含具体工具信息。",
+      description: messages.toolDescription("list_mcp_servers"),
       inputSchema: {
         type: "object" as const,
         properties: {},
@@ -284,25 +1120,155 @@ export class EntryMCPService {
   /**
    * 获取list_mcp_tools工具定义
    */
-  public static getListMCPToolsDefinition() {
+  public static getListMCPToolsDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
     return {
       name: "list_mcp_tools",
-      description: `查询指定MCP服务器的可用工具列表。
+      description: messages.toolDescription("list_mcp_tools"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          mcpName: {
+            type: "string",
+            description: messages.t("list_mcp_tools.mcpName"),
+          },
+        },
+        required: ["mcpName"] as string[],
+      },
+    };
+  }
 
-使用前提：
-- 必须先阅读 mcp-router 的 SKILL.md 技能文件了解有哪些可用的MCP服务器
-- 必须指定 mcpName 参数
+  /**
+   * 获取search_mcp_tools工具定义
+   */
+  public static getSearchMCPToolsDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: "search_mcp_tools",
+      description: messages.toolDescription("search_mcp_tools"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          query: {
+            type: "string",
+            description: messages.t("search_mcp_tools.query"),
+          },
+          limit: {
+            type: "number",
+            description: messages.t("search_mcp_tools.limit", {
+              defaultLimit: DEFAULT_SEARCH_LIMIT,
+              maxLimit: MAX_SEARCH_LIMIT,
+            }),
+            minimum: 1,
+            maximum: MAX_SEARCH_LIMIT,
+          },
+          mcpName: {
+            type: "string",
+            description: messages.t("search_mcp_tools.mcpName"),
+          },
+        },
+        required: ["query"] as string[],
+      },
+    };
+  }
 
-返回信息包含：服务器描述、工具列表及每个工具的用途说明。`,
+  /**
+   * 获取list_mcp_resources工具定义
+   */
+  public static getListMCPResourcesDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: "list_mcp_resources",
+      description: messages.toolDescription("list_mcp_resources"),
       inputSchema: {
         type: "object" as const,
         properties: {
           mcpName: {
             type: "string",
-            description: "必填，MCP服务器名称（从SKILL.md技能文件中获取）",
+            description: messages.t("list_mcp_resources.mcpName"),
           },
         },
-        required: ["mcpName"] as string[],
+      },
+    };
+  }
+
+  /**
+   * 获取read_mcp_resource工具定义
+   */
+  public static getReadMCPResourceDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: "read_mcp_resource",
+      description: messages.toolDescription("read_mcp_resource"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          mcpName: {
+            type: "string",
+            description: messages.t("read_mcp_resource.mcpName"),
+          },
+          uri: {
+            type: "string",
+            description: messages.t("read_mcp_resource.uri"),
+          },
+        },
+        required: ["mcpName", "uri"] as string[],
+      },
+    };
+  }
+
+  /**
+   * 获取list_mcp_prompts工具定义
+   */
+  public static getListMCPPromptsDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: "list_mcp_prompts",
+      description: messages.toolDescription("list_mcp_prompts"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          mcpName: {
+            type: "string",
+            description: messages.t("list_mcp_prompts.mcpName"),
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * 获取get_mcp_prompt工具定义
+   */
+  public static getGetMCPPromptDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: "get_mcp_prompt",
+      description: messages.toolDescription("get_mcp_prompt"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          mcpName: {
+            type: "string",
+            description: messages.t("get_mcp_prompt.mcpName"),
+          },
+          promptName: {
+            type: "string",
+            description: messages.t("get_mcp_prompt.promptName"),
+          },
+          arguments: {
+            type: "object",
+            description: messages.t("get_mcp_prompt.arguments"),
+            additionalProperties: true,
+          },
+        },
+        required: ["mcpName", "promptName"] as string[],
       },
     };
   }
@@ -310,48 +1276,115 @@ export class EntryMCPService {
   /**
    * 获取call_mcp_tool工具定义
    */
-  public static getCallMCPToolDefinition() {
+  public static getCallMCPToolDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    const timeoutParams = { defaultTimeoutSec: DEFAULT_CALL_TOOL_TIMEOUT_SEC };
     return {
       name: "call_mcp_tool",
-      description: `调用指定MCP服务器上的工具。
-
-使用流程：
-1. 先使用 list_mcp_tools 查询目标服务器的工具列表
-2. 根据工具描述选择合适的工具
-3. 按照工具的 inputSchema 提供正确的参数
-
-注意事项：
-- 调用前必须确认工具名称和参数格式正确
-- 如果调用失败，请检查参数是否符合工具要求
-- 不要重复调用同一工具，除非用户明确要求
-- 可选 timeoutSec 参数用于覆盖默认超时（默认 300 秒）`,
+      description: messages.toolDescription("call_mcp_tool", timeoutParams),
       inputSchema: {
         type: "object" as const,
         properties: {
           mcpName: {
             type: "string",
-            description: "MCP服务器名称",
+            description: messages.t("call_mcp_tool.mcpName"),
           },
           toolName: {
             type: "string",
-            description: "要调用的工具名称（从list_mcp_tools返回的工具列表中选择）",
+            description: messages.t("call_mcp_tool.toolName"),
           },
           arguments: {
             type: "object",
-            description: "工具参数（根据工具的inputSchema提供）",
+            description: messages.t("call_mcp_tool.arguments"),
             additionalProperties: true,
           },
           timeoutSec: {
             type: "number",
-            description: "可选，调用超时时间（秒），默认 300 秒",
+            description: messages.t("call_mcp_tool.timeoutSec", timeoutParams),
             minimum: 1,
-            default: DEFAULT_CALL_TOOL_TIMEOUT_SEC,
           },
         },
         required: ["mcpName", "toolName"] as string[],
       },
     };
   }
+
+  /**
+   * 获取read_tool_result工具定义
+   */
+  public static getReadToolResultDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    return {
+      name: READ_TOOL_RESULT_TOOL_NAME,
+      description: messages.toolDescription("read_tool_result"),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          resultId: {
+            type: "string",
+            description: messages.t("read_tool_result.resultId"),
+          },
+          offset: {
+            type: "number",
+            description: messages.t("read_tool_result.offset"),
+            minimum: 0,
+          },
+          length: {
+            type: "number",
+            description: messages.t("read_tool_result.length"),
+            minimum: 1,
+          },
+        },
+        required: ["resultId"] as string[],
+      },
+    };
+  }
+
+  /**
+   * 获取call_mcp_tools_batch工具定义
+   */
+  public static getCallMCPToolsBatchDefinition(
+    messages: EntryMessages = new EntryMessages(),
+  ) {
+    const callSchema =
+      EntryMCPService.getCallMCPToolDefinition(messages).inputSchema;
+    const batchParams = {
+      maxCalls: MAX_BATCH_CALLS,
+      defaultConcurrency: DEFAULT_BATCH_CONCURRENCY,
+      maxConcurrency: MAX_BATCH_CONCURRENCY,
+    };
+    return {
+      name: "call_mcp_tools_batch",
+      description: messages.toolDescription(
+        "call_mcp_tools_batch",
+        batchParams,
+      ),
+      inputSchema: {
+        type: "object" as const,
+        properties: {
+          calls: {
+            type: "array",
+            description: messages.t("call_mcp_tools_batch.calls"),
+            items: callSchema,
+            minItems: 1,
+            maxItems: MAX_BATCH_CALLS,
+          },
+          concurrency: {
+            type: "number",
+            description: messages.t(
+              "call_mcp_tools_batch.concurrency",
+              batchParams,
+            ),
+            minimum: 1,
+            maximum: MAX_BATCH_CONCURRENCY,
+          },
+        },
+        required: ["calls"] as string[],
+      },
+    };
+  }
 }
 
 // 单例
@@ -0,0 +1,463 @@
+/**
+ * Entry Messages
+ * 入口MCP面向模型的文本目录：元工具描述、提示与错误信息
+ * 按设置中的语言选用，元工具描述可由用户覆盖
+ */
+
+import type {
+  AppSettings,
+  EntryMessageLocale,
+  EntryMetaToolName,
+} from "@mcp_router/shared";
+
+/**
+ * 默认语言
+ */
+export const DEFAULT_ENTRY_MESSAGE_LOCALE: EntryMessageLocale = "en";
+
+type MessageParams = Record<string, string | number>;
+
+const en = {
+  // 元工具描述
+  "list_mcp_servers.description":
+    "List the names and descriptions of all available MCP servers. Returns the running MCP servers without their tools.",
+  "list_mcp_tools.description": `List the tools available on an MCP server.
+
+Before using:
+- Read the mcp-router SKILL.md skill file (or call list_mcp_servers) to learn which MCP servers are available
+- The mcpName parameter is required
+
+Returns the server description and its tools with what each tool does.`,
+  "list_mcp_tools.mcpName":
+    "Required. MCP server name (from the SKILL.md skill file)",
+  "search_mcp_tools.description": `Search all available MCP servers for tools matching a natural-language description.
+
+When to use:
+- When you are not sure which MCP server provides a capability, search here first
+- Returns tools ranked by relevance with their server (mcpName) and inputSchema, ready for call_mcp_tool`,
+  "search_mcp_tools.query":
+    "Required. The task to accomplish or the capability you need",
+  "search_mcp_tools.limit":
+    "Optional. Maximum number of tools to return (default {{defaultLimit}}, at most {{maxLimit}})",
+  "search_mcp_tools.mcpName": "Optional. Only search this MCP server",
+  "list_mcp_resources.description": `List the resources and resource templates provided by MCP servers.
+
+Returns resource URIs, names, descriptions and MIME types grouped by server; read them with read_mcp_resource.`,
+  "list_mcp_resources.mcpName":
+    "Optional. Only list the resources of this MCP server",
+  "read_mcp_resource.description":
+    "Read a resource from an MCP server. The uri comes from list_mcp_resources or is filled in from a resource template.",
+  "read_mcp_resource.mcpName": "MCP server name",
+  "read_mcp_resource.uri": "Resource URI",
+  "list_mcp_prompts.description": `List the prompt templates provided by MCP servers.
+
+Returns prompt names, descriptions and arguments grouped by server; fetch them with get_mcp_prompt.`,
+  "list_mcp_prompts.mcpName":
+    "Optional. Only list the prompts of this MCP server",
+  "get_mcp_prompt.description":
+    "Get a prompt from an MCP server (the messages with the arguments filled in).",
+  "get_mcp_prompt.mcpName": "MCP server name",
+  "get_mcp_prompt.promptName":
+    "Prompt name (from the results of list_mcp_prompts)",
+  "get_mcp_prompt.arguments": "Prompt arguments (values are strings)",
+  "call_mcp_tool.description": `Call a tool on an MCP server.
+
+Workflow:
+1. Look up the tools of the target server with list_mcp_tools, or find tools for the task with search_mcp_tools
+2. Pick the tool that fits based on its description
+3. Provide arguments that follow the tool's inputSchema
+
+Notes:
+- Make sure the tool name and argument format are correct before calling
+- If a call fails, check that the arguments match what the tool expects
+- Do not call the same tool repeatedly unless the user asks for it
+- The optional timeoutSec overrides the default timeout (the server configuration, or {{defaultTimeoutSec}} seconds when not configured)`,
+  "call_mcp_tool.mcpName": "MCP server name",
+  "call_mcp_tool.toolName":
+    "Name of the tool to call (from the results of list_mcp_tools or search_mcp_tools)",
+  "call_mcp_tool.arguments":
+    "Tool arguments (following the tool's inputSchema)",
+  "call_mcp_tool.timeoutSec":
+    "Optional. Call timeout in seconds; defaults to the server configuration, or {{defaultTimeoutSec}} seconds when not configured",
+  "read_tool_result.description": `Read a truncated tool result page by page.
+
+When a tool's output exceeds the limit configured for its server or tool, the result is truncated and ends with a resultId and the offset of the next page.
+Call this tool with those values to read the rest. Results are kept for a limited time; call the original tool again once they expire.`,
+  "read_tool_result.resultId": "The resultId given in the truncation notice",
+  "read_tool_result.offset":
+    "Optional. Character position to start reading from (default 0)",
+  "read_tool_result.length":
+    "Optional. Number of characters to read (defaults to the output limit)",
+  "call_mcp_tools_batch.description": `Call several MCP tools at once; they run in parallel and the results are returned in order.
+
+When to use: when you need several tools that do not depend on each other (e.g. reading several files or querying several APIs), instead of calling call_mcp_tool one by one.
+
+Notes:
+- Each item takes the same arguments as call_mcp_tool
+- Calls must not depend on each other (make separate calls when one needs the result of another)
+- A failing call does not affect the others; each failure is reported on its own
+- At most {{maxCalls}} calls per batch, {{defaultConcurrency}} running at a time by default`,
+  "call_mcp_tools_batch.calls": "The calls to run",
+  "call_mcp_tools_batch.concurrency":
+    "Optional. Maximum number of calls running at the same time (default {{defaultConcurrency}}, at most {{maxConcurrency}})",
+
+  // 提示信息
+  listToolsHint:
+    "Specify mcpName. See the mcp-router skill (SKILL.md) or call list_mcp_servers for the available servers.",
+  listToolsFailed: 'Failed to get the tools of "{{mcpName}}"',
+  searchQueryRequired: "Please provide the query parameter",
+  searchNoTools: "There are no tools to search",
+  searchNoMatches: "No matching tools found",
+  noResources: "No resources available",
+  noPrompts: "No prompts available",
+  noServers: "No MCP servers found",
+  noDescription: "No description",
+  serverStatus: "Status: {{status}} | Tools: {{toolCount}}",
+  listToolsCallHint:
+    'Call these tools with call_mcp_tool (mcpName: "{{mcpName}}"):',
+  toolListHeading: "## Tools:",
+  inputSchema: "Input schema: `{{schema}}`",
+  searchResultsHeader:
+    "Found {{count}} matching tools; call them with call_mcp_tool:",
+  searchMatch: 'mcpName: "{{mcpName}}" | Score: {{score}}',
+  batchSummary: "{{total}} calls: {{succeeded}} succeeded, {{failed}} failed",
+  batchItemSucceeded: "succeeded",
+  batchItemFailed: "failed",
+
+  // 错误信息
+  callTargetRequired: "mcpName and toolName are required",
+  resourceTargetRequired: "mcpName and uri are required",
+  promptTargetRequired: "mcpName and promptName are required",
+  timeoutSecInvalid: "timeoutSec must be a positive number",
+  unknownTool: "Unknown tool: {{toolName}}",
+  requestCancelled: "Request was cancelled",
+  resultIdRequired: "resultId is required",
+  resultNotFound:
+    "Result not found or expired: {{resultId}}. Call the tool again to get a new result.",
+  batchCallsRequired: "calls must be a non-empty array",
+  batchTooManyCalls: "Too many calls: {{count}} (max {{max}})",
+  serverNotFoundOrNotRunning:
+    'MCP server "{{mcpName}}" was not found or is not running',
+  serverNotFound: "MCP server not found: {{mcpName}}",
+  serverNotInProject:
+    "MCP server is not available in the selected project: {{mcpName}}",
+  serverNotInEndpoint:
+    "MCP server is not available on this endpoint: {{mcpName}}",
+  serverAccessDenied: "Token does not have access to MCP server: {{mcpName}}",
+  serverNotRunning: "MCP server is not running: {{mcpName}}",
+  serverDisabled: "MCP server is disabled: {{mcpName}}",
+  toolNotFound: "Tool not found: {{toolName}} on server {{mcpName}}",
+  toolDisabled: "Tool is disabled: {{toolName}}",
+  toolsFetchFailed: "Failed to get tools from server: {{mcpName}}",
+};
+
+export type EntryMessageKey = keyof typeof en;
+
+const zh: Record<EntryMessageKey, string> = {
+  "list_mcp_servers.description":
+    "列出所有可用的MCP服务器名称及描述。返回当前运行中的MCP服务器列表，不包含具体工具信息。",
+  "list_mcp_tools.description": `查询指定MCP服务器的可用工具列表。
+
+使用前提：
+- 必须先阅读 mcp-router 的 SKILL.md 技能文件了解有哪些可用的MCP服务器
+- 必须指定 mcpName 参数
+
+返回信息包含：服务器描述、工具列表及每个工具的用途说明。`,
+  "list_mcp_tools.mcpName": "必填，MCP服务器名称（从SKILL.md技能文件中获取）",
+  "search_mcp_tools.description": `根据自然语言描述，在所有可用的MCP服务器中搜索相关工具。
+
+适用场景：
+- 不确定哪个MCP服务器提供所需功能时，先用本工具查找
+- 返回按相关度排序的工具，包含所属服务器（mcpName）和 inputSchema，可直接用于 call_mcp_tool`,
+  "search_mcp_tools.query": "必填，想要完成的任务或所需功能的描述",
+  "search_mcp_tools.limit":
+    "可选，返回的最大工具数量（默认 {{defaultLimit}}，最多 {{maxLimit}}）",
+  "search_mcp_tools.mcpName": "可选，只在指定的MCP服务器中搜索",
+  "list_mcp_resources.description": `列出MCP服务器提供的资源（resources）和资源模板。
+
+返回按服务器分组的资源URI、名称、描述和MIME类型，可配合 read_mcp_resource 读取内容。`,
+  "list_mcp_resources.mcpName": "可选，只列出指定MCP服务器的资源",
+  "read_mcp_resource.description":
+    "读取指定MCP服务器上的资源内容。uri 来自 list_mcp_resources 的结果，或按资源模板填写。",
+  "read_mcp_resource.mcpName": "MCP服务器名称",
+  "read_mcp_resource.uri": "资源URI",
+  "list_mcp_prompts.description": `列出MCP服务器提供的提示词模板（prompts）。
+
+返回按服务器分组的提示词名称、描述及参数，可配合 get_mcp_prompt 获取内容。`,
+  "list_mcp_prompts.mcpName": "可选，只列出指定MCP服务器的提示词",
+  "get_mcp_prompt.description":
+    "获取指定MCP服务器上的提示词内容（按参数填充后的消息列表）。",
+  "get_mcp_prompt.mcpName": "MCP服务器名称",
+  "get_mcp_prompt.promptName": "提示词名称（从list_mcp_prompts的结果中选择）",
+  "get_mcp_prompt.arguments": "提示词参数（参数值为字符串）",
+  "call_mcp_tool.description": `调用指定MCP服务器上的工具。
+
+使用流程：
+1. 先使用 list_mcp_tools 查询目标服务器的工具列表，或使用 search_mcp_tools 按需求搜索工具
+2. 根据工具描述选择合适的工具
+3. 按照工具的 inputSchema 提供正确的参数
+
+注意事项：
+- 调用前必须确认工具名称和参数格式正确
+- 如果调用失败，请检查参数是否符合工具要求
+- 不要重复调用同一工具，除非用户明确要求
+- 可选 timeoutSec 参数用于覆盖默认超时（默认使用服务器配置，未配置时为 {{defaultTimeoutSec}} 秒）`,
+  "call_mcp_tool.mcpName": "MCP服务器名称",
+  "call_mcp_tool.toolName":
+    "要调用的工具名称（从list_mcp_tools或search_mcp_tools的结果中选择）",
+  "call_mcp_tool.arguments": "工具参数（根据工具的inputSchema提供）",
+  "call_mcp_tool.timeoutSec":
+    "可选，调用超时时间（秒），默认使用服务器配置，未配置时为 {{defaultTimeoutSec}} 秒",
+  "read_tool_result.description": `分页读取被截断的工具结果。
+
+当工具输出超过该服务器或工具配置的上限时，结果会被截断，并在末尾注明 resultId 和下一段的 offset。
+使用这些值调用本工具即可继续读取剩余内容。结果只保留一段时间，过期后需要重新调用原工具。`,
+  "read_tool_result.resultId": "截断提示中给出的结果ID",
+  "read_tool_result.offset": "可选，开始读取的字符位置（默认 0）",
+  "read_tool_result.length": "可选，读取的字符数（默认与输出上限相同）",
+  "call_mcp_tools_batch.description": `一次调用多个MCP工具，并行执行后按顺序返回每个调用的结果。
+
+适用场景：需要调用多个互不依赖的工具时（例如读取多个文件、查询多个接口），避免逐个调用 call_mcp_tool。
+
+注意事项：
+- 每项的参数与 call_mcp_tool 相同
+- 调用之间不能有依赖关系（后一个调用需要前一个的结果时请分开调用）
+- 单个调用失败不会影响其他调用，失败的调用会单独标出错误
+- 每批最多 {{maxCalls}} 个调用，默认同时执行 {{defaultConcurrency}} 个`,
+  "call_mcp_tools_batch.calls": "要执行的调用列表",
+  "call_mcp_tools_batch.concurrency":
+    "可选，同时执行的最大调用数（默认 {{defaultConcurrency}}，最大 {{maxConcurrency}}）",
+
+  listToolsHint: "请查看mcp-router技能",
+  listToolsFailed: '获取 "{{mcpName}}" 的工具列表失败',
+  searchQueryRequired: "请提供 query 参数",
+  searchNoTools: "没有可搜索的工具",
+  searchNoMatches: "未找到相关工具",
+  noResources: "没有可用的资源",
+  noPrompts: "没有可用的提示词",
+  noServers: "未找到MCP服务器",
+  noDescription: "无描述",
+  serverStatus: "状态: {{status}} | 工具数量: {{toolCount}}",
+  listToolsCallHint:
+    '可以使用 call_mcp_tool 调用以下工具（mcpName: "{{mcpName}}"）:',
+  toolListHeading: "## 工具列表:",
+  inputSchema: "参数格式: `{{schema}}`",
+  searchResultsHeader:
+    "找到 {{count}} 个相关工具，可以使用 call_mcp_tool 调用:",
+  searchMatch: 'mcpName: "{{mcpName}}" | 相关度: {{score}}',
+  batchSummary:
+    "共 {{total}} 个调用，成功 {{succeeded}} 个，失败 {{failed}} 个",
+  batchItemSucceeded: "成功",
+  batchItemFailed: "失败",
+
+  callTargetRequired: "必须指定 mcpName 和 toolName",
+  resourceTargetRequired: "必须指定 mcpName 和 uri",
+  promptTargetRequired: "必须指定 mcpName 和 promptName",
+  timeoutSecInvalid: "timeoutSec 必须是正数",
+  unknownTool: "未知的工具: {{toolName}}",
+  requestCancelled: "请求已取消",
+  resultIdRequired: "必须指定 resultId",
+  resultNotFound:
+    "结果不存在或已过期: {{resultId}}。请重新调用原工具获取新的结果。",
+  batchCallsRequired: "calls 必须是非空数组",
+  batchTooManyCalls: "调用数过多: {{count}}（最多 {{max}} 个）",
+  serverNotFoundOrNotRunning: 'MCP服务器 "{{mcpName}}" 未找到或未运行',
+  serverNotFound: "未找到MCP服务器: {{mcpName}}",
+  serverNotInProject: "MCP服务器不属于所选项目: {{mcpName}}",
+  serverNotInEndpoint: "此端点不提供该MCP服务器: {{mcpName}}",
+  serverAccessDenied: "Token 无权访问MCP服务器: {{mcpName}}",
+  serverNotRunning: "MCP服务器未运行: {{mcpName}}",
+  serverDisabled: "MCP服务器已禁用: {{mcpName}}",
+  toolNotFound: "服务器 {{mcpName}} 上未找到工具: {{toolName}}",
+  toolDisabled: "工具已禁用: {{toolName}}",
+  toolsFetchFailed: "获取服务器的工具列表失败: {{mcpName}}",
+};
+
+const ja: Record<EntryMessageKey, string> = {
+  "list_mcp_servers.description":
+    "利用可能なすべてのMCPサーバーの名前と説明を一覧表示します。実行中のMCPサーバーを返し、ツールの情報は含みません。",
+  "list_mcp_tools.description": `指定したMCPサーバーで利用できるツールを一覧表示します。
+
+使う前に:
+- mcp-router の SKILL.md スキルファイルを読む（または list_mcp_servers を呼ぶ）と、利用できるMCPサーバーがわかります
+- mcpName パラメータは必須です
+
+サーバーの説明と、各ツールの用途を含むツール一覧を返します。`,
+  "list_mcp_tools.mcpName":
+    "必須。MCPサーバー名（SKILL.md スキルファイルから取得）",
+  "search_mcp_tools.description": `自然言語の説明をもとに、利用可能なすべてのMCPサーバーから関連するツールを検索します。
+
+使う場面:
+- 必要な機能をどのMCPサーバーが提供しているかわからないときに、まずこのツールで探します
+- 関連度順にツールを返し、所属サーバー（mcpName）と inputSchema を含むので、そのまま call_mcp_tool に使えます`,
+  "search_mcp_tools.query": "必須。実行したいタスクや必要な機能の説明",
+  "search_mcp_tools.limit":
+    "任意。返すツールの最大数（デフォルト {{defaultLimit}}、最大 {{maxLimit}}）",
+  "search_mcp_tools.mcpName": "任意。指定したMCPサーバーだけを検索します",
+  "list_mcp_resources.description": `MCPサーバーが提供するリソースとリソーステンプレートを一覧表示します。
+
+サーバーごとにリソースのURI、名前、説明、MIMEタイプを返します。内容は read_mcp_resource で読み取れます。`,
+  "list_mcp_resources.mcpName":
+    "任意。指定したMCPサーバーのリソースだけを一覧表示します",
+  "read_mcp_resource.description":
+    "MCPサーバーのリソースを読み取ります。uri は list_mcp_resources の結果から取得するか、リソーステンプレートに従って指定します。",
+  "read_mcp_resource.mcpName": "MCPサーバー名",
+  "read_mcp_resource.uri": "リソースURI",
+  "list_mcp_prompts.description": `MCPサーバーが提供するプロンプトテンプレートを一覧表示します。
+
+サーバーごとにプロンプトの名前、説明、引数を返します。内容は get_mcp_prompt で取得できます。`,
+  "list_mcp_prompts.mcpName":
+    "任意。指定したMCPサーバーのプロンプトだけを一覧表示します",
+  "get_mcp_prompt.description":
+    "MCPサーバーのプロンプトを取得します（引数を埋め込んだメッセージの一覧）。",
+  "get_mcp_prompt.mcpName": "MCPサーバー名",
+  "get_mcp_prompt.promptName":
+    "プロンプト名（list_mcp_prompts の結果から選択）",
+  "get_mcp_prompt.arguments": "プロンプトの引数（値は文字列）",
+  "call_mcp_tool.description": `MCPサーバーのツールを呼び出します。
+
+手順:
+1. list_mcp_tools で対象サーバーのツールを確認するか、search_mcp_tools でタスクに合うツールを検索します
+2. ツールの説明をもとに適切なツールを選びます
+3. ツールの inputSchema に従って正しい引数を指定します
+
+注意:
+- 呼び出す前にツール名と引数の形式が正しいことを確認してください
+- 呼び出しに失敗した場合は、引数がツールの要件を満たしているか確認してください
+- ユーザーが明示的に求めない限り、同じツールを繰り返し呼び出さないでください
+- 任意の timeoutSec でデフォルトのタイムアウトを上書きできます（デフォルトはサーバーの設定、未設定の場合は {{defaultTimeoutSec}} 秒）`,
+  "call_mcp_tool.mcpName": "MCPサーバー名",
+  "call_mcp_tool.toolName":
+    "呼び出すツール名（list_mcp_tools または search_mcp_tools の結果から選択）",
+  "call_mcp_tool.arguments": "ツールの引数（ツールの inputSchema に従う）",
+  "call_mcp_tool.timeoutSec":
+    "任意。呼び出しのタイムアウト（秒）。デフォルトはサーバーの設定、未設定の場合は {{defaultTimeoutSec}} 秒",
+  "read_tool_result.description": `切り詰められたツールの結果をページごとに読み取ります。
+
+ツールの出力がサーバーまたはツールに設定された上限を超えると結果は切り詰められ、末尾に resultId と次のページの offset が示されます。
+その値でこのツールを呼び出すと残りを読み取れます。結果は一定時間だけ保持され、期限切れの場合は元のツールを再度呼び出す必要があります。`,
+  "read_tool_result.resultId": "切り詰めの通知に示された結果ID",
+  "read_tool_result.offset": "任意。読み取りを開始する文字位置（デフォルト 0）",
+  "read_tool_result.length": "任意。読み取る文字数（デフォルトは出力の上限）",
+  "call_mcp_tools_batch.description": `複数のMCPツールを一度に呼び出し、並列に実行して各呼び出しの結果を順番に返します。
+
+使う場面: 互いに依存しない複数のツールを呼び出すとき（複数ファイルの読み取りや複数APIの照会など）に、call_mcp_tool を一つずつ呼び出す代わりに使います。
+
+注意:
+- 各項目の引数は call_mcp_tool と同じです
+- 呼び出し同士に依存関係があってはいけません（前の結果が必要な場合は分けて呼び出してください）
+- 一つの呼び出しが失敗しても他には影響せず、失敗はそれぞれ個別に示されます
+- 1回のバッチは最大 {{maxCalls}} 件、デフォルトで {{defaultConcurrency}} 件ずつ同時に実行します`,
+  "call_mcp_tools_batch.calls": "実行する呼び出しの一覧",
+  "call_mcp_tools_batch.concurrency":
+    "任意。同時に実行する呼び出しの最大数（デフォルト {{defaultConcurrency}}、最大 {{maxConcurrency}}）",
+
+  listToolsHint:
+    "mcpName を指定してください。利用できるサーバーは mcp-router スキル（SKILL.md）または list_mcp_servers で確認できます。",
+  listToolsFailed: "「{{mcpName}}」のツール一覧の取得に失敗しました",
+  searchQueryRequired: "query パラメータを指定してください",
+  searchNoTools: "検索できるツールがありません",
+  searchNoMatches: "関連するツールが見つかりませんでした",
+  noResources: "利用できるリソースがありません",
+  noPrompts: "利用できるプロンプトがありません",
+  noServers: "MCPサーバーが見つかりませんでした",
+  noDescription: "説明なし",
+  serverStatus: "状態: {{status}} | ツール数: {{toolCount}}",
+  listToolsCallHint:
+    'call_mcp_tool で次のツールを呼び出せます（mcpName: "{{mcpName}}"）:',
+  toolListHeading: "## ツール一覧:",
+  inputSchema: "引数の形式: `{{schema}}`",
+  searchResultsHeader:
+    "関連するツールが {{count}} 件見つかりました。call_mcp_tool で呼び出せます:",
+  searchMatch: 'mcpName: "{{mcpName}}" | 関連度: {{score}}',
+  batchSummary:
+    "{{total}} 件の呼び出し: 成功 {{succeeded}} 件、失敗 {{failed}} 件",
+  batchItemSucceeded: "成功",
+  batchItemFailed: "失敗",
+
+  callTargetRequired: "mcpName と toolName は必須です",
+  resourceTargetRequired: "mcpName と uri は必須です",
+  promptTargetRequired: "mcpName と promptName は必須です",
+  timeoutSecInvalid: "timeoutSec は正の数でなければなりません",
+  unknownTool: "不明なツール: {{toolName}}",
+  requestCancelled: "リクエストはキャンセルされました",
+  resultIdRequired: "resultId は必須です",
+  resultNotFound:
+    "結果が見つからないか期限切れです: {{resultId}}。元のツールを再度呼び出して新しい結果を取得してください。",
+  batchCallsRequired: "calls は空でない配列でなければなりません",
+  batchTooManyCalls: "呼び出しが多すぎます: {{count}} 件（最大 {{max}} 件）",
+  serverNotFoundOrNotRunning:
+    "MCPサーバー「{{mcpName}}」が見つからないか、実行されていません",
+  serverNotFound: "MCPサーバーが見つかりません: {{mcpName}}",
+  serverNotInProject:
+    "MCPサーバーは選択されたプロジェクトで利用できません: {{mcpName}}",
+  serverNotInEndpoint:
+    "MCPサーバーはこのエンドポイントで利用できません: {{mcpName}}",
+  serverAccessDenied:
+    "トークンにMCPサーバーへのアクセス権がありません: {{mcpName}}",
+  serverNotRunning: "MCPサーバーが実行されていません: {{mcpName}}",
+  serverDisabled: "MCPサーバーは無効です: {{mcpName}}",
+  toolNotFound: "サーバー {{mcpName}} にツールが見つかりません: {{toolName}}",
+  toolDisabled: "ツールは無効です: {{toolName}}",
+  toolsFetchFailed: "サーバーのツール一覧の取得に失敗しました: {{mcpName}}",
+};
+
+const CATALOGUES: Record<
+  EntryMessageLocale,
+  Record<EntryMessageKey, string>
+> = { en, ja, zh };
+
+/**
+ * 按语言取得文本，并替换 {{name}} 形式的参数
+ */
+export class EntryMessages {
+  public readonly locale: EntryMessageLocale;
+  private catalogue: Record<EntryMessageKey, string>;
+
+  constructor(
+    locale?: EntryMessageLocale,
+    private toolDescriptions: Record<string, string> = {},
+  ) {
+    this.locale =
+      locale && locale in CATALOGUES ? locale : DEFAULT_ENTRY_MESSAGE_LOCALE;
+    this.catalogue = CATALOGUES[this.locale];
+  }
+
+  public t(key: EntryMessageKey, params?: MessageParams): string {
+    return formatMessage(this.catalogue[key], params);
+  }
+
+  /**
+   * 元工具描述：优先使用用户覆盖的文本
+   */
+  public toolDescription(
+    toolName: EntryMetaToolName,
+    params?: MessageParams,
+  ): string {
+    const override = this.toolDescriptions[toolName]?.trim();
+    return override
+      ? formatMessage(override, params)
+      : this.t(`${toolName}.description`, params);
+  }
+}
+
+/**
+ * 按设置创建文本目录
+ */
+export function getEntryMessages(
+  settings: Pick<AppSettings, "entryMessageLocale" | "entryToolDescriptions">,
+): EntryMessages {
+  return new EntryMessages(
+    settings.entryMessageLocale,
+    settings.entryToolDescriptions,
+  );
+}
+
+function formatMessage(template: string, params?: MessageParams): string {
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
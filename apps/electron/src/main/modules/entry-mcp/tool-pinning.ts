@@ -0,0 +1,83 @@
+/**
+ * Tool Pinning
+ * 混合模式下与元工具一起直接暴露的固定工具
+ */
+
+import {
+  DEFAULT_HYBRID_ENDPOINT_SETTINGS,
+  type HybridEndpointSettings,
+  type MCPToolInfo,
+  type PinnedToolRef,
+  type ToolPinningConfig,
+} from "@mcp_router/shared";
+import {
+  createPrefixedToolName,
+  resolveExposedToolNames,
+} from "@/main/utils/tool-name-utils";
+
+/**
+ * 自动固定时统计调用次数的时间范围
+ */
+export const AUTO_PIN_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 固定工具（附带对外暴露的名称）
+ */
+export interface PinnedTool extends PinnedToolRef {
+  exposedName: string;
+  tool: MCPToolInfo;
+}
+
+/**
+ * 选用调用方的固定工具配置：客户端 → 项目 → 默认
+ */
+export function resolvePinningConfig(
+  settings: HybridEndpointSettings | undefined,
+  clientId: string | undefined,
+  projectId: string | null,
+): ToolPinningConfig {
+  const hybrid = settings ?? DEFAULT_HYBRID_ENDPOINT_SETTINGS;
+  return (
+    (clientId ? hybrid.clients?.[clientId] : undefined) ??
+    (projectId ? hybrid.projects?.[projectId] : undefined) ??
+    hybrid.default
+  );
+}
+
+/**
+ * 还原日志中的工具名：聚合模式可能记录了带服务器前缀的名称
+ */
+export function toOriginalToolName(
+  serverName: string,
+  loggedName: string,
+): string {
+  const prefix = createPrefixedToolName(serverName, "");
+  return loggedName.startsWith(prefix) && loggedName.length > prefix.length
+    ? loggedName.slice(prefix.length)
+    : loggedName;
+}
+
+/**
+ * 为固定工具分配名称：重名时加服务器前缀，且不能与元工具同名
+ */
+export function assignPinnedToolNames(
+  tools: Array<PinnedToolRef & { tool: MCPToolInfo }>,
+  reservedNames: Set<string>,
+): PinnedTool[] {
+  const resolved = resolveExposedToolNames(tools, "prefix-on-collision");
+  const usedNames = new Set<string>();
+  const pinned: PinnedTool[] = [];
+
+  for (const { exposedName, ...tool } of resolved.tools) {
+    const name = reservedNames.has(exposedName)
+      ? createPrefixedToolName(tool.serverName, tool.toolName)
+      : exposedName;
+    if (usedNames.has(name)) {
+      continue;
+    }
+    usedNames.add(name);
+    pinned.push({ ...tool, exposedName: name });
+  }
+
+  return pinned;
+}
@@ -0,0 +1,173 @@
+/**
+ * Tool Search
+ * search_mcp_tools 的相关度计算：默认本地 BM25，可选 Embedding 相似度
+ */
+
+import type { MCPToolInfo } from "@mcp_router/shared";
+
+/**
+ * 参与搜索的工具（附带所属服务器）
+ */
+export interface SearchableTool {
+  mcpName: string;
+  tool: MCPToolInfo;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 工具名称最能说明用途，在文档中重复以提高其权重
+const TOOL_NAME_WEIGHT = 3;
+
+// 只展开有限层级的嵌套参数，避免超大 Schema 淹没名称和描述
+const MAX_SCHEMA_DEPTH = 3;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const CJK_RUN_PATTERN =
+  /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+)/gu;
+
+/**
+ * 将文本切分为检索词
+ * 拆分 camelCase / snake_case；中日文没有空格，按单字和相邻两字切分
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .replace(CJK_RUN_PATTERN, " $1 ")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+
+  const tokens: string[] = [];
+  for (const word of words) {
+    if (!word) {
+      continue;
+    }
+    if (CJK_PATTERN.test(word)) {
+      const chars = Array.from(word);
+      tokens.push(...chars);
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+    } else {
+      tokens.push(stem(word));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 简单的复数归一（files -> file），让查询与工具名更容易对上
+ */
+function stem(word: string): string {
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * 生成用于检索的工具文本：名称、服务器名、描述以及参数名和参数描述
+ */
+export function buildToolDocument(item: SearchableTool): string {
+  const parts: string[] = [];
+  for (let i = 0; i < TOOL_NAME_WEIGHT; i++) {
+    parts.push(item.tool.name);
+  }
+  parts.push(item.mcpName);
+  if (item.tool.description) {
+    parts.push(item.tool.description);
+  }
+  collectSchemaText(item.tool.inputSchema, 0, parts);
+  return parts.join("\n");
+}
+
+function collectSchemaText(
+  schema: unknown,
+  depth: number,
+  parts: string[],
+): void {
+  if (!schema || typeof schema !== "object" || depth >= MAX_SCHEMA_DEPTH) {
+    return;
+  }
+  const properties = (schema as { properties?: unknown }).properties;
+  if (!properties || typeof properties !== "object") {
+    return;
+  }
+  for (const [name, property] of Object.entries(properties)) {
+    parts.push(name);
+    const description = (property as { description?: unknown })?.description;
+    if (typeof description === "string") {
+      parts.push(description);
+    }
+    collectSchemaText(property, depth + 1, parts);
+    collectSchemaText(
+      (property as { items?: unknown })?.items,
+      depth + 1,
+      parts,
+    );
+  }
+}
+
+/**
+ * 计算查询对每个文档的 BM25 得分（与 documents 顺序一致）
+ */
+export function rankBM25(query: string, documents: string[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const docs = documents.map((doc) => {
+    const frequencies = new Map<string, number>();
+    const tokens = tokenize(doc);
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    return { frequencies, length: tokens.length };
+  });
+  if (docs.length === 0 || queryTerms.length === 0) {
+    return docs.map(() => 0);
+  }
+
+  const averageLength =
+    docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const containing = docs.filter((doc) => doc.frequencies.has(term)).length;
+    idf.set(
+      term,
+      Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5)),
+    );
+  }
+
+  return docs.map((doc) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = doc.frequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const norm =
+        frequency +
+        BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / averageLength);
+      score += (idf.get(term) ?? 0) * ((frequency * (BM25_K1 + 1)) / norm);
+    }
+    return score;
+  });
+}
+
+/**
+ * 两个向量的余弦相似度
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -24,7 +24,7 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 
 // Internal modules
 import { TokenManager } from "./token-manager";
-import { MCPClient } from "./mcp-client";
+import { MCPClient, type MCPConnectionOptions } from "./mcp-client";
 import { AppPaths } from "./app-paths";
 import {
   STANDARD_APP_DEFINITIONS,
@@ -181,8 +181,9 @@ export class McpAppsManagerService extends SingletonService<
   public async connectToMCPServer(
     server: MCPServerConfig,
     clientName = "mcp-client",
+    options?: MCPConnectionOptions,
   ): Promise<MCPConnectionResult> {
-    return this.mcpClient.connectToMCPServer(server, clientName);
+    return this.mcpClient.connectToMCPServer(server, clientName, options);
   }
 
   public async fetchServerTools(client: Client): Promise<any[]> {
@@ -887,8 +888,9 @@ export async function unifyAppConfig(
 export async function connectToMCPServer(
   server: MCPServerConfig,
   clientName = "mcp-client",
+  options?: MCPConnectionOptions,
 ): Promise<MCPConnectionResult> {
-  return getMcpAppsService().connectToMCPServer(server, clientName);
+  return getMcpAppsService().connectToMCPServer(server, clientName, options);
 }
 
 export async function fetchServerTools(client: Client): Promise<any[]> {
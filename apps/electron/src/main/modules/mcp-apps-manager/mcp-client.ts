@@ -179,6 +179,11 @@ export function resolveRemoteServerConfig(
   };
 }
 
+export interface MCPConnectionOptions {
+  /** Receives the stderr output of local servers */
+  onStderr?: (chunk: string) => void;
+}
+
 /**
  * MCPクライアント接続機能を提供するクラス
  */
@@ -189,13 +194,24 @@ export class MCPClient {
   public async connectToMCPServer(
     server: MCPServerConfig,
     clientName = "mcp-client",
+    options: MCPConnectionOptions = {},
   ): Promise<MCPConnectionResult> {
     try {
-      // Create MCP client
-      const client = new Client({
-        name: clientName,
-        version: "1.0.0",
-      });
+      // Create MCP client. Sampling/elicitation and roots requests from the
+      // server are handled by MCPServerManager.
+      const client = new Client(
+        {
+          name: clientName,
+          version: "1.0.0",
+        },
+        {
+          capabilities: {
+            sampling: {},
+            elicitation: {},
+            roots: { listChanged: true },
+          },
+        },
+      );
       const resolvedRemoteConfig = resolveRemoteServerConfig(server);
 
       // Choose transport based on server type
@@ -271,7 +287,14 @@ export class MCPClient {
           command: server.command,
           args: server.args,
           env: mergedEnv,
+          stderr: options.onStderr ? "pipe" : "inherit",
         });
+        if (options.onStderr) {
+          const onStderr = options.onStderr;
+          transport.stderr?.on("data", (chunk: Buffer | string) =>
+            onStderr(chunk.toString()),
+          );
+        }
         await client.connect(transport);
       } else {
         throw new Error(
@@ -1,4 +1,5 @@
 import { ipcMain } from "electron";
+import type { RequestLogStatus } from "@mcp_router/shared";
 import { logService } from "@/main/modules/mcp-logger/mcp-logger.service";
 
 export function setupLogHandlers(): void {
@@ -12,7 +13,7 @@ export function setupLogHandlers(): void {
         requestType?: string;
         startDate?: Date;
         endDate?: Date;
-        responseStatus?: "success" | "error";
+        responseStatus?: RequestLogStatus;
         cursor?: string;
         limit?: number;
       },
@@ -26,4 +27,8 @@ export function setupLogHandlers(): void {
       }
     },
   );
+
+  ipcMain.handle("requestLogs:clients", () => {
+    return logService.getRequestLogClients();
+  });
 }
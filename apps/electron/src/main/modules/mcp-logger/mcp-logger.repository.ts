@@ -11,6 +11,15 @@ import {
 } from "@mcp_router/shared";
 import { encodeCursor, decodeCursor } from "@/renderer/utils/cursor";
 
+/**
+ * サーバー・ツールごとの呼び出し回数
+ */
+export interface ToolCallCount {
+  serverName: string;
+  toolName: string;
+  count: number;
+}
+
 /**
  * リクエストログ用リポジトリクラス
  * BetterSQLite3を使用してリクエストログを管理
@@ -322,4 +331,50 @@ export class McpLoggerRepository extends BaseRepository<RequestLogEntry> {
       return { items: [], logs: [], total: 0, hasMore: false };
     }
   }
+
+  /**
+   * ログに記録されているクライアントIDの一覧を取得
+   */
+  public getClientIds(): string[] {
+    try {
+      const rows = this.db.all<{ client_id: string }>(
+        `SELECT DISTINCT client_id FROM ${this.tableName} ORDER BY client_id`,
+      );
+      return rows.map((row) => row.client_id);
+    } catch (error) {
+      console.error("クライアント一覧の取得中にエラーが発生しました:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 指定時刻以降のツール呼び出し回数を多い順に取得
+   */
+  public getToolCallCounts(since: number, limit: number): ToolCallCount[] {
+    try {
+      const rows = this.db.all<{
+        server_name: string;
+        tool_name: string | null;
+        count: number;
+      }>(
+        `SELECT server_name, json_extract(request_params, '$.name') AS tool_name, COUNT(*) AS count
+         FROM ${this.tableName}
+         WHERE request_type = 'CallTool' AND timestamp >= :since
+         GROUP BY server_name, tool_name
+         ORDER BY count DESC
+         LIMIT :limit`,
+        { since, limit },
+      );
+      return rows
+        .filter((row) => typeof row.tool_name === "string")
+        .map((row) => ({
+          serverName: row.server_name,
+          toolName: row.tool_name as string,
+          count: row.count,
+        }));
+    } catch (error) {
+      console.error("ツール呼び出し回数の取得中にエラーが発生しました:", error);
+      return [];
+    }
+  }
 }
@@ -8,7 +8,10 @@ import {
   AGGREGATOR_SERVER_ID,
   AGGREGATOR_SERVER_NAME,
 } from "@mcp_router/shared";
-import { McpLoggerRepository } from "./mcp-logger.repository";
+import {
+  McpLoggerRepository,
+  type ToolCallCount,
+} from "./mcp-logger.repository";
 
 /**
  * Request log service class
@@ -135,6 +138,20 @@ export class McpLoggerService extends SingletonService<
     });
   }
 
+  /**
+   * ログに記録されているクライアントIDの一覧を取得
+   */
+  public getRequestLogClients(): string[] {
+    return McpLoggerRepository.getInstance().getClientIds();
+  }
+
+  /**
+   * 指定時刻以降のツール呼び出し回数を多い順に取得
+   */
+  public getToolCallCounts(since: number, limit: number): ToolCallCount[] {
+    return McpLoggerRepository.getInstance().getToolCallCounts(since, limit);
+  }
+
   /**
    * リクエストログを取得（カーソルベースページネーション、フィルタリング対応）
    */
@@ -0,0 +1,212 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  type Prompt,
+  type Resource,
+  type ResourceTemplate,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Timeout for a single upstream list request
+ */
+const LIST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Lists cached per server
+ */
+export interface CapabilityLists {
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+}
+
+export type CapabilityKind = keyof CapabilityLists;
+
+const CAPABILITY_KINDS: CapabilityKind[] = [
+  "tools",
+  "resources",
+  "resourceTemplates",
+  "prompts",
+];
+
+/**
+ * Per-server cache of tools/resources/prompts lists.
+ * Entries are filled lazily (or via prefetch on connect) and dropped when the
+ * upstream server sends a list_changed notification.
+ */
+export class CapabilityCache {
+  private entries: Map<string, Partial<CapabilityLists>> = new Map();
+  // Keyed by `${serverId}:${kind}`
+  private pending: Map<string, Promise<unknown[]>> = new Map();
+  // Bumped on invalidation so in-flight fetches don't store stale lists
+  private generations: Map<string, number> = new Map();
+
+  /**
+   * @param onListChanged Called when an upstream server reports a list change
+   */
+  constructor(
+    private onListChanged?: (serverId: string, kinds: CapabilityKind[]) => void,
+  ) {}
+
+  /**
+   * Start tracking a newly connected client
+   */
+  public attach(serverId: string, client: Client): void {
+    this.remove(serverId);
+
+    const handleListChanged = (kinds: CapabilityKind[]) => () => {
+      this.invalidate(serverId, kinds);
+      this.onListChanged?.(serverId, kinds);
+    };
+    client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      handleListChanged(["tools"]),
+    );
+    client.setNotificationHandler(
+      ResourceListChangedNotificationSchema,
+      handleListChanged(["resources", "resourceTemplates"]),
+    );
+    client.setNotificationHandler(
+      PromptListChangedNotificationSchema,
+      handleListChanged(["prompts"]),
+    );
+  }
+
+  /**
+   * Fill the cache for all lists the server supports, ignoring failures
+   */
+  public async prefetch(serverId: string, client: Client): Promise<void> {
+    await Promise.allSettled(
+      CAPABILITY_KINDS.map((kind) => this.get(serverId, client, kind)),
+    );
+  }
+
+  /**
+   * Get a list from the cache, fetching it from the server on a miss
+   */
+  public async get<K extends CapabilityKind>(
+    serverId: string,
+    client: Client,
+    kind: K,
+  ): Promise<CapabilityLists[K]> {
+    const cached = this.entries.get(serverId)?.[kind];
+    if (cached) {
+      return cached as CapabilityLists[K];
+    }
+
+    const key = `${serverId}:${kind}`;
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return (await inFlight) as CapabilityLists[K];
+    }
+
+    const generation = this.generations.get(key) ?? 0;
+    const request = this.fetch(client, kind).finally(() => {
+      // An invalidation may already have replaced this request
+      if (this.pending.get(key) === request) {
+        this.pending.delete(key);
+      }
+    });
+    this.pending.set(key, request);
+
+    const list = await request;
+    if ((this.generations.get(key) ?? 0) === generation) {
+      const entry = this.entries.get(serverId) ?? {};
+      entry[kind] = list;
+      this.entries.set(serverId, entry);
+    }
+    return list;
+  }
+
+  /**
+   * Drop cached lists for a server (all lists when kinds is omitted)
+   */
+  public invalidate(serverId: string, kinds?: CapabilityKind[]): void {
+    for (const kind of kinds ?? CAPABILITY_KINDS) {
+      this.discardPending(`${serverId}:${kind}`);
+    }
+
+    const entry = this.entries.get(serverId);
+    if (!entry) {
+      return;
+    }
+    if (!kinds) {
+      this.entries.delete(serverId);
+      return;
+    }
+    for (const kind of kinds) {
+      delete entry[kind];
+    }
+  }
+
+  /**
+   * Forget a server entirely (on stop/remove)
+   */
+  public remove(serverId: string): void {
+    this.invalidate(serverId);
+  }
+
+  /**
+   * Clear the whole cache
+   */
+  public clear(): void {
+    for (const key of this.pending.keys()) {
+      this.discardPending(key);
+    }
+    this.entries.clear();
+  }
+
+  /**
+   * Stop sharing and storing an in-flight fetch; later callers fetch anew
+   */
+  private discardPending(key: string): void {
+    this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    this.pending.delete(key);
+  }
+
+  private async fetch<K extends CapabilityKind>(
+    client: Client,
+    kind: K,
+  ): Promise<CapabilityLists[K]> {
+    // Don't call list methods the server didn't advertise
+    const capabilities = client.getServerCapabilities();
+    const options = { timeout: LIST_TIMEOUT_MS };
+
+    switch (kind) {
+      case "tools": {
+        if (capabilities && !capabilities.tools) {
+          return [] as CapabilityLists[K];
+        }
+        const response = await client.listTools(undefined, options);
+        return (response?.tools ?? []) as CapabilityLists[K];
+      }
+      case "resources": {
+        if (capabilities && !capabilities.resources) {
+          return [] as CapabilityLists[K];
+        }
+        const response = await client.listResources(undefined, options);
+        return (response?.resources ?? []) as CapabilityLists[K];
+      }
+      case "resourceTemplates": {
+        if (capabilities && !capabilities.resources) {
+          return [] as CapabilityLists[K];
+        }
+        const response = await client.listResourceTemplates(undefined, options);
+        return (response?.resourceTemplates ?? []) as CapabilityLists[K];
+      }
+      case "prompts": {
+        if (capabilities && !capabilities.prompts) {
+          return [] as CapabilityLists[K];
+        }
+        const response = await client.listPrompts(undefined, options);
+        return (response?.prompts ?? []) as CapabilityLists[K];
+      }
+      default:
+        return [] as CapabilityLists[K];
+    }
+  }
+}
@@ -74,6 +74,18 @@ export function setupMcpServerHandlers(
     },
   );
 
+  ipcMain.handle("mcp:get-logs", (_, id: string) => {
+    const mcpServerManager = getMCPServerManager();
+    return mcpServerManager.getServerLogs(id);
+  });
+
+  // Stream stderr output of local servers to the renderer
+  getMCPServerManager().onServerLogs((serverId, entries) => {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send("mcp:server-logs", serverId, entries);
+    }
+  });
+
   ipcMain.handle("mcp:list-tools", async (_, id: string) => {
     const mcpServerManager = getMCPServerManager();
     return await mcpServerManager.listServerTools(id);
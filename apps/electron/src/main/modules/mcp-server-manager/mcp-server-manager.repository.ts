@@ -37,6 +37,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
       required_params TEXT,
       project_id TEXT,
       tool_permissions TEXT,
+      server_request_policy TEXT,
+      tool_call_timeout_sec INTEGER,
+      tool_timeout_overrides TEXT,
+      max_concurrent_tool_calls INTEGER,
+      max_tool_output_chars INTEGER,
+      tool_output_limit_overrides TEXT,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL
     )
@@ -151,6 +157,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         "ツール権限",
         {},
       );
+      const toolTimeoutOverrides = this.safeParseJSON<
+        Record<string, number> | undefined
+      >(row.tool_timeout_overrides, "ツールタイムアウト", undefined);
+      const toolOutputLimitOverrides = this.safeParseJSON<
+        Record<string, number> | undefined
+      >(row.tool_output_limit_overrides, "ツール出力上限", undefined);
 
       // エンティティオブジェクトを構築
       return {
@@ -172,6 +184,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         required: requiredParams,
         projectId: row.project_id || null,
         toolPermissions,
+        serverRequestPolicy: row.server_request_policy || undefined,
+        toolCallTimeoutSec: row.tool_call_timeout_sec ?? undefined,
+        toolTimeoutOverrides,
+        maxConcurrentToolCalls: row.max_concurrent_tool_calls ?? undefined,
+        maxToolOutputChars: row.max_tool_output_chars ?? undefined,
+        toolOutputLimitOverrides,
         status: "stopped",
         logs: [],
       };
@@ -196,6 +214,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
       toolPermissions: entity.toolPermissions
         ? JSON.stringify(entity.toolPermissions)
         : null,
+      toolTimeoutOverrides: entity.toolTimeoutOverrides
+        ? JSON.stringify(entity.toolTimeoutOverrides)
+        : null,
+      toolOutputLimitOverrides: entity.toolOutputLimitOverrides
+        ? JSON.stringify(entity.toolOutputLimitOverrides)
+        : null,
       command: entity.command || null,
       args: JSON.stringify(entity.args || []),
       remoteUrl: entity.remoteUrl || null,
@@ -218,6 +242,8 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         args,
         remoteUrl,
         toolPermissions,
+        toolTimeoutOverrides,
+        toolOutputLimitOverrides,
       } = this.serializeEntityData(entity);
 
       // DB行オブジェクトを構築
@@ -236,6 +262,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         input_params: inputParams,
         project_id: entity.projectId ?? null,
         tool_permissions: toolPermissions,
+        server_request_policy: entity.serverRequestPolicy || null,
+        tool_call_timeout_sec: entity.toolCallTimeoutSec ?? null,
+        tool_timeout_overrides: toolTimeoutOverrides,
+        max_concurrent_tool_calls: entity.maxConcurrentToolCalls ?? null,
+        max_tool_output_chars: entity.maxToolOutputChars ?? null,
+        tool_output_limit_overrides: toolOutputLimitOverrides,
         description: entity.description || null,
         version: entity.version || null,
         latest_version: entity.latestVersion || null,
@@ -325,6 +357,8 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         args,
         remoteUrl,
         toolPermissions,
+        toolTimeoutOverrides,
+        toolOutputLimitOverrides,
       } = this.serializeEntityData(entity);
 
       // DB行オブジェクトを構築
@@ -343,6 +377,12 @@ export class McpServerManagerRepository extends BaseRepository<MCPServer> {
         input_params: inputParams,
         project_id: entity.projectId ?? null,
         tool_permissions: toolPermissions,
+        server_request_policy: entity.serverRequestPolicy || null,
+        tool_call_timeout_sec: entity.toolCallTimeoutSec ?? null,
+        tool_timeout_overrides: toolTimeoutOverrides,
+        max_concurrent_tool_calls: entity.maxConcurrentToolCalls ?? null,
+        max_tool_output_chars: entity.maxToolOutputChars ?? null,
+        tool_output_limit_overrides: toolOutputLimitOverrides,
         description: entity.description || null,
         version: entity.version || null,
         latest_version: entity.latestVersion || null,
@@ -1,7 +1,15 @@
 import * as fs from "fs";
 import * as path from "path";
+import { EventEmitter } from "events";
 import { app } from "electron";
-import { MCPServer, MCPServerConfig, MCPTool } from "@mcp_router/shared";
+import {
+  DEFAULT_APP_SETTINGS,
+  MCPServer,
+  MCPServerConfig,
+  MCPTool,
+  ServerLogEntry,
+  WorkflowLifecycleType,
+} from "@mcp_router/shared";
 import {
   getServerService,
   ServerService,
@@ -17,6 +25,34 @@ import {
 } from "../mcp-apps-manager/mcp-config-importer";
 import { getLogService } from "@/main/modules/mcp-logger/mcp-logger.service";
 import { getSkillsWatcher } from "@/main/modules/skills";
+import {
+  CapabilityCache,
+  type CapabilityKind,
+  type CapabilityLists,
+} from "./capability-cache";
+import { ServerRequestProxy } from "./server-request-proxy";
+import { RootsProvider } from "./roots-provider";
+import { ProjectRepository } from "../projects/projects.repository";
+import type { Root } from "@modelcontextprotocol/sdk/types.js";
+import { requestServerRequestApproval } from "./server-request-approval";
+import {
+  ToolCallLimiter,
+  resolveToolCallTimeoutMs,
+  type ToolCallContext,
+} from "./tool-call-limiter";
+import {
+  ToolOutputStore,
+  resolveToolOutputLimit,
+  type ToolOutputPage,
+} from "./tool-output-limiter";
+import { ServerSupervisor } from "./server-supervisor";
+import { getSettingsService } from "../settings/settings.service";
+import { MAX_SERVER_LOG_LINES, ServerLogBuffer } from "./server-log-buffer";
+import { ServerLogRepository } from "./server-log.repository";
+import { getWorkflowService } from "../workflow/workflow.service";
+import type { InboundRequestExtra } from "@/main/utils/progress-utils";
+
+const SUPERVISOR_CLIENT_ID = "mcp-router-supervisor";
 
 /**
  * Core server lifecycle management
@@ -26,6 +62,60 @@ export class MCPServerManager {
   private clients: Map<string, Client> = new Map();
   private serverNameToIdMap: Map<string, string> = new Map();
   private serverStatusMap: Map<string, boolean> = new Map();
+  private capabilityCache: CapabilityCache = new CapabilityCache(
+    (_serverId, kinds) => this.emitCapabilitiesChanged(kinds),
+  );
+  private serverRequestProxy: ServerRequestProxy = new ServerRequestProxy({
+    getServer: (serverId) => this.servers.get(serverId),
+    requestApproval: requestServerRequestApproval,
+  });
+  private rootsProvider: RootsProvider = new RootsProvider({
+    getServer: (serverId) => this.servers.get(serverId),
+    getProject: (projectId) =>
+      ProjectRepository.getInstance().getById(projectId) ?? null,
+    getClients: () => this.clients,
+  });
+  private toolCallLimiter: ToolCallLimiter = new ToolCallLimiter({
+    getServer: (serverId) => this.servers.get(serverId),
+    onQueued: (call, waitMs) =>
+      this.recordToolCallLimitLog(call, "CallToolQueued", waitMs),
+    onRejected: (call, reason) =>
+      this.recordToolCallLimitLog(call, "CallToolRejected", 0, reason),
+  });
+  private toolOutputStore: ToolOutputStore = new ToolOutputStore();
+  private supervisor: ServerSupervisor = new ServerSupervisor({
+    getServer: (serverId) => this.servers.get(serverId),
+    getRestartLimit: () =>
+      getSettingsService().getSettings().serverAutoRestartLimit ??
+      DEFAULT_APP_SETTINGS.serverAutoRestartLimit ??
+      0,
+    onCrash: (serverId, reason) => this.handleServerCrash(serverId, reason),
+    restart: async (serverId) => {
+      await this.startServer(serverId, SUPERVISOR_CLIENT_ID, false);
+    },
+    hasActiveCalls: (serverId) =>
+      this.toolCallLimiter.getStats(serverId).active > 0,
+    onRestartAttempt: (serverId, attempt, error) =>
+      this.recordRestartAttempt(serverId, attempt, error),
+    onGiveUp: (serverId, attempts) => {
+      const server = this.servers.get(serverId);
+      if (server && attempts > 0) {
+        server.errorMessage = `${server.lastCrashReason} (gave up after ${attempts} restarts)`;
+      }
+    },
+  });
+  private logBuffer: ServerLogBuffer = new ServerLogBuffer({
+    load: (serverId) => ServerLogRepository.getInstance().getLogs(serverId),
+    persist: (serverId, entries) =>
+      ServerLogRepository.getInstance().appendLogs(
+        serverId,
+        entries,
+        MAX_SERVER_LOG_LINES,
+      ),
+    onLines: (serverId, entries) =>
+      this.eventEmitter.emit("server-logs", serverId, entries),
+  });
+  private eventEmitter: EventEmitter = new EventEmitter();
   private serversDir: string;
   private serverService!: ServerService;
 
@@ -114,6 +204,54 @@ export class MCPServerManager {
     }
   }
 
+  /**
+   * Subscribe to changes in the aggregated tools/resources/prompts lists
+   */
+  public onCapabilitiesChanged(
+    callback: (kinds: CapabilityKind[]) => void,
+  ): void {
+    this.eventEmitter.on("capabilities-changed", callback);
+  }
+
+  public offCapabilitiesChanged(
+    callback: (kinds: CapabilityKind[]) => void,
+  ): void {
+    this.eventEmitter.off("capabilities-changed", callback);
+  }
+
+  private emitCapabilitiesChanged(
+    kinds: CapabilityKind[] = [
+      "tools",
+      "resources",
+      "resourceTemplates",
+      "prompts",
+    ],
+  ): void {
+    this.eventEmitter.emit("capabilities-changed", kinds);
+  }
+
+  /**
+   * Subscribe to stderr lines written by local servers
+   */
+  public onServerLogs(
+    callback: (serverId: string, entries: ServerLogEntry[]) => void,
+  ): void {
+    this.eventEmitter.on("server-logs", callback);
+  }
+
+  public offServerLogs(
+    callback: (serverId: string, entries: ServerLogEntry[]) => void,
+  ): void {
+    this.eventEmitter.off("server-logs", callback);
+  }
+
+  /**
+   * Recent stderr output of a server, oldest first
+   */
+  public getServerLogs(id: string): ServerLogEntry[] {
+    return this.logBuffer.get(id);
+  }
+
   /**
    * Update server name to ID mapping
    */
@@ -146,6 +284,9 @@ export class MCPServerManager {
     this.clients.clear();
     this.serverNameToIdMap.clear();
     this.serverStatusMap.clear();
+    this.capabilityCache.clear();
+    this.logBuffer.clear();
+    this.toolOutputStore.clear();
   }
 
   /**
@@ -211,6 +352,9 @@ export class MCPServerManager {
     if (removed && server) {
       markExternalServerAsDeleted(server.name);
 
+      this.logBuffer.remove(id);
+      ServerLogRepository.getInstance().deleteByServerId(id);
+
       this.serverNameToIdMap.delete(server.name);
       this.servers.delete(id);
 
@@ -269,8 +413,15 @@ export class MCPServerManager {
     const result = await this.connectToServerWithResult(id);
 
     if (result.status === "error") {
+      this.logBuffer.flushPartial(id);
       server.status = "error";
       server.errorMessage = result.error;
+      this.runLifecycleWorkflows(
+        "server/error",
+        server,
+        clientId,
+        result.error,
+      );
       throw new Error(result.error);
     }
 
@@ -278,6 +429,17 @@ export class MCPServerManager {
     server.status = "running";
     server.errorMessage = undefined;
 
+    // Relay sampling/elicitation requests to the calling client
+    this.serverRequestProxy.attach(id, result.client);
+    this.rootsProvider.attach(id, result.client);
+
+    // Populate the capability cache in the background
+    this.capabilityCache.attach(id, result.client);
+    void this.capabilityCache.prefetch(id, result.client);
+
+    // Restart the server automatically if it crashes
+    this.supervisor.watch(id, result.client);
+
     // Register the client
     this.serverStatusMap.set(server.name, true);
 
@@ -298,6 +460,8 @@ export class MCPServerManager {
 
     // Notify Skills Watcher
     getSkillsWatcher().onServerStarted(id);
+    this.emitCapabilitiesChanged();
+    this.runLifecycleWorkflows("server/start", server, clientId);
 
     return true;
   }
@@ -315,6 +479,9 @@ export class MCPServerManager {
       return false;
     }
 
+    // Stopped on purpose, so the supervisor must not restart it
+    this.supervisor.unwatch(id);
+
     const client = this.clients.get(id);
     if (!client) {
       server.status = "stopped";
@@ -344,11 +511,15 @@ export class MCPServerManager {
 
       // Disconnect the client
       client.close();
+      this.logBuffer.flushPartial(id);
       this.clients.delete(id);
+      this.capabilityCache.remove(id);
       server.status = "stopped";
 
       // Notify Skills Watcher
       getSkillsWatcher().onServerStopped(id);
+      this.emitCapabilitiesChanged();
+      this.runLifecycleWorkflows("server/stop", server, clientId);
 
       return true;
     } catch {
@@ -357,6 +528,88 @@ export class MCPServerManager {
     }
   }
 
+  /**
+   * Drop the connection of a server that died without being stopped
+   */
+  private handleServerCrash(id: string, reason: string): void {
+    const server = this.servers.get(id);
+    if (!server) {
+      return;
+    }
+
+    this.clients.delete(id);
+    this.capabilityCache.remove(id);
+    this.logBuffer.flushPartial(id);
+    this.serverStatusMap.set(server.name, false);
+    server.status = "error";
+    server.errorMessage = reason;
+    server.lastCrashReason = reason;
+    server.lastCrashAt = Date.now();
+
+    getLogService().recordMcpRequestLog({
+      timestamp: new Date().toISOString(),
+      requestType: "ServerCrashed",
+      params: { serverName: server.name },
+      result: "error",
+      errorMessage: reason,
+      duration: 0,
+      clientId: SUPERVISOR_CLIENT_ID,
+    });
+
+    getSkillsWatcher().onServerStopped(id);
+    this.emitCapabilitiesChanged();
+    this.runLifecycleWorkflows(
+      "server/error",
+      server,
+      SUPERVISOR_CLIENT_ID,
+      reason,
+    );
+  }
+
+  /**
+   * Run the workflows attached to a server lifecycle event in the background
+   */
+  private runLifecycleWorkflows(
+    workflowType: WorkflowLifecycleType,
+    server: MCPServer,
+    clientId?: string,
+    error?: string,
+  ): void {
+    try {
+      void getWorkflowService().runLifecycleWorkflows(workflowType, {
+        serverId: server.id,
+        serverName: server.name,
+        projectId: server.projectId ?? null,
+        clientId: clientId || "unknownClient",
+        error,
+      });
+    } catch (err) {
+      console.error(`Failed to run ${workflowType} workflows:`, err);
+    }
+  }
+
+  private recordRestartAttempt(
+    id: string,
+    attempt: number,
+    error?: string,
+  ): void {
+    const server = this.servers.get(id);
+    if (!server) {
+      return;
+    }
+
+    server.restartCount = (server.restartCount ?? 0) + 1;
+    getLogService().recordMcpRequestLog({
+      timestamp: new Date().toISOString(),
+      requestType: "RestartServer",
+      params: { serverName: server.name, attempt },
+      result: error ? "error" : "success",
+      errorMessage: error,
+      duration: 0,
+      clientId: SUPERVISOR_CLIENT_ID,
+    });
+  }
+
   /**
    * Update an MCP server's configuration
    */
@@ -376,6 +629,7 @@ export class MCPServerManager {
 
     const server = this.servers.get(id);
     if (server) {
+      const previousProjectId = server.projectId ?? null;
       const status = server.status;
       const logs = server.logs || [];
       Object.assign(server, updatedServer, { status, logs });
@@ -384,6 +638,22 @@ export class MCPServerManager {
 
       // Notify Skills Watcher about relevant changes
       getSkillsWatcher().onServerUpdated(id, config);
+
+      // Name, project and permission changes alter what clients can see
+      if (
+        this.clients.has(id) &&
+        (config.name !== undefined ||
+          config.projectId !== undefined ||
+          config.toolPermissions !== undefined)
+      ) {
+        this.emitCapabilitiesChanged();
+      }
+
+      // Moving to another project changes the roots the server can see
+      const client = this.clients.get(id);
+      if (client && (server.projectId ?? null) !== previousProjectId) {
+        this.rootsProvider.sendRootsListChanged(id, client);
+      }
     }
 
     return updatedServer;
@@ -411,6 +681,9 @@ export class MCPServerManager {
     }
 
     server.toolPermissions = { ...toolPermissions };
+    if (this.clients.has(id)) {
+      this.emitCapabilitiesChanged(["tools"]);
+    }
 
     if (Array.isArray(server.tools)) {
       server.tools = server.tools.map((tool) => ({
@@ -422,10 +695,29 @@ export class MCPServerManager {
     return server;
   }
 
+  /**
+   * Get a cached tools/resources/prompts list for a running server.
+   * Fetches from the server (with a timeout) on a cache miss.
+   */
+  public async getCapabilityList<K extends CapabilityKind>(
+    id: string,
+    kind: K,
+  ): Promise<CapabilityLists[K]> {
+    const client = this.clients.get(id);
+    if (!client) {
+      throw new Error("Server must be running to list capabilities");
+    }
+    return this.capabilityCache.get(id, client, kind);
+  }
+
   /**
    * List tools for a specific server
+   * @param refresh Bypass the capability cache and re-fetch from the server
    */
-  public async listServerTools(id: string): Promise<MCPTool[]> {
+  public async listServerTools(
+    id: string,
+    refresh: boolean = true,
+  ): Promise<MCPTool[]> {
     const server = this.servers.get(id);
     if (!server) {
       throw new Error("Server not found");
@@ -440,8 +732,10 @@ export class MCPServerManager {
       throw new Error("Server must be running to list tools");
     }
 
-    const response = await client.listTools();
-    const tools = response?.tools ?? [];
+    if (refresh) {
+      this.capabilityCache.invalidate(id, ["tools"]);
+    }
+    const tools = await this.capabilityCache.get(id, client, "tools");
     const permissions = server.toolPermissions || {};
     const toolsWithStatus = tools.map((tool) => ({
       ...tool,
@@ -452,6 +746,121 @@ export class MCPServerManager {
     return toolsWithStatus;
   }
 
+  /**
+   * Run a request against a server, routing any sampling/elicitation
+   * requests it triggers back to the originating client session
+   */
+  public async runWithRequestOrigin<T>(
+    id: string,
+    origin: InboundRequestExtra | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return this.serverRequestProxy.runWithOrigin(id, origin, fn);
+  }
+
+  /**
+   * Timeout for a tool call, taking the server's overrides into account
+   */
+  public getToolCallTimeoutMs(
+    id: string,
+    toolName: string,
+    fallbackMs: number,
+  ): number {
+    return resolveToolCallTimeoutMs(this.servers.get(id), toolName, fallbackMs);
+  }
+
+  /**
+   * Run a tool call within the server's concurrency limit. `fn` receives the
+   * part of the timeout left after queueing.
+   */
+  public async runWithCallLimit<T>(
+    call: ToolCallContext,
+    fn: (remainingMs: number) => Promise<T>,
+  ): Promise<T> {
+    return this.toolCallLimiter.run(call, fn);
+  }
+
+  /**
+   * Whether any server has an output limit, i.e. read_tool_result is needed
+   */
+  public hasToolOutputLimits(): boolean {
+    return Array.from(this.servers.values()).some(
+      (server) =>
+        !!server.maxToolOutputChars ||
+        Object.keys(server.toolOutputLimitOverrides ?? {}).length > 0,
+    );
+  }
+
+  /**
+   * Truncate the text content of a tool result to the server's output limit.
+   * The full text is kept for a while so the caller can page through it.
+   */
+  public limitToolOutput<T extends { type: string; text?: string }>(
+    id: string,
+    toolName: string,
+    clientId: string,
+    content: T[],
+  ): T[] {
+    const limit = resolveToolOutputLimit(this.servers.get(id), toolName);
+    return this.toolOutputStore.limitContent(content, limit, clientId);
+  }
+
+  /**
+   * Read part of a truncated tool result
+   */
+  public readToolOutput(
+    resultId: string,
+    clientId: string,
+    offset?: number,
+    length?: number,
+  ): ToolOutputPage | undefined {
+    return this.toolOutputStore.read(resultId, clientId, offset, length);
+  }
+
+  private recordToolCallLimitLog(
+    call: ToolCallContext,
+    requestType: "CallToolQueued" | "CallToolRejected",
+    waitMs: number,
+    errorMessage?: string,
+  ): void {
+    const serverName = this.servers.get(call.serverId)?.name ?? call.serverId;
+    getLogService().recordMcpRequestLog(
+      {
+        timestamp: new Date().toISOString(),
+        requestType,
+        params: { name: call.toolName },
+        result: errorMessage ? "error" : "success",
+        errorMessage,
+        duration: waitMs,
+        clientId: call.clientId,
+      },
+      serverName,
+    );
+  }
+
+  /**
+   * Notify servers of a project that its roots have changed
+   */
+  public notifyProjectRootsChanged(projectId: string): void {
+    this.rootsProvider.notifyRootsChanged(projectId);
+  }
+
+  /**
+   * Record roots reported by a downstream client connected with a project
+   * @param sourceKey Identifies the downstream session
+   */
+  public setClientRoots(
+    sourceKey: string,
+    projectId: string,
+    roots: Root[],
+  ): void {
+    this.rootsProvider.setClientRoots(sourceKey, projectId, roots);
+  }
+
+  public removeClientRoots(sourceKey: string): void {
+    this.rootsProvider.removeClientRoots(sourceKey);
+  }
+
   /**
    * Get the status of a specific MCP server
    */
@@ -495,6 +904,7 @@ export class MCPServerManager {
           inputParams: server.inputParams,
         },
         "mcp-router",
+        { onStderr: (chunk) => this.logBuffer.append(id, chunk) },
       );
 
       return result;
@@ -527,5 +937,7 @@ export class MCPServerManager {
       // Don't persist state changes when shutting down - this is just cleanup
       this.stopServer(id, undefined, false);
     }
+    this.supervisor.dispose();
+    this.logBuffer.flush();
   }
 }
@@ -0,0 +1,114 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  ListRootsRequestSchema,
+  type Root,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MCPServer, Project } from "@mcp_router/shared";
+
+export interface RootsProviderOptions {
+  getServer: (serverId: string) => MCPServer | undefined;
+  getProject: (projectId: string) => Project | null;
+  getClients: () => Map<string, Client>;
+}
+
+/**
+ * Answers roots/list for upstream servers.
+ * A server sees the roots configured on its project, plus the roots reported
+ * by downstream clients connected with that project when forwarding is on.
+ */
+export class RootsProvider {
+  // source key (downstream session) -> project and the roots it reported
+  private clientRoots: Map<string, { projectId: string; roots: Root[] }> =
+    new Map();
+
+  constructor(private options: RootsProviderOptions) {}
+
+  /**
+   * Register the roots/list handler on a connected client
+   */
+  public attach(serverId: string, client: Client): void {
+    client.setRequestHandler(ListRootsRequestSchema, async () => {
+      const projectId = this.options.getServer(serverId)?.projectId;
+      return { roots: projectId ? this.getRoots(projectId) : [] };
+    });
+  }
+
+  /**
+   * Roots exposed to servers belonging to a project
+   */
+  public getRoots(projectId: string): Root[] {
+    const project = this.options.getProject(projectId);
+    if (!project) {
+      return [];
+    }
+
+    const roots: Root[] = [...(project.roots ?? [])];
+    if (project.forwardClientRoots) {
+      for (const entry of this.clientRoots.values()) {
+        if (entry.projectId === projectId) {
+          roots.push(...entry.roots);
+        }
+      }
+    }
+
+    const seen = new Set<string>();
+    return roots.filter((root) => {
+      if (seen.has(root.uri)) {
+        return false;
+      }
+      seen.add(root.uri);
+      return true;
+    });
+  }
+
+  /**
+   * Record the roots reported by a downstream client session
+   */
+  public setClientRoots(
+    sourceKey: string,
+    projectId: string,
+    roots: Root[],
+  ): void {
+    this.clientRoots.set(sourceKey, { projectId, roots });
+    if (this.options.getProject(projectId)?.forwardClientRoots) {
+      this.notifyRootsChanged(projectId);
+    }
+  }
+
+  /**
+   * Forget a downstream client session's roots
+   */
+  public removeClientRoots(sourceKey: string): void {
+    const entry = this.clientRoots.get(sourceKey);
+    if (!entry) {
+      return;
+    }
+    this.clientRoots.delete(sourceKey);
+    if (this.options.getProject(entry.projectId)?.forwardClientRoots) {
+      this.notifyRootsChanged(entry.projectId);
+    }
+  }
+
+  /**
+   * Send roots/list_changed to running servers of a project
+   */
+  public notifyRootsChanged(projectId: string): void {
+    for (const [serverId, client] of this.options.getClients()) {
+      if (this.options.getServer(serverId)?.projectId === projectId) {
+        this.sendRootsListChanged(serverId, client);
+      }
+    }
+  }
+
+  /**
+   * Send roots/list_changed to a single server
+   */
+  public sendRootsListChanged(serverId: string, client: Client): void {
+    client.sendRootsListChanged().catch((error) => {
+      console.error(
+        `[RootsProvider] Failed to notify roots change to ${serverId}:`,
+        error,
+      );
+    });
+  }
+}
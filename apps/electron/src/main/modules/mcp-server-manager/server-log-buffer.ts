@@ -0,0 +1,163 @@
+import { clearTimeout, setTimeout } from "timers";
+import type { ServerLogEntry } from "@mcp_router/shared";
+
+/** Number of lines kept (and persisted) per server */
+export const MAX_SERVER_LOG_LINES = 500;
+
+/** Longer lines are cut so a single runaway write cannot fill the buffer */
+const MAX_LINE_LENGTH = 4000;
+
+const PERSIST_DELAY_MS = 1000;
+
+export interface ServerLogBufferOptions {
+  /** Load the lines persisted by a previous run */
+  load: (serverId: string) => ServerLogEntry[];
+  /** Store new lines; the store only has to keep the last MAX_SERVER_LOG_LINES */
+  persist: (serverId: string, entries: ServerLogEntry[]) => void;
+  /** Called with every batch of complete lines as they arrive */
+  onLines?: (serverId: string, entries: ServerLogEntry[]) => void;
+}
+
+interface ServerLog {
+  lines: ServerLogEntry[];
+  /** Trailing output that has not been terminated by a newline yet */
+  partial: string;
+  pending: ServerLogEntry[];
+}
+
+/**
+ * Collects the stderr output of local servers.
+ *
+ * Output is split into lines and kept in a bounded buffer per server. New
+ * lines are handed to the listener immediately and written to the store in
+ * batches.
+ */
+export class ServerLogBuffer {
+  private logs: Map<string, ServerLog> = new Map();
+  private persistTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private options: ServerLogBufferOptions,
+    private maxLines: number = MAX_SERVER_LOG_LINES,
+  ) {}
+
+  /**
+   * Append a chunk of raw output
+   */
+  public append(serverId: string, chunk: string): void {
+    const log = this.getLog(serverId);
+    const parts = (log.partial + chunk).split(/\r?\n/);
+    log.partial = parts.pop() ?? "";
+    if (log.partial.length > MAX_LINE_LENGTH) {
+      parts.push(log.partial);
+      log.partial = "";
+    }
+
+    const timestamp = Date.now();
+    const entries = parts
+      .filter((line) => line.trim().length > 0)
+      .map((line) => ({
+        serverId,
+        timestamp,
+        line:
+          line.length > MAX_LINE_LENGTH ? line.slice(0, MAX_LINE_LENGTH) : line,
+      }));
+    this.push(serverId, log, entries);
+  }
+
+  /**
+   * Emit output left over without a trailing newline (the process exited)
+   */
+  public flushPartial(serverId: string): void {
+    const log = this.logs.get(serverId);
+    if (!log || !log.partial.trim()) {
+      return;
+    }
+    const line = log.partial.slice(0, MAX_LINE_LENGTH);
+    log.partial = "";
+    this.push(serverId, log, [{ serverId, timestamp: Date.now(), line }]);
+  }
+
+  /**
+   * Lines of a server, oldest first
+   */
+  public get(serverId: string): ServerLogEntry[] {
+    return [...this.getLog(serverId).lines];
+  }
+
+  /**
+   * Forget a server's lines (the persisted ones are removed by the caller)
+   */
+  public remove(serverId: string): void {
+    this.logs.delete(serverId);
+  }
+
+  /**
+   * Write pending lines and drop everything from memory
+   */
+  public clear(): void {
+    this.flush();
+    this.logs.clear();
+  }
+
+  /**
+   * Write all pending lines to the store
+   */
+  public flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    for (const [serverId, log] of this.logs) {
+      if (log.pending.length === 0) {
+        continue;
+      }
+      const pending = log.pending;
+      log.pending = [];
+      try {
+        this.options.persist(serverId, pending);
+      } catch (error) {
+        console.error(`Failed to persist logs of server ${serverId}:`, error);
+      }
+    }
+  }
+
+  private getLog(serverId: string): ServerLog {
+    let log = this.logs.get(serverId);
+    if (!log) {
+      let lines: ServerLogEntry[] = [];
+      try {
+        lines = this.options.load(serverId).slice(-this.maxLines);
+      } catch (error) {
+        console.error(`Failed to load logs of server ${serverId}:`, error);
+      }
+      log = { lines, partial: "", pending: [] };
+      this.logs.set(serverId, log);
+    }
+    return log;
+  }
+
+  private push(
+    serverId: string,
+    log: ServerLog,
+    entries: ServerLogEntry[],
+  ): void {
+    if (entries.length === 0) {
+      return;
+    }
+
+    log.lines.push(...entries);
+    if (log.lines.length > this.maxLines) {
+      log.lines.splice(0, log.lines.length - this.maxLines);
+    }
+    log.pending.push(...entries);
+    if (log.pending.length > this.maxLines) {
+      log.pending.splice(0, log.pending.length - this.maxLines);
+    }
+
+    this.options.onLines?.(serverId, entries);
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+    }
+  }
+}
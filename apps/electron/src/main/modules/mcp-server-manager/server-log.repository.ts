@@ -0,0 +1,114 @@
+import { BaseRepository } from "@/main/infrastructure/database/base-repository";
+import type { ServerLogEntry } from "@mcp_router/shared";
+import type { SqliteManager } from "@/main/infrastructure/database/sqlite-manager";
+import { getSqliteManager } from "@/main/infrastructure/database/sqlite-manager";
+
+interface ServerLogRecord extends ServerLogEntry {
+  id: string;
+}
+
+/**
+ * Stores the last stderr lines of each local server in the workspace database
+ */
+export class ServerLogRepository extends BaseRepository<ServerLogRecord> {
+  private static instance: ServerLogRepository | null = null;
+
+  private constructor(db: SqliteManager) {
+    super(db, "serverLogs");
+  }
+
+  public static getInstance(): ServerLogRepository {
+    const db = getSqliteManager();
+    if (
+      !ServerLogRepository.instance ||
+      ServerLogRepository.instance.database !== db
+    ) {
+      ServerLogRepository.instance = new ServerLogRepository(db);
+    }
+    return ServerLogRepository.instance;
+  }
+
+  public static resetInstance(): void {
+    ServerLogRepository.instance = null;
+  }
+
+  protected initializeTable(): void {
+    this.db.execute(`
+      CREATE TABLE IF NOT EXISTS serverLogs (
+        id TEXT PRIMARY KEY,
+        server_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        line TEXT NOT NULL
+      )
+    `);
+    this.db.execute(
+      "CREATE INDEX IF NOT EXISTS idx_server_logs_server_id ON serverLogs(server_id)",
+    );
+  }
+
+  protected mapRowToEntity(row: any): ServerLogRecord {
+    return {
+      id: row.id,
+      serverId: row.server_id,
+      timestamp: row.timestamp,
+      line: row.line,
+    };
+  }
+
+  protected mapEntityToRow(entity: ServerLogRecord): Record<string, any> {
+    return {
+      id: entity.id,
+      server_id: entity.serverId,
+      timestamp: entity.timestamp,
+      line: entity.line,
+    };
+  }
+
+  /**
+   * Lines of a server in the order they were written
+   */
+  public getLogs(serverId: string): ServerLogEntry[] {
+    return this.db
+      .all<any>(
+        `SELECT * FROM ${this.tableName} WHERE server_id = :serverId ORDER BY rowid ASC`,
+        { serverId },
+      )
+      .map((row) => {
+        const { serverId, timestamp, line } = this.mapRowToEntity(row);
+        return { serverId, timestamp, line };
+      });
+  }
+
+  /**
+   * Append lines and drop everything but the newest `keep` lines of the server
+   */
+  public appendLogs(
+    serverId: string,
+    entries: ServerLogEntry[],
+    keep: number,
+  ): void {
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        this.add({ ...entry, serverId });
+      }
+      this.db.execute(
+        `DELETE FROM ${this.tableName}
+         WHERE server_id = :serverId
+           AND rowid NOT IN (
+             SELECT rowid FROM ${this.tableName}
+             WHERE server_id = :serverId
+             ORDER BY rowid DESC
+             LIMIT :keep
+           )`,
+        { serverId, keep },
+      );
+    });
+  }
+
+  public deleteByServerId(serverId: string): void {
+    this.db.execute(
+      `DELETE FROM ${this.tableName} WHERE server_id = :serverId`,
+      { serverId },
+    );
+  }
+}
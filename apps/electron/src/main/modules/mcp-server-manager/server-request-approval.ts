@@ -0,0 +1,70 @@
+import { BrowserWindow, dialog, type MessageBoxOptions } from "electron";
+import type { ServerRequestApproval } from "./server-request-proxy";
+
+/**
+ * Maximum length of the request preview shown in the approval dialog
+ */
+const PREVIEW_MAX_LENGTH = 500;
+
+function truncate(text: string): string {
+  return text.length > PREVIEW_MAX_LENGTH
+    ? `${text.slice(0, PREVIEW_MAX_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Build a short, human readable preview of the request
+ */
+function describeRequest({ request }: ServerRequestApproval): string {
+  if (request.method === "elicitation/create") {
+    return truncate(request.params.message);
+  }
+
+  const lines: string[] = [];
+  if (request.params.systemPrompt) {
+    lines.push(`System: ${request.params.systemPrompt}`);
+  }
+  for (const message of request.params.messages) {
+    const contents = Array.isArray(message.content)
+      ? message.content
+      : [message.content];
+    for (const content of contents) {
+      lines.push(
+        content.type === "text"
+          ? `${message.role}: ${content.text}`
+          : `${message.role}: [${content.type}]`,
+      );
+    }
+  }
+  return truncate(lines.join("\n"));
+}
+
+/**
+ * Ask the user to approve a sampling/elicitation request in a native dialog
+ */
+export async function requestServerRequestApproval(
+  approval: ServerRequestApproval,
+): Promise<boolean> {
+  const action =
+    approval.method === "sampling/createMessage"
+      ? "requests an LLM completion from your client"
+      : "requests input from you through your client";
+
+  const options: MessageBoxOptions = {
+    type: "question",
+    title: "MCP Router",
+    message: `MCP server "${approval.serverName}" ${action}.`,
+    detail: describeRequest(approval),
+    buttons: ["Allow", "Deny"],
+    defaultId: 1,
+    cancelId: 1,
+    noLink: true,
+  };
+
+  const window =
+    BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  const { response } = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+  return response === 0;
+}
@@ -0,0 +1,169 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CreateMessageRequestSchema,
+  CreateMessageResultSchema,
+  ElicitRequestSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type ElicitRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEFAULT_SERVER_REQUEST_POLICY,
+  type MCPServer,
+} from "@mcp_router/shared";
+import type { InboundRequestExtra } from "@/main/utils/progress-utils";
+
+/**
+ * Timeout for a relayed request. Sampling and elicitation usually wait for
+ * a human, so this is much longer than the SDK default.
+ */
+const SERVER_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+type ServerInitiatedRequest = CreateMessageRequest | ElicitRequest;
+
+/**
+ * Details shown to the user when a server request needs approval
+ */
+export interface ServerRequestApproval {
+  serverName: string;
+  method: ServerInitiatedRequest["method"];
+  request: ServerInitiatedRequest;
+}
+
+export interface ServerRequestProxyOptions {
+  getServer: (serverId: string) => MCPServer | undefined;
+  /** Resolve to true when the user approves the request */
+  requestApproval: (approval: ServerRequestApproval) => Promise<boolean>;
+}
+
+/**
+ * Relays sampling/elicitation requests from upstream servers to the client
+ * session whose tool call triggered them.
+ *
+ * Upstream requests carry no reference to the call that caused them. Each
+ * call runs in an async context holding its origin, which reaches requests
+ * arriving on the call's own response stream (Streamable HTTP). Requests
+ * without that context (e.g. stdio) are only relayed when a single call is
+ * in flight, so one session never receives another session's request.
+ */
+export class ServerRequestProxy {
+  private origins: Map<string, InboundRequestExtra[]> = new Map();
+  private originContext = new AsyncLocalStorage<{
+    serverId: string;
+    origin: InboundRequestExtra;
+  }>();
+
+  constructor(private options: ServerRequestProxyOptions) {}
+
+  /**
+   * Register sampling/elicitation handlers on a connected client
+   */
+  public attach(serverId: string, client: Client): void {
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      this.forward(serverId, request, extra.signal),
+    );
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      this.forward(serverId, request, extra.signal),
+    );
+  }
+
+  /**
+   * Run a call to an upstream server with the inbound request as the
+   * destination for any server requests it triggers
+   */
+  public async runWithOrigin<T>(
+    serverId: string,
+    origin: InboundRequestExtra | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (!origin) {
+      return fn();
+    }
+
+    const origins = this.origins.get(serverId) ?? [];
+    origins.push(origin);
+    this.origins.set(serverId, origins);
+    try {
+      return await this.originContext.run({ serverId, origin }, fn);
+    } finally {
+      const index = origins.indexOf(origin);
+      if (index !== -1) {
+        origins.splice(index, 1);
+      }
+      if (origins.length === 0 && this.origins.get(serverId) === origins) {
+        this.origins.delete(serverId);
+      }
+    }
+  }
+
+  /**
+   * Find the inbound request whose call triggered a server request
+   */
+  private resolveOrigin(
+    serverId: string,
+    serverName: string,
+    method: ServerInitiatedRequest["method"],
+  ): InboundRequestExtra {
+    const current = this.originContext.getStore();
+    if (current?.serverId === serverId) {
+      return current.origin;
+    }
+
+    const origins = this.origins.get(serverId) ?? [];
+    if (origins.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No client session is available to handle ${method}`,
+      );
+    }
+    if (origins.length > 1) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Cannot tell which of ${origins.length} in-flight calls to server ${serverName} sent ${method}`,
+      );
+    }
+    return origins[0];
+  }
+
+  private async forward(
+    serverId: string,
+    request: ServerInitiatedRequest,
+    signal: AbortSignal,
+  ): Promise<any> {
+    const server = this.options.getServer(serverId);
+    const serverName = server?.name ?? serverId;
+    const policy = server?.serverRequestPolicy ?? DEFAULT_SERVER_REQUEST_POLICY;
+
+    if (policy === "deny") {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${request.method} is not allowed for server ${serverName}`,
+      );
+    }
+
+    const origin = this.resolveOrigin(serverId, serverName, request.method);
+
+    if (policy === "ask") {
+      const approved = await this.options.requestApproval({
+        serverName,
+        method: request.method,
+        request,
+      });
+      if (!approved) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${request.method} from server ${serverName} was rejected by the user`,
+        );
+      }
+    }
+
+    const options = { signal, timeout: SERVER_REQUEST_TIMEOUT_MS };
+    if (request.method === "sampling/createMessage") {
+      return origin.sendRequest(request, CreateMessageResultSchema, options);
+    }
+    return origin.sendRequest(request, ElicitResultSchema, options);
+  }
+}
@@ -0,0 +1,236 @@
+import { clearInterval, clearTimeout, setInterval, setTimeout } from "timers";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { MCPServer } from "@mcp_router/shared";
+
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 60 * 1000;
+
+/**
+ * A server that stays healthy this long after a restart starts over with
+ * the shortest backoff on its next crash
+ */
+const STABLE_PERIOD_MS = 5 * 60 * 1000;
+
+export interface ServerSupervisorOptions {
+  getServer: (serverId: string) => MCPServer | undefined;
+  /** Maximum consecutive restarts before giving up (0 disables restarts) */
+  getRestartLimit: () => number;
+  /** Drop the dead connection from the runtime state */
+  onCrash: (serverId: string, reason: string) => void;
+  /** Start the server again; rejects when it fails to come up */
+  restart: (serverId: string) => Promise<void>;
+  /**
+   * Whether the server is running tool calls. A busy server may be slow to
+   * answer pings, so it is not health checked meanwhile.
+   */
+  hasActiveCalls?: (serverId: string) => boolean;
+  onRestartAttempt?: (
+    serverId: string,
+    attempt: number,
+    error?: string,
+  ) => void;
+  onGiveUp?: (serverId: string, attempts: number) => void;
+}
+
+interface WatchedServer {
+  client: Client;
+  lastError?: string;
+  checking?: boolean;
+}
+
+interface RestartState {
+  attempts: number;
+  lastRestartAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Watches running local servers and restarts them when they die.
+ *
+ * A crash is either the transport closing on its own (the process exited)
+ * or a failed periodic ping while no tool call is in flight. Restarts back
+ * off exponentially and stop after the configured number of consecutive
+ * attempts.
+ */
+export class ServerSupervisor {
+  private watched: Map<string, WatchedServer> = new Map();
+  private restarts: Map<string, RestartState> = new Map();
+  private healthCheckTimer?: ReturnType<typeof setInterval>;
+
+  constructor(private options: ServerSupervisorOptions) {}
+
+  /**
+   * Start supervising a freshly connected client
+   */
+  public watch(serverId: string, client: Client): void {
+    if (this.options.getServer(serverId)?.serverType !== "local") {
+      return;
+    }
+
+    const entry: WatchedServer = { client };
+    this.watched.set(serverId, entry);
+
+    client.onerror = (error) => {
+      entry.lastError = error.message;
+    };
+    client.onclose = () => {
+      this.handleFailure(
+        serverId,
+        client,
+        entry.lastError
+          ? `Server process exited: ${entry.lastError}`
+          : "Server process exited",
+      );
+    };
+
+    // The server is up again, so a pending restart is no longer needed
+    const state = this.restarts.get(serverId);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+
+    this.ensureHealthCheckTimer();
+  }
+
+  /**
+   * Stop supervising a server (it is being stopped or removed on purpose)
+   */
+  public unwatch(serverId: string): void {
+    this.watched.delete(serverId);
+    this.clearRestartState(serverId);
+    this.stopHealthCheckTimerIfIdle();
+  }
+
+  public dispose(): void {
+    for (const serverId of Array.from(this.restarts.keys())) {
+      this.clearRestartState(serverId);
+    }
+    this.watched.clear();
+    this.stopHealthCheckTimerIfIdle();
+  }
+
+  private handleFailure(serverId: string, client: Client, reason: string) {
+    // Ignore late events from a connection that is no longer current
+    if (this.watched.get(serverId)?.client !== client) {
+      return;
+    }
+    this.watched.delete(serverId);
+    this.stopHealthCheckTimerIfIdle();
+
+    this.options.onCrash(serverId, reason);
+    this.scheduleRestart(serverId);
+  }
+
+  private scheduleRestart(serverId: string): void {
+    const now = Date.now();
+    let state = this.restarts.get(serverId);
+    if (!state || now - state.lastRestartAt > STABLE_PERIOD_MS) {
+      state = { attempts: 0, lastRestartAt: 0 };
+      this.restarts.set(serverId, state);
+    }
+
+    if (state.attempts >= this.options.getRestartLimit()) {
+      this.restarts.delete(serverId);
+      this.options.onGiveUp?.(serverId, state.attempts);
+      return;
+    }
+
+    const delay = Math.min(
+      RESTART_BASE_DELAY_MS * 2 ** state.attempts,
+      RESTART_MAX_DELAY_MS,
+    );
+    const attempt = ++state.attempts;
+    const restartState = state;
+    restartState.timer = setTimeout(async () => {
+      restartState.timer = undefined;
+      const server = this.options.getServer(serverId);
+      if (!server || server.disabled) {
+        this.restarts.delete(serverId);
+        return;
+      }
+
+      restartState.lastRestartAt = Date.now();
+      try {
+        await this.options.restart(serverId);
+        this.options.onRestartAttempt?.(serverId, attempt);
+      } catch (error) {
+        this.options.onRestartAttempt?.(
+          serverId,
+          attempt,
+          error instanceof Error ? error.message : String(error),
+        );
+        if (this.restarts.get(serverId) === restartState) {
+          this.scheduleRestart(serverId);
+        }
+      }
+    }, delay);
+  }
+
+  private clearRestartState(serverId: string): void {
+    const state = this.restarts.get(serverId);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.restarts.delete(serverId);
+  }
+
+  private ensureHealthCheckTimer(): void {
+    if (!this.healthCheckTimer) {
+      this.healthCheckTimer = setInterval(
+        () => this.checkHealth(),
+        HEALTH_CHECK_INTERVAL_MS,
+      );
+    }
+  }
+
+  private stopHealthCheckTimerIfIdle(): void {
+    if (this.healthCheckTimer && this.watched.size === 0) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  /**
+   * Ping every idle supervised server; one that does not answer is treated
+   * as crashed and its connection is closed
+   */
+  public async checkHealth(): Promise<void> {
+    await Promise.all(
+      Array.from(this.watched.entries()).map(async ([serverId, entry]) => {
+        if (entry.checking || this.options.hasActiveCalls?.(serverId)) {
+          return;
+        }
+        entry.checking = true;
+        try {
+          await entry.client.ping({ timeout: HEALTH_CHECK_TIMEOUT_MS });
+          const state = this.restarts.get(serverId);
+          if (
+            state &&
+            !state.timer &&
+            Date.now() - state.lastRestartAt > STABLE_PERIOD_MS
+          ) {
+            this.restarts.delete(serverId);
+          }
+        } catch (error) {
+          // A call that started during the ping can delay the answer
+          if (this.options.hasActiveCalls?.(serverId)) {
+            return;
+          }
+          const message =
+            error instanceof Error ? error.message : String(error);
+          this.handleFailure(
+            serverId,
+            entry.client,
+            `Health check failed: ${message}`,
+          );
+          entry.client.close().catch(() => {});
+        } finally {
+          entry.checking = false;
+        }
+      }),
+    );
+  }
+}
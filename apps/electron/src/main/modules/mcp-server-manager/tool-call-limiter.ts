@@ -0,0 +1,189 @@
+import { clearTimeout, setTimeout } from "timers";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPServer } from "@mcp_router/shared";
+
+/**
+ * Upper bound for calls waiting on a single server. Calls beyond this are
+ * rejected instead of piling up behind a stuck server.
+ */
+const MAX_QUEUED_TOOL_CALLS = 100;
+
+/**
+ * Resolve the timeout of a tool call from the server configuration
+ * (per-tool override, then the server default, then the caller's fallback)
+ */
+export function resolveToolCallTimeoutMs(
+  server: MCPServer | undefined,
+  toolName: string,
+  fallbackMs: number,
+): number {
+  const candidates = [
+    server?.toolTimeoutOverrides?.[toolName],
+    server?.toolCallTimeoutSec,
+  ];
+  for (const timeoutSec of candidates) {
+    if (
+      typeof timeoutSec === "number" &&
+      Number.isFinite(timeoutSec) &&
+      timeoutSec > 0
+    ) {
+      return Math.floor(timeoutSec * 1000);
+    }
+  }
+  return fallbackMs;
+}
+
+export interface ToolCallContext {
+  serverId: string;
+  toolName: string;
+  clientId: string;
+  /** Timeout of the call; also bounds how long it may wait in the queue */
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export interface ToolCallLimiterOptions {
+  getServer: (serverId: string) => MCPServer | undefined;
+  /** Called when a call had to wait for a free slot before running */
+  onQueued?: (call: ToolCallContext, waitMs: number) => void;
+  /** Called when a call is rejected without reaching the server */
+  onRejected?: (call: ToolCallContext, reason: string) => void;
+}
+
+interface Waiter {
+  grant: () => void;
+}
+
+interface ServerCallState {
+  active: number;
+  waiting: Waiter[];
+}
+
+/**
+ * Tracks in-flight tool calls per server and caps them when the server has
+ * a limit. Calls over the limit wait in a FIFO queue until a slot is released.
+ */
+export class ToolCallLimiter {
+  private states: Map<string, ServerCallState> = new Map();
+
+  constructor(private options: ToolCallLimiterOptions) {}
+
+  /**
+   * Run a tool call once the server has a free slot. `fn` receives what is
+   * left of the call's timeout after waiting in the queue.
+   */
+  public async run<T>(
+    call: ToolCallContext,
+    fn: (remainingMs: number) => Promise<T>,
+  ): Promise<T> {
+    const limit = this.options.getServer(call.serverId)?.maxConcurrentToolCalls;
+    const state = this.getState(call.serverId);
+    let waitMs = 0;
+    if (!limit || limit <= 0 || state.active < limit) {
+      state.active++;
+    } else {
+      waitMs = await this.waitForSlot(call, state);
+    }
+
+    try {
+      return await fn(call.timeoutMs - waitMs);
+    } finally {
+      this.release(call.serverId, state);
+    }
+  }
+
+  /**
+   * Number of running and queued calls for a server
+   */
+  public getStats(serverId: string): { active: number; queued: number } {
+    const state = this.states.get(serverId);
+    return {
+      active: state?.active ?? 0,
+      queued: state?.waiting.length ?? 0,
+    };
+  }
+
+  private getState(serverId: string): ServerCallState {
+    let state = this.states.get(serverId);
+    if (!state) {
+      state = { active: 0, waiting: [] };
+      this.states.set(serverId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Queue the call until a slot is handed over; resolves with the time waited
+   */
+  private waitForSlot(
+    call: ToolCallContext,
+    state: ServerCallState,
+  ): Promise<number> {
+    if (call.signal?.aborted) {
+      return Promise.reject(
+        this.reject(call, "Tool call was cancelled while queued"),
+      );
+    }
+    if (state.waiting.length >= MAX_QUEUED_TOOL_CALLS) {
+      return Promise.reject(
+        this.reject(call, "Too many tool calls are waiting for this server"),
+      );
+    }
+
+    const queuedAt = Date.now();
+    return new Promise<number>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        call.signal?.removeEventListener("abort", onAbort);
+      };
+      const leave = (reason: string) => {
+        const index = state.waiting.indexOf(waiter);
+        if (index !== -1) {
+          state.waiting.splice(index, 1);
+        }
+        cleanup();
+        reject(this.reject(call, reason));
+      };
+      const onAbort = () => leave("Tool call was cancelled while queued");
+      const timer = setTimeout(
+        () => leave("Tool call timed out while waiting for a free slot"),
+        call.timeoutMs,
+      );
+
+      const waiter: Waiter = {
+        grant: () => {
+          cleanup();
+          const waitMs = Date.now() - queuedAt;
+          this.options.onQueued?.(call, waitMs);
+          resolve(waitMs);
+        },
+      };
+      state.waiting.push(waiter);
+      call.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand the slot to the next queued call, or free it
+   */
+  private release(serverId: string, state: ServerCallState): void {
+    const next = state.waiting.shift();
+    if (next) {
+      next.grant();
+      return;
+    }
+
+    state.active--;
+    if (state.active === 0 && this.states.get(serverId) === state) {
+      this.states.delete(serverId);
+    }
+  }
+
+  private reject(call: ToolCallContext, reason: string): McpError {
+    this.options.onRejected?.(call, reason);
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `${reason} (tool: ${call.toolName})`,
+    );
+  }
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import type { MCPServer } from "@mcp_router/shared";
+
+/**
+ * Name of the tool that pages through truncated results
+ */
+export const READ_TOOL_RESULT_TOOL_NAME = "read_tool_result";
+
+/** How long a truncated result can be paged through */
+export const TOOL_OUTPUT_TTL_MS = 10 * 60 * 1000;
+
+/** Bounds on what the store keeps in memory; the oldest entries go first */
+const MAX_STORED_RESULTS = 100;
+const MAX_STORED_CHARS = 50 * 1000 * 1000;
+
+/**
+ * Resolve the output limit of a tool from the server configuration
+ * (per-tool override, then the server default)
+ * @returns Maximum characters of text content, or undefined for unlimited
+ */
+export function resolveToolOutputLimit(
+  server: MCPServer | undefined,
+  toolName: string,
+): number | undefined {
+  const candidates = [
+    server?.toolOutputLimitOverrides?.[toolName],
+    server?.maxToolOutputChars,
+  ];
+  for (const limit of candidates) {
+    if (typeof limit === "number" && Number.isFinite(limit) && limit > 0) {
+      return Math.floor(limit);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A slice of a stored result
+ */
+export interface ToolOutputPage {
+  resultId: string;
+  text: string;
+  offset: number;
+  total: number;
+  /** Offset of the next page, or undefined when this page reaches the end */
+  nextOffset?: number;
+}
+
+interface StoredOutput {
+  text: string;
+  /** Client that made the call; only it may read the result */
+  clientId: string;
+  /** Page length when the reader does not ask for one: the original limit */
+  pageLength: number;
+  expiresAt: number;
+}
+
+interface TextContent {
+  type: string;
+  text?: string;
+}
+
+/**
+ * Truncates oversized text content of tool results and keeps the full text
+ * for a short time so that it can be read page by page.
+ */
+export class ToolOutputStore {
+  private entries: Map<string, StoredOutput> = new Map();
+  private storedChars = 0;
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Limit the text content of a tool result to `limit` characters in total.
+   * Each truncated item ends with a marker naming the result ID to page with.
+   */
+  public limitContent<T extends TextContent>(
+    content: T[],
+    limit: number | undefined,
+    clientId: string,
+  ): T[] {
+    if (!limit || !Array.isArray(content)) {
+      return content;
+    }
+
+    let remaining = limit;
+    return content.map((item) => {
+      if (item.type !== "text" || typeof item.text !== "string") {
+        return item;
+      }
+      if (item.text.length <= remaining) {
+        remaining -= item.text.length;
+        return item;
+      }
+
+      const shown = Math.max(remaining, 0);
+      remaining = 0;
+      const resultId = this.put(item.text, clientId, limit);
+      return {
+        ...item,
+        text:
+          item.text.slice(0, shown) +
+          formatTruncationMarker(resultId, shown, item.text.length),
+      };
+    });
+  }
+
+  /**
+   * Read part of a stored result
+   * @param length Characters to read; defaults to the limit that truncated it
+   * @returns undefined if the result expired or belongs to another client
+   */
+  public read(
+    resultId: string,
+    clientId: string,
+    offset = 0,
+    length?: number,
+  ): ToolOutputPage | undefined {
+    this.prune();
+    const entry = this.entries.get(resultId);
+    if (!entry || entry.clientId !== clientId) {
+      return undefined;
+    }
+
+    const total = entry.text.length;
+    const start = Number.isFinite(offset)
+      ? Math.min(Math.max(Math.floor(offset), 0), total)
+      : 0;
+    const pageLength =
+      typeof length === "number" && Number.isFinite(length) && length > 0
+        ? Math.floor(length)
+        : entry.pageLength;
+    const end = Math.min(start + pageLength, total);
+    return {
+      resultId,
+      text: entry.text.slice(start, end),
+      offset: start,
+      total,
+      nextOffset: end < total ? end : undefined,
+    };
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.storedChars = 0;
+  }
+
+  private put(text: string, clientId: string, pageLength: number): string {
+    this.prune();
+    const resultId = randomUUID();
+    this.entries.set(resultId, {
+      text,
+      clientId,
+      pageLength,
+      expiresAt: this.now() + TOOL_OUTPUT_TTL_MS,
+    });
+    this.storedChars += text.length;
+
+    // Map iteration follows insertion order, so the oldest entries go first
+    for (const [id, entry] of this.entries) {
+      if (
+        this.entries.size <= MAX_STORED_RESULTS &&
+        this.storedChars <= MAX_STORED_CHARS
+      ) {
+        break;
+      }
+      if (id !== resultId) {
+        this.delete(id, entry);
+      }
+    }
+    return resultId;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.delete(id, entry);
+      }
+    }
+  }
+
+  private delete(id: string, entry: StoredOutput): void {
+    this.entries.delete(id);
+    this.storedChars -= entry.text.length;
+  }
+}
+
+/**
+ * Format a page of a stored result, with a hint on how to read the next one
+ */
+export function formatToolOutputPage(page: ToolOutputPage): string {
+  const end = page.offset + page.text.length;
+  const footer =
+    page.nextOffset !== undefined
+      ? `[Characters ${page.offset}-${end} of ${page.total}. Call ${READ_TOOL_RESULT_TOOL_NAME} with resultId "${page.resultId}" and offset ${page.nextOffset} to read more.]`
+      : `[Characters ${page.offset}-${end} of ${page.total}. End of result.]`;
+  return `${page.text}\n\n${footer}`;
+}
+
+function formatTruncationMarker(
+  resultId: string,
+  shown: number,
+  total: number,
+): string {
+  const minutes = Math.round(TOOL_OUTPUT_TTL_MS / 60000);
+  return `\n\n[Output truncated: showing ${shown} of ${total} characters. Call ${READ_TOOL_RESULT_TOOL_NAME} with resultId "${resultId}" and offset ${shown} to read the rest (available for ${minutes} minutes).]`;
+}
@@ -1,5 +1,8 @@
+import { randomUUID } from "crypto";
+import { clearTimeout, setTimeout } from "timers";
+import type { IncomingMessage, ServerResponse } from "http";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
@@ -8,136 +11,233 @@ import {
   ReadResourceRequestSchema,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
+  RootsListChangedNotificationSchema,
+  type InitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolNameCollision } from "@mcp_router/shared";
 import { RequestHandlers } from "./request-handlers";
 import { MCPServerManager } from "../mcp-server-manager/mcp-server-manager";
+import type { CapabilityKind } from "../mcp-server-manager/capability-cache";
 import { getLogService } from "@/main/modules/mcp-logger/mcp-logger.service";
+import { getSettingsService } from "../settings/settings.service";
+import { StreamableSessionManager } from "./streamable-session-manager";
+
+/**
+ * Delay used to coalesce bursts of list_changed notifications
+ * (e.g. several servers auto-starting at once)
+ */
+const LIST_CHANGED_DEBOUNCE_MS = 200;
 
 /**
  * MCP Aggregator Server that combines multiple MCP servers into one
  */
 export class AggregatorServer {
-  private aggregatorServer!: Server;
-  private transport!: StreamableHTTPServerTransport;
   private requestHandlers: RequestHandlers;
+  private serverManager: MCPServerManager;
+  private sessionManager: StreamableSessionManager;
+  private sseServers: Set<Server> = new Set();
+  private pendingListChanged: Set<CapabilityKind> = new Set();
+  private listChangedTimer: ReturnType<typeof setTimeout> | null = null;
+  // Refreshes the roots of a project client; see trackClientRoots
+  private rootsRefreshers: WeakMap<Server, () => void> = new WeakMap();
 
   constructor(serverManager: MCPServerManager) {
+    this.serverManager = serverManager;
     this.requestHandlers = new RequestHandlers(serverManager);
-    this.initAggregatorServer();
+    serverManager.onCapabilitiesChanged((kinds) =>
+      this.scheduleListChanged(kinds),
+    );
+    this.sessionManager = new StreamableSessionManager({
+      name: "MCP Aggregator",
+      createServer: (initializeRequest) =>
+        this.createServer(this.getProjectId(initializeRequest)),
+      isStateless: () => !!getSettingsService().getSettings().mcpStatelessHttp,
+      onStreamOpened: (server) => this.rootsRefreshers.get(server)?.(),
+    });
   }
 
   /**
-   * Initialize the MCP aggregator server
+   * Project attached to a request by the HTTP layer (from the project header)
    */
-  private async initAggregatorServer(): Promise<void> {
-    try {
-      // Initialize the MCP server
-      this.aggregatorServer = new Server(
-        {
-          name: "mcp-aggregator",
-          version: "1.0.0",
-        },
-        {
-          capabilities: {
-            resources: {},
-            tools: {},
-            prompts: {},
-          },
+  private getProjectId(request?: InitializeRequest): string | null {
+    const projectId = request?.params?._meta?.projectId;
+    return typeof projectId === "string" ? projectId : null;
+  }
+
+  /**
+   * Create an MCP server instance with the aggregator request handlers
+   * @param projectId Project the connecting client selected, if any
+   */
+  private createServer(projectId: string | null = null): Server {
+    const server = new Server(
+      {
+        name: "mcp-aggregator",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          resources: { listChanged: true },
+          tools: { listChanged: true },
+          prompts: { listChanged: true },
         },
-      );
+      },
+    );
+
+    // Set up request handlers
+    this.setupRequestHandlers(server);
 
-      // Set up request handlers
-      this.setupRequestHandlers();
-
-      // Error handling
-      this.aggregatorServer.onerror = (error) => {
-        console.error("[MCP Aggregator Error]", error);
-        // Log server errors
-        getLogService().recordMcpRequestLog({
-          timestamp: new Date().toISOString(),
-          requestType: "ServerError",
-          params: {},
-          result: "error",
-          errorMessage: error.message || "Unknown server error",
-          duration: 0,
-          clientId: "mcp-router-system",
-        });
-      };
-
-      // Start the aggregator server
-      await this.startAggregator();
-    } catch (error) {
-      console.error("Failed to initialize MCP Aggregator Server:", error);
+    if (projectId) {
+      this.trackClientRoots(server, projectId);
     }
+
+    // Error handling
+    server.onerror = (error) => {
+      console.error("[MCP Aggregator Error]", error);
+      // Log server errors
+      getLogService().recordMcpRequestLog({
+        timestamp: new Date().toISOString(),
+        requestType: "ServerError",
+        params: {},
+        result: "error",
+        errorMessage: error.message || "Unknown server error",
+        duration: 0,
+        clientId: "mcp-router-system",
+      });
+    };
+
+    return server;
   }
 
   /**
-   * Get the transport
+   * Handle a Streamable HTTP request (POST/GET/DELETE)
    */
-  public getTransport(): StreamableHTTPServerTransport {
-    return this.transport;
+  public async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown,
+  ): Promise<void> {
+    await this.sessionManager.handleRequest(req, res, body);
   }
 
   /**
-   * Get the aggregator server instance
+   * Connect a legacy SSE transport to its own server instance
    */
-  public getAggregatorServer(): Server {
-    return this.aggregatorServer;
+  public async connectSseTransport(
+    transport: Transport,
+    projectId: string | null = null,
+  ): Promise<void> {
+    const server = this.createServer(projectId);
+    // The SSE stream is open from the start, so roots can be listed right away
+    server.oninitialized = () => this.rootsRefreshers.get(server)?.();
+    this.sseServers.add(server);
+    const onclose = server.onclose;
+    server.onclose = () => {
+      this.sseServers.delete(server);
+      onclose?.();
+    };
+    await server.connect(transport);
   }
 
   /**
-   * Start the aggregator server
+   * Keep the roots of a client connected with a project available to the
+   * project's upstream servers. Roots are first listed once the client can
+   * receive server requests: after initialization for legacy SSE, and when
+   * the standalone stream opens for Streamable HTTP.
    */
-  private async startAggregator(): Promise<void> {
-    try {
-      // StreamableHTTP transport
-      this.transport = new StreamableHTTPServerTransport({
-        // Stateless server
-        sessionIdGenerator: undefined,
-      });
+  private trackClientRoots(server: Server, projectId: string): void {
+    const sourceKey = randomUUID();
+    const refresh = async () => {
+      if (!server.getClientCapabilities()?.roots) {
+        return;
+      }
+      try {
+        const { roots } = await server.listRoots();
+        this.serverManager.setClientRoots(sourceKey, projectId, roots);
+      } catch (error) {
+        console.error("[MCP Aggregator] Failed to list client roots:", error);
+      }
+    };
+
+    this.rootsRefreshers.set(server, () => void refresh());
+    server.setNotificationHandler(RootsListChangedNotificationSchema, () =>
+      refresh(),
+    );
+    server.onclose = () => {
+      this.serverManager.removeClientRoots(sourceKey);
+    };
+  }
+
+  /**
+   * Get tool name collisions detected while listing tools
+   */
+  public getToolNameCollisions(): ToolNameCollision[] {
+    return this.requestHandlers.getToolNameCollisions();
+  }
+
+  /**
+   * Queue list_changed notifications for all connected sessions
+   */
+  private scheduleListChanged(kinds: CapabilityKind[]): void {
+    kinds.forEach((kind) => this.pendingListChanged.add(kind));
+    if (this.listChangedTimer) {
+      return;
+    }
+    this.listChangedTimer = setTimeout(() => {
+      this.listChangedTimer = null;
+      const pending = new Set(this.pendingListChanged);
+      this.pendingListChanged.clear();
+      void this.sendListChanged(pending);
+    }, LIST_CHANGED_DEBOUNCE_MS);
+  }
+
+  private async sendListChanged(kinds: Set<CapabilityKind>): Promise<void> {
+    const servers = [
+      ...this.sessionManager.getSessionServers(),
+      ...this.sseServers,
+    ];
 
-      // Connect server with transport
-      await this.aggregatorServer.connect(this.transport);
-    } catch (error) {
-      console.error("Failed to initialize transports:", error);
-      throw error;
+    for (const server of servers) {
+      try {
+        if (kinds.has("tools")) {
+          await server.sendToolListChanged();
+        }
+        if (kinds.has("resources") || kinds.has("resourceTemplates")) {
+          await server.sendResourceListChanged();
+        }
+        if (kinds.has("prompts")) {
+          await server.sendPromptListChanged();
+        }
+      } catch (error) {
+        console.error("[MCP Aggregator] Failed to send list_changed:", error);
+      }
     }
   }
 
   /**
    * Set up request handlers for the aggregator server
    */
-  private setupRequestHandlers(): void {
+  private setupRequestHandlers(server: Server): void {
     // List Tools
-    this.aggregatorServer.setRequestHandler(
-      ListToolsRequestSchema,
-      async (request) => {
-        const token = request.params?._meta?.token as string | undefined;
-        const projectId = request.params?._meta?.projectId;
-        return await this.requestHandlers.handleListTools(token, projectId);
-      },
-    );
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+      const token = request.params?._meta?.token as string | undefined;
+      const projectId = request.params?._meta?.projectId;
+      return await this.requestHandlers.handleListTools(token, projectId);
+    });
 
     // Call Tool
-    this.aggregatorServer.setRequestHandler(
-      CallToolRequestSchema,
-      async (request) => {
-        return await this.requestHandlers.handleCallTool(request);
-      },
-    );
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return await this.requestHandlers.handleCallTool(request, extra);
+    });
 
     // List Resources
-    this.aggregatorServer.setRequestHandler(
-      ListResourcesRequestSchema,
-      async (request) => {
-        const token = request.params?._meta?.token as string | undefined;
-        const projectId = request.params?._meta?.projectId;
-        return await this.requestHandlers.handleListResources(token, projectId);
-      },
-    );
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const token = request.params?._meta?.token as string | undefined;
+      const projectId = request.params?._meta?.projectId;
+      return await this.requestHandlers.handleListResources(token, projectId);
+    });
 
     // List Resource Templates
-    this.aggregatorServer.setRequestHandler(
+    server.setRequestHandler(
       ListResourceTemplatesRequestSchema,
       async (request) => {
         const token = request.params?._meta?.token as string | undefined;
@@ -150,57 +250,52 @@ export class AggregatorServer {
     );
 
     // Read Resource
-    this.aggregatorServer.setRequestHandler(
-      ReadResourceRequestSchema,
-      async (request) => {
-        const uri = request.params.uri;
-        const token = request.params?._meta?.token as string | undefined;
-        const projectId = request.params?._meta?.projectId;
-        return await this.requestHandlers.readResourceByUri(
-          uri,
-          token,
-          projectId,
-        );
-      },
-    );
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      const token = request.params?._meta?.token as string | undefined;
+      const projectId = request.params?._meta?.projectId;
+      return await this.requestHandlers.readResourceByUri(
+        uri,
+        token,
+        projectId,
+      );
+    });
 
     // List Prompts
-    this.aggregatorServer.setRequestHandler(
-      ListPromptsRequestSchema,
-      async (request) => {
-        const token = request.params?._meta?.token as string | undefined;
-        const projectId = request.params?._meta?.projectId;
-        const allPrompts = await this.requestHandlers.getAllPromptsInternal(
-          token,
-          projectId,
-        );
-        return { prompts: allPrompts };
-      },
-    );
+    server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+      const token = request.params?._meta?.token as string | undefined;
+      const projectId = request.params?._meta?.projectId;
+      return await this.requestHandlers.handleListPrompts(token, projectId);
+    });
 
     // Get Prompt
-    this.aggregatorServer.setRequestHandler(
-      GetPromptRequestSchema,
-      async (request) => {
-        const promptName = request.params.name;
-        const token = request.params?._meta?.token as string | undefined;
-        const projectId = request.params?._meta?.projectId;
-        return await this.requestHandlers.getPromptByName(
-          promptName,
-          request.params.arguments,
-          token,
-          projectId,
-        );
-      },
-    );
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const promptName = request.params.name;
+      const token = request.params?._meta?.token as string | undefined;
+      const projectId = request.params?._meta?.projectId;
+      return await this.requestHandlers.getPromptByName(
+        promptName,
+        request.params.arguments,
+        token,
+        projectId,
+      );
+    });
   }
 
   /**
    * Clean up resources
    */
   public async shutdown(): Promise<void> {
+    if (this.listChangedTimer) {
+      clearTimeout(this.listChangedTimer);
+      this.listChangedTimer = null;
+    }
     try {
-      await this.aggregatorServer.close();
+      await this.sessionManager.shutdown();
+      await Promise.all(
+        Array.from(this.sseServers).map((server) => server.close()),
+      );
+      this.sseServers.clear();
     } catch (err) {
       console.error("Error shutting down aggregator server:", err);
     }
@@ -7,12 +7,25 @@ import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse";
 import { getPlatformAPIManager } from "../../workspace/platform-api-manager";
 import { TokenValidator } from "../token-validator";
 import { ProjectRepository } from "../../projects/projects.repository";
-import { PROJECT_HEADER, UNASSIGNED_PROJECT_ID, MCPEndpointMode } from "@mcp_router/shared";
+import {
+  PROJECT_HEADER,
+  UNASSIGNED_PROJECT_ID,
+  MCPEndpointMode,
+  ToolNameCollision,
+  ToolNamingStrategy,
+} from "@mcp_router/shared";
 import {
   EntryMCPServer,
   type EntryMCPServerDeps,
 } from "../../entry-mcp/entry-mcp.server";
 import { getSettingsService } from "../../settings/settings.service";
+import { getAISummaryService } from "../../ai-summary/ai-summary.service";
+import { getLogService } from "../../mcp-logger/mcp-logger.service";
+import {
+  ENTRY_ENDPOINT_PATH_PREFIX,
+  findEntryEndpoint,
+} from "../../entry-mcp/entry-endpoints";
+import { getEntryMessages } from "../../entry-mcp/entry-messages";
 
 /**
  * HTTP server that exposes MCP functionality through REST endpoints
@@ -23,6 +36,9 @@ export class MCPHttpServer {
   private port: number;
   private aggregatorServer: AggregatorServer;
   private entryMCPServer: EntryMCPServer;
+  private entryDeps: EntryMCPServerDeps;
+  // 命名入口端点（/mcp/e/:name）ごとの EntryMCPServer
+  private namedEntryServers: Map<string, EntryMCPServer> = new Map();
   private tokenValidator: TokenValidator;
   // SSEセッション用のマップ
   private sseSessions: Map<string, SSEServerTransport> = new Map();
@@ -40,38 +56,121 @@ export class MCPHttpServer {
     // TokenValidatorはサーバー名とIDのマッピングが必要
     this.tokenValidator = new TokenValidator(new Map());
 
+    // サーバー名から接続中のクライアントを取得
+    const getConnectedClient = (serverName: string) => {
+      const maps = serverManager.getMaps();
+      const serverId = maps.serverNameToIdMap.get(serverName);
+      if (!serverId) {
+        throw new Error(`Server not found: ${serverName}`);
+      }
+      const client = maps.clients.get(serverId);
+      if (!client) {
+        throw new Error(`Server not connected: ${serverName}`);
+      }
+      return { serverId, client };
+    };
+
     // EntryMCPServer の初期化
     const entryDeps: EntryMCPServerDeps = {
       getServers: () => {
         const maps = serverManager.getMaps();
         return Array.from(maps.servers.values());
       },
+      hasServerAccess: (token, serverId) =>
+        this.tokenValidator.hasServerAccess(token, serverId),
       getServerTools: async (serverId: string) => {
-        const tools = await serverManager.listServerTools(serverId);
+        const tools = await serverManager.listServerTools(serverId, false);
         return tools.map((t) => ({
           name: t.name,
           description: t.description,
           inputSchema: t.inputSchema,
         }));
       },
-      callTool: async (serverName, toolName, args, timeoutMs) => {
-        const maps = serverManager.getMaps();
-        const serverId = maps.serverNameToIdMap.get(serverName);
-        if (!serverId) {
-          throw new Error(`Server not found: ${serverName}`);
-        }
-        const client = maps.clients.get(serverId);
-        if (!client) {
-          throw new Error(`Server not connected: ${serverName}`);
-        }
+      getServerResources: async (serverId: string) => {
+        const [resources, resourceTemplates] = await Promise.all([
+          serverManager.getCapabilityList(serverId, "resources"),
+          serverManager.getCapabilityList(serverId, "resourceTemplates"),
+        ]);
+        return {
+          resources: resources.map((r) => ({
+            uri: r.uri,
+            name: r.name,
+            description: r.description,
+            mimeType: r.mimeType,
+          })),
+          resourceTemplates: resourceTemplates.map((t) => ({
+            uriTemplate: t.uriTemplate,
+            name: t.name,
+            description: t.description,
+            mimeType: t.mimeType,
+          })),
+        };
+      },
+      getServerPrompts: async (serverId: string) => {
+        const prompts = await serverManager.getCapabilityList(
+          serverId,
+          "prompts",
+        );
+        return prompts.map((p) => ({
+          name: p.name,
+          description: p.description,
+          arguments: p.arguments,
+        }));
+      },
+      callTool: async (serverName, toolName, args, timeoutMs, options) => {
+        const { serverId, client } = getConnectedClient(serverName);
         const resolvedTimeoutMs = timeoutMs ?? 300 * 1000;
-        return await client.callTool(
-          { name: toolName, arguments: args },
-          undefined,
-          { timeout: resolvedTimeoutMs, resetTimeoutOnProgress: true },
+        return await serverManager.runWithCallLimit(
+          {
+            serverId,
+            toolName,
+            clientId: options?.clientId ?? "entry-mcp",
+            timeoutMs: resolvedTimeoutMs,
+            signal: options?.signal,
+          },
+          (remainingMs) =>
+            serverManager.runWithRequestOrigin(serverId, options?.origin, () =>
+              client.callTool({ name: toolName, arguments: args }, undefined, {
+                timeout: remainingMs,
+                resetTimeoutOnProgress: true,
+                signal: options?.signal,
+                onprogress: options?.onprogress,
+              }),
+            ),
+        );
+      },
+      readResource: async (serverName, uri, options) => {
+        const { serverId, client } = getConnectedClient(serverName);
+        return await serverManager.runWithRequestOrigin(
+          serverId,
+          options?.origin,
+          () => client.readResource({ uri }, { signal: options?.signal }),
         );
       },
+      getPrompt: async (serverName, promptName, args, options) => {
+        const { serverId, client } = getConnectedClient(serverName);
+        return await serverManager.runWithRequestOrigin(
+          serverId,
+          options?.origin,
+          () =>
+            client.getPrompt(
+              { name: promptName, arguments: args },
+              { signal: options?.signal },
+            ),
+        );
+      },
+      embedTexts: (texts) => getAISummaryService().createEmbeddings(texts),
+      getToolCallCounts: (since, limit) =>
+        getLogService().getToolCallCounts(since, limit),
+      shouldCoerceArguments: () =>
+        getSettingsService().getSettings().coerceToolArguments ?? false,
+      limitToolOutput: (serverId, toolName, clientId, content) =>
+        serverManager.limitToolOutput(serverId, toolName, clientId, content),
+      readToolOutput: (resultId, clientId, offset, length) =>
+        serverManager.readToolOutput(resultId, clientId, offset, length),
+      getMessages: () => getEntryMessages(getSettingsService().getSettings()),
     };
+    this.entryDeps = entryDeps;
     this.entryMCPServer = new EntryMCPServer(entryDeps);
 
     this.configureMiddleware();
@@ -145,6 +244,7 @@ export class MCPHttpServer {
    */
   private configureRoutes(): void {
     this.configureMcpRoute();
+    this.configureNamedEntryRoute();
     this.configureMcpSseRoute();
   }
 
@@ -183,20 +283,48 @@ export class MCPHttpServer {
     throw error;
   }
 
+  /**
+   * POSTされたJSON-RPCメッセージ（バッチを含む）をコピー
+   * req.body を書き換えずにメタデータを付与するため
+   */
+  private copyMessageBody(body: any): any {
+    return Array.isArray(body)
+      ? body.map((message) => ({ ...message }))
+      : { ...body };
+  }
+
+  /**
+   * リクエストと通知に token と projectId を _meta として付与
+   * サーバーからのリクエストへのレスポンス（result / error）は params を持てないため
+   * （SDKのスキーマが厳密なので、付与すると受け付けられない）そのまま渡す
+   */
   private attachRequestMetadata(
     payload: any,
     tokenHeader: string | string[] | undefined,
     projectId: string | null,
   ): void {
+    if (Array.isArray(payload)) {
+      for (const message of payload) {
+        this.attachRequestMetadata(message, tokenHeader, projectId);
+      }
+      return;
+    }
+    if (!payload || typeof payload.method !== "string") {
+      return;
+    }
+
     const tokenValue = Array.isArray(tokenHeader)
       ? tokenHeader[0]
       : tokenHeader;
 
     if (payload.params && typeof payload.params === "object") {
-      payload.params._meta = {
-        ...(payload.params._meta || {}),
-        token: tokenValue,
-        projectId,
+      payload.params = {
+        ...payload.params,
+        _meta: {
+          ...(payload.params._meta || {}),
+          token: tokenValue,
+          projectId,
+        },
       };
     } else if (payload.params === undefined) {
       payload.params = {
@@ -215,49 +343,48 @@ export class MCPHttpServer {
   private configureMcpRoute(): void {
     // POST /mcp - Handle MCP requests based on endpoint mode setting
     this.app.post("/mcp", async (req, res) => {
-      const modifiedBody = { ...req.body };
+      const modifiedBody = this.copyMessageBody(req.body);
 
       try {
         // 获取当前端点模式设置
         const settings = getSettingsService().getSettings();
         const endpointMode: MCPEndpointMode = settings.mcpEndpointMode || "entry";
 
-        if (endpointMode === "aggregator") {
-          // 使用 Aggregator 模式 - 暴露所有工具
-          let projectFilter: string | null;
-          try {
-            const resolution = this.resolveProjectFilter(req, {
-              skipValidation: false,
+        // 两种模式都按 token 与项目过滤可访问的服务器
+        let projectFilter: string | null;
+        try {
+          const resolution = this.resolveProjectFilter(req, {
+            skipValidation: false,
+          });
+          projectFilter = resolution.projectId;
+        } catch (error: any) {
+          if (!res.headersSent) {
+            res.status(error?.status || 400).json({
+              jsonrpc: "2.0",
+              error: {
+                code: -32602,
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : "Invalid project header",
+              },
+              id: modifiedBody.id || null,
             });
-            projectFilter = resolution.projectId;
-          } catch (error: any) {
-            if (!res.headersSent) {
-              res.status(error?.status || 400).json({
-                jsonrpc: "2.0",
-                error: {
-                  code: -32602,
-                  message:
-                    error instanceof Error
-                      ? error.message
-                      : "Invalid project header",
-                },
-                id: modifiedBody.id || null,
-              });
-            }
-            return;
           }
+          return;
+        }
 
-          const token = req.headers["authorization"];
-          this.attachRequestMetadata(modifiedBody, token, projectFilter);
-          await this.aggregatorServer
-            .getTransport()
-            .handleRequest(req, res, modifiedBody);
+        const token = req.headers["authorization"];
+        this.attachRequestMetadata(modifiedBody, token, projectFilter);
+
+        if (endpointMode === "aggregator") {
+          // 使用 Aggregator 模式 - 暴露所有工具
+          await this.aggregatorServer.handleRequest(req, res, modifiedBody);
         } else {
-          // 使用 Entry 模式 - 只暴露 list_mcp_tools 和 call_mcp_tool
+          // 使用 Entry 模式 - 只暴露 list_mcp_tools、call_mcp_tool 等元工具
+          // （hybrid 模式下由 EntryMCPServer 额外暴露固定的工具）
           await this.entryMCPServer.waitForInit();
-          await this.entryMCPServer
-            .getTransport()
-            .handleRequest(req, res, modifiedBody);
+          await this.entryMCPServer.handleRequest(req, res, modifiedBody);
         }
       } catch (error) {
         console.error("Error handling MCP request:", error);
@@ -274,9 +401,35 @@ export class MCPHttpServer {
       }
     });
 
+    // GET /mcp - セッションの通知ストリーム, DELETE /mcp - セッション終了
+    const handleMcpSessionRequest = async (
+      req: express.Request,
+      res: express.Response,
+    ) => {
+      const settings = getSettingsService().getSettings();
+      if ((settings.mcpEndpointMode || "entry") === "aggregator") {
+        await this.handleSessionRequest(this.aggregatorServer, req, res);
+      } else {
+        await this.entryMCPServer.waitForInit();
+        await this.handleSessionRequest(this.entryMCPServer, req, res);
+      }
+    };
+    this.app.get("/mcp", handleMcpSessionRequest);
+    this.app.delete("/mcp", handleMcpSessionRequest);
+
+    // GET/DELETE /mcp/aggregator - 聚合器端点的会话请求
+    const handleAggregatorSessionRequest = async (
+      req: express.Request,
+      res: express.Response,
+    ) => {
+      await this.handleSessionRequest(this.aggregatorServer, req, res);
+    };
+    this.app.get("/mcp/aggregator", handleAggregatorSessionRequest);
+    this.app.delete("/mcp/aggregator", handleAggregatorSessionRequest);
+
     // POST /mcp/aggregator - 聚合器端点（始终暴露所有工具）
     this.app.post("/mcp/aggregator", async (req, res) => {
-      const modifiedBody = { ...req.body };
+      const modifiedBody = this.copyMessageBody(req.body);
 
       try {
         let projectFilter: string | null;
@@ -304,9 +457,7 @@ export class MCPHttpServer {
 
         const token = req.headers["authorization"];
         this.attachRequestMetadata(modifiedBody, token, projectFilter);
-        await this.aggregatorServer
-          .getTransport()
-          .handleRequest(req, res, modifiedBody);
+        await this.aggregatorServer.handleRequest(req, res, modifiedBody);
       } catch (error) {
         console.error("Error handling aggregator MCP request:", error);
         if (!res.headersSent) {
@@ -323,6 +474,133 @@ export class MCPHttpServer {
     });
   }
 
+  /**
+   * 命名入口端点の EntryMCPServer を取得（初回アクセス時に作成）
+   * 設定から削除された端点はセッションを閉じて undefined を返す
+   */
+  private getNamedEntryServer(name: string): EntryMCPServer | undefined {
+    const endpoint = findEntryEndpoint(
+      getSettingsService().getSettings().entryEndpoints,
+      name,
+    );
+    let server = this.namedEntryServers.get(name);
+
+    if (!endpoint) {
+      if (server) {
+        this.namedEntryServers.delete(name);
+        server.shutdown();
+      }
+      return undefined;
+    }
+
+    if (!server) {
+      server = new EntryMCPServer(this.entryDeps, name);
+      this.namedEntryServers.set(name, server);
+    }
+    return server;
+  }
+
+  /**
+   * Configure named entry endpoints (/mcp/e/:name)
+   * 各端点は選択されたサーバだけを Entry モードで公開する
+   */
+  private configureNamedEntryRoute(): void {
+    const path = `${ENTRY_ENDPOINT_PATH_PREFIX}:name`;
+
+    this.app.post(path, async (req, res) => {
+      const modifiedBody = this.copyMessageBody(req.body);
+
+      try {
+        const server = this.getNamedEntryServer(req.params.name);
+        if (!server) {
+          res.status(404).json({
+            jsonrpc: "2.0",
+            error: {
+              code: -32000,
+              message: `Entry endpoint "${req.params.name}" not found`,
+            },
+            id: modifiedBody.id || null,
+          });
+          return;
+        }
+
+        let projectFilter: string | null;
+        try {
+          const resolution = this.resolveProjectFilter(req, {
+            skipValidation: false,
+          });
+          projectFilter = resolution.projectId;
+        } catch (error: any) {
+          if (!res.headersSent) {
+            res.status(error?.status || 400).json({
+              jsonrpc: "2.0",
+              error: {
+                code: -32602,
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : "Invalid project header",
+              },
+              id: modifiedBody.id || null,
+            });
+          }
+          return;
+        }
+
+        const token = req.headers["authorization"];
+        this.attachRequestMetadata(modifiedBody, token, projectFilter);
+        await server.waitForInit();
+        await server.handleRequest(req, res, modifiedBody);
+      } catch (error) {
+        console.error("Error handling named entry MCP request:", error);
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: "2.0",
+            error: {
+              code: -32603,
+              message: "Internal server error",
+            },
+            id: null,
+          });
+        }
+      }
+    });
+
+    // GET - セッションの通知ストリーム, DELETE - セッション終了
+    const handleNamedSessionRequest = async (
+      req: express.Request,
+      res: express.Response,
+    ) => {
+      const server = this.getNamedEntryServer(req.params.name);
+      if (!server) {
+        res.status(404).send(`Entry endpoint "${req.params.name}" not found`);
+        return;
+      }
+      await server.waitForInit();
+      await this.handleSessionRequest(server, req, res);
+    };
+    this.app.get(path, handleNamedSessionRequest);
+    this.app.delete(path, handleNamedSessionRequest);
+  }
+
+  /**
+   * Handle a body-less session request (GET stream / DELETE session)
+   */
+  private async handleSessionRequest(
+    target: AggregatorServer | EntryMCPServer,
+    req: express.Request,
+    res: express.Response,
+  ): Promise<void> {
+    try {
+      await target.handleRequest(req, res);
+    } catch (error) {
+      console.error(`Error handling MCP ${req.method} request:`, error);
+      if (!res.headersSent) {
+        res.status(500).send("Internal server error");
+      }
+    }
+  }
+
   /**
    * Configure SSE route for MCP
    */
@@ -373,7 +651,10 @@ export class MCPHttpServer {
         });
 
         // Connect to local aggregator server
-        await this.aggregatorServer.getAggregatorServer().connect(transport);
+        await this.aggregatorServer.connectSseTransport(
+          transport,
+          projectFilter,
+        );
 
         // セッションID情報をクライアントに送信
         res.write(`data: ${JSON.stringify({ sessionId })}\n\n`);
@@ -420,7 +701,7 @@ export class MCPHttpServer {
         }
 
         // リクエストボディをコピー
-        const modifiedBody = { ...req.body };
+        const modifiedBody = this.copyMessageBody(req.body);
 
         let projectFilter: string | null;
         try {
@@ -534,6 +815,8 @@ export class MCPHttpServer {
     isRunning: boolean;
     endpointMode: MCPEndpointMode;
     endpoints: { path: string; description: string }[];
+    toolNamingStrategy: ToolNamingStrategy;
+    toolNameCollisions: ToolNameCollision[];
   } {
     const settings = getSettingsService().getSettings();
     const endpointMode: MCPEndpointMode = settings.mcpEndpointMode || "entry";
@@ -545,13 +828,22 @@ export class MCPHttpServer {
       endpoints: [
         { 
           path: "/mcp", 
-          description: endpointMode === "entry" 
-            ? "Entry MCP (list_mcp_tools, call_mcp_tool)" 
-            : "Aggregator MCP (all tools)"
+          description:
+            endpointMode === "aggregator"
+              ? "Aggregator MCP (all tools)"
+              : endpointMode === "hybrid"
+                ? "Hybrid MCP (entry meta-tools + pinned tools)"
+                : "Entry MCP (list_mcp_tools, search_mcp_tools, call_mcp_tool)",
         },
         { path: "/mcp/aggregator", description: "Aggregator MCP (all tools)" },
         { path: "/mcp/sse", description: "SSE connection" },
+        ...(settings.entryEndpoints ?? []).map((endpoint) => ({
+          path: `${ENTRY_ENDPOINT_PATH_PREFIX}${endpoint.name}`,
+          description: endpoint.description || "Entry MCP (selected servers)",
+        })),
       ],
+      toolNamingStrategy: settings.toolNamingStrategy || "prefix-on-collision",
+      toolNameCollisions: this.aggregatorServer.getToolNameCollisions(),
     };
   }
 }
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Default number of events kept per session
+ */
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * Bounded in-memory event store used for Last-Event-ID resumption of
+ * Streamable HTTP SSE streams. One instance is created per session, so
+ * events are released together with the session.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: Map<
+    EventId,
+    { streamId: StreamId; message: JSONRPCMessage }
+  > = new Map();
+
+  constructor(private maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  /**
+   * Store an event, evicting the oldest one when the store is full
+   */
+  public async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage,
+  ): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest !== undefined) {
+        this.events.delete(oldest);
+      }
+    }
+    return eventId;
+  }
+
+  public async getStreamIdForEventId(
+    eventId: EventId,
+  ): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  /**
+   * Replay events of the same stream that were stored after lastEventId
+   */
+  public async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return "";
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+    return last.streamId;
+  }
+}
@@ -1,6 +1,11 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { TokenValidator } from "./token-validator";
 import { getLogService } from "@/main/modules/mcp-logger/mcp-logger.service";
-import { McpManagerRequestLogEntry as RequestLogEntry } from "@mcp_router/shared";
+import type { WorkflowService } from "@/main/modules/workflow/workflow.service";
+import {
+  McpManagerRequestLogEntry as RequestLogEntry,
+  WorkflowDefinition,
+} from "@mcp_router/shared";
 
 /**
  * Base class for request handlers with common error handling patterns
@@ -23,89 +28,49 @@ export abstract class RequestHandlerBase {
 
   /**
    * Execute a request
+   * Every enabled workflow whose scope matches the request wraps the handler,
+   * with the highest priority workflow outermost.
+   * @param handler Receives the request params, which pre-hooks in a
+   * workflow may have rewritten
    */
   protected async executeWithHooks<T>(
     method: string,
     params: any,
     clientId: string,
-    handler: () => Promise<T>,
+    handler: (params: any) => Promise<T>,
     additionalMetadata?: Record<string, any>,
   ): Promise<T> {
-    // Workflowの実行を試みる
+    let run = handler;
+
+    // Workflowの構成を試みる
     try {
-      // WorkflowServiceとWorkflowExecutorをインポート
+      // WorkflowServiceをインポート
       const { getWorkflowService } =
         await import("../workflow/workflow.service");
-      const { WorkflowExecutor } =
-        await import("../workflow/workflow-executor");
       const workflowService = getWorkflowService();
 
-      // 該当するWorkflowを取得（tools/list または tools/call）
-      const workflowType = method; // "tools/list" or "tools/call"
-      const workflows = await workflowService.getWorkflowsByType(workflowType);
-
-      // 有効かつ構造的に妥当なWorkflowをフィルタリング
-      const validWorkflows = workflows.filter((w) => {
-        if (!w.enabled) {
-          return false;
-        }
-
-        // Workflowの構造を検証（Start -> MCP Call -> End が接続されている）
-        const isValid = WorkflowExecutor.isValidWorkflow(w);
-        if (!isValid) {
-          console.warn(
-            `Workflow ${w.name} (${w.id}) is not valid for execution`,
-          );
-        }
-        return isValid;
-      });
-
-      // 実行コンテキストを構築
-      const context = {
+      // 該当するWorkflowを優先度順に取得（種類はMCPメソッド名と同じ）
+      const validWorkflows = await workflowService.getMatchingWorkflows(
         method,
-        params,
-        clientId,
-        timestamp: Date.now(),
-        mcpHandler: handler, // MCPハンドラーをコンテキストに追加
-        ...additionalMetadata,
-      };
+        { clientId, ...additionalMetadata },
+      );
 
-      // 有効なWorkflowがある場合は実行
       if (validWorkflows.length > 0) {
         console.log(
           `Found ${validWorkflows.length} valid workflows for ${method}`,
         );
 
-        // 最初の有効なWorkflowを実行（複数ある場合は最初のものを使用）
-        // TODO: 複数のWorkflow実行戦略を検討
-        const workflow = validWorkflows[0];
-
-        try {
-          console.log(`Executing workflow: ${workflow.name} (${workflow.id})`);
-          const result = await workflowService.executeWorkflow(
-            workflow.id,
-            context,
-          );
-
-          // Workflow内でMCPリクエストが実行された場合、その結果を返す
-          if (result.mcpResult !== undefined) {
-            console.log(`Workflow execution successful, returning MCP result`);
-            return result.mcpResult as T;
-          }
-
-          // MCPリクエストが実行されなかった場合はエラー
-          console.error(
-            `Workflow ${workflow.name} did not execute MCP request`,
-          );
-          throw new Error(
-            `Workflow ${workflow.name} did not execute MCP request`,
-          );
-        } catch (error) {
-          console.error(`Failed to execute workflow ${workflow.name}:`, error);
-          // Workflow実行に失敗した場合は、通常のハンドラーを実行
-          console.log(`Falling back to direct handler execution`);
-          return await handler();
-        }
+        // 優先度の低いWorkflowから内側に包み、各WorkflowのMCP Callが次のWorkflowを呼ぶようにする
+        run = validWorkflows.reduceRight(
+          (next, workflow) => (nextParams: any) =>
+            this.executeWorkflowLayer(
+              workflowService,
+              workflow,
+              { method, params: nextParams, clientId, ...additionalMetadata },
+              next,
+            ),
+          handler,
+        );
       } else {
         console.log(`No valid workflows found for ${method}`);
       }
@@ -114,13 +79,90 @@ export abstract class RequestHandlerBase {
       console.error(`Error setting up workflows for ${method}:`, error);
     }
 
-    // Workflowがない場合は通常のハンドラーを実行
-    console.log(`Executing handler directly without workflow`);
-    return await handler();
+    return await run(params);
   }
 
   /**
-   * Execute a request with logging
+   * Run one workflow around the next layer (an inner workflow or the handler)
+   */
+  private async executeWorkflowLayer<T>(
+    workflowService: WorkflowService,
+    workflow: WorkflowDefinition,
+    request: { method: string; params: any; clientId: string },
+    next: (params: any) => Promise<T>,
+  ): Promise<T> {
+    // 内側の結果。内側のエラー（拒否を含む）はフォールバックせずにそのまま返す
+    let nextOutcome: { result: T } | { error: unknown } | undefined;
+
+    // 実行コンテキストを構築
+    const context = {
+      ...request,
+      timestamp: Date.now(),
+      mcpHandler: async (params: any) => {
+        try {
+          const result = await next(params);
+          nextOutcome = { result };
+          return result;
+        } catch (error) {
+          nextOutcome = { error };
+          throw error;
+        }
+      },
+    };
+
+    let result: any;
+    try {
+      console.log(`Executing workflow: ${workflow.name} (${workflow.id})`);
+      result = await workflowService.executeWorkflow(workflow.id, context);
+    } catch (error) {
+      console.error(`Failed to execute workflow ${workflow.name}:`, error);
+    }
+
+    if (nextOutcome && "error" in nextOutcome) {
+      throw nextOutcome.error;
+    }
+
+    // ブロッキングHookによる拒否（Workflowのエラーとは異なり、ハンドラーにフォールバックしない）
+    if (result?.status === "denied") {
+      console.log(
+        `Workflow ${workflow.name} denied ${request.method}: ${result.denial.reason}`,
+      );
+      const denial = { workflowName: workflow.name, ...result.denial };
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Denied by workflow policy: ${denial.reason}`,
+        { policyDenial: denial },
+      );
+    }
+
+    if (result?.mcpResult !== undefined) {
+      // Workflow内でMCPリクエストが実行された場合、その結果を返す
+      return result.mcpResult as T;
+    }
+
+    if (nextOutcome) {
+      // MCPリクエスト後にWorkflowが失敗した場合は、リクエストを繰り返さずに元の結果を返す
+      return nextOutcome.result;
+    }
+
+    // Workflow実行に失敗した場合は、次のレイヤーを直接実行
+    console.error(`Workflow ${workflow.name} did not execute MCP request`);
+    console.log(`Falling back to the next layer without this workflow`);
+    return await next(request.params);
+  }
+
+  /**
+   * Whether the error is a denial from a blocking workflow hook
+   */
+  private static isPolicyDenial(error: unknown): boolean {
+    return (
+      error instanceof McpError &&
+      !!(error.data as { policyDenial?: unknown } | undefined)?.policyDenial
+    );
+  }
+
+  /**
+   * Execute a request through the workflow pipeline with logging
    */
   protected async executeWithHooksAndLogging<T>(
     method: string,
@@ -128,7 +170,7 @@ export abstract class RequestHandlerBase {
     clientId: string,
     serverName: string,
     requestType: string,
-    handler: () => Promise<T>,
+    handler: (params: any) => Promise<T>,
     additionalMetadata?: Record<string, any>,
   ): Promise<T> {
     // Create log entry
@@ -142,18 +184,29 @@ export abstract class RequestHandlerBase {
     };
 
     try {
-      // Execute the actual handler
-      const result = await handler();
+      // Execute the handler (through any matching workflow)
+      const result = await this.executeWithHooks(
+        method,
+        params,
+        clientId,
+        handler,
+        additionalMetadata,
+      );
 
-      // Log success
+      // Tool results can report failure without throwing
+      if ((result as { isError?: unknown } | undefined)?.isError === true) {
+        logEntry.result = "error";
+      }
       logEntry.response = result;
       logEntry.duration = Date.now() - new Date(logEntry.timestamp).getTime();
       getLogService().recordMcpRequestLog(logEntry, serverName);
 
       return result;
     } catch (error: any) {
-      // Log error
-      logEntry.result = "error";
+      // Log error (a workflow policy denial is recorded as "denied")
+      logEntry.result = RequestHandlerBase.isPolicyDenial(error)
+        ? "denied"
+        : "error";
       logEntry.errorMessage = error.message || String(error);
       logEntry.duration = Date.now() - new Date(logEntry.timestamp).getTime();
       getLogService().recordMcpRequestLog(logEntry, serverName);
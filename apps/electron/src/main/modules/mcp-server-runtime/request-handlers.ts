@@ -1,31 +1,91 @@
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { MCPServer, UNASSIGNED_PROJECT_ID } from "@mcp_router/shared";
+import {
+  MCPServer,
+  ToolNameCollision,
+  ToolNamingStrategy,
+  UNASSIGNED_PROJECT_ID,
+} from "@mcp_router/shared";
 import {
   parseResourceUri,
   createResourceUri,
   createUriVariants,
 } from "@/main/utils/uri-utils";
+import {
+  resolveExposedToolNames,
+  type SourceTool,
+} from "@/main/utils/tool-name-utils";
+import {
+  createProgressRelay,
+  type InboundRequestExtra,
+} from "@/main/utils/progress-utils";
+import {
+  formatToolArgumentError,
+  validateToolArguments,
+} from "@/main/utils/tool-argument-validator";
+import { getSettingsService } from "../settings/settings.service";
 import { MCPServerManager } from "../mcp-server-manager/mcp-server-manager";
+import type {
+  CapabilityKind,
+  CapabilityLists,
+} from "../mcp-server-manager/capability-cache";
+import {
+  READ_TOOL_RESULT_TOOL_NAME,
+  formatToolOutputPage,
+} from "../mcp-server-manager/tool-output-limiter";
 import { TokenValidator } from "./token-validator";
 import { RequestHandlerBase } from "./request-handler-base";
 
+/**
+ * Router-provided tool for paging through truncated tool results
+ */
+const READ_TOOL_RESULT_DEFINITION = {
+  name: READ_TOOL_RESULT_TOOL_NAME,
+  description:
+    "Read the rest of a tool result that was truncated because it exceeded the output limit. Use the resultId and offset given in the truncation notice.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      resultId: {
+        type: "string",
+        description: "Result ID from the truncation notice",
+      },
+      offset: {
+        type: "number",
+        description: "Character offset to start reading from (default 0)",
+        minimum: 0,
+      },
+      length: {
+        type: "number",
+        description:
+          "Number of characters to read (defaults to the tool's output limit)",
+        minimum: 1,
+      },
+    },
+    required: ["resultId"],
+  },
+};
+
 /**
  * Handles all request processing for the aggregator server
  */
 export class RequestHandlers extends RequestHandlerBase {
   private originalProtocols: Map<string, string> = new Map();
-  private toolNameToServerMap: Map<string, Map<string, string>> = new Map();
+  private toolNameToServerMap: Map<string, Map<string, SourceTool>> = new Map();
+  private toolNameCollisions: Map<string, ToolNameCollision[]> = new Map();
   private serverStatusMap: Map<string, boolean>;
   private servers: Map<string, MCPServer>;
   private clients: Map<string, Client>;
   private serverNameToIdMap: Map<string, string>;
+  private serverManager: MCPServerManager;
 
   constructor(serverManager: MCPServerManager) {
     const maps = serverManager.getMaps();
     const tokenValidator = new TokenValidator(maps.serverNameToIdMap);
     super(tokenValidator);
 
+    this.serverManager = serverManager;
+
     // Get maps from server manager
     this.servers = maps.servers;
     this.clients = maps.clients;
@@ -52,7 +112,7 @@ export class RequestHandlers extends RequestHandlerBase {
     return projectId ?? UNASSIGNED_PROJECT_ID;
   }
 
-  private ensureToolMap(projectId: string | null): Map<string, string> {
+  private ensureToolMap(projectId: string | null): Map<string, SourceTool> {
     const key = this.getProjectKey(projectId);
     let map = this.toolNameToServerMap.get(key);
     if (!map) {
@@ -70,6 +130,70 @@ export class RequestHandlers extends RequestHandlerBase {
     return projectId === null || serverProject === projectId;
   }
 
+  /**
+   * Fetch a capability list from every running server visible to the token
+   * and project, in parallel. Servers that fail or time out are skipped.
+   */
+  private async collectFromServers<K extends CapabilityKind>(
+    kind: K,
+    token?: string,
+    projectId?: string | null,
+  ): Promise<
+    Array<{ server?: MCPServer; serverName: string; items: CapabilityLists[K] }>
+  > {
+    const targets: Array<{
+      serverId: string;
+      server?: MCPServer;
+      serverName: string;
+    }> = [];
+
+    for (const [serverId, client] of this.clients.entries()) {
+      const server = this.servers.get(serverId);
+      const serverName = server?.name || serverId;
+      const isRunning = this.serverStatusMap.get(serverName);
+
+      if (!isRunning || !client) {
+        continue;
+      }
+
+      if (!this.matchesProject(server, projectId ?? null)) {
+        continue;
+      }
+
+      // Check token access if provided
+      if (token) {
+        try {
+          this.tokenValidator.validateTokenAndAccess(token, serverName);
+        } catch {
+          // Skip this server if token doesn't have access
+          continue;
+        }
+      }
+
+      targets.push({ serverId, server, serverName });
+    }
+
+    const results = await Promise.all(
+      targets.map(async ({ serverId, server, serverName }) => {
+        try {
+          const items = await this.serverManager.getCapabilityList(
+            serverId,
+            kind,
+          );
+          return { server, serverName, items };
+        } catch (error: any) {
+          console.error(
+            `[MCPServerManager] Failed to get ${kind} from server ${serverName}:`,
+            error,
+          );
+          return null;
+        }
+      }),
+    );
+
+    return results.filter((result) => result !== null);
+  }
+
   /**
    * Handle a request to list all tools from all servers
    */
@@ -80,35 +204,46 @@ export class RequestHandlers extends RequestHandlerBase {
     const clientId = this.getClientId(token);
     const projectId = this.normalizeProjectId(projectIdInput);
 
-    return this.executeWithHooks("tools/list", {}, clientId, async () => {
-      const allTools = await this.getAllToolsInternal(token, projectId);
-      return { tools: allTools };
-    });
+    return this.executeWithHooks(
+      "tools/list",
+      {},
+      clientId,
+      async () => {
+        const allTools = await this.getAllToolsInternal(token, projectId);
+        return { tools: allTools };
+      },
+      { projectId },
+    );
   }
 
   /**
    * Handle a call to a specific tool
+   * @param extra Inbound request context, used to relay progress and
+   * cancellation to the upstream server
    */
-  public async handleCallTool(request: any): Promise<any> {
+  public async handleCallTool(
+    request: any,
+    extra?: InboundRequestExtra,
+  ): Promise<any> {
     const toolName = request.params.name;
 
     const projectId = this.normalizeProjectId(request.params._meta?.projectId);
 
     // Get server name and original tool name
     const token = request.params._meta?.token as string | undefined;
-    const mappedServerName = await this.getServerNameForTool(
-      toolName,
-      token,
-      projectId,
-    );
-    if (!mappedServerName) {
+    const sourceTool = await this.getSourceTool(toolName, token, projectId);
+    // Served by the router itself unless an upstream tool has the same name
+    if (!sourceTool && toolName === READ_TOOL_RESULT_TOOL_NAME) {
+      return this.handleReadToolResult(request.params.arguments, token);
+    }
+    if (!sourceTool) {
       throw new McpError(
         ErrorCode.InvalidRequest,
         `Could not determine server for tool: ${toolName}`,
       );
     }
-    const serverName = mappedServerName;
-    const originalToolName = toolName;
+    const serverName = sourceTool.serverName;
+    const originalToolName = sourceTool.toolName;
 
     // Validate token and get client ID for regular servers
     const clientId = this.tokenValidator.validateTokenAndAccess(
@@ -162,24 +297,146 @@ export class RequestHandlers extends RequestHandlerBase {
       clientId,
       serverName,
       "CallTool",
-      async () => {
+      async (params) => {
+        const validation = await this.validateToolCallArguments(
+          serverId,
+          originalToolName,
+          params.arguments,
+        );
+        if (!validation.valid) {
+          // Returned as a tool error so the model can correct its arguments
+          return {
+            content: [{ type: "text", text: validation.error }],
+            isError: true,
+          };
+        }
+
+        const timeoutMs = this.serverManager.getToolCallTimeoutMs(
+          serverId,
+          originalToolName,
+          60 * 60 * 1000, // 60分
+        );
         // Call the tool on the server
-        return await client.callTool(
+        const result = await this.serverManager.runWithCallLimit(
           {
-            name: originalToolName,
-            arguments: request.params.arguments || {},
-          },
-          undefined,
-          {
-            timeout: 60 * 60 * 1000, // 60分
-            resetTimeoutOnProgress: true,
+            serverId,
+            toolName: originalToolName,
+            clientId,
+            timeoutMs,
+            signal: extra?.signal,
           },
+          (remainingMs) =>
+            this.serverManager.runWithRequestOrigin(serverId, extra, () =>
+              client.callTool(
+                {
+                  name: originalToolName,
+                  arguments: validation.arguments,
+                },
+                undefined,
+                {
+                  timeout: remainingMs,
+                  resetTimeoutOnProgress: true,
+                  signal: extra?.signal,
+                  onprogress: createProgressRelay(
+                    request.params._meta?.progressToken,
+                    extra,
+                  ),
+                },
+              ),
+            ),
         );
+        if (!Array.isArray(result.content)) {
+          return result;
+        }
+        return {
+          ...result,
+          content: this.serverManager.limitToolOutput(
+            serverId,
+            originalToolName,
+            clientId,
+            result.content,
+          ),
+        };
       },
-      { serverId },
+      { serverId, serverName, toolName: originalToolName, projectId },
     );
   }
 
+  /**
+   * Return a page of a tool result that was truncated by its output limit
+   */
+  private handleReadToolResult(args: any, token?: string): any {
+    const resultId = args?.resultId;
+    if (typeof resultId !== "string" || !resultId) {
+      throw new McpError(ErrorCode.InvalidParams, "resultId is required");
+    }
+
+    const page = this.serverManager.readToolOutput(
+      resultId,
+      this.getClientId(token),
+      typeof args.offset === "number" ? args.offset : undefined,
+      typeof args.length === "number" ? args.length : undefined,
+    );
+    if (!page) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Result not found or expired: ${resultId}. Call the original tool again.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    return { content: [{ type: "text", text: formatToolOutputPage(page) }] };
+  }
+
+  /**
+   * Validate tool arguments against the cached inputSchema of the tool.
+   * If the tool list cannot be fetched the arguments are passed through and
+   * left for the upstream server to check.
+   */
+  private async validateToolCallArguments(
+    serverId: string,
+    toolName: string,
+    args: Record<string, unknown> | undefined,
+  ): Promise<
+    | { valid: true; arguments: Record<string, unknown> }
+    | { valid: false; error: string }
+  > {
+    let tool;
+    try {
+      const tools = await this.serverManager.getCapabilityList(
+        serverId,
+        "tools",
+      );
+      tool = tools.find((t) => t.name === toolName);
+    } catch (error) {
+      console.error(
+        `[MCPServerManager] Failed to get tools for argument validation:`,
+        error,
+      );
+    }
+    if (!tool) {
+      return { valid: true, arguments: args || {} };
+    }
+
+    const result = validateToolArguments(tool.inputSchema, args, {
+      coerce: getSettingsService().getSettings().coerceToolArguments ?? false,
+    });
+    if (!result.valid) {
+      return {
+        valid: false,
+        error: formatToolArgumentError(
+          toolName,
+          result.issues,
+          tool.inputSchema,
+        ),
+      };
+    }
+    return { valid: true, arguments: result.arguments };
+  }
+
   /**
    * Get all tools from all servers (internal implementation)
    */
@@ -188,69 +445,109 @@ export class RequestHandlers extends RequestHandlerBase {
     projectId?: string | null,
   ): Promise<any[]> {
     const normalizedProjectId = this.normalizeProjectId(projectId);
-    const toolMap = this.ensureToolMap(normalizedProjectId);
-    toolMap.clear();
-    const allTools: any[] = [];
+    const collectedTools: Array<SourceTool & { tool: any }> = [];
 
     // Add tools from running servers
-    for (const [serverId, client] of this.clients.entries()) {
-      const server = this.servers.get(serverId);
-      const serverName = server?.name || serverId;
-      const isRunning = this.serverStatusMap.get(serverName);
-
-      if (!isRunning || !client) {
-        continue;
-      }
-
-      if (!this.matchesProject(server, normalizedProjectId)) {
-        continue;
-      }
-
-      if (token) {
-        try {
-          this.tokenValidator.validateTokenAndAccess(token, serverName);
-        } catch {
+    const results = await this.collectFromServers(
+      "tools",
+      token,
+      normalizedProjectId,
+    );
+    for (const { server, serverName, items } of results) {
+      const permissions = (server?.toolPermissions ?? {}) as Record<
+        string,
+        boolean
+      >;
+
+      for (const tool of items) {
+        if (permissions[tool.name] === false) {
           continue;
         }
+        collectedTools.push({ serverName, toolName: tool.name, tool });
       }
-      try {
-        // First, try to get the list of tools
-        const tools = await client.listTools();
+    }
 
-        if (!tools.tools || tools.tools.length === 0) {
-          continue;
-        }
+    const strategy =
+      getSettingsService().getSettings().toolNamingStrategy ??
+      "prefix-on-collision";
+    const resolved = resolveExposedToolNames(collectedTools, strategy);
+    this.recordToolNameCollisions(
+      normalizedProjectId,
+      resolved.collisions,
+      strategy,
+    );
 
-        const permissions = (server?.toolPermissions ?? {}) as Record<
-          string,
-          boolean
-        >;
+    const toolMap = this.ensureToolMap(normalizedProjectId);
+    toolMap.clear();
+    const allTools: any[] = [];
 
-        for (const tool of tools.tools) {
-          if (permissions[tool.name] === false) {
-            continue;
-          }
+    for (const exposed of resolved.tools) {
+      // Store the mapping
+      toolMap.set(exposed.exposedName, {
+        serverName: exposed.serverName,
+        toolName: exposed.toolName,
+      });
+
+      allTools.push({
+        ...exposed.tool,
+        name: exposed.exposedName,
+        sourceServer: exposed.serverName,
+      });
+    }
 
-          const toolWithSource = {
-            ...tool,
-            name: tool.name,
-            sourceServer: serverName,
-          };
+    if (
+      this.serverManager.hasToolOutputLimits() &&
+      !toolMap.has(READ_TOOL_RESULT_TOOL_NAME)
+    ) {
+      allTools.push(READ_TOOL_RESULT_DEFINITION);
+    }
 
-          // Store the mapping
-          toolMap.set(tool.name, serverName);
+    return allTools;
+  }
 
-          allTools.push(toolWithSource);
-        }
-      } catch (error: any) {
-        console.error(
-          `[MCPServerManager] Failed to get tools from server ${serverName}:`,
-          error,
-        );
-      }
+  /**
+   * Store tool name collisions for a project and warn when they change
+   */
+  private recordToolNameCollisions(
+    projectId: string | null,
+    collisions: ToolNameCollision[],
+    strategy: ToolNamingStrategy,
+  ): void {
+    const projectKey = this.getProjectKey(projectId);
+    const previous = this.toolNameCollisions.get(projectKey) ?? [];
+    this.toolNameCollisions.set(projectKey, collisions);
+
+    if (
+      collisions.length === 0 ||
+      JSON.stringify(previous) === JSON.stringify(collisions)
+    ) {
+      return;
     }
 
-    return allTools;
+    const details = collisions
+      .map((c) => `${c.toolName} (${c.serverNames.join(", ")})`)
+      .join("; ");
+    console.warn(
+      `[RequestHandlers] Tool name collisions detected (strategy: ${strategy}): ${details}`,
+    );
+  }
+
+  /**
+   * Get tool name collisions detected by the latest tools/list of each project
+   */
+  public getToolNameCollisions(): ToolNameCollision[] {
+    const merged = new Map<string, Set<string>>();
+    for (const collisions of this.toolNameCollisions.values()) {
+      for (const { toolName, serverNames } of collisions) {
+        const servers = merged.get(toolName) ?? new Set<string>();
+        serverNames.forEach((name) => servers.add(name));
+        merged.set(toolName, servers);
+      }
+    }
+    return Array.from(merged.entries()).map(([toolName, servers]) => ({
+      toolName,
+      serverNames: Array.from(servers),
+    }));
   }
 
   /**
@@ -263,10 +560,19 @@ export class RequestHandlers extends RequestHandlerBase {
     const clientId = this.getClientId(token);
     const projectId = this.normalizeProjectId(projectIdInput);
 
-    return this.executeWithHooks("resources/list", {}, clientId, async () => {
-      const allResources = await this.getAllResourcesInternal(token, projectId);
-      return { resources: allResources };
-    });
+    return this.executeWithHooks(
+      "resources/list",
+      {},
+      clientId,
+      async () => {
+        const allResources = await this.getAllResourcesInternal(
+          token,
+          projectId,
+        );
+        return { resources: allResources };
+      },
+      { projectId },
+    );
   }
 
   /**
@@ -279,61 +585,31 @@ export class RequestHandlers extends RequestHandlerBase {
     const normalizedProjectId = this.normalizeProjectId(projectId);
     const allResources: any[] = [];
 
-    for (const [serverId, client] of this.clients.entries()) {
-      const server = this.servers.get(serverId);
-      const serverName = server?.name || serverId;
-      const isRunning = this.serverStatusMap.get(serverName);
-
-      if (!isRunning || !client) {
-        continue;
-      }
-
-      if (!this.matchesProject(server, normalizedProjectId)) {
-        continue;
-      }
-
-      // Check token access if provided
-      if (token) {
-        try {
-          this.tokenValidator.validateTokenAndAccess(token, serverName);
-        } catch {
-          // Skip this server if token doesn't have access
-          continue;
-        }
-      }
-
-      try {
-        const resources = await client.listResources();
-
-        if (!resources.resources || resources.resources.length === 0) {
-          continue;
+    const results = await this.collectFromServers(
+      "resources",
+      token,
+      normalizedProjectId,
+    );
+    for (const { serverName, items } of results) {
+      // Add resources with source server information
+      for (const resource of items) {
+        // Store the original protocol if not already stored
+        if (
+          resource.uri &&
+          !this.originalProtocols.has(resource.uri) &&
+          resource.uri.includes("://")
+        ) {
+          const protocol = resource.uri.split("://")[0];
+          this.originalProtocols.set(resource.uri, protocol);
         }
 
-        // Add resources with source server information
-        for (const resource of resources.resources) {
-          // Store the original protocol if not already stored
-          if (
-            resource.uri &&
-            !this.originalProtocols.has(resource.uri) &&
-            resource.uri.includes("://")
-          ) {
-            const protocol = resource.uri.split("://")[0];
-            this.originalProtocols.set(resource.uri, protocol);
-          }
+        const resourceWithSource = {
+          ...resource,
+          sourceServer: serverName,
+          uri: createResourceUri(serverName, resource.uri),
+        };
 
-          const resourceWithSource = {
-            ...resource,
-            sourceServer: serverName,
-            uri: createResourceUri(serverName, resource.uri),
-          };
-
-          allResources.push(resourceWithSource);
-        }
-      } catch (error: any) {
-        console.error(
-          `[MCPServerManager] Failed to get resources from server ${serverName}:`,
-          error,
-        );
+        allResources.push(resourceWithSource);
       }
     }
 
@@ -357,58 +633,21 @@ export class RequestHandlers extends RequestHandlerBase {
       async () => {
         const allTemplates: any[] = [];
 
-        for (const [serverId, client] of this.clients.entries()) {
-          const server = this.servers.get(serverId);
-          const serverName = server?.name || serverId;
-          const isRunning = this.serverStatusMap.get(serverName);
-
-          if (!isRunning || !client) {
-            continue;
-          }
-
-          if (!this.matchesProject(server, projectId)) {
-            continue;
-          }
-
-          // Check token access if provided
-          if (token) {
-            try {
-              this.tokenValidator.validateTokenAndAccess(token, serverName);
-            } catch {
-              // Skip this server if token doesn't have access
-              continue;
-            }
-          }
-
-          try {
-            const templates = await client.listResourceTemplates();
-
-            if (
-              !templates.resourceTemplates ||
-              templates.resourceTemplates.length === 0
-            ) {
-              continue;
-            }
-
-            // Add templates with source server information
-            for (const template of templates.resourceTemplates) {
-              const templateWithSource = {
-                ...template,
-                sourceServer: serverName,
-                uriTemplate: createResourceUri(
-                  serverName,
-                  template.uriTemplate,
-                ),
-              };
-
-              allTemplates.push(templateWithSource);
-            }
-          } catch (error: any) {
-            // Server might not support resource templates
-            console.error(
-              `[MCPServerManager] Failed to get resource templates from server ${serverName}:`,
-              error,
-            );
+        const results = await this.collectFromServers(
+          "resourceTemplates",
+          token,
+          projectId,
+        );
+        for (const { serverName, items } of results) {
+          // Add templates with source server information
+          for (const template of items) {
+            const templateWithSource = {
+              ...template,
+              sourceServer: serverName,
+              uriTemplate: createResourceUri(serverName, template.uriTemplate),
+            };
+
+            allTemplates.push(templateWithSource);
           }
         }
 
@@ -428,7 +667,7 @@ export class RequestHandlers extends RequestHandlerBase {
     const clientId = this.getClientId(token);
     const projectId = this.normalizeProjectId(projectIdInput);
 
-    // Parse the URI to get the server name and original URI
+    // Parse the URI to get the server name
     const parsed = parseResourceUri(uri);
     if (!parsed) {
       throw new McpError(
@@ -436,7 +675,7 @@ export class RequestHandlers extends RequestHandlerBase {
         `Invalid resource URI format: ${uri}`,
       );
     }
-    const { serverName, path: originalUri } = parsed;
+    const { serverName } = parsed;
 
     // Validate token access to the server if provided
     if (token) {
@@ -480,12 +719,23 @@ export class RequestHandlers extends RequestHandlerBase {
       clientId,
       serverName,
       "ReadResource",
-      async () => {
+      async (params) => {
+        // A workflow may rewrite the URI, but only to a resource of the same server
+        const rewritten =
+          typeof params?.uri === "string" ? parseResourceUri(params.uri) : null;
+        if (!rewritten || rewritten.serverName !== serverName) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Resource URI ${params?.uri} does not belong to server ${serverName}`,
+          );
+        }
+        const resourcePath = rewritten.path;
+
         // Try different URI variants until one works
-        const originalProtocol = this.originalProtocols.get(originalUri);
+        const originalProtocol = this.originalProtocols.get(resourcePath);
         const uriVariants = createUriVariants(
           serverName,
-          originalUri,
+          resourcePath,
           originalProtocol,
         );
 
@@ -509,70 +759,58 @@ export class RequestHandlers extends RequestHandlerBase {
           lastError ||
           new McpError(
             ErrorCode.InvalidRequest,
-            `Failed to read resource: ${originalUri}`,
+            `Failed to read resource: ${resourcePath}`,
           )
         );
       },
-      { serverId },
+      { serverId, serverName, projectId },
+    );
+  }
+
+  /**
+   * Handle a request to list all prompts from all servers
+   */
+  public async handleListPrompts(
+    token?: string,
+    projectIdInput?: unknown,
+  ): Promise<any> {
+    const clientId = this.getClientId(token);
+    const projectId = this.normalizeProjectId(projectIdInput);
+
+    return this.executeWithHooks(
+      "prompts/list",
+      {},
+      clientId,
+      async () => {
+        const allPrompts = await this.getAllPromptsInternal(token, projectId);
+        return { prompts: allPrompts };
+      },
+      { projectId },
     );
   }
 
   /**
    * Get all prompts from all servers (internal implementation)
    */
-  public async getAllPromptsInternal(
+  private async getAllPromptsInternal(
     token?: string,
     projectIdInput?: unknown,
   ): Promise<any[]> {
     const projectId = this.normalizeProjectId(projectIdInput);
     const allPrompts: any[] = [];
 
-    for (const [serverId, client] of this.clients.entries()) {
-      const server = this.servers.get(serverId);
-      const serverName = server?.name || serverId;
-      const isRunning = this.serverStatusMap.get(serverName);
-
-      if (!isRunning || !client) {
-        continue;
-      }
-
-      if (!this.matchesProject(server, projectId)) {
-        continue;
-      }
-
-      // Check token access if provided
-      if (token) {
-        try {
-          this.tokenValidator.validateTokenAndAccess(token, serverName);
-        } catch {
-          // Skip this server if token doesn't have access
-          continue;
-        }
-      }
-
-      try {
-        const prompts = await client.listPrompts();
-
-        if (!prompts.prompts || prompts.prompts.length === 0) {
-          continue;
-        }
-
-        // Add prompts with source server information
-        for (const prompt of prompts.prompts) {
-          const promptWithSource = {
-            ...prompt,
-            sourceServer: serverName,
-            // Prefix prompt name with server name to avoid collisions
-            name: `${serverName}/${prompt.name}`,
-          };
-
-          allPrompts.push(promptWithSource);
-        }
-      } catch (error: any) {
-        console.error(
-          `[MCPServerManager] Failed to get prompts from server ${serverName}:`,
-          error,
-        );
+    const results = await this.collectFromServers("prompts", token, projectId);
+    for (const { serverName, items } of results) {
+      // Add prompts with source server information
+      for (const prompt of items) {
+        const promptWithSource = {
+          ...prompt,
+          sourceServer: serverName,
+          // Prefix prompt name with server name to avoid collisions
+          name: `${serverName}/${prompt.name}`,
+        };
+
+        allPrompts.push(promptWithSource);
       }
     }
 
@@ -645,10 +883,10 @@ export class RequestHandlers extends RequestHandlerBase {
       clientId,
       serverName,
       "GetPrompt",
-      async () => {
+      async (params) => {
         const prompt = await client.getPrompt({
           name: actualPromptName,
-          arguments: promptArgs,
+          arguments: params.arguments,
         });
 
         // No display rules to apply for prompts
@@ -656,18 +894,19 @@ export class RequestHandlers extends RequestHandlerBase {
 
         return prompt;
       },
-      { serverId },
+      { serverId, serverName, projectId },
     );
   }
 
   /**
-   * Get server name for a given tool within the project scope
+   * Resolve an exposed tool name to its server and original tool name
+   * within the project scope
    */
-  private async getServerNameForTool(
+  private async getSourceTool(
     toolName: string,
     token?: string,
     projectId?: string | null,
-  ): Promise<string | undefined> {
+  ): Promise<SourceTool | undefined> {
     const normalizedProjectId = this.normalizeProjectId(projectId);
     const projectKey = this.getProjectKey(normalizedProjectId);
     let toolMap = this.toolNameToServerMap.get(projectKey);
@@ -0,0 +1,238 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { clearInterval, setInterval } from "timers";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  isInitializeRequest,
+  type InitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "./in-memory-event-store";
+
+/**
+ * Sessions idle for this long are closed. A session with an open request or
+ * standalone SSE stream is never idle.
+ */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Interval for checking expired sessions
+ */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface StreamableSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Responses still open: in-flight POSTs and standalone SSE streams */
+  openResponses: number;
+}
+
+export interface StreamableSessionManagerOptions {
+  /** Name used in log messages */
+  name: string;
+  /**
+   * Create a Server with request handlers registered.
+   * Receives the initialize request for sessions; undefined for the
+   * stateless server.
+   */
+  createServer: (initializeRequest?: InitializeRequest) => Server;
+  /** Whether to serve every request statelessly (no Mcp-Session-Id) */
+  isStateless: () => boolean;
+  /**
+   * Called once a session's standalone SSE stream (GET) is open. Requests
+   * the server sends on its own are dropped until then.
+   */
+  onStreamOpened?: (server: Server) => void;
+}
+
+/**
+ * Routes Streamable HTTP requests to per-session transports.
+ * Each session gets its own Server so notifications, progress and
+ * server-to-client requests can be delivered to the right client.
+ */
+export class StreamableSessionManager {
+  private sessions: Map<string, StreamableSession> = new Map();
+  private stateless: {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+  } | null = null;
+  private sweepTimer: ReturnType<typeof setInterval>;
+
+  constructor(private options: StreamableSessionManagerOptions) {
+    this.sweepTimer = setInterval(
+      () => this.closeExpiredSessions(),
+      SESSION_SWEEP_INTERVAL_MS,
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Handle a POST/GET/DELETE request on the MCP endpoint
+   */
+  public async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body?: unknown,
+  ): Promise<void> {
+    if (this.options.isStateless()) {
+      if (req.method !== "POST") {
+        this.sendError(res, 405, -32000, "Method not allowed.", {
+          Allow: "POST",
+        });
+        return;
+      }
+      const { transport } = await this.getStatelessTransport();
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastActivity = Date.now();
+      session.openResponses++;
+      res.once("close", () => {
+        session.openResponses--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      if (req.method === "GET" && !res.writableEnded) {
+        this.options.onStreamOpened?.(session.server);
+      }
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      const transport = await this.createSession(body);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      this.sendError(
+        res,
+        400,
+        -32000,
+        "Bad Request: Mcp-Session-Id header is required",
+      );
+      return;
+    }
+
+    // Clients that never initialized a session are served statelessly
+    const { transport } = await this.getStatelessTransport();
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Servers of all active sessions
+   */
+  public getSessionServers(): Server[] {
+    return Array.from(this.sessions.values()).map((s) => s.server);
+  }
+
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session and the stateless server
+   */
+  public async shutdown(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const sessionIds = Array.from(this.sessions.keys());
+    await Promise.all(sessionIds.map((id) => this.closeSession(id)));
+    if (this.stateless) {
+      await this.stateless.server.close();
+      this.stateless = null;
+    }
+  }
+
+  private async createSession(
+    initializeRequest: InitializeRequest,
+  ): Promise<StreamableHTTPServerTransport> {
+    const server = this.options.createServer(initializeRequest);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          server,
+          transport,
+          lastActivity: Date.now(),
+          openResponses: 0,
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  private async getStatelessTransport(): Promise<{
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+  }> {
+    if (!this.stateless) {
+      const server = this.options.createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      await server.connect(transport);
+      this.stateless = { server, transport };
+    }
+    return this.stateless;
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(
+        `[${this.options.name}] Failed to close session ${sessionId}:`,
+        error,
+      );
+    }
+  }
+
+  private closeExpiredSessions(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions) {
+      if (
+        session.openResponses === 0 &&
+        now - session.lastActivity > SESSION_IDLE_TIMEOUT_MS
+      ) {
+        console.log(`[${this.options.name}] Session ${sessionId} expired`);
+        void this.closeSession(sessionId);
+      }
+    }
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string,
+    headers: Record<string, string> = {},
+  ): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json", ...headers })
+      .end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+      );
+  }
+}
@@ -1,5 +1,6 @@
 import { ipcMain } from "electron";
 import { ProjectService, getProjectService } from "./projects.service";
+import type { ProjectUpdates } from "@mcp_router/shared";
 import type { MCPServerManager } from "@/main/modules/mcp-server-manager/mcp-server-manager";
 
 export function setupProjectHandlers(deps: {
@@ -24,10 +25,14 @@ export function setupProjectHandlers(deps: {
 
   ipcMain.handle(
     "project:update",
-    async (_evt, id: string, updates: { name?: string }) => {
+    async (_evt, id: string, updates: ProjectUpdates) => {
       if (!id) throw new Error("Missing project id");
-      const payload: { name?: string } = {};
+      const payload: ProjectUpdates = {};
       if (updates?.name !== undefined) payload.name = updates.name;
+      if (Array.isArray(updates?.roots)) payload.roots = updates.roots;
+      if (updates?.forwardClientRoots !== undefined) {
+        payload.forwardClientRoots = !!updates.forwardClientRoots;
+      }
       return service.update(id, payload);
     },
   );
@@ -1,5 +1,5 @@
 import { BaseRepository } from "@/main/infrastructure/database/base-repository";
-import type { Project } from "@mcp_router/shared";
+import type { Project, ProjectRoot } from "@mcp_router/shared";
 import type { SqliteManager } from "@/main/infrastructure/database/sqlite-manager";
 import { getSqliteManager } from "@/main/infrastructure/database/sqlite-manager";
 
@@ -31,6 +31,8 @@ export class ProjectRepository extends BaseRepository<Project> {
       CREATE TABLE IF NOT EXISTS projects (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
+        roots TEXT,
+        forward_client_roots INTEGER NOT NULL DEFAULT 0,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       )
@@ -41,9 +43,20 @@ export class ProjectRepository extends BaseRepository<Project> {
   }
 
   protected mapRowToEntity(row: any): Project {
+    let roots: ProjectRoot[] = [];
+    if (row.roots) {
+      try {
+        roots = JSON.parse(row.roots);
+      } catch (error) {
+        console.error("Failed to parse project roots:", error);
+      }
+    }
+
     return {
       id: row.id,
       name: row.name,
+      roots,
+      forwardClientRoots: !!row.forward_client_roots,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -54,6 +67,8 @@ export class ProjectRepository extends BaseRepository<Project> {
     return {
       id: entity.id,
       name: entity.name,
+      roots: JSON.stringify(entity.roots ?? []),
+      forward_client_roots: entity.forwardClientRoots ? 1 : 0,
       created_at: entity.createdAt ?? now,
       updated_at: now,
     };
@@ -1,6 +1,7 @@
 import { SingletonService } from "@/main/modules/singleton-service";
 import { ProjectRepository } from "./projects.repository";
-import type { Project } from "@mcp_router/shared";
+import { pathToFileURL } from "url";
+import type { Project, ProjectRoot, ProjectUpdates } from "@mcp_router/shared";
 import type { MCPServerManager } from "@/main/modules/mcp-server-manager/mcp-server-manager";
 import { McpServerManagerRepository } from "../mcp-server-manager/mcp-server-manager.repository";
 
@@ -24,6 +25,29 @@ export class ProjectService extends SingletonService<
     return name;
   }
 
+  // Roots must be file:// URIs; plain paths are converted
+  private normalizeRoots(roots: ProjectRoot[]): ProjectRoot[] {
+    const seen = new Set<string>();
+    const normalized: ProjectRoot[] = [];
+    for (const root of roots) {
+      const value = (root?.uri ?? "").trim();
+      if (!value) continue;
+      let uri: string;
+      if (value.startsWith("file://")) {
+        uri = value;
+      } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+        throw new Error(`Root must be a file:// URI or a path: ${value}`);
+      } else {
+        uri = pathToFileURL(value).href;
+      }
+      if (seen.has(uri)) continue;
+      seen.add(uri);
+      const name = root.name?.trim();
+      normalized.push(name ? { uri, name } : { uri });
+    }
+    return normalized;
+  }
+
   protected getEntityName(): string {
     return "Project";
   }
@@ -82,7 +106,7 @@ export class ProjectService extends SingletonService<
     }
   }
 
-  update(id: string, updates: Partial<Pick<Project, "name">>): Project {
+  update(id: string, updates: ProjectUpdates): Project {
     try {
       const repo = ProjectRepository.getInstance();
       const existing = repo.getById(id);
@@ -102,10 +126,21 @@ export class ProjectService extends SingletonService<
         ...existing,
         ...updates,
         name: nextName,
+        roots:
+          updates.roots !== undefined
+            ? this.normalizeRoots(updates.roots)
+            : existing.roots,
         updatedAt: Date.now(),
       };
       const result = repo.update(id, merged);
       if (!result) throw new Error("Failed to update project");
+
+      if (
+        updates.roots !== undefined ||
+        updates.forwardClientRoots !== undefined
+      ) {
+        this.getServerManager()?.notifyProjectRootsChanged(id);
+      }
       return result;
     } catch (error) {
       return this.handleError("update", error);
@@ -4,7 +4,12 @@
  */
 
 import type { SkillsContent, MCPServerSummary } from "@mcp_router/shared";
-import { DEFAULT_SKILL_TEMPLATE } from "@mcp_router/shared";
+import {
+  DEFAULT_SKILL_DESCRIPTION,
+  DEFAULT_SKILL_ENDPOINT_PATH,
+  DEFAULT_SKILL_NAME,
+  DEFAULT_SKILL_TEMPLATE,
+} from "@mcp_router/shared";
 
 export class SkillsGenerator {
   /**
@@ -77,6 +82,18 @@ export class SkillsGenerator {
     result = result.replace(/\{\{servers\}\}/g, serversList);
     result = result.replace(/\{\{generatedAt\}\}/g, content.generatedAt);
     result = result.replace(/\{\{version\}\}/g, content.version);
+    result = result.replace(
+      /\{\{skillName\}\}/g,
+      content.skillName || DEFAULT_SKILL_NAME,
+    );
+    result = result.replace(
+      /\{\{skillDescription\}\}/g,
+      content.skillDescription || DEFAULT_SKILL_DESCRIPTION,
+    );
+    result = result.replace(
+      /\{\{endpointPath\}\}/g,
+      content.endpointPath || DEFAULT_SKILL_ENDPOINT_PATH,
+    );
     result = result.replace(
       /\{\{serverCount\}\}/g,
       String(enabledServers.length),
@@ -7,6 +7,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { app } from "electron";
 import type {
+  EntryEndpointConfig,
   SkillsConfig,
   SkillsContent,
   SkillsOutputPath,
@@ -16,6 +17,18 @@ import type {
 import { DEFAULT_SKILLS_CONFIG } from "@mcp_router/shared";
 import { getSkillsGenerator } from "./skills.generator";
 import { getSkillsRepository } from "./skills.repository";
+import { getSettingsService } from "@/main/modules/settings/settings.service";
+import {
+  ENTRY_ENDPOINT_PATH_PREFIX,
+  ENTRY_ENDPOINT_SKILL_PREFIX,
+  getEntryEndpointSkillName,
+  isServerInEntryEndpoint,
+} from "@/main/modules/entry-mcp/entry-endpoints";
+
+/**
+ * 默认SKILL.md所在的目录名
+ */
+const DEFAULT_SKILL_DIRECTORY = "mcp-router";
 
 export interface SyncResult {
   success: boolean;
@@ -51,6 +64,27 @@ export class SkillsService {
     };
   }
 
+  /**
+   * 构建命名入口端点的SkillsContent：只包含端点选中的服务器
+   */
+  public buildEndpointSkillsContent(
+    endpoint: EntryEndpointConfig,
+    servers: MCPServer[],
+  ): SkillsContent {
+    const content = this.buildSkillsContent(
+      servers.filter((server) => isServerInEntryEndpoint(endpoint, server)),
+    );
+    const description = endpoint.description?.replace(/\s+/g, " ").trim();
+
+    return {
+      ...content,
+      skillName: getEntryEndpointSkillName(endpoint),
+      // 以带引号的YAML字符串写入frontmatter，避免冒号等字符破坏格式
+      skillDescription: description ? JSON.stringify(description) : undefined,
+      endpointPath: `${ENTRY_ENDPOINT_PATH_PREFIX}${endpoint.name}`,
+    };
+  }
+
   /**
    * 将MCPServer转换为MCPServerSummary
    */
@@ -87,6 +121,31 @@ export class SkillsService {
       results.push(result);
     }
 
+    // 每个命名入口端点另外生成一个只包含其服务器的技能文件
+    const endpoints = getSettingsService().getSettings().entryEndpoints ?? [];
+    const endpointSkillNames = new Set(
+      endpoints.map((endpoint) => getEntryEndpointSkillName(endpoint)),
+    );
+    for (const outputPath of enabledPaths) {
+      this.removeStaleEndpointSkills(outputPath, endpointSkillNames);
+    }
+    for (const endpoint of endpoints) {
+      const endpointContent = this.buildEndpointSkillsContent(
+        endpoint,
+        servers,
+      );
+      for (const outputPath of enabledPaths) {
+        results.push(
+          this.writeSkillsFile(
+            outputPath,
+            endpointContent,
+            getEntryEndpointSkillName(endpoint),
+            endpoint.skillTemplate,
+          ),
+        );
+      }
+    }
+
     return results;
   }
 
@@ -96,10 +155,12 @@ export class SkillsService {
   private writeSkillsFile(
     outputPath: SkillsOutputPath,
     content: SkillsContent,
+    skillDirectory: string = DEFAULT_SKILL_DIRECTORY,
+    template?: string,
   ): SyncResult {
     try {
-      const filePath = this.resolveOutputPath(outputPath);
-      const fileContent = this.generateContent(content);
+      const filePath = this.resolveOutputPath(outputPath, skillDirectory);
+      const fileContent = this.generateContent(content, template);
 
       // 确保目录存在
       this.ensureDirectoryExists(filePath);
@@ -117,11 +178,50 @@ export class SkillsService {
     }
   }
 
+  /**
+   * 删除已不存在的命名入口端点的技能目录（只删除包含 SKILL.md 的目录）
+   */
+  private removeStaleEndpointSkills(
+    outputPath: SkillsOutputPath,
+    endpointSkillNames: Set<string>,
+  ): void {
+    const skillsDir = path.dirname(
+      path.dirname(this.resolveOutputPath(outputPath, DEFAULT_SKILL_DIRECTORY)),
+    );
+    if (!fs.existsSync(skillsDir)) {
+      return;
+    }
+
+    try {
+      for (const entry of fs.readdirSync(skillsDir, { withFileTypes: true })) {
+        if (
+          !entry.isDirectory() ||
+          !entry.name.startsWith(ENTRY_ENDPOINT_SKILL_PREFIX) ||
+          endpointSkillNames.has(entry.name)
+        ) {
+          continue;
+        }
+        const skillDir = path.join(skillsDir, entry.name);
+        if (fs.existsSync(path.join(skillDir, "SKILL.md"))) {
+          fs.rmSync(skillDir, { recursive: true, force: true });
+        }
+      }
+    } catch (error) {
+      console.error(
+        `Failed to remove stale endpoint skills in ${skillsDir}:`,
+        error,
+      );
+    }
+  }
+
   /**
    * 解析输出路径
-   * 按照agentskills.io规范: <base_path>/skills/mcp-router/SKILL.md
+   * 按照agentskills.io规范: <base_path>/skills/<skill_directory>/SKILL.md
    */
-  private resolveOutputPath(outputPath: SkillsOutputPath): string {
+  private resolveOutputPath(
+    outputPath: SkillsOutputPath,
+    skillDirectory: string,
+  ): string {
     let basePath = outputPath.path;
 
     // 处理预设路径
@@ -133,15 +233,18 @@ export class SkillsService {
     }
 
     // 按照agentskills.io规范构建完整路径
-    // 结构: <base_path>/skills/mcp-router/SKILL.md
-    return path.join(basePath, "skills", "mcp-router", "SKILL.md");
+    // 结构: <base_path>/skills/<skill_directory>/SKILL.md
+    return path.join(basePath, "skills", skillDirectory, "SKILL.md");
   }
 
   /**
-   * 生成文件内容
+   * 生成文件内容（命名入口端点可使用自己的模板）
    */
-  private generateContent(content: SkillsContent): string {
-    return this.generator.generate(content, this.config.customTemplate);
+  private generateContent(content: SkillsContent, template?: string): string {
+    return this.generator.generate(
+      content,
+      template || this.config.customTemplate,
+    );
   }
 
   /**
@@ -209,6 +209,32 @@ export class HookService {
     }
   }
 
+  /**
+   * condition / switch ノードの式を評価
+   * Hookスクリプトと同じくサンドボックス内で実行し、variables を式から参照できるようにする
+   */
+  public evaluateExpression(
+    expression: string,
+    variables: Record<string, any>,
+  ): unknown {
+    const sandbox = {
+      ...variables,
+      JSON,
+      Object,
+      Array,
+      String,
+      Number,
+      Boolean,
+      Math,
+    };
+
+    const vmScript = new vm.Script(`(${expression})`);
+    return vmScript.runInContext(vm.createContext(sandbox), {
+      timeout: 1000,
+      displayErrors: true,
+    });
+  }
+
   /**
    * Hook スクリプトのバリデーション
    */
@@ -1,8 +1,13 @@
 import {
+  WORKFLOW_CONDITION_FALSE_HANDLE,
+  WORKFLOW_CONDITION_TRUE_HANDLE,
+  WORKFLOW_LIFECYCLE_TYPES,
+  WORKFLOW_SWITCH_DEFAULT_HANDLE,
   WorkflowDefinition,
   WorkflowNode,
   WorkflowEdge,
   WorkflowHook,
+  WorkflowHookResult,
 } from "@mcp_router/shared";
 import { getHookService } from "./hook.service";
 
@@ -22,6 +27,7 @@ export class WorkflowExecutor {
   /**
    * Workflowが有効な構造を持っているか検証
    * Start -> MCP Call -> End が接続されている必要がある
+   * ライフサイクルイベントのWorkflowは MCP Call を持たず、Start -> End が接続されている必要がある
    */
   public static isValidWorkflow(workflow: WorkflowDefinition): boolean {
     const nodes = workflow.nodes;
@@ -31,38 +37,138 @@ export class WorkflowExecutor {
     const startNode = nodes.find((n) => n.type === "start");
     const endNode = nodes.find((n) => n.type === "end");
     const mcpCallNode = nodes.find((n) => n.type === "mcp-call");
+    const isLifecycle = WorkflowExecutor.isLifecycleWorkflow(workflow);
 
-    if (!startNode || !endNode || !mcpCallNode) {
+    if (!startNode || !endNode || (!mcpCallNode && !isLifecycle)) {
       console.warn(
         `Workflow ${workflow.name} is missing required nodes: start=${!!startNode}, mcp-call=${!!mcpCallNode}, end=${!!endNode}`,
       );
       return false;
     }
 
-    // パスの存在確認: Start -> MCP Call
-    const pathFromStartToMcp = WorkflowExecutor.hasPath(
-      edges,
-      startNode.id,
-      mcpCallNode.id,
-    );
-
-    // パスの存在確認: MCP Call -> End
-    const pathFromMcpToEnd = WorkflowExecutor.hasPath(
-      edges,
-      mcpCallNode.id,
-      endNode.id,
-    );
-
-    if (!pathFromStartToMcp || !pathFromMcpToEnd) {
+    if (mcpCallNode && isLifecycle) {
       console.warn(
-        `Workflow ${workflow.name} does not have valid connections: start->mcp=${pathFromStartToMcp}, mcp->end=${pathFromMcpToEnd}`,
+        `Workflow ${workflow.name} cannot have an MCP call node for ${workflow.workflowType}`,
       );
       return false;
     }
 
+    if (!mcpCallNode) {
+      // パスの存在確認: Start -> End
+      if (!WorkflowExecutor.hasPath(edges, startNode.id, endNode.id)) {
+        console.warn(
+          `Workflow ${workflow.name} does not have a path from start to end`,
+        );
+        return false;
+      }
+    } else {
+      // パスの存在確認: Start -> MCP Call
+      const pathFromStartToMcp = WorkflowExecutor.hasPath(
+        edges,
+        startNode.id,
+        mcpCallNode.id,
+      );
+
+      // パスの存在確認: MCP Call -> End
+      const pathFromMcpToEnd = WorkflowExecutor.hasPath(
+        edges,
+        mcpCallNode.id,
+        endNode.id,
+      );
+
+      if (!pathFromStartToMcp || !pathFromMcpToEnd) {
+        console.warn(
+          `Workflow ${workflow.name} does not have valid connections: start->mcp=${pathFromStartToMcp}, mcp->end=${pathFromMcpToEnd}`,
+        );
+        return false;
+      }
+    }
+
+    // 分岐ノード（condition / switch）の検証
+    for (const node of nodes) {
+      if (node.type !== "condition" && node.type !== "switch") continue;
+
+      const error = WorkflowExecutor.validateBranchNode(
+        node,
+        edges,
+        mcpCallNode?.id,
+      );
+      if (error) {
+        console.warn(`Workflow ${workflow.name} is not valid: ${error}`);
+        return false;
+      }
+    }
+
     return true;
   }
 
+  /**
+   * サーバーのライフサイクルイベントで実行されるWorkflowかどうか
+   */
+  public static isLifecycleWorkflow(workflow: WorkflowDefinition): boolean {
+    return (WORKFLOW_LIFECYCLE_TYPES as readonly string[]).includes(
+      workflow.workflowType,
+    );
+  }
+
+  /**
+   * 分岐ノードを検証し、問題があればその内容を返す
+   * MCP Call より前の分岐ノードは、どの分岐に進んでもMCP Callに到達できる必要がある
+   */
+  private static validateBranchNode(
+    node: WorkflowNode,
+    edges: WorkflowEdge[],
+    mcpCallNodeId: string | undefined,
+  ): string | undefined {
+    let expression: string | undefined;
+    let handles: string[];
+
+    if (node.type === "condition") {
+      expression = node.data?.condition?.expression;
+      handles = [
+        WORKFLOW_CONDITION_TRUE_HANDLE,
+        WORKFLOW_CONDITION_FALSE_HANDLE,
+      ];
+    } else {
+      const cases = node.data?.switch?.cases ?? [];
+      const values = cases.map((c) => c.value);
+      if (new Set(values).size !== values.length) {
+        return `switch node ${node.id} has duplicate case values`;
+      }
+      expression = node.data?.switch?.expression;
+      handles = [...cases.map((c) => c.id), WORKFLOW_SWITCH_DEFAULT_HANDLE];
+    }
+
+    if (!expression?.trim()) {
+      return `${node.type} node ${node.id} has no expression`;
+    }
+
+    const outgoing = edges.filter((e) => e.source === node.id);
+    if (
+      outgoing.some((e) => !e.sourceHandle || !handles.includes(e.sourceHandle))
+    ) {
+      return `${node.type} node ${node.id} has an edge from an unknown branch`;
+    }
+
+    if (
+      mcpCallNodeId &&
+      WorkflowExecutor.hasPath(edges, node.id, mcpCallNodeId)
+    ) {
+      for (const handle of handles) {
+        const reachesMcp = outgoing.some(
+          (e) =>
+            e.sourceHandle === handle &&
+            WorkflowExecutor.hasPath(edges, e.target, mcpCallNodeId),
+        );
+        if (!reachesMcp) {
+          return `branch "${handle}" of ${node.type} node ${node.id} does not lead to the MCP call`;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * グラフ内で fromId から toId へのパスが存在するか確認
    */
@@ -119,8 +225,12 @@ export class WorkflowExecutor {
     // 実行結果を格納
     const results: Record<string, any> = {};
 
-    // MCPリクエストの実行結果
-    let mcpResult: any = undefined;
+    // Hookが書き換えたparamsとMCPレスポンスを後続ノードに引き継ぐ
+    const runContext = { ...context, response: undefined };
+    let mcpCalled = false;
+
+    // 実行されたノードから伸びるエッジ（分岐ノードは選ばれた分岐のエッジのみ）
+    const activeEdges = new Set<WorkflowEdge>();
 
     try {
       // 各ノードを順番に実行
@@ -128,12 +238,41 @@ export class WorkflowExecutor {
         const node = this.workflow.nodes.find((n) => n.id === nodeId);
         if (!node) continue;
 
-        const result = await this.executeNode(node, context, results);
-        results[nodeId] = result;
+        if (!this.isNodeReached(node, activeEdges)) {
+          results[nodeId] = { skipped: true, reason: "Branch not taken" };
+          continue;
+        }
 
-        // mcp-callノードの結果を保存
-        if (node.type === "mcp-call" && result.mcpResponse !== undefined) {
-          mcpResult = result.mcpResponse;
+        const result = await this.executeNode(node, runContext, results);
+        results[nodeId] = result;
+        this.activateOutgoingEdges(node, result, activeEdges);
+
+        if (node.type === "mcp-call") {
+          // mcp-callノードの結果を保存
+          mcpCalled = true;
+          runContext.response = result.mcpResponse;
+        } else if (node.type === "hook" && result.denied && mcpCalled) {
+          // MCP Call の後では拒否できないため、警告を出して続行する
+          console.warn(
+            `Ignoring denial from hook ${node.id} in workflow ${this.workflow.name}: the MCP call has already run`,
+          );
+        } else if (node.type === "hook" && result.denied) {
+          // ブロッキングHookが拒否した場合、以降のノード（MCP Callを含む）は実行しない
+          return {
+            workflowId: this.workflow.id,
+            workflowName: this.workflow.name,
+            status: "denied",
+            executedAt: Date.now(),
+            context,
+            results,
+            denial: {
+              nodeId: node.id,
+              hookName: node.data?.label || node.id,
+              reason: result.reason,
+            },
+          };
+        } else if (node.type === "hook" && result.success) {
+          this.applyHookResult(result.result, runContext, mcpCalled);
         }
       }
 
@@ -144,7 +283,7 @@ export class WorkflowExecutor {
         executedAt: Date.now(),
         context,
         results,
-        mcpResult, // MCPリクエストの結果を含める
+        mcpResult: runContext.response, // MCPリクエストの結果を含める
       };
     } catch (error) {
       console.error(`Error executing workflow ${this.workflow.id}:`, error);
@@ -155,12 +294,67 @@ export class WorkflowExecutor {
         executedAt: Date.now(),
         context,
         results,
-        mcpResult,
+        mcpResult: runContext.response,
         error: error instanceof Error ? error.message : String(error),
       };
     }
   }
 
+  /**
+   * ノードを実行するかどうか
+   * 入ってくるエッジのいずれかが実行済みの分岐にあれば実行する（エッジのないノードは従来通り実行）
+   */
+  private isNodeReached(
+    node: WorkflowNode,
+    activeEdges: Set<WorkflowEdge>,
+  ): boolean {
+    const incoming = this.workflow.edges.filter((e) => e.target === node.id);
+    return incoming.length === 0 || incoming.some((e) => activeEdges.has(e));
+  }
+
+  /**
+   * 実行したノードから伸びるエッジを有効にする
+   * 分岐ノードは評価結果の分岐（result.branch）のエッジだけを有効にする
+   */
+  private activateOutgoingEdges(
+    node: WorkflowNode,
+    result: any,
+    activeEdges: Set<WorkflowEdge>,
+  ): void {
+    const isBranch = node.type === "condition" || node.type === "switch";
+    for (const edge of this.workflow.edges) {
+      if (edge.source !== node.id) continue;
+      if (isBranch && edge.sourceHandle !== result.branch) continue;
+      activeEdges.add(edge);
+    }
+  }
+
+  /**
+   * Hookの戻り値（WorkflowHookResult）を実行コンテキストに反映
+   * MCP Call より前のHookは params、後のHookは response だけを置き換えられる
+   */
+  private applyHookResult(
+    hookResult: unknown,
+    runContext: { params?: any; response?: any },
+    mcpCalled: boolean,
+  ): void {
+    if (!hookResult || typeof hookResult !== "object") {
+      return;
+    }
+    const { params, response } = hookResult as WorkflowHookResult;
+
+    if (!mcpCalled && "params" in hookResult) {
+      runContext.params = params;
+    }
+    if (
+      mcpCalled &&
+      runContext.response !== undefined &&
+      "response" in hookResult
+    ) {
+      runContext.response = response;
+    }
+  }
+
   /**
    * ノードの実行順序を決定
    * トポロジカルソートを使用してDAGの実行順序を決定
@@ -245,6 +439,14 @@ export class WorkflowExecutor {
         // MCPコールノード - 本来のMCPリクエストを実行
         return await this.executeMcpCallNode(node, context, previousResults);
 
+      case "condition":
+        // 条件分岐ノード - 式の結果で true / false の分岐を選ぶ
+        return this.executeConditionNode(node, context);
+
+      case "switch":
+        // スイッチノード - 式の結果に一致するcaseの分岐を選ぶ
+        return this.executeSwitchNode(node, context);
+
       default:
         console.warn(`Unknown node type: ${node.type}`);
         return { skipped: true, reason: `Unknown node type: ${node.type}` };
@@ -274,9 +476,9 @@ export class WorkflowExecutor {
     }
 
     try {
-      // MCPリクエストを実行
+      // MCPリクエストを実行（前処理Hookで書き換えられたparamsを渡す）
       console.log(`Executing MCP request: ${context.method}`);
-      const mcpResponse = await mcpHandler();
+      const mcpResponse = await mcpHandler(context.params);
 
       return {
         type: "mcp-call",
@@ -295,6 +497,82 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * 条件分岐ノードを実行
+   * 式の評価に失敗した場合は false の分岐に進む
+   */
+  private executeConditionNode(node: WorkflowNode, context: any): any {
+    const expression = node.data?.condition?.expression ?? "";
+
+    try {
+      const value = this.hookService.evaluateExpression(
+        expression,
+        this.getExpressionVariables(context),
+      );
+      return {
+        type: "condition",
+        branch: value
+          ? WORKFLOW_CONDITION_TRUE_HANDLE
+          : WORKFLOW_CONDITION_FALSE_HANDLE,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error(`Error evaluating condition node ${node.id}:`, error);
+      return {
+        type: "condition",
+        branch: WORKFLOW_CONDITION_FALSE_HANDLE,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * スイッチノードを実行
+   * 式の評価に失敗した場合やどのcaseにも一致しない場合は default の分岐に進む
+   */
+  private executeSwitchNode(node: WorkflowNode, context: any): any {
+    const config = node.data?.switch;
+
+    try {
+      const value = String(
+        this.hookService.evaluateExpression(
+          config?.expression ?? "",
+          this.getExpressionVariables(context),
+        ),
+      );
+      const matched = config?.cases.find((c) => c.value === value);
+      return {
+        type: "switch",
+        value,
+        branch: matched?.id ?? WORKFLOW_SWITCH_DEFAULT_HANDLE,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error(`Error evaluating switch node ${node.id}:`, error);
+      return {
+        type: "switch",
+        branch: WORKFLOW_SWITCH_DEFAULT_HANDLE,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * 分岐ノードの式から参照できる変数
+   */
+  private getExpressionVariables(context: any): Record<string, any> {
+    return {
+      method: context.method,
+      toolName: context.toolName ?? context.params?.name,
+      serverName: context.serverName,
+      clientId: context.clientId,
+      args: context.params?.arguments ?? {},
+      params: context.params,
+    };
+  }
+
   /**
    * Hookノードを実行
    */
@@ -330,11 +608,11 @@ export class WorkflowExecutor {
         );
         if (!module) {
           console.error(`Hook module not found: ${hook.hookModuleId}`);
-          return {
-            success: false,
-            error: `Hook module not found: ${hook.hookModuleId}`,
-            timestamp: Date.now(),
-          };
+          return this.createHookErrorResult(
+            hook,
+            hookContext.nodeName,
+            `Hook module not found: ${hook.hookModuleId}`,
+          );
         }
         scriptToExecute = module.script;
       } else if (hook.script) {
@@ -348,6 +626,19 @@ export class WorkflowExecutor {
           scriptToExecute,
           hookContext,
         );
+        // 拒否できるのはブロッキングHookのみ（Fire-and-Forget Hookの deny は無視）
+        if (hook.blocking && (result as WorkflowHookResult)?.deny === true) {
+          return {
+            success: true,
+            denied: true,
+            reason:
+              typeof result.reason === "string" && result.reason
+                ? result.reason
+                : `Denied by hook ${hookContext.nodeName}`,
+            result,
+            timestamp: Date.now(),
+          };
+        }
         return {
           success: true,
           result,
@@ -361,16 +652,40 @@ export class WorkflowExecutor {
       }
     } catch (error) {
       console.error(`Error executing hook node ${node.id}:`, error);
-
-      // エラーが発生してもWorkflowの実行を継続（設定により変更可能）
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: Date.now(),
-      };
+      return this.createHookErrorResult(
+        hook,
+        hookContext.nodeName,
+        error instanceof Error ? error.message : String(error),
+      );
     }
   }
 
+  /**
+   * Hookが実行できなかった場合の結果
+   * ブロッキングHookはリクエストを拒否し（fail closed）、Fire-and-Forget HookはWorkflowの実行を継続する
+   */
+  private createHookErrorResult(
+    hook: WorkflowHook,
+    nodeName: string,
+    error: string,
+  ): {
+    success: false;
+    error: string;
+    denied?: boolean;
+    reason?: string;
+    timestamp: number;
+  } {
+    return {
+      success: false,
+      error,
+      ...(hook.blocking && {
+        denied: true,
+        reason: `Hook ${nodeName} failed: ${error}`,
+      }),
+      timestamp: Date.now(),
+    };
+  }
+
   /**
    * 前処理Hookを実行（将来の拡張用）
    */
@@ -0,0 +1,52 @@
+import { WorkflowDefinition, WorkflowScope } from "@mcp_router/shared";
+
+/**
+ * スコープの判定に使うリクエストの属性
+ */
+export interface WorkflowScopeTarget {
+  serverName?: string;
+  toolName?: string;
+  clientId?: string;
+  projectId?: string | null;
+}
+
+/**
+ * リクエストがWorkflowのスコープに含まれるか判定
+ */
+export function matchesWorkflowScope(
+  scope: WorkflowScope | undefined,
+  target: WorkflowScopeTarget,
+): boolean {
+  if (!scope) {
+    return true;
+  }
+
+  return (
+    matchesScopeValues(scope.servers, target.serverName) &&
+    matchesScopeValues(scope.tools, target.toolName) &&
+    matchesScopeValues(scope.clients, target.clientId) &&
+    matchesScopeValues(scope.projects, target.projectId)
+  );
+}
+
+/**
+ * 優先度の高い順に並べる（同じ優先度は作成日時の古い順）
+ */
+export function sortWorkflowsByPriority(
+  workflows: WorkflowDefinition[],
+): WorkflowDefinition[] {
+  return [...workflows].sort(
+    (a, b) =>
+      (b.priority ?? 0) - (a.priority ?? 0) || a.createdAt - b.createdAt,
+  );
+}
+
+function matchesScopeValues(
+  values: string[] | undefined,
+  value: string | null | undefined,
+): boolean {
+  if (!values || values.length === 0) {
+    return true;
+  }
+  return value !== undefined && value !== null && values.includes(value);
+}
@@ -23,6 +23,7 @@ export class WorkflowRepository {
     const db = getSqliteManager();
     try {
       // workflowsテーブルを作成
+      // workflow_type はMCPメソッド名（tools/call など）またはサーバーのライフサイクルイベント（server/start など）
       db.execute(`
         CREATE TABLE IF NOT EXISTS workflows (
           id TEXT PRIMARY KEY,
@@ -32,6 +33,8 @@ export class WorkflowRepository {
           nodes TEXT NOT NULL,
           edges TEXT NOT NULL,
           enabled INTEGER DEFAULT 1,
+          priority INTEGER DEFAULT 0,
+          scope TEXT,
           created_at INTEGER NOT NULL,
           updated_at INTEGER NOT NULL
         )
@@ -76,22 +79,12 @@ export class WorkflowRepository {
     const db = getSqliteManager();
     const rows = db.all(`
       SELECT id, name, description, workflow_type, nodes, edges, 
-             enabled, created_at, updated_at
+             enabled, priority, scope, created_at, updated_at
       FROM workflows
       ORDER BY updated_at DESC
     `);
 
-    return rows.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description || undefined,
-      workflowType: row.workflow_type,
-      nodes: JSON.parse(row.nodes),
-      edges: JSON.parse(row.edges),
-      enabled: Boolean(row.enabled),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return rows.map((row: any) => this.mapRowToWorkflow(row));
   }
 
   /**
@@ -101,23 +94,13 @@ export class WorkflowRepository {
     const db = getSqliteManager();
     const rows = db.all(`
       SELECT id, name, description, workflow_type, nodes, edges, 
-             enabled, created_at, updated_at
+             enabled, priority, scope, created_at, updated_at
       FROM workflows
       WHERE enabled = 1
       ORDER BY updated_at DESC
     `);
 
-    return rows.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description || undefined,
-      workflowType: row.workflow_type,
-      nodes: JSON.parse(row.nodes),
-      edges: JSON.parse(row.edges),
-      enabled: Boolean(row.enabled),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return rows.map((row: any) => this.mapRowToWorkflow(row));
   }
 
   /**
@@ -128,7 +111,7 @@ export class WorkflowRepository {
     const row = db.get(
       `
       SELECT id, name, description, workflow_type, nodes, edges, 
-             enabled, created_at, updated_at
+             enabled, priority, scope, created_at, updated_at
       FROM workflows
       WHERE id = :id
     `,
@@ -139,6 +122,13 @@ export class WorkflowRepository {
       return null;
     }
 
+    return this.mapRowToWorkflow(row);
+  }
+
+  /**
+   * DBの行をWorkflowDefinitionに変換
+   */
+  private mapRowToWorkflow(row: any): WorkflowDefinition {
     return {
       id: row.id,
       name: row.name,
@@ -147,6 +137,8 @@ export class WorkflowRepository {
       nodes: JSON.parse(row.nodes),
       edges: JSON.parse(row.edges),
       enabled: Boolean(row.enabled),
+      priority: row.priority ?? 0,
+      scope: row.scope ? JSON.parse(row.scope) : undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -160,7 +152,7 @@ export class WorkflowRepository {
     const rows = db.all(
       `
       SELECT id, name, description, workflow_type, nodes, edges, 
-             enabled, created_at, updated_at
+             enabled, priority, scope, created_at, updated_at
       FROM workflows
       WHERE workflow_type = :workflowType
       ORDER BY updated_at DESC
@@ -168,17 +160,7 @@ export class WorkflowRepository {
       { workflowType },
     );
 
-    return rows.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      description: row.description || undefined,
-      workflowType: row.workflow_type,
-      nodes: JSON.parse(row.nodes),
-      edges: JSON.parse(row.edges),
-      enabled: Boolean(row.enabled),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    }));
+    return rows.map((row: any) => this.mapRowToWorkflow(row));
   }
 
   /**
@@ -202,10 +184,10 @@ export class WorkflowRepository {
       `
       INSERT INTO workflows (
         id, name, description, workflow_type, nodes, edges, 
-        enabled, created_at, updated_at
+        enabled, priority, scope, created_at, updated_at
       ) VALUES (
         :id, :name, :description, :workflowType, :nodes, :edges,
-        :enabled, :createdAt, :updatedAt
+        :enabled, :priority, :scope, :createdAt, :updatedAt
       )
     `,
       {
@@ -216,6 +198,8 @@ export class WorkflowRepository {
         nodes: JSON.stringify(newWorkflow.nodes),
         edges: JSON.stringify(newWorkflow.edges),
         enabled: newWorkflow.enabled ? 1 : 0,
+        priority: newWorkflow.priority ?? 0,
+        scope: newWorkflow.scope ? JSON.stringify(newWorkflow.scope) : null,
         createdAt: newWorkflow.createdAt,
         updatedAt: newWorkflow.updatedAt,
       },
@@ -254,6 +238,8 @@ export class WorkflowRepository {
           nodes = :nodes,
           edges = :edges,
           enabled = :enabled,
+          priority = :priority,
+          scope = :scope,
           updated_at = :updatedAt
       WHERE id = :id
     `,
@@ -265,6 +251,10 @@ export class WorkflowRepository {
         nodes: JSON.stringify(updatedWorkflow.nodes),
         edges: JSON.stringify(updatedWorkflow.edges),
         enabled: updatedWorkflow.enabled ? 1 : 0,
+        priority: updatedWorkflow.priority ?? 0,
+        scope: updatedWorkflow.scope
+          ? JSON.stringify(updatedWorkflow.scope)
+          : null,
         updatedAt: updatedWorkflow.updatedAt,
       },
     );
@@ -273,7 +263,8 @@ export class WorkflowRepository {
   }
 
   /**
-   * 指定したワークフローを有効化し、同じタイプの他のワークフローを無効化
+   * 指定したワークフローを有効化
+   * 同じタイプのWorkflowは優先度順にまとめて実行されるため、他のWorkflowには影響しない
    */
   public setActiveWorkflow(id: string): boolean {
     const workflow = this.getWorkflowById(id);
@@ -283,24 +274,6 @@ export class WorkflowRepository {
 
     const db = getSqliteManager();
 
-    // 同じworkflowTypeの他の有効なワークフローを無効化
-    db.execute(
-      `
-      UPDATE workflows
-      SET enabled = 0,
-          updated_at = :updatedAt
-      WHERE workflow_type = :workflowType
-        AND id != :id
-        AND enabled = 1
-    `,
-      {
-        workflowType: workflow.workflowType,
-        id,
-        updatedAt: Date.now(),
-      },
-    );
-
-    // 指定したワークフローを有効化
     db.execute(
       `
       UPDATE workflows
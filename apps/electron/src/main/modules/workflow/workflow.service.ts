@@ -1,8 +1,29 @@
-import { WorkflowDefinition } from "@mcp_router/shared";
+import {
+  WORKFLOW_LIFECYCLE_TYPES,
+  WORKFLOW_REQUEST_TYPES,
+  WorkflowDefinition,
+  WorkflowLifecycleType,
+} from "@mcp_router/shared";
 import {
   getWorkflowRepository,
   WorkflowRepository,
 } from "./workflow.repository";
+import {
+  matchesWorkflowScope,
+  sortWorkflowsByPriority,
+  WorkflowScopeTarget,
+} from "./workflow-scope";
+
+/**
+ * サーバーのライフサイクルイベントの内容
+ */
+export interface WorkflowLifecycleEvent {
+  serverId: string;
+  serverName: string;
+  projectId?: string | null;
+  clientId?: string;
+  error?: string; // server/error のみ
+}
 
 /**
  * Workflowドメインサービス
@@ -63,6 +84,66 @@ export class WorkflowService {
     return this.repository.getWorkflowsByType(workflowType);
   }
 
+  /**
+   * リクエストやイベントに適用するワークフローを取得
+   * 有効かつスコープに一致し、構造的に妥当なものを優先度の高い順に返す
+   */
+  public async getMatchingWorkflows(
+    workflowType: string,
+    target: WorkflowScopeTarget,
+  ): Promise<WorkflowDefinition[]> {
+    const { WorkflowExecutor } = await import("./workflow-executor");
+
+    const workflows = this.repository
+      .getWorkflowsByType(workflowType)
+      .filter((w) => {
+        if (!w.enabled || !matchesWorkflowScope(w.scope, target)) {
+          return false;
+        }
+
+        // Workflowの構造を検証（Start -> MCP Call -> End が接続されている）
+        const isValid = WorkflowExecutor.isValidWorkflow(w);
+        if (!isValid) {
+          console.warn(
+            `Workflow ${w.name} (${w.id}) is not valid for execution`,
+          );
+        }
+        return isValid;
+      });
+
+    return sortWorkflowsByPriority(workflows);
+  }
+
+  /**
+   * サーバーのライフサイクルイベントでワークフローを優先度順に実行
+   * 包むリクエストがないため、Hookの拒否や書き換えは反映されず、失敗しても呼び出し元には伝えない
+   */
+  public async runLifecycleWorkflows(
+    workflowType: WorkflowLifecycleType,
+    event: WorkflowLifecycleEvent,
+  ): Promise<void> {
+    try {
+      const workflows = await this.getMatchingWorkflows(workflowType, event);
+      for (const workflow of workflows) {
+        try {
+          await this.executeWorkflow(workflow.id, {
+            method: workflowType,
+            params: { serverName: event.serverName, error: event.error },
+            timestamp: Date.now(),
+            ...event,
+          });
+        } catch (error) {
+          console.error(
+            `Failed to run workflow ${workflow.name} for ${workflowType}:`,
+            error,
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`Error running workflows for ${workflowType}:`, error);
+    }
+  }
+
   /**
    * ワークフローを作成
    */
@@ -83,7 +164,11 @@ export class WorkflowService {
     updates: Partial<Omit<WorkflowDefinition, "id" | "createdAt">>,
   ): Promise<WorkflowDefinition | null> {
     // 部分的なバリデーション
-    if (updates.nodes !== undefined || updates.edges !== undefined) {
+    if (
+      updates.nodes !== undefined ||
+      updates.edges !== undefined ||
+      updates.workflowType !== undefined
+    ) {
       const existing = await this.getWorkflowById(id);
       if (existing) {
         const merged = { ...existing, ...updates };
@@ -95,7 +180,7 @@ export class WorkflowService {
   }
 
   /**
-   * 指定したワークフローを有効化し、同じタイプの他のワークフローを無効化
+   * 指定したワークフローを有効化
    */
   public async setActiveWorkflow(id: string): Promise<boolean> {
     // Workflowを取得
@@ -111,7 +196,8 @@ export class WorkflowService {
     if (!isValid) {
       throw new Error(
         `Workflow "${workflow.name}" is not valid. ` +
-          `Ensure it has Start -> MCP Call -> End nodes properly connected.`,
+          `Ensure it has Start -> MCP Call -> End nodes properly connected ` +
+          `(Start -> End without MCP Call for server events).`,
       );
     }
 
@@ -173,6 +259,14 @@ export class WorkflowService {
       throw new Error("Workflow type is required");
     }
 
+    const workflowTypes: readonly string[] = [
+      ...WORKFLOW_REQUEST_TYPES,
+      ...WORKFLOW_LIFECYCLE_TYPES,
+    ];
+    if (!workflowTypes.includes(workflow.workflowType)) {
+      throw new Error(`Unsupported workflow type: ${workflow.workflowType}`);
+    }
+
     if (!Array.isArray(workflow.nodes) || workflow.nodes.length === 0) {
       throw new Error("Workflow must have at least one node");
     }
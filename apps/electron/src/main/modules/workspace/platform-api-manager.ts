@@ -10,6 +10,7 @@ import { MainDatabaseMigration } from "../../infrastructure/database/main-databa
 import { getSharedConfigManager } from "../../infrastructure/shared-config-manager";
 import { McpLoggerRepository } from "../mcp-logger/mcp-logger.repository";
 import { McpServerManagerRepository } from "../mcp-server-manager/mcp-server-manager.repository";
+import { ServerLogRepository } from "../mcp-server-manager/server-log.repository";
 import { SettingsRepository } from "../settings/settings.repository";
 import { McpAppsManagerRepository } from "../mcp-apps-manager/mcp-apps-manager.repository";
 import { WorkspaceRepository } from "./workspace.repository";
@@ -123,6 +124,7 @@ export class PlatformAPIManager {
     // リポジトリをリセット（新しいデータベースを使用するように）
     McpLoggerRepository.resetInstance();
     McpServerManagerRepository.resetInstance();
+    ServerLogRepository.resetInstance();
     SettingsRepository.resetInstance();
     McpAppsManagerRepository.resetInstance();
     WorkspaceRepository.resetInstance();
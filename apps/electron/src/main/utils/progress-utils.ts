@@ -0,0 +1,48 @@
+/**
+ * Utilities for relaying MCP progress notifications across the router
+ */
+
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  Progress,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Context passed to server request handlers
+ */
+export type InboundRequestExtra = RequestHandlerExtra<
+  ServerRequest,
+  ServerNotification
+>;
+
+/**
+ * Create an onprogress callback that relays upstream progress to the caller.
+ * The upstream request uses its own progress token, so notifications are
+ * re-emitted with the token the calling client sent.
+ * @param progressToken The progress token from the inbound request's _meta
+ * @param extra The inbound request handler context
+ * @returns A callback for RequestOptions.onprogress, or undefined if the
+ * caller did not ask for progress
+ */
+export function createProgressRelay(
+  progressToken: ProgressToken | undefined,
+  extra: InboundRequestExtra | undefined,
+): ((progress: Progress) => void) | undefined {
+  if (progressToken === undefined || !extra) {
+    return undefined;
+  }
+
+  return (progress: Progress) => {
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { ...progress, progressToken },
+      })
+      .catch((error) => {
+        console.error("[Progress] Failed to relay progress:", error);
+      });
+  };
+}
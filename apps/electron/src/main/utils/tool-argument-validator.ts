@@ -0,0 +1,340 @@
+/**
+ * Utilities for validating tool call arguments against a tool's inputSchema
+ */
+
+/**
+ * A single problem found in the arguments
+ */
+export interface ToolArgumentIssue {
+  kind: "missing" | "unexpected" | "type" | "enum";
+  /** Dotted path of the field, e.g. `options.limit` or `paths[0]` */
+  path: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface ToolArgumentValidationResult {
+  valid: boolean;
+  /** The arguments to forward, with coercions applied */
+  arguments: Record<string, unknown>;
+  issues: ToolArgumentIssue[];
+}
+
+export interface ToolArgumentValidationOptions {
+  /**
+   * Convert obvious mismatches instead of rejecting them: numeric and
+   * boolean strings, and JSON-encoded objects or arrays
+   */
+  coerce?: boolean;
+}
+
+type JsonSchema = Record<string, any>;
+
+const ROOT_PATH = "arguments";
+
+/**
+ * Validate arguments against a JSON Schema.
+ * Covers type, required, properties, additionalProperties, items, enum,
+ * const, allOf and anyOf/oneOf. Other keywords ($ref, formats, ranges) are
+ * left for the upstream server to check.
+ * @param schema The tool's inputSchema
+ * @param args The arguments sent by the client
+ */
+export function validateToolArguments(
+  schema: unknown,
+  args: Record<string, unknown> | undefined,
+  options: ToolArgumentValidationOptions = {},
+): ToolArgumentValidationResult {
+  const input = args ?? {};
+  if (!isSchema(schema)) {
+    return { valid: true, arguments: input, issues: [] };
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+  const value = validateValue(schema, input, ROOT_PATH, options, issues);
+  return {
+    valid: issues.length === 0,
+    arguments: isPlainObject(value) ? value : input,
+    issues,
+  };
+}
+
+/**
+ * Build an error message a model can act on: what is wrong with each field
+ * and the schema it should follow
+ */
+export function formatToolArgumentError(
+  toolName: string,
+  issues: ToolArgumentIssue[],
+  schema: unknown,
+): string {
+  const lines = [`Invalid arguments for tool "${toolName}":`];
+  for (const issue of issues) {
+    lines.push(`- ${describeIssue(issue)}`);
+  }
+  lines.push("", "Expected input schema:", JSON.stringify(schema, null, 2));
+  return lines.join("\n");
+}
+
+function describeIssue(issue: ToolArgumentIssue): string {
+  switch (issue.kind) {
+    case "missing":
+      return `missing required field "${issue.path}"${
+        issue.expected ? ` (expected ${issue.expected})` : ""
+      }`;
+    case "unexpected":
+      return `unexpected field "${issue.path}"`;
+    case "enum":
+      return `field "${issue.path}" must be one of ${issue.expected}, got ${issue.received}`;
+    case "type":
+      return `field "${issue.path}" must be ${issue.expected}, got ${issue.received}`;
+  }
+}
+
+function validateValue(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  options: ToolArgumentValidationOptions,
+  issues: ToolArgumentIssue[],
+): unknown {
+  let current = value;
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf.filter(isSchema)) {
+      current = validateValue(sub, current, path, options, issues);
+    }
+  }
+
+  const alternatives = [schema.anyOf, schema.oneOf].find(Array.isArray);
+  if (alternatives) {
+    current = validateAlternatives(
+      alternatives.filter(isSchema),
+      current,
+      path,
+      options,
+      issues,
+    );
+  }
+
+  const types = getTypes(schema);
+  if (types.length > 0 && !types.some((type) => matchesType(type, current))) {
+    const coerced = options.coerce ? coerceValue(types, current) : undefined;
+    if (coerced === undefined) {
+      issues.push({
+        kind: "type",
+        path,
+        expected: types.join(" or "),
+        received: describeType(current),
+      });
+      return current;
+    }
+    current = coerced;
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((v) => equals(v, current))
+  ) {
+    issues.push({
+      kind: "enum",
+      path,
+      expected: schema.enum.map((v: unknown) => JSON.stringify(v)).join(", "),
+      received: JSON.stringify(current),
+    });
+  } else if ("const" in schema && !equals(schema.const, current)) {
+    issues.push({
+      kind: "enum",
+      path,
+      expected: JSON.stringify(schema.const),
+      received: JSON.stringify(current),
+    });
+  }
+
+  if (isPlainObject(current)) {
+    return validateObject(schema, current, path, options, issues);
+  }
+  if (Array.isArray(current) && isSchema(schema.items)) {
+    return current.map((item, index) =>
+      validateValue(schema.items, item, `${path}[${index}]`, options, issues),
+    );
+  }
+  return current;
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  options: ToolArgumentValidationOptions,
+  issues: ToolArgumentIssue[],
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = isPlainObject(schema.properties)
+    ? schema.properties
+    : {};
+  const result: Record<string, unknown> = { ...value };
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (typeof name === "string" && value[name] === undefined) {
+        const property = properties[name];
+        const types = isSchema(property) ? getTypes(property) : [];
+        issues.push({
+          kind: "missing",
+          path: joinPath(path, name),
+          expected: types.length > 0 ? types.join(" or ") : undefined,
+        });
+      }
+    }
+  }
+
+  for (const [name, fieldValue] of Object.entries(value)) {
+    const property = properties[name];
+    if (isSchema(property)) {
+      result[name] = validateValue(
+        property,
+        fieldValue,
+        joinPath(path, name),
+        options,
+        issues,
+      );
+    } else if (schema.additionalProperties === false) {
+      issues.push({ kind: "unexpected", path: joinPath(path, name) });
+    } else if (isSchema(schema.additionalProperties)) {
+      result[name] = validateValue(
+        schema.additionalProperties,
+        fieldValue,
+        joinPath(path, name),
+        options,
+        issues,
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * anyOf/oneOf: accept the first alternative without issues, otherwise
+ * report the issues of the closest one
+ */
+function validateAlternatives(
+  alternatives: JsonSchema[],
+  value: unknown,
+  path: string,
+  options: ToolArgumentValidationOptions,
+  issues: ToolArgumentIssue[],
+): unknown {
+  let closestIssues: ToolArgumentIssue[] | undefined;
+  for (const alternative of alternatives) {
+    const attemptIssues: ToolArgumentIssue[] = [];
+    const attempt = validateValue(
+      alternative,
+      value,
+      path,
+      options,
+      attemptIssues,
+    );
+    if (attemptIssues.length === 0) {
+      return attempt;
+    }
+    if (!closestIssues || attemptIssues.length < closestIssues.length) {
+      closestIssues = attemptIssues;
+    }
+  }
+  issues.push(...(closestIssues ?? []));
+  return value;
+}
+
+function coerceValue(types: string[], value: unknown): unknown {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const text = value.trim();
+  for (const type of types) {
+    if (
+      (type === "number" || type === "integer") &&
+      text !== "" &&
+      Number.isFinite(Number(text))
+    ) {
+      const number = Number(text);
+      if (type === "number" || Number.isInteger(number)) {
+        return number;
+      }
+    }
+    if (type === "boolean" && (text === "true" || text === "false")) {
+      return text === "true";
+    }
+    if (type === "object" || type === "array") {
+      try {
+        const parsed = JSON.parse(text);
+        if (matchesType(type, parsed)) {
+          return parsed;
+        }
+      } catch {
+        // Not JSON, leave it to the type error
+      }
+    }
+  }
+  return undefined;
+}
+
+function getTypes(schema: JsonSchema): string[] {
+  if (typeof schema.type === "string") {
+    return [schema.type];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.filter((t: unknown) => typeof t === "string");
+  }
+  return [];
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return `string ${JSON.stringify(value)}`;
+  }
+  return typeof value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, name: string): string {
+  return path === ROOT_PATH ? name : `${path}.${name}`;
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return isPlainObject(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,78 @@
+/**
+ * Utilities for naming aggregated MCP tools
+ */
+
+import {
+  createPrefixedToolName,
+  type ToolNameCollision,
+  type ToolNamingStrategy,
+} from "@mcp_router/shared";
+
+export { createPrefixedToolName };
+
+/**
+ * A tool as reported by an upstream server
+ */
+export interface SourceTool {
+  serverName: string;
+  toolName: string;
+}
+
+/**
+ * Find tool names exposed by more than one server
+ * @param tools Tools from all servers
+ * @returns Collisions in first-seen order
+ */
+export function findToolNameCollisions(
+  tools: SourceTool[],
+): ToolNameCollision[] {
+  const serversByTool = new Map<string, string[]>();
+  for (const { serverName, toolName } of tools) {
+    const serverNames = serversByTool.get(toolName) ?? [];
+    if (!serverNames.includes(serverName)) {
+      serverNames.push(serverName);
+    }
+    serversByTool.set(toolName, serverNames);
+  }
+
+  return Array.from(serversByTool.entries())
+    .filter(([, serverNames]) => serverNames.length > 1)
+    .map(([toolName, serverNames]) => ({ toolName, serverNames }));
+}
+
+/**
+ * Resolve the names tools are exposed under for the given strategy
+ * @param tools Tools from all servers, in server order
+ * @param strategy The naming strategy to apply
+ * @returns Exposed tools (unique by exposedName) and detected collisions
+ */
+export function resolveExposedToolNames<T extends SourceTool>(
+  tools: T[],
+  strategy: ToolNamingStrategy,
+): {
+  tools: Array<T & { exposedName: string }>;
+  collisions: ToolNameCollision[];
+} {
+  const collisions = findToolNameCollisions(tools);
+  const collidingNames = new Set(collisions.map((c) => c.toolName));
+  const exposedTools: Array<T & { exposedName: string }> = [];
+  const usedNames = new Set<string>();
+
+  for (const tool of tools) {
+    const shouldPrefix =
+      strategy === "prefix" ||
+      (strategy === "prefix-on-collision" && collidingNames.has(tool.toolName));
+    const exposedName = shouldPrefix
+      ? createPrefixedToolName(tool.serverName, tool.toolName)
+      : tool.toolName;
+
+    // raw: the first server to expose a name keeps it
+    if (usedNames.has(exposedName)) {
+      continue;
+    }
+    usedNames.add(exposedName);
+    exposedTools.push({ ...tool, exposedName });
+  }
+
+  return { tools: exposedTools, collisions };
+}
@@ -2,7 +2,13 @@
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
 
 import { contextBridge, ipcRenderer } from "electron";
-import type { CreateServerInput, TokenServerAccess } from "@mcp_router/shared";
+import type {
+  CreateServerInput,
+  ProjectUpdates,
+  RequestLogStatus,
+  ServerLogEntry,
+  TokenServerAccess,
+} from "@mcp_router/shared";
 
 // Consolidate everything into one contextBridge call
 
@@ -21,6 +27,17 @@ contextBridge.exposeInMainWorld("electronAPI", {
   listMcpServerTools: (id: string) => ipcRenderer.invoke("mcp:list-tools", id),
   updateToolPermissions: (id: string, permissions: Record<string, boolean>) =>
     ipcRenderer.invoke("mcp:update-tool-permissions", id, permissions),
+  getMcpServerLogs: (id: string) => ipcRenderer.invoke("mcp:get-logs", id),
+  onMcpServerLogs: (
+    callback: (serverId: string, entries: ServerLogEntry[]) => void,
+  ) => {
+    const listener = (_: any, serverId: string, entries: ServerLogEntry[]) =>
+      callback(serverId, entries);
+    ipcRenderer.on("mcp:server-logs", listener);
+    return () => {
+      ipcRenderer.removeListener("mcp:server-logs", listener);
+    };
+  },
 
   // Package Version Resolution
   resolvePackageVersionsInArgs: (
@@ -40,10 +57,11 @@ contextBridge.exposeInMainWorld("electronAPI", {
     requestType?: string;
     startDate?: Date;
     endDate?: Date;
-    responseStatus?: "success" | "error";
+    responseStatus?: RequestLogStatus;
     cursor?: string;
     limit?: number;
   }) => ipcRenderer.invoke("requestLogs:get", options),
+  getRequestLogClients: () => ipcRenderer.invoke("requestLogs:clients"),
 
   // Settings Management
   getSettings: () => ipcRenderer.invoke("settings:get"),
@@ -153,7 +171,7 @@ contextBridge.exposeInMainWorld("electronAPI", {
   listProjects: () => ipcRenderer.invoke("project:list"),
   createProject: (input: { name: string }) =>
     ipcRenderer.invoke("project:create", input),
-  updateProject: (id: string, updates: { name?: string }) =>
+  updateProject: (id: string, updates: ProjectUpdates) =>
     ipcRenderer.invoke("project:update", id, updates),
   deleteProject: (id: string) => ipcRenderer.invoke("project:delete", id),
 
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { MCPServer } from "@mcp_router/shared";
+import { MCPServer, type ProjectUpdates } from "@mcp_router/shared";
 import { ScrollArea } from "@mcp_router/ui";
 import { Badge } from "@mcp_router/ui";
 import { Switch } from "@mcp_router/ui";
@@ -223,8 +223,8 @@ const Home: React.FC = () => {
     [createProject, listProjects],
   );
 
-  const handleRenameProject = React.useCallback(
-    async (id: string, updates: { name: string }) => {
+  const handleUpdateProject = React.useCallback(
+    async (id: string, updates: ProjectUpdates) => {
       const updated = await updateProjectInStore(id, updates);
       await listProjects();
       return updated;
@@ -970,6 +970,7 @@ const Home: React.FC = () => {
           isOpen={errorModalOpen}
           onClose={() => setErrorModalOpen(false)}
           serverName={errorServer.name}
+          serverId={errorServer.id}
           errorMessage={errorServer.errorMessage}
         />
       )}
@@ -979,7 +980,7 @@ const Home: React.FC = () => {
         onOpenChange={setIsHomeSettingsOpen}
         projects={projects}
         onCreateProject={handleCreateProject}
-        onRenameProject={handleRenameProject}
+        onUpdateProject={handleUpdateProject}
         onDeleteProject={handleDeleteProject}
       />
 
@@ -999,6 +1000,12 @@ const Home: React.FC = () => {
                 editedArgs,
                 editedBearerToken,
                 editedAutoStart,
+                editedServerRequestPolicy,
+                editedToolCallTimeoutSec,
+                editedMaxConcurrentToolCalls,
+                editedMaxToolOutputChars,
+                toolTimeoutPairs,
+                toolOutputLimitPairs,
                 envPairs,
               } = useServerEditingStore.getState();
 
@@ -1009,6 +1016,28 @@ const Home: React.FC = () => {
                 }
               });
 
+              // 空欄や不正な値は未設定として扱う
+              const toPositiveNumber = (value: string) => {
+                const parsed = Number(value);
+                return value.trim() && Number.isFinite(parsed) && parsed > 0
+                  ? parsed
+                  : undefined;
+              };
+              const toolTimeoutOverrides: Record<string, number> = {};
+              toolTimeoutPairs.forEach((pair) => {
+                const timeoutSec = toPositiveNumber(pair.timeoutSec);
+                if (pair.toolName.trim() && timeoutSec !== undefined) {
+                  toolTimeoutOverrides[pair.toolName.trim()] = timeoutSec;
+                }
+              });
+              const toolOutputLimitOverrides: Record<string, number> = {};
+              toolOutputLimitPairs.forEach((pair) => {
+                const maxChars = toPositiveNumber(pair.maxChars);
+                if (pair.toolName.trim() && maxChars !== undefined) {
+                  toolOutputLimitOverrides[pair.toolName.trim()] = maxChars;
+                }
+              });
+
               // inputParamsのdefault値をenvに反映
               const finalInputParams =
                 updatedInputParams || advancedSettingsServer.inputParams;
@@ -1035,6 +1064,14 @@ const Home: React.FC = () => {
                 args: editedArgs,
                 env: envObj,
                 autoStart: editedAutoStart,
+                serverRequestPolicy: editedServerRequestPolicy,
+                toolCallTimeoutSec: toPositiveNumber(editedToolCallTimeoutSec),
+                toolTimeoutOverrides,
+                maxConcurrentToolCalls: toPositiveNumber(
+                  editedMaxConcurrentToolCalls,
+                ),
+                maxToolOutputChars: toPositiveNumber(editedMaxToolOutputChars),
+                toolOutputLimitOverrides,
                 inputParams: finalInputParams,
               };
 
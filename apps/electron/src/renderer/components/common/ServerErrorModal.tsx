@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import type { ServerLogEntry } from "@mcp_router/shared";
 import {
   Dialog,
   DialogContent,
@@ -11,11 +12,16 @@ import { useTranslation } from "react-i18next";
 import { ScrollArea } from "@mcp_router/ui";
 import { parseErrorMessage } from "@/renderer/utils/error-message-utils";
 import { Button } from "@mcp_router/ui";
+import { usePlatformAPI } from "@/renderer/platform-api";
+
+/** Number of stderr lines shown below the error */
+const RECENT_LOG_LINES = 20;
 
 interface ServerErrorModalProps {
   isOpen: boolean;
   onClose: () => void;
   serverName: string;
+  serverId?: string;
   errorMessage?: string;
 }
 
@@ -23,9 +29,25 @@ export const ServerErrorModal: React.FC<ServerErrorModalProps> = ({
   isOpen,
   onClose,
   serverName,
+  serverId,
   errorMessage,
 }) => {
   const { t } = useTranslation();
+  const platformAPI = usePlatformAPI();
+  const [recentLogs, setRecentLogs] = useState<ServerLogEntry[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !serverId) {
+      setRecentLogs([]);
+      return;
+    }
+    platformAPI.servers
+      .getLogs(serverId)
+      .then((logs) => setRecentLogs(logs.slice(-RECENT_LOG_LINES)))
+      .catch((error) => {
+        console.error("Failed to load server logs:", error);
+      });
+  }, [isOpen, serverId, platformAPI]);
 
   // Parse the error message for better display
   const parsedError = errorMessage ? parseErrorMessage(errorMessage) : null;
@@ -47,6 +69,18 @@ export const ServerErrorModal: React.FC<ServerErrorModalProps> = ({
               t("serverList.noErrorDetails")}
           </pre>
         </ScrollArea>
+        {recentLogs.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              {t("serverList.recentOutput")}
+            </h4>
+            <ScrollArea className="max-h-[200px] rounded-md border bg-muted/40 p-3">
+              <pre className="text-xs whitespace-pre-wrap break-words font-mono">
+                {recentLogs.map((entry) => entry.line).join("\n")}
+              </pre>
+            </ScrollArea>
+          </div>
+        )}
         {parsedError?.isPaymentError && parsedError.purchaseUrl && (
           <div className="flex justify-end mt-4">
             <Button
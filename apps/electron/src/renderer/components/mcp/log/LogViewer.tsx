@@ -8,8 +8,19 @@ import { useRequestLogs } from "./hooks/useRequestLogs";
 import LogTable from "./components/LogTable";
 import LogDetailModal from "./components/LogDetailModal";
 import ToolCallTimeline from "./components/ToolCallTimeline";
-import { Card } from "@mcp_router/ui";
+import {
+  Card,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@mcp_router/ui";
 import { useWorkspaceStore } from "../../../stores";
+import { usePlatformAPI } from "@/renderer/platform-api";
+
+// Select value for "no client filter" (Radix Select does not allow "")
+const ALL_CLIENTS = "__all__";
 
 interface LogViewerProps {
   serverId?: string; // 特定のサーバのみ表示する場合は指定、なければすべてのサーバ
@@ -22,11 +33,17 @@ const LogViewer: React.FC<LogViewerProps> = ({
 }) => {
   const { t } = useTranslation();
   const { currentWorkspace } = useWorkspaceStore();
+  const platformAPI = usePlatformAPI();
 
   // Filter state management
-  const { filters, setPagination, refresh } = useFilterState({
-    limit: initialLimit,
-  });
+  const { filters, setPagination, setSelectedClient, refresh } = useFilterState(
+    {
+      limit: initialLimit,
+    },
+  );
+
+  // Clients that appear in the logs, for the client filter
+  const [clientIds, setClientIds] = useState<string[]>([]);
 
   // Request log data
   const { logs, total, nextCursor, hasMore, loading, fetchLogs } =
@@ -59,7 +76,19 @@ const LogViewer: React.FC<LogViewerProps> = ({
     setCursorHistory([]);
     // Trigger data refresh by incrementing the refreshTrigger counter
     refresh();
-  }, [refresh, setPagination, filters.limit]);
+    platformAPI.logs
+      .listClients()
+      .then(setClientIds)
+      .catch((error) => console.error("Failed to load log clients:", error));
+  }, [refresh, setPagination, filters.limit, platformAPI]);
+
+  const handleClientChange = useCallback(
+    (value: string) => {
+      setSelectedClient(value === ALL_CLIENTS ? undefined : value);
+      setCursorHistory([]);
+    },
+    [setSelectedClient],
+  );
 
   // Handle page navigation
   const handlePageChange = useCallback(
@@ -110,6 +139,27 @@ const LogViewer: React.FC<LogViewerProps> = ({
     <div className="p-4 flex flex-col h-full">
       {/* Status indicator showing last refresh time with refresh button */}
       <div className="flex justify-end items-center text-sm text-muted-foreground mb-2 gap-2">
+        <Select
+          value={filters.selectedClientId ?? ALL_CLIENTS}
+          onValueChange={handleClientChange}
+        >
+          <SelectTrigger
+            className="h-7 w-48 text-xs"
+            aria-label={t("logs.viewer.clientFilter")}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CLIENTS}>
+              {t("logs.viewer.allClients")}
+            </SelectItem>
+            {clientIds.map((clientId) => (
+              <SelectItem key={clientId} value={clientId}>
+                {clientId}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <button
           onClick={handleManualRefresh}
           className="px-2 py-1 bg-primary/10 hover:bg-primary/20 rounded text-primary text-xs transition-colors"
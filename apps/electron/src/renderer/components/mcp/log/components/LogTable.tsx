@@ -140,12 +140,16 @@ const LogTable: React.FC<LogTableProps> = ({
                       className={
                         log.responseStatus === "success"
                           ? "text-green-600 dark:text-green-500"
-                          : "text-destructive"
+                          : log.responseStatus === "denied"
+                            ? "text-amber-600 dark:text-amber-500"
+                            : "text-destructive"
                       }
                     >
                       {log.responseStatus === "success"
                         ? t("logs.viewer.table.success")
-                        : t("logs.viewer.table.error")}
+                        : log.responseStatus === "denied"
+                          ? t("logs.viewer.table.denied")
+                          : t("logs.viewer.table.error")}
                     </span>
                   </TableCell>
                   <TableCell className="whitespace-nowrap text-muted-foreground">
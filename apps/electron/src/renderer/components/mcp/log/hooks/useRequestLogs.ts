@@ -57,7 +57,9 @@ export const useRequestLogs = (
             ? "success"
             : params.responseStatus === "error"
               ? "error"
-              : undefined,
+              : params.responseStatus === "denied"
+                ? "denied"
+                : undefined,
         cursor: params.cursor,
         limit: params.limit || 50,
       });
@@ -1,6 +1,6 @@
 import React from "react";
 import { useTranslation } from "react-i18next";
-import type { Project } from "@mcp_router/shared";
+import type { Project, ProjectUpdates } from "@mcp_router/shared";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,8 +18,9 @@ import {
   DialogTitle,
   Input,
   ScrollArea,
+  Switch,
 } from "@mcp_router/ui";
-import { Pencil, Trash2, Info } from "lucide-react";
+import { FolderTree, Pencil, Plus, Trash2, Info, X } from "lucide-react";
 import { toast } from "sonner";
 import { UNASSIGNED_PROJECT_ID } from "@/renderer/stores";
 
@@ -28,7 +29,7 @@ type Props = {
   onOpenChange: (open: boolean) => void;
   projects: Project[];
   onCreateProject: (input: { name: string }) => Promise<Project>;
-  onRenameProject: (id: string, updates: { name: string }) => Promise<Project>;
+  onUpdateProject: (id: string, updates: ProjectUpdates) => Promise<Project>;
   onDeleteProject: (id: string) => Promise<void>;
 };
 
@@ -37,7 +38,7 @@ export const ProjectSettingsModal: React.FC<Props> = ({
   onOpenChange,
   projects,
   onCreateProject,
-  onRenameProject,
+  onUpdateProject,
   onDeleteProject,
 }) => {
   const { t } = useTranslation();
@@ -54,6 +55,14 @@ export const ProjectSettingsModal: React.FC<Props> = ({
   const [deletingProjectId, setDeletingProjectId] = React.useState<
     string | null
   >(null);
+  const [rootsProjectId, setRootsProjectId] = React.useState<string | null>(
+    null,
+  );
+  const [rootsDraft, setRootsDraft] = React.useState<string[]>([]);
+  const [newRoot, setNewRoot] = React.useState("");
+  const [forwardClientRootsDraft, setForwardClientRootsDraft] =
+    React.useState(false);
+  const [savingRoots, setSavingRoots] = React.useState(false);
 
   React.useEffect(() => {
     if (!open) {
@@ -64,6 +73,7 @@ export const ProjectSettingsModal: React.FC<Props> = ({
       setRenaming(false);
       setProjectToDelete(null);
       setDeletingProjectId(null);
+      resetRootsState();
     }
   }, [open]);
 
@@ -81,6 +91,53 @@ export const ProjectSettingsModal: React.FC<Props> = ({
     setRenaming(false);
   };
 
+  const resetRootsState = () => {
+    setRootsProjectId(null);
+    setRootsDraft([]);
+    setNewRoot("");
+    setForwardClientRootsDraft(false);
+    setSavingRoots(false);
+  };
+
+  const toggleRootsEditor = (project: Project) => {
+    if (rootsProjectId === project.id) {
+      resetRootsState();
+      return;
+    }
+    setRootsProjectId(project.id);
+    setRootsDraft((project.roots ?? []).map((root) => root.uri));
+    setNewRoot("");
+    setForwardClientRootsDraft(!!project.forwardClientRoots);
+  };
+
+  const handleAddRoot = () => {
+    const value = newRoot.trim();
+    if (!value) return;
+    if (!rootsDraft.includes(value)) {
+      setRootsDraft([...rootsDraft, value]);
+    }
+    setNewRoot("");
+  };
+
+  const handleSaveRoots = async () => {
+    if (!rootsProjectId) return;
+    setSavingRoots(true);
+    try {
+      await onUpdateProject(rootsProjectId, {
+        roots: rootsDraft.map((uri) => ({ uri })),
+        forwardClientRoots: forwardClientRootsDraft,
+      });
+      toast.success("Project roots saved.");
+      resetRootsState();
+    } catch (error: any) {
+      console.error("Failed to save project roots:", error);
+      const message = error?.message ?? "Failed to save project roots.";
+      toast.error(message);
+    } finally {
+      setSavingRoots(false);
+    }
+  };
+
   const handleCreateProject = async () => {
     const name = newProjectName.trim();
     if (!name) return; // keep light UX guard only for empty
@@ -112,7 +169,7 @@ export const ProjectSettingsModal: React.FC<Props> = ({
     }
     setRenaming(true);
     try {
-      await onRenameProject(editingProjectId, { name });
+      await onUpdateProject(editingProjectId, { name });
       toast.success("Project renamed.");
       resetEditingState();
     } catch (error: any) {
@@ -206,91 +263,207 @@ export const ProjectSettingsModal: React.FC<Props> = ({
                       {managedProjects.map((project) => {
                         const isEditing = editingProjectId === project.id;
                         const isDeleting = deletingProjectId === project.id;
+                        const isEditingRoots = rootsProjectId === project.id;
                         return (
-                          <div
-                            key={project.id}
-                            className="flex items-center gap-3 px-3 py-2"
-                          >
-                            <div className="flex-1">
-                              {isEditing ? (
-                                <Input
-                                  value={editingName}
-                                  onChange={(event) =>
-                                    setEditingName(event.target.value)
-                                  }
-                                  onKeyDown={(event) => {
-                                    if (event.key === "Enter" && !renaming) {
-                                      event.preventDefault();
-                                      handleRenameProject();
-                                    }
-                                    if (event.key === "Escape") {
-                                      event.preventDefault();
-                                      resetEditingState();
+                          <div key={project.id}>
+                            <div className="flex items-center gap-3 px-3 py-2">
+                              <div className="flex-1">
+                                {isEditing ? (
+                                  <Input
+                                    value={editingName}
+                                    onChange={(event) =>
+                                      setEditingName(event.target.value)
                                     }
-                                  }}
-                                  autoFocus
-                                />
-                              ) : (
-                                <span className="text-sm font-medium">
-                                  {project.name}
-                                </span>
-                              )}
+                                    onKeyDown={(event) => {
+                                      if (event.key === "Enter" && !renaming) {
+                                        event.preventDefault();
+                                        handleRenameProject();
+                                      }
+                                      if (event.key === "Escape") {
+                                        event.preventDefault();
+                                        resetEditingState();
+                                      }
+                                    }}
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span className="text-sm font-medium">
+                                    {project.name}
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-1">
+                                {isEditing ? (
+                                  <>
+                                    <Button
+                                      size="sm"
+                                      onClick={handleRenameProject}
+                                      disabled={
+                                        renaming ||
+                                        editingName.trim().length === 0 ||
+                                        editingName.trim() === project.name
+                                      }
+                                    >
+                                      {renaming
+                                        ? t("common.saving", {
+                                            defaultValue: "Saving…",
+                                          })
+                                        : t("common.save")}
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={resetEditingState}
+                                      disabled={renaming}
+                                    >
+                                      {t("common.cancel")}
+                                    </Button>
+                                  </>
+                                ) : (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => toggleRootsEditor(project)}
+                                      title={t("projects.roots", {
+                                        defaultValue: "Roots",
+                                      })}
+                                    >
+                                      <FolderTree className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() =>
+                                        startEditingProject(project)
+                                      }
+                                      title="Rename"
+                                    >
+                                      <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() =>
+                                        confirmDeleteProject(project)
+                                      }
+                                      title={t("common.delete")}
+                                    >
+                                      <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                    {isDeleting && (
+                                      <span className="text-xs text-muted-foreground">
+                                        Working...
+                                      </span>
+                                    )}
+                                  </>
+                                )}
+                              </div>
                             </div>
-                            <div className="flex items-center gap-1">
-                              {isEditing ? (
-                                <>
-                                  <Button
-                                    size="sm"
-                                    onClick={handleRenameProject}
-                                    disabled={
-                                      renaming ||
-                                      editingName.trim().length === 0 ||
-                                      editingName.trim() === project.name
+                            {isEditingRoots && (
+                              <div className="space-y-3 border-t bg-muted/30 px-3 py-3">
+                                <p className="text-xs text-muted-foreground">
+                                  {t("projects.rootsDescription", {
+                                    defaultValue:
+                                      "Directories or file URIs advertised as roots to servers in this project.",
+                                  })}
+                                </p>
+                                {rootsDraft.map((root) => (
+                                  <div
+                                    key={root}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <span className="flex-1 truncate font-mono text-xs">
+                                      {root}
+                                    </span>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() =>
+                                        setRootsDraft(
+                                          rootsDraft.filter(
+                                            (item) => item !== root,
+                                          ),
+                                        )
+                                      }
+                                      title={t("common.delete")}
+                                    >
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                ))}
+                                <div className="flex items-center gap-2">
+                                  <Input
+                                    value={newRoot}
+                                    onChange={(event) =>
+                                      setNewRoot(event.target.value)
                                     }
+                                    onKeyDown={(event) => {
+                                      if (event.key === "Enter") {
+                                        event.preventDefault();
+                                        handleAddRoot();
+                                      }
+                                    }}
+                                    placeholder={t("projects.rootPlaceholder", {
+                                      defaultValue:
+                                        "/path/to/directory or file:// URI",
+                                    })}
+                                    className="flex-1 font-mono text-xs"
+                                  />
+                                  <Button
+                                    variant="outline"
+                                    size="icon"
+                                    onClick={handleAddRoot}
+                                    disabled={newRoot.trim().length === 0}
                                   >
-                                    {renaming
-                                      ? t("common.saving", {
-                                          defaultValue: "Saving…",
-                                        })
-                                      : t("common.save")}
+                                    <Plus className="h-4 w-4" />
                                   </Button>
+                                </div>
+                                <div className="flex items-center justify-between gap-3">
+                                  <div>
+                                    <div className="text-sm">
+                                      {t("projects.forwardClientRoots", {
+                                        defaultValue: "Forward client roots",
+                                      })}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {t(
+                                        "projects.forwardClientRootsDescription",
+                                        {
+                                          defaultValue:
+                                            "Also expose the roots of clients connected with this project.",
+                                        },
+                                      )}
+                                    </div>
+                                  </div>
+                                  <Switch
+                                    checked={forwardClientRootsDraft}
+                                    onCheckedChange={setForwardClientRootsDraft}
+                                  />
+                                </div>
+                                <div className="flex justify-end gap-2">
                                   <Button
                                     size="sm"
                                     variant="ghost"
-                                    onClick={resetEditingState}
-                                    disabled={renaming}
+                                    onClick={resetRootsState}
+                                    disabled={savingRoots}
                                   >
                                     {t("common.cancel")}
                                   </Button>
-                                </>
-                              ) : (
-                                <>
-                                  <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() => startEditingProject(project)}
-                                    title="Rename"
-                                  >
-                                    <Pencil className="h-4 w-4" />
-                                  </Button>
                                   <Button
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() =>
-                                      confirmDeleteProject(project)
-                                    }
-                                    title={t("common.delete")}
+                                    size="sm"
+                                    onClick={handleSaveRoots}
+                                    disabled={savingRoots}
                                   >
-                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                    {savingRoots
+                                      ? t("common.saving", {
+                                          defaultValue: "Saving…",
+                                        })
+                                      : t("common.save")}
                                   </Button>
-                                  {isDeleting && (
-                                    <span className="text-xs text-muted-foreground">
-                                      Working...
-                                    </span>
-                                  )}
-                                </>
-                              )}
-                            </div>
+                                </div>
+                              </div>
+                            )}
                           </div>
                         );
                       })}
@@ -4,7 +4,7 @@ import { Card, CardContent } from "@mcp_router/ui";
 import { Badge } from "@mcp_router/ui";
 import { Switch } from "@mcp_router/ui";
 import { Button } from "@mcp_router/ui";
-import { AlertCircle, Settings as SettingsIcon } from "lucide-react";
+import { AlertCircle, RotateCcw, Settings as SettingsIcon } from "lucide-react";
 import { cn } from "@/renderer/utils/tailwind-utils";
 import { useTranslation } from "react-i18next";
 import { hasUnsetRequiredParams } from "@/renderer/utils/server-validation-utils";
@@ -79,6 +79,24 @@ export const ServerCardCompact: React.FC<ServerCardCompactProps> = ({
                 />
                 {t(`serverList.status.${server.status}`)}
               </Badge>
+              {!!server.restartCount && (
+                <Badge
+                  variant="outline"
+                  className="h-5 text-xs flex items-center"
+                  title={
+                    server.lastCrashReason
+                      ? t("serverList.lastCrash", {
+                          reason: server.lastCrashReason,
+                        })
+                      : undefined
+                  }
+                >
+                  <RotateCcw className="h-3 w-3 mr-1 flex-shrink-0" />
+                  {t("serverList.restartCount", {
+                    count: server.restartCount,
+                  })}
+                </Badge>
+              )}
               {server.serverType === "remote" && (
                 <Badge variant="secondary" className="h-5 text-xs">
                   Remote
@@ -33,7 +33,10 @@ import FinalCommandDisplay from "./FinalCommandDisplay";
 import ServerDetailsRemote from "./ServerDetailsRemote";
 import ServerDetailsEnvironment from "./ServerDetailsEnvironment";
 import ServerDetailsAutoStart from "./ServerDetailsAutoStart";
+import ServerDetailsServerRequests from "./ServerDetailsServerRequests";
+import ServerDetailsCallLimits from "./ServerDetailsCallLimits";
 import ServerDetailsInputParams from "./ServerDetailsInputParams";
+import ServerDetailsLogs from "./ServerDetailsLogs";
 import { useServerEditingStore } from "@/renderer/stores";
 import { usePlatformAPI } from "@/renderer/platform-api";
 import { buildStandardMcpServersJson } from "@/renderer/components/mcp/server/utils/mcp-server-utils";
@@ -63,6 +66,12 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
     editedArgs,
     editedBearerToken,
     editedAutoStart,
+    editedServerRequestPolicy,
+    editedToolCallTimeoutSec,
+    editedMaxConcurrentToolCalls,
+    editedMaxToolOutputChars,
+    toolTimeoutPairs,
+    toolOutputLimitPairs,
     envPairs,
     editedToolPermissions,
     setIsAdvancedEditing: setIsOpen,
@@ -71,6 +80,10 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
     setEditedCommand,
     setEditedBearerToken,
     setEditedAutoStart,
+    setEditedServerRequestPolicy,
+    setEditedToolCallTimeoutSec,
+    setEditedMaxConcurrentToolCalls,
+    setEditedMaxToolOutputChars,
     setIsLoading,
     setEditedToolPermissions,
     updateArg,
@@ -79,6 +92,12 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
     updateEnvPair,
     removeEnvPair,
     addEnvPair,
+    updateToolTimeoutPair,
+    removeToolTimeoutPair,
+    addToolTimeoutPair,
+    updateToolOutputLimitPair,
+    removeToolOutputLimitPair,
+    addToolOutputLimitPair,
   } = useServerEditingStore();
 
   // AI功能状态
@@ -486,10 +505,18 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
     needsServerRunning ||
     Object.keys(initialToolPermissions).length > 0 ||
     hasAttemptedToolFetch;
-  const tabsListClassWithParams = showToolsTab ? "grid-cols-3" : "grid-cols-2";
-  const tabsListClassWithoutParams = showToolsTab
-    ? "grid-cols-2"
-    : "grid-cols-1";
+  const showLogsTab = server.serverType === "local";
+  const tabCount =
+    (hasInputParams ? 1 : 0) +
+    1 +
+    (showToolsTab ? 1 : 0) +
+    (showLogsTab ? 1 : 0);
+  const tabsListClass = [
+    "grid-cols-1",
+    "grid-cols-2",
+    "grid-cols-3",
+    "grid-cols-4",
+  ][tabCount - 1];
 
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
@@ -506,7 +533,7 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
 
         {hasInputParams ? (
           <Tabs defaultValue="params" className="mt-4">
-            <TabsList className={`grid w-full ${tabsListClassWithParams}`}>
+            <TabsList className={`grid w-full ${tabsListClass}`}>
               <TabsTrigger value="params">
                 {t("serverDetails.inputParameters")}
               </TabsTrigger>
@@ -518,6 +545,11 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
                   {t("serverDetails.tools")}
                 </TabsTrigger>
               )}
+              {showLogsTab && (
+                <TabsTrigger value="logs">
+                  {t("serverDetails.logs")}
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="general" className="space-y-6 mt-4">
@@ -633,6 +665,35 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
                 setEditedAutoStart={setEditedAutoStart}
               />
 
+              {/* Sampling/elicitation policy (common for both server types) */}
+              <ServerDetailsServerRequests
+                server={server}
+                isEditing={true}
+                editedServerRequestPolicy={editedServerRequestPolicy}
+                setEditedServerRequestPolicy={setEditedServerRequestPolicy}
+              />
+
+              {/* Tool call timeout/concurrency limits (common for both server types) */}
+              <ServerDetailsCallLimits
+                server={server}
+                editedToolCallTimeoutSec={editedToolCallTimeoutSec}
+                setEditedToolCallTimeoutSec={setEditedToolCallTimeoutSec}
+                editedMaxConcurrentToolCalls={editedMaxConcurrentToolCalls}
+                setEditedMaxConcurrentToolCalls={
+                  setEditedMaxConcurrentToolCalls
+                }
+                toolTimeoutPairs={toolTimeoutPairs}
+                updateToolTimeoutPair={updateToolTimeoutPair}
+                removeToolTimeoutPair={removeToolTimeoutPair}
+                addToolTimeoutPair={addToolTimeoutPair}
+                editedMaxToolOutputChars={editedMaxToolOutputChars}
+                setEditedMaxToolOutputChars={setEditedMaxToolOutputChars}
+                toolOutputLimitPairs={toolOutputLimitPairs}
+                updateToolOutputLimitPair={updateToolOutputLimitPair}
+                removeToolOutputLimitPair={removeToolOutputLimitPair}
+                addToolOutputLimitPair={addToolOutputLimitPair}
+              />
+
               {/* Environment Variables (common for both server types) */}
               <ServerDetailsEnvironment
                 server={server}
@@ -659,10 +720,15 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
                 {renderToolsContent()}
               </TabsContent>
             )}
+            {showLogsTab && (
+              <TabsContent value="logs" className="space-y-6 mt-4">
+                <ServerDetailsLogs server={server} />
+              </TabsContent>
+            )}
           </Tabs>
-        ) : showToolsTab ? (
+        ) : showToolsTab || showLogsTab ? (
           <Tabs defaultValue="general" className="mt-4">
-            <TabsList className={`grid w-full ${tabsListClassWithoutParams}`}>
+            <TabsList className={`grid w-full ${tabsListClass}`}>
               <TabsTrigger value="general">
                 {t("serverDetails.generalSettings")}
               </TabsTrigger>
@@ -671,6 +737,11 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
                   {t("serverDetails.tools")}
                 </TabsTrigger>
               )}
+              {showLogsTab && (
+                <TabsTrigger value="logs">
+                  {t("serverDetails.logs")}
+                </TabsTrigger>
+              )}
             </TabsList>
             <TabsContent value="general" className="space-y-6 mt-4">
               {/* Server Name */}
@@ -785,6 +856,35 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
                 setEditedAutoStart={setEditedAutoStart}
               />
 
+              {/* Sampling/elicitation policy (common for both server types) */}
+              <ServerDetailsServerRequests
+                server={server}
+                isEditing={true}
+                editedServerRequestPolicy={editedServerRequestPolicy}
+                setEditedServerRequestPolicy={setEditedServerRequestPolicy}
+              />
+
+              {/* Tool call timeout/concurrency limits (common for both server types) */}
+              <ServerDetailsCallLimits
+                server={server}
+                editedToolCallTimeoutSec={editedToolCallTimeoutSec}
+                setEditedToolCallTimeoutSec={setEditedToolCallTimeoutSec}
+                editedMaxConcurrentToolCalls={editedMaxConcurrentToolCalls}
+                setEditedMaxConcurrentToolCalls={
+                  setEditedMaxConcurrentToolCalls
+                }
+                toolTimeoutPairs={toolTimeoutPairs}
+                updateToolTimeoutPair={updateToolTimeoutPair}
+                removeToolTimeoutPair={removeToolTimeoutPair}
+                addToolTimeoutPair={addToolTimeoutPair}
+                editedMaxToolOutputChars={editedMaxToolOutputChars}
+                setEditedMaxToolOutputChars={setEditedMaxToolOutputChars}
+                toolOutputLimitPairs={toolOutputLimitPairs}
+                updateToolOutputLimitPair={updateToolOutputLimitPair}
+                removeToolOutputLimitPair={removeToolOutputLimitPair}
+                addToolOutputLimitPair={addToolOutputLimitPair}
+              />
+
               {/* Environment Variables (common for both server types) */}
               <ServerDetailsEnvironment
                 server={server}
@@ -798,9 +898,16 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
               {/* Final Command Display */}
               {renderFinalCommandSection()}
             </TabsContent>
-            <TabsContent value="tools" className="space-y-6 mt-4">
-              {renderToolsContent()}
-            </TabsContent>
+            {showToolsTab && (
+              <TabsContent value="tools" className="space-y-6 mt-4">
+                {renderToolsContent()}
+              </TabsContent>
+            )}
+            {showLogsTab && (
+              <TabsContent value="logs" className="space-y-6 mt-4">
+                <ServerDetailsLogs server={server} />
+              </TabsContent>
+            )}
           </Tabs>
         ) : (
           <div className="space-y-6 mt-4">
@@ -916,6 +1023,33 @@ const ServerDetailsAdvancedSheet: React.FC<ServerDetailsAdvancedSheetProps> = ({
               setEditedAutoStart={setEditedAutoStart}
             />
 
+            {/* Sampling/elicitation policy (common for both server types) */}
+            <ServerDetailsServerRequests
+              server={server}
+              isEditing={true}
+              editedServerRequestPolicy={editedServerRequestPolicy}
+              setEditedServerRequestPolicy={setEditedServerRequestPolicy}
+            />
+
+            {/* Tool call timeout/concurrency limits (common for both server types) */}
+            <ServerDetailsCallLimits
+              server={server}
+              editedToolCallTimeoutSec={editedToolCallTimeoutSec}
+              setEditedToolCallTimeoutSec={setEditedToolCallTimeoutSec}
+              editedMaxConcurrentToolCalls={editedMaxConcurrentToolCalls}
+              setEditedMaxConcurrentToolCalls={setEditedMaxConcurrentToolCalls}
+              toolTimeoutPairs={toolTimeoutPairs}
+              updateToolTimeoutPair={updateToolTimeoutPair}
+              removeToolTimeoutPair={removeToolTimeoutPair}
+              addToolTimeoutPair={addToolTimeoutPair}
+              editedMaxToolOutputChars={editedMaxToolOutputChars}
+              setEditedMaxToolOutputChars={setEditedMaxToolOutputChars}
+              toolOutputLimitPairs={toolOutputLimitPairs}
+              updateToolOutputLimitPair={updateToolOutputLimitPair}
+              removeToolOutputLimitPair={removeToolOutputLimitPair}
+              addToolOutputLimitPair={addToolOutputLimitPair}
+            />
+
             {/* Environment Variables (common for both server types) */}
             <ServerDetailsEnvironment
               server={server}
@@ -0,0 +1,219 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Gauge, Plus, Trash } from "lucide-react";
+import { MCPServer } from "@mcp_router/shared";
+import { Button, Input, Label } from "@mcp_router/ui";
+
+interface ServerDetailsCallLimitsProps {
+  server: MCPServer;
+  editedToolCallTimeoutSec: string;
+  setEditedToolCallTimeoutSec: (timeoutSec: string) => void;
+  editedMaxConcurrentToolCalls: string;
+  setEditedMaxConcurrentToolCalls: (maxCalls: string) => void;
+  toolTimeoutPairs: { toolName: string; timeoutSec: string }[];
+  updateToolTimeoutPair: (
+    index: number,
+    field: "toolName" | "timeoutSec",
+    value: string,
+  ) => void;
+  removeToolTimeoutPair: (index: number) => void;
+  addToolTimeoutPair: () => void;
+  editedMaxToolOutputChars: string;
+  setEditedMaxToolOutputChars: (maxChars: string) => void;
+  toolOutputLimitPairs: { toolName: string; maxChars: string }[];
+  updateToolOutputLimitPair: (
+    index: number,
+    field: "toolName" | "maxChars",
+    value: string,
+  ) => void;
+  removeToolOutputLimitPair: (index: number) => void;
+  addToolOutputLimitPair: () => void;
+}
+
+const ServerDetailsCallLimits: React.FC<ServerDetailsCallLimitsProps> = ({
+  server,
+  editedToolCallTimeoutSec,
+  setEditedToolCallTimeoutSec,
+  editedMaxConcurrentToolCalls,
+  setEditedMaxConcurrentToolCalls,
+  toolTimeoutPairs,
+  updateToolTimeoutPair,
+  removeToolTimeoutPair,
+  addToolTimeoutPair,
+  editedMaxToolOutputChars,
+  setEditedMaxToolOutputChars,
+  toolOutputLimitPairs,
+  updateToolOutputLimitPair,
+  removeToolOutputLimitPair,
+  addToolOutputLimitPair,
+}) => {
+  const { t } = useTranslation();
+  const toolListId = `tool-timeout-names-${server.id}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2">
+        <Gauge className="h-5 w-5 text-muted-foreground mt-0.5" />
+        <div className="flex-1 space-y-4">
+          <div className="space-y-1">
+            <h3 className="text-sm font-medium leading-none">
+              {t("serverDetails.callLimits")}
+            </h3>
+            <p className="text-xs text-muted-foreground">
+              {t("serverDetails.callLimitsDescription")}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="tool-call-timeout" className="text-xs">
+                {t("serverDetails.toolCallTimeout")}
+              </Label>
+              <Input
+                id="tool-call-timeout"
+                type="number"
+                min={1}
+                value={editedToolCallTimeoutSec}
+                onChange={(e) => setEditedToolCallTimeoutSec(e.target.value)}
+                placeholder={t("serverDetails.useDefault")}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="max-concurrent-tool-calls" className="text-xs">
+                {t("serverDetails.maxConcurrentToolCalls")}
+              </Label>
+              <Input
+                id="max-concurrent-tool-calls"
+                type="number"
+                min={1}
+                value={editedMaxConcurrentToolCalls}
+                onChange={(e) =>
+                  setEditedMaxConcurrentToolCalls(e.target.value)
+                }
+                placeholder={t("serverDetails.unlimited")}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="max-tool-output-chars" className="text-xs">
+                {t("serverDetails.maxToolOutputChars")}
+              </Label>
+              <Input
+                id="max-tool-output-chars"
+                type="number"
+                min={1}
+                value={editedMaxToolOutputChars}
+                onChange={(e) => setEditedMaxToolOutputChars(e.target.value)}
+                placeholder={t("serverDetails.unlimited")}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">
+              {t("serverDetails.toolTimeoutOverrides")}
+            </Label>
+            <datalist id={toolListId}>
+              {(server.tools || []).map((tool) => (
+                <option key={tool.name} value={tool.name} />
+              ))}
+            </datalist>
+            {toolTimeoutPairs.map((pair, index) => (
+              <div key={index} className="flex gap-2 group">
+                <Input
+                  className="w-3/5 font-mono group-hover:border-primary/50 transition-colors"
+                  list={toolListId}
+                  value={pair.toolName}
+                  onChange={(e) =>
+                    updateToolTimeoutPair(index, "toolName", e.target.value)
+                  }
+                  placeholder={t("serverDetails.toolName")}
+                />
+                <Input
+                  className="w-2/5 group-hover:border-primary/50 transition-colors"
+                  type="number"
+                  min={1}
+                  value={pair.timeoutSec}
+                  onChange={(e) =>
+                    updateToolTimeoutPair(index, "timeoutSec", e.target.value)
+                  }
+                  placeholder={t("serverDetails.timeoutSeconds")}
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => removeToolTimeoutPair(index)}
+                  type="button"
+                  title={t("serverDetails.remove")}
+                  className="text-muted-foreground hover:text-destructive hover:border-destructive transition-colors"
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addToolTimeoutPair}
+              type="button"
+              className="border-dashed hover:border-primary/70"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {t("serverDetails.addToolTimeout")}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">
+              {t("serverDetails.toolOutputLimitOverrides")}
+            </Label>
+            {toolOutputLimitPairs.map((pair, index) => (
+              <div key={index} className="flex gap-2 group">
+                <Input
+                  className="w-3/5 font-mono group-hover:border-primary/50 transition-colors"
+                  list={toolListId}
+                  value={pair.toolName}
+                  onChange={(e) =>
+                    updateToolOutputLimitPair(index, "toolName", e.target.value)
+                  }
+                  placeholder={t("serverDetails.toolName")}
+                />
+                <Input
+                  className="w-2/5 group-hover:border-primary/50 transition-colors"
+                  type="number"
+                  min={1}
+                  value={pair.maxChars}
+                  onChange={(e) =>
+                    updateToolOutputLimitPair(index, "maxChars", e.target.value)
+                  }
+                  placeholder={t("serverDetails.characters")}
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => removeToolOutputLimitPair(index)}
+                  type="button"
+                  title={t("serverDetails.remove")}
+                  className="text-muted-foreground hover:text-destructive hover:border-destructive transition-colors"
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addToolOutputLimitPair}
+              type="button"
+              className="border-dashed hover:border-primary/70"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {t("serverDetails.addToolOutputLimit")}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServerDetailsCallLimits;
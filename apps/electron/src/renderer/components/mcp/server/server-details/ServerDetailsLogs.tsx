@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Copy, Info, ScrollText } from "lucide-react";
+import { toast } from "sonner";
+import { MCPServer, ServerLogEntry } from "@mcp_router/shared";
+import { Button } from "@mcp_router/ui";
+import { usePlatformAPI } from "@/renderer/platform-api";
+
+/** Same bound as the buffer in the main process */
+const MAX_VISIBLE_LINES = 500;
+
+interface ServerDetailsLogsProps {
+  server: MCPServer;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour12: false });
+
+const ServerDetailsLogs: React.FC<ServerDetailsLogsProps> = ({ server }) => {
+  const { t } = useTranslation();
+  const platformAPI = usePlatformAPI();
+  const [logs, setLogs] = useState<ServerLogEntry[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const received: ServerLogEntry[] = [];
+
+    // Subscribe first so that lines written while loading are not lost
+    const unsubscribe = platformAPI.servers.onLogs((serverId, entries) => {
+      if (serverId !== server.id) {
+        return;
+      }
+      received.push(...entries);
+      setLogs((current) => [...current, ...entries].slice(-MAX_VISIBLE_LINES));
+    });
+
+    platformAPI.servers
+      .getLogs(server.id)
+      .then((history) => {
+        if (cancelled) {
+          return;
+        }
+        // Lines received meanwhile may already be part of the history
+        const lastTimestamp = history[history.length - 1]?.timestamp ?? 0;
+        const newer = received.filter(
+          (entry) => entry.timestamp > lastTimestamp,
+        );
+        setLogs([...history, ...newer].slice(-MAX_VISIBLE_LINES));
+      })
+      .catch((error) => {
+        console.error("Failed to load server logs:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [server.id, platformAPI]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [logs]);
+
+  const copyLogs = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        logs.map((entry) => entry.line).join("\n"),
+      );
+      toast.success(t("serverDetails.logsCopied"));
+    } catch (error) {
+      console.error("Failed to copy logs:", error);
+      toast.error(t("serverDetails.logsCopyFailed"));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium text-primary">
+            {t("serverDetails.logs")}
+          </h3>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          type="button"
+          onClick={copyLogs}
+          disabled={logs.length === 0}
+          className="gap-1"
+        >
+          <Copy className="h-4 w-4" />
+          {t("common.copy")}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("serverDetails.logsDescription")}
+      </p>
+
+      {logs.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Info className="h-4 w-4" />
+          {t("serverDetails.logsEmpty")}
+        </div>
+      ) : (
+        <div className="max-h-[480px] overflow-y-auto rounded-md border bg-muted/40 p-3">
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words">
+            {logs.map((entry, index) => (
+              <div key={`${entry.timestamp}-${index}`}>
+                <span className="text-muted-foreground select-none">
+                  {formatTime(entry.timestamp)}{" "}
+                </span>
+                {entry.line}
+              </div>
+            ))}
+          </pre>
+          <div ref={bottomRef} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServerDetailsLogs;
@@ -0,0 +1,79 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { MessageSquareShare } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@mcp_router/ui";
+import {
+  DEFAULT_SERVER_REQUEST_POLICY,
+  MCPServer,
+  ServerRequestPolicy,
+} from "@mcp_router/shared";
+
+interface ServerDetailsServerRequestsProps {
+  server: MCPServer;
+  isEditing: boolean;
+  editedServerRequestPolicy: ServerRequestPolicy;
+  setEditedServerRequestPolicy?: (policy: ServerRequestPolicy) => void;
+}
+
+const ServerDetailsServerRequests: React.FC<
+  ServerDetailsServerRequestsProps
+> = ({
+  server,
+  isEditing,
+  editedServerRequestPolicy,
+  setEditedServerRequestPolicy,
+}) => {
+  const { t } = useTranslation();
+  const policy = isEditing
+    ? editedServerRequestPolicy
+    : server.serverRequestPolicy || DEFAULT_SERVER_REQUEST_POLICY;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2">
+        <MessageSquareShare className="h-5 w-5 text-muted-foreground mt-0.5" />
+        <div className="flex-1 space-y-4">
+          <div className="space-y-1">
+            <h3 className="text-sm font-medium leading-none">
+              {t("serverDetails.serverRequestPolicy")}
+            </h3>
+            <p className="text-xs text-muted-foreground">
+              {t("serverDetails.serverRequestPolicyDescription")}
+            </p>
+          </div>
+
+          <Select
+            value={policy}
+            onValueChange={(value: ServerRequestPolicy) =>
+              setEditedServerRequestPolicy?.(value)
+            }
+            disabled={!isEditing}
+          >
+            <SelectTrigger id="server-request-policy" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ask">
+                {t("serverDetails.serverRequestPolicyAsk")}
+              </SelectItem>
+              <SelectItem value="allow">
+                {t("serverDetails.serverRequestPolicyAllow")}
+              </SelectItem>
+              <SelectItem value="deny">
+                {t("serverDetails.serverRequestPolicyDeny")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServerDetailsServerRequests;
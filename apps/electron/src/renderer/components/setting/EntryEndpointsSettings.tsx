@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Button,
+  Checkbox,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@mcp_router/ui";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import {
+  ENTRY_ENDPOINT_NAME_PATTERN,
+  type EntryEndpointConfig,
+  type MCPServer,
+} from "@mcp_router/shared";
+import { useProjectStore, useServerStore } from "@/renderer/stores";
+
+interface EntryEndpointsSettingsProps {
+  value: EntryEndpointConfig[];
+  onSave: (value: EntryEndpointConfig[]) => void;
+  port: number;
+  disabled?: boolean;
+}
+
+// Select items cannot have an empty value
+const NO_PROJECT = "__none__";
+
+const EntryEndpointsSettings: React.FC<EntryEndpointsSettingsProps> = ({
+  value,
+  onSave,
+  port,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const { servers } = useServerStore();
+  const { projects, list: listProjects } = useProjectStore();
+  const [drafts, setDrafts] = useState<EntryEndpointConfig[]>(value);
+
+  useEffect(() => {
+    setDrafts(value);
+  }, [value]);
+
+  useEffect(() => {
+    listProjects().catch(() => {});
+  }, [listProjects]);
+
+  const sortedServers = useMemo<MCPServer[]>(
+    () => [...servers].sort((a, b) => a.name.localeCompare(b.name)),
+    [servers],
+  );
+
+  const getNameError = (name: string, index: number): string | null => {
+    if (!ENTRY_ENDPOINT_NAME_PATTERN.test(name)) {
+      return t("settings.entryEndpointNameInvalid");
+    }
+    if (drafts.some((draft, i) => i !== index && draft.name === name)) {
+      return t("settings.entryEndpointNameDuplicate");
+    }
+    return null;
+  };
+
+  const hasErrors = drafts.some(
+    (draft, index) => getNameError(draft.name, index) !== null,
+  );
+  const isDirty = JSON.stringify(drafts) !== JSON.stringify(value);
+
+  const updateDraft = (
+    index: number,
+    changes: Partial<EntryEndpointConfig>,
+  ) => {
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)),
+    );
+  };
+
+  const toggleServer = (index: number, serverId: string, checked: boolean) => {
+    const serverIds = drafts[index].serverIds.filter((id) => id !== serverId);
+    updateDraft(index, {
+      serverIds: checked ? [...serverIds, serverId] : serverIds,
+    });
+  };
+
+  const addEndpoint = () => {
+    let suffix = drafts.length + 1;
+    while (drafts.some((draft) => draft.name === `endpoint-${suffix}`)) {
+      suffix++;
+    }
+    setDrafts([...drafts, { name: `endpoint-${suffix}`, serverIds: [] }]);
+  };
+
+  const removeEndpoint = (index: number) => {
+    setDrafts(drafts.filter((_, i) => i !== index));
+  };
+
+  const save = () => {
+    onSave(
+      drafts.map((draft) => ({
+        ...draft,
+        description: draft.description?.trim() || undefined,
+        skillTemplate: draft.skillTemplate?.trim()
+          ? draft.skillTemplate
+          : undefined,
+      })),
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label className="text-sm font-medium">
+          {t("settings.entryEndpoints")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("settings.entryEndpointsDescription")}
+        </p>
+      </div>
+
+      {drafts.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          {t("settings.entryEndpointsEmpty")}
+        </p>
+      )}
+
+      {drafts.map((draft, index) => {
+        const nameError = getNameError(draft.name, index);
+        return (
+          <div key={index} className="space-y-3 rounded-md border p-3">
+            <div className="flex items-start gap-2">
+              <div className="flex-1 space-y-1">
+                <label className="text-xs font-medium">
+                  {t("settings.entryEndpointName")}
+                </label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  disabled={disabled}
+                />
+                {nameError ? (
+                  <p className="text-xs text-destructive">{nameError}</p>
+                ) : (
+                  <p className="font-mono text-xs text-muted-foreground">
+                    {`http://localhost:${port}/mcp/e/${draft.name}`}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-5"
+                onClick={() => removeEndpoint(index)}
+                disabled={disabled}
+              >
+                <IconTrash className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">
+                {t("settings.entryEndpointDescriptionLabel")}
+              </label>
+              <Textarea
+                value={draft.description ?? ""}
+                onChange={(e) =>
+                  updateDraft(index, { description: e.target.value })
+                }
+                placeholder={t("settings.entryEndpointDescriptionPlaceholder")}
+                rows={2}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">
+                {t("settings.entryEndpointServers")}
+              </label>
+              <div className="max-h-40 space-y-1 overflow-y-auto rounded border p-2">
+                {sortedServers.map((server) => (
+                  <div key={server.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`entry-endpoint-${index}-${server.id}`}
+                      checked={draft.serverIds.includes(server.id)}
+                      onCheckedChange={(checked) =>
+                        toggleServer(index, server.id, !!checked)
+                      }
+                      disabled={disabled}
+                    />
+                    <label
+                      htmlFor={`entry-endpoint-${index}-${server.id}`}
+                      className="text-xs"
+                    >
+                      {server.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">
+                {t("settings.entryEndpointProject")}
+              </label>
+              <Select
+                value={draft.projectId ?? NO_PROJECT}
+                onValueChange={(projectId) =>
+                  updateDraft(index, {
+                    projectId: projectId === NO_PROJECT ? undefined : projectId,
+                  })
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PROJECT}>
+                    {t("settings.entryEndpointNoProject")}
+                  </SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {t("settings.entryEndpointProjectDescription")}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium">
+                {t("settings.entryEndpointSkillTemplate")}
+              </label>
+              <Textarea
+                value={draft.skillTemplate ?? ""}
+                onChange={(e) =>
+                  updateDraft(index, { skillTemplate: e.target.value })
+                }
+                placeholder={t(
+                  "settings.entryEndpointSkillTemplatePlaceholder",
+                )}
+                rows={3}
+                className="font-mono text-xs"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-between gap-2">
+        <Button
+          variant="outline"
+          onClick={addEndpoint}
+          disabled={disabled}
+          className="gap-1"
+        >
+          <IconPlus className="h-4 w-4" />
+          {t("settings.addEntryEndpoint")}
+        </Button>
+        <Button onClick={save} disabled={disabled || !isDirty || hasErrors}>
+          {t("common.save")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EntryEndpointsSettings;
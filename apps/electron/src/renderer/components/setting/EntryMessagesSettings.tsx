@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@mcp_router/ui";
+import {
+  ENTRY_META_TOOL_NAMES,
+  type EntryMessageLocale,
+  type EntryMetaToolName,
+} from "@mcp_router/shared";
+
+interface EntryMessagesSettingsProps {
+  locale: EntryMessageLocale;
+  toolDescriptions: Record<string, string>;
+  onLocaleChange: (locale: EntryMessageLocale) => void;
+  onToolDescriptionsChange: (value: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+const EntryMessagesSettings: React.FC<EntryMessagesSettingsProps> = ({
+  locale,
+  toolDescriptions,
+  onLocaleChange,
+  onToolDescriptionsChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const [toolName, setToolName] = useState<EntryMetaToolName>(
+    ENTRY_META_TOOL_NAMES[0],
+  );
+  const [draft, setDraft] = useState<string>("");
+
+  useEffect(() => {
+    setDraft(toolDescriptions[toolName] ?? "");
+  }, [toolName, toolDescriptions]);
+
+  const saveDescription = () => {
+    const rest = { ...toolDescriptions };
+    delete rest[toolName];
+    onToolDescriptionsChange(
+      draft.trim() ? { ...rest, [toolName]: draft } : rest,
+    );
+  };
+
+  const resetDescription = () => {
+    const rest = { ...toolDescriptions };
+    delete rest[toolName];
+    onToolDescriptionsChange(rest);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">
+          {t("settings.entryMessageLocale")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("settings.entryMessageLocaleDescription")}
+        </p>
+        <Select
+          value={locale}
+          onValueChange={(value: EntryMessageLocale) => onLocaleChange(value)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="en">English</SelectItem>
+            <SelectItem value="ja">日本語</SelectItem>
+            <SelectItem value="zh">中文</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">
+          {t("settings.entryToolDescriptions")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("settings.entryToolDescriptionsDescription")}
+        </p>
+        <Select
+          value={toolName}
+          onValueChange={(value: EntryMetaToolName) => setToolName(value)}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENTRY_META_TOOL_NAMES.map((name) => (
+              <SelectItem key={name} value={name}>
+                {toolDescriptions[name]
+                  ? t("settings.entryToolDescriptionCustomized", { name })
+                  : name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t("settings.entryToolDescriptionPlaceholder")}
+          rows={5}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+        <div className="flex justify-end gap-2">
+          {toolDescriptions[toolName] && (
+            <Button
+              variant="outline"
+              onClick={resetDescription}
+              disabled={disabled}
+            >
+              {t("settings.entryToolDescriptionReset")}
+            </Button>
+          )}
+          <Button
+            onClick={saveDescription}
+            disabled={disabled || draft === (toolDescriptions[toolName] ?? "")}
+          >
+            {t("common.save")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryMessagesSettings;
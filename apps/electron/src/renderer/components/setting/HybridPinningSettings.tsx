@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@mcp_router/ui";
+import { IconPlus, IconX } from "@tabler/icons-react";
+import type {
+  HybridEndpointSettings,
+  MCPServer,
+  ToolPinningConfig,
+} from "@mcp_router/shared";
+import { useProjectStore, useServerStore } from "@/renderer/stores";
+import { usePlatformAPI } from "@/renderer/platform-api";
+
+interface HybridPinningSettingsProps {
+  value: HybridEndpointSettings;
+  onChange: (value: HybridEndpointSettings) => void;
+  disabled?: boolean;
+}
+
+// Scope values: "default", "client:<clientId>" or "project:<projectId>"
+const DEFAULT_SCOPE = "default";
+
+const HybridPinningSettings: React.FC<HybridPinningSettingsProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const platformAPI = usePlatformAPI();
+  const { servers } = useServerStore();
+  const { projects, list: listProjects } = useProjectStore();
+  const [clientIds, setClientIds] = useState<string[]>([]);
+  const [scope, setScope] = useState<string>(DEFAULT_SCOPE);
+  const [serverName, setServerName] = useState<string>("");
+  const [toolName, setToolName] = useState<string>("");
+
+  useEffect(() => {
+    // Tokens are issued per app, with the lower-cased app name as client ID
+    platformAPI.apps
+      .list()
+      .then((apps) => setClientIds(apps.map((app) => app.name.toLowerCase())))
+      .catch((error) => console.error("Failed to load apps:", error));
+    listProjects().catch(() => {});
+  }, [platformAPI, listProjects]);
+
+  const separator = scope.indexOf(":");
+  const scopeKind = separator < 0 ? DEFAULT_SCOPE : scope.slice(0, separator);
+  const scopeId = separator < 0 ? "" : scope.slice(separator + 1);
+  const overrides =
+    scopeKind === "client"
+      ? value.clients
+      : scopeKind === "project"
+        ? value.projects
+        : undefined;
+  const override = overrides?.[scopeId];
+  const config: ToolPinningConfig = override ?? value.default;
+
+  const updateConfig = (next: ToolPinningConfig) => {
+    if (scopeKind === "client") {
+      onChange({ ...value, clients: { ...value.clients, [scopeId]: next } });
+    } else if (scopeKind === "project") {
+      onChange({ ...value, projects: { ...value.projects, [scopeId]: next } });
+    } else {
+      onChange({ ...value, default: next });
+    }
+  };
+
+  const resetToDefault = () => {
+    const key = scopeKind === "client" ? "clients" : "projects";
+    const rest = { ...value[key] };
+    delete rest[scopeId];
+    onChange({ ...value, [key]: rest });
+  };
+
+  const serversWithTools = useMemo<MCPServer[]>(
+    () => servers.filter((server) => (server.tools?.length ?? 0) > 0),
+    [servers],
+  );
+  const selectableTools =
+    serversWithTools
+      .find((server) => server.name === serverName)
+      ?.tools?.filter(
+        (tool) =>
+          !config.tools.some(
+            (pinned) =>
+              pinned.serverName === serverName && pinned.toolName === tool.name,
+          ),
+      ) ?? [];
+
+  const addTool = () => {
+    if (!serverName || !toolName) {
+      return;
+    }
+    updateConfig({
+      ...config,
+      tools: [...config.tools, { serverName, toolName }],
+    });
+    setToolName("");
+  };
+
+  const removeTool = (index: number) => {
+    updateConfig({
+      ...config,
+      tools: config.tools.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-1">
+        <label className="text-sm font-medium">
+          {t("settings.hybridPinnedTools")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("settings.hybridPinnedToolsDescription")}
+        </p>
+      </div>
+
+      {/* Scope */}
+      <div className="flex items-center gap-2">
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SCOPE}>
+              {t("settings.hybridScopeDefault")}
+            </SelectItem>
+            {clientIds.map((clientId) => (
+              <SelectItem key={clientId} value={`client:${clientId}`}>
+                {t("settings.hybridScopeClient", { name: clientId })}
+              </SelectItem>
+            ))}
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={`project:${project.id}`}>
+                {t("settings.hybridScopeProject", { name: project.name })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {override && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={resetToDefault}
+            disabled={disabled}
+          >
+            {t("settings.hybridResetToDefault")}
+          </Button>
+        )}
+      </div>
+      {scopeKind !== DEFAULT_SCOPE && !override && (
+        <p className="text-xs text-muted-foreground">
+          {t("settings.hybridUsesDefault")}
+        </p>
+      )}
+
+      {/* Auto pin */}
+      <div className="space-y-1">
+        <label className="text-sm font-medium">
+          {t("settings.hybridAutoPinCount")}
+        </label>
+        <Input
+          type="number"
+          min={0}
+          max={50}
+          value={config.autoPinCount}
+          onChange={(e) =>
+            updateConfig({
+              ...config,
+              autoPinCount: Math.max(0, parseInt(e.target.value, 10) || 0),
+            })
+          }
+          disabled={disabled}
+          className="w-32"
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("settings.hybridAutoPinCountDescription")}
+        </p>
+      </div>
+
+      {/* Pinned tools */}
+      <div className="space-y-1">
+        {config.tools.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {t("settings.hybridNoPinnedTools")}
+          </p>
+        ) : (
+          config.tools.map((pinned, index) => (
+            <div
+              key={`${pinned.serverName}/${pinned.toolName}`}
+              className="flex items-center justify-between rounded border px-2 py-1 text-xs"
+            >
+              <span className="font-mono">
+                {pinned.serverName} / {pinned.toolName}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => removeTool(index)}
+                disabled={disabled}
+              >
+                <IconX className="h-3 w-3" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Select
+          value={serverName}
+          onValueChange={(name) => {
+            setServerName(name);
+            setToolName("");
+          }}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder={t("settings.hybridSelectServer")} />
+          </SelectTrigger>
+          <SelectContent>
+            {serversWithTools.map((server) => (
+              <SelectItem key={server.id} value={server.name}>
+                {server.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={toolName}
+          onValueChange={setToolName}
+          disabled={!serverName}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder={t("settings.hybridSelectTool")} />
+          </SelectTrigger>
+          <SelectContent>
+            {selectableTools.map((tool) => (
+              <SelectItem key={tool.name} value={tool.name}>
+                {tool.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={addTool}
+          disabled={disabled || !serverName || !toolName}
+          className="gap-1"
+        >
+          <IconPlus className="h-4 w-4" />
+          {t("settings.hybridAddTool")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HybridPinningSettings;
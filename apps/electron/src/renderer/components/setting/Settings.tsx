@@ -15,8 +15,22 @@ import { Input } from "@mcp_router/ui";
 import { useThemeStore } from "@/renderer/stores";
 import { IconCheck, IconX } from "@tabler/icons-react";
 import { electronPlatformAPI as platformAPI } from "../../platform-api/electron-platform-api";
-import type { AIConfig, MCPEndpointMode } from "@mcp_router/shared";
-import { DEFAULT_AI_CONFIG } from "@mcp_router/shared";
+import type {
+  AIConfig,
+  EntryEndpointConfig,
+  EntryMessageLocale,
+  HybridEndpointSettings,
+  MCPEndpointMode,
+  ToolNameCollision,
+  ToolNamingStrategy,
+} from "@mcp_router/shared";
+import {
+  DEFAULT_AI_CONFIG,
+  DEFAULT_HYBRID_ENDPOINT_SETTINGS,
+} from "@mcp_router/shared";
+import HybridPinningSettings from "./HybridPinningSettings";
+import EntryEndpointsSettings from "./EntryEndpointsSettings";
+import EntryMessagesSettings from "./EntryMessagesSettings";
 
 const Settings: React.FC = () => {
   const { t, i18n } = useTranslation();
@@ -25,6 +39,24 @@ const Settings: React.FC = () => {
   const [openAtLogin, setOpenAtLogin] = useState<boolean>(false);
   const [showWindowOnStartup, setShowWindowOnStartup] = useState<boolean>(true);
   const [mcpEndpointMode, setMcpEndpointMode] = useState<MCPEndpointMode>("entry");
+  const [hybridEndpoint, setHybridEndpoint] = useState<HybridEndpointSettings>(
+    DEFAULT_HYBRID_ENDPOINT_SETTINGS,
+  );
+  const [entryEndpoints, setEntryEndpoints] = useState<EntryEndpointConfig[]>(
+    [],
+  );
+  const [entryMessageLocale, setEntryMessageLocale] =
+    useState<EntryMessageLocale>("en");
+  const [entryToolDescriptions, setEntryToolDescriptions] = useState<
+    Record<string, string>
+  >({});
+  const [mcpStatelessHttp, setMcpStatelessHttp] = useState<boolean>(false);
+  const [coerceToolArguments, setCoerceToolArguments] =
+    useState<boolean>(false);
+  const [toolNamingStrategy, setToolNamingStrategy] =
+    useState<ToolNamingStrategy>("prefix-on-collision");
+  const [serverAutoRestartLimit, setServerAutoRestartLimit] =
+    useState<number>(3);
   const [isSavingSettings, setIsSavingSettings] = useState(false);
 
   // AI Configuration State
@@ -42,6 +74,8 @@ const Settings: React.FC = () => {
     isRunning: boolean;
     endpointMode?: MCPEndpointMode;
     endpoints: { path: string; description: string }[];
+    toolNamingStrategy?: ToolNamingStrategy;
+    toolNameCollisions?: ToolNameCollision[];
   } | null>(null);
 
   // Zustand stores
@@ -70,6 +104,18 @@ const Settings: React.FC = () => {
         setOpenAtLogin(settings.openAtLogin ?? false);
         setShowWindowOnStartup(settings.showWindowOnStartup ?? true);
         setMcpEndpointMode(settings.mcpEndpointMode ?? "entry");
+        setHybridEndpoint(
+          settings.hybridEndpoint ?? DEFAULT_HYBRID_ENDPOINT_SETTINGS,
+        );
+        setEntryEndpoints(settings.entryEndpoints ?? []);
+        setEntryMessageLocale(settings.entryMessageLocale ?? "en");
+        setEntryToolDescriptions(settings.entryToolDescriptions ?? {});
+        setMcpStatelessHttp(settings.mcpStatelessHttp ?? false);
+        setCoerceToolArguments(settings.coerceToolArguments ?? false);
+        setToolNamingStrategy(
+          settings.toolNamingStrategy ?? "prefix-on-collision",
+        );
+        setServerAutoRestartLimit(settings.serverAutoRestartLimit ?? 3);
       } catch {
         // Ignore error and use default value
         console.log("Failed to load settings, using defaults");
@@ -124,6 +170,26 @@ const Settings: React.FC = () => {
     }
   };
 
+  // Handle auto restart limit change
+  const handleServerAutoRestartLimitChange = async (limit: number) => {
+    const previousLimit = serverAutoRestartLimit;
+    setServerAutoRestartLimit(limit);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        serverAutoRestartLimit: limit,
+      });
+    } catch (error) {
+      console.error("Failed to save auto restart limit:", error);
+      setServerAutoRestartLimit(previousLimit);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   // Handle open at login toggle
   const handleOpenAtLoginToggle = async (checked: boolean) => {
     setOpenAtLogin(checked);
@@ -189,6 +255,150 @@ const Settings: React.FC = () => {
     }
   };
 
+  // Handle hybrid mode pinned tools change
+  const handleHybridEndpointChange = async (value: HybridEndpointSettings) => {
+    const previousValue = hybridEndpoint;
+    setHybridEndpoint(value);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        hybridEndpoint: value,
+      });
+    } catch (error) {
+      console.error("Failed to save hybrid endpoint settings:", error);
+      setHybridEndpoint(previousValue);
+    }
+  };
+
+  // Handle entry message language change
+  const handleEntryMessageLocaleChange = async (locale: EntryMessageLocale) => {
+    const previousLocale = entryMessageLocale;
+    setEntryMessageLocale(locale);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        entryMessageLocale: locale,
+      });
+    } catch (error) {
+      console.error("Failed to save entry message language:", error);
+      setEntryMessageLocale(previousLocale);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // Handle entry meta-tool description overrides change
+  const handleEntryToolDescriptionsChange = async (
+    value: Record<string, string>,
+  ) => {
+    const previousValue = entryToolDescriptions;
+    setEntryToolDescriptions(value);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        entryToolDescriptions: value,
+      });
+    } catch (error) {
+      console.error("Failed to save entry tool descriptions:", error);
+      setEntryToolDescriptions(previousValue);
+    }
+  };
+
+  // Handle named entry endpoints save
+  const handleEntryEndpointsSave = async (value: EntryEndpointConfig[]) => {
+    const previousValue = entryEndpoints;
+    setEntryEndpoints(value);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        entryEndpoints: value,
+      });
+      // Regenerate the per-endpoint skill files and the endpoint list
+      await window.electronAPI.manualSkillsSync();
+      const info = await window.electronAPI.getHttpServerInfo();
+      if (info) {
+        setHttpServerInfo(info);
+      }
+    } catch (error) {
+      console.error("Failed to save entry endpoints:", error);
+      setEntryEndpoints(previousValue);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // Handle stateless HTTP toggle
+  const handleStatelessHttpToggle = async (checked: boolean) => {
+    setMcpStatelessHttp(checked);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        mcpStatelessHttp: checked,
+      });
+    } catch (error) {
+      console.error("Failed to save stateless HTTP setting:", error);
+      // Revert on error
+      setMcpStatelessHttp(!checked);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // Handle tool argument coercion toggle
+  const handleCoerceToolArgumentsToggle = async (checked: boolean) => {
+    setCoerceToolArguments(checked);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        coerceToolArguments: checked,
+      });
+    } catch (error) {
+      console.error("Failed to save tool argument coercion setting:", error);
+      // Revert on error
+      setCoerceToolArguments(!checked);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  // Handle tool naming strategy change
+  const handleToolNamingStrategyChange = async (
+    strategy: ToolNamingStrategy,
+  ) => {
+    const previousStrategy = toolNamingStrategy;
+    setToolNamingStrategy(strategy);
+    setIsSavingSettings(true);
+
+    try {
+      const currentSettings = await platformAPI.settings.get();
+      await platformAPI.settings.save({
+        ...currentSettings,
+        toolNamingStrategy: strategy,
+      });
+    } catch (error) {
+      console.error("Failed to save tool naming strategy:", error);
+      setToolNamingStrategy(previousStrategy);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   // Handle AI config changes
   const handleAIConfigChange = (field: keyof AIConfig, value: string | boolean) => {
     setAiConfig((prev) => ({ ...prev, [field]: value }));
@@ -325,8 +535,120 @@ const Settings: React.FC = () => {
                   <SelectItem value="aggregator">
                     {t("settings.mcpEndpointModeAggregator")}
                   </SelectItem>
+                  <SelectItem value="hybrid">
+                    {t("settings.mcpEndpointModeHybrid")}
+                  </SelectItem>
                 </SelectContent>
               </Select>
+              {mcpEndpointMode === "hybrid" && (
+                <HybridPinningSettings
+                  value={hybridEndpoint}
+                  onChange={handleHybridEndpointChange}
+                  disabled={isSavingSettings}
+                />
+              )}
+            </div>
+
+            {/* Entry Messages */}
+            {mcpEndpointMode !== "aggregator" && (
+              <EntryMessagesSettings
+                locale={entryMessageLocale}
+                toolDescriptions={entryToolDescriptions}
+                onLocaleChange={handleEntryMessageLocaleChange}
+                onToolDescriptionsChange={handleEntryToolDescriptionsChange}
+                disabled={isSavingSettings}
+              />
+            )}
+
+            {/* Named Entry Endpoints */}
+            <EntryEndpointsSettings
+              value={entryEndpoints}
+              onSave={handleEntryEndpointsSave}
+              port={httpServerInfo.port}
+              disabled={isSavingSettings}
+            />
+
+            {/* Stateless HTTP */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <label className="text-sm font-medium">
+                  {t("settings.mcpStatelessHttp")}
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  {t("settings.mcpStatelessHttpDescription")}
+                </p>
+              </div>
+              <Switch
+                checked={mcpStatelessHttp}
+                onCheckedChange={handleStatelessHttpToggle}
+                disabled={isSavingSettings}
+              />
+            </div>
+
+            {/* Tool Argument Coercion */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <label className="text-sm font-medium">
+                  {t("settings.coerceToolArguments")}
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  {t("settings.coerceToolArgumentsDescription")}
+                </p>
+              </div>
+              <Switch
+                checked={coerceToolArguments}
+                onCheckedChange={handleCoerceToolArgumentsToggle}
+                disabled={isSavingSettings}
+              />
+            </div>
+
+            {/* Tool Naming Strategy */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">
+                {t("settings.toolNamingStrategy")}
+              </label>
+              <p className="text-xs text-muted-foreground">
+                {t("settings.toolNamingStrategyDescription")}
+              </p>
+              <Select
+                value={toolNamingStrategy}
+                onValueChange={(value: ToolNamingStrategy) =>
+                  handleToolNamingStrategyChange(value)
+                }
+                disabled={isSavingSettings}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="prefix-on-collision">
+                    {t("settings.toolNamingStrategyPrefixOnCollision")}
+                  </SelectItem>
+                  <SelectItem value="prefix">
+                    {t("settings.toolNamingStrategyPrefix")}
+                  </SelectItem>
+                  <SelectItem value="raw">
+                    {t("settings.toolNamingStrategyRaw")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              {httpServerInfo.toolNameCollisions &&
+                httpServerInfo.toolNameCollisions.length > 0 && (
+                  <div className="rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-1">
+                    <p className="text-xs font-medium">
+                      {t("settings.toolNameCollisions")}
+                    </p>
+                    {httpServerInfo.toolNameCollisions.map((collision) => (
+                      <div key={collision.toolName} className="text-xs">
+                        <code className="font-mono">{collision.toolName}</code>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          ({collision.serverNames.join(", ")})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
             </div>
 
             {/* Server URL */}
@@ -440,6 +762,24 @@ const Settings: React.FC = () => {
             </p>
           </div>
 
+          {/* Embedding Model */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              {t("aiConfig.embeddingModel")}
+            </label>
+            <Input
+              value={aiConfig.embeddingModel || ""}
+              onChange={(e) =>
+                handleAIConfigChange("embeddingModel", e.target.value)
+              }
+              placeholder={t("aiConfig.embeddingModelPlaceholder")}
+              disabled={!aiConfig.enabled}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("aiConfig.embeddingModelHelp")}
+            </p>
+          </div>
+
           {/* Connection Test Result */}
           {connectionTestResult && (
             <div
@@ -507,6 +847,37 @@ const Settings: React.FC = () => {
               disabled={isSavingSettings}
             />
           </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <label className="text-sm font-medium">
+                {t("settings.serverAutoRestartLimit")}
+              </label>
+              <p className="text-xs text-muted-foreground">
+                {t("settings.serverAutoRestartLimitDescription")}
+              </p>
+            </div>
+            <Select
+              value={String(serverAutoRestartLimit)}
+              onValueChange={(value) =>
+                handleServerAutoRestartLimitChange(Number(value))
+              }
+              disabled={isSavingSettings}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">
+                  {t("settings.serverAutoRestartDisabled")}
+                </SelectItem>
+                {[1, 3, 5, 10].map((limit) => (
+                  <SelectItem key={limit} value={String(limit)}>
+                    {t("settings.serverAutoRestartTimes", { count: limit })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <label className="text-sm font-medium">
@@ -70,6 +70,7 @@ const SkillsPage: React.FC = () => {
     preview = preview.replace(/\{\{generatedAt\}\}/g, new Date().toISOString());
     preview = preview.replace(/\{\{version\}\}/g, "1.0.0");
     preview = preview.replace(/\{\{serverCount\}\}/g, "3");
+    preview = preview.replace(/\{\{endpointPath\}\}/g, "/mcp");
     preview = preview.replace(
       /\{\{servers\}\}/g,
       `## filesystem
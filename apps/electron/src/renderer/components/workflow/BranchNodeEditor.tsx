@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import {
+  WorkflowNode,
+  WorkflowCondition,
+  WorkflowSwitch,
+  WorkflowSwitchCase,
+} from "@mcp_router/shared";
+import { Button, Input, Label } from "@mcp_router/ui";
+import { Check, Plus, Trash2, X } from "lucide-react";
+
+interface BranchNodeEditorProps {
+  node: WorkflowNode;
+  onApply: (data: {
+    label: string;
+    condition?: WorkflowCondition;
+    switch?: WorkflowSwitch;
+  }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Editor panel for condition and switch nodes
+ */
+export default function BranchNodeEditor({
+  node,
+  onApply,
+  onCancel,
+}: BranchNodeEditorProps) {
+  const isSwitch = node.type === "switch";
+  const [label, setLabel] = useState<string>(node.data?.label || "");
+  const [expression, setExpression] = useState<string>(
+    (isSwitch
+      ? node.data?.switch?.expression
+      : node.data?.condition?.expression) || "",
+  );
+  const [cases, setCases] = useState<WorkflowSwitchCase[]>(
+    node.data?.switch?.cases ?? [],
+  );
+
+  const updateCase = (id: string, value: string) => {
+    setCases(cases.map((c) => (c.id === id ? { ...c, value } : c)));
+  };
+
+  const handleApply = () => {
+    if (isSwitch) {
+      onApply({ label, switch: { expression, cases } });
+    } else {
+      onApply({ label, condition: { expression } });
+    }
+  };
+
+  return (
+    <div className="p-4 border-t bg-gray-50 dark:bg-gray-900">
+      <div className="flex justify-between items-center mb-4">
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className="w-64"
+          placeholder={isSwitch ? "Enter switch name" : "Enter condition name"}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onCancel}>
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+          <Button size="sm" variant="default" onClick={handleApply}>
+            <Check className="w-3 h-3 mr-1" />
+            Apply
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="branch-expression" className="text-sm font-medium">
+            Expression
+          </Label>
+          <Input
+            id="branch-expression"
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            className="mt-1 font-mono"
+            placeholder={
+              isSwitch ? "serverName" : 'toolName.startsWith("delete_")'
+            }
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            JavaScript expression using method, toolName, serverName, clientId,
+            args and params.{" "}
+            {isSwitch
+              ? "The result is compared with each case value as a string."
+              : "A truthy result takes the True branch."}
+          </p>
+        </div>
+
+        {isSwitch && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Cases</Label>
+            {cases.map((c) => (
+              <div key={c.id} className="flex gap-2">
+                <Input
+                  value={c.value}
+                  onChange={(e) => updateCase(c.id, e.target.value)}
+                  className="font-mono"
+                  placeholder="Value"
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setCases(cases.filter((x) => x.id !== c.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setCases([...cases, { id: `case-${Date.now()}`, value: "" }])
+              }
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Case
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
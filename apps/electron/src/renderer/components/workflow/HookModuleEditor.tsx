@@ -15,7 +15,7 @@ interface HookModuleEditorProps {
 export default function HookModuleEditor({
   value,
   onChange,
-  placeholder = "// Write your hook module code here...",
+  placeholder = "// Write your hook module code here...\n// Return { params } before the MCP call or { response } after it to modify the request\n// Blocking hooks can return { deny: true, reason } to reject it",
   height = "400px",
   readOnly = false,
 }: HookModuleEditorProps) {
@@ -15,14 +15,29 @@ import {
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import {
+  WORKFLOW_LIFECYCLE_TYPES,
+  WORKFLOW_REQUEST_TYPES,
+  WORKFLOW_SWITCH_DEFAULT_HANDLE,
+  WorkflowType,
   WorkflowNode,
   WorkflowEdge,
   WorkflowDefinition,
   WorkflowHook,
+  WorkflowCondition,
+  WorkflowSwitch,
+  WorkflowScope,
   HookModule,
 } from "@mcp_router/shared";
 import { Button } from "@mcp_router/ui";
-import { Plus, Save, X, Check } from "lucide-react";
+import {
+  Plus,
+  Save,
+  X,
+  Check,
+  GitBranch,
+  Split,
+  SlidersHorizontal,
+} from "lucide-react";
 import {
   Input,
   Label,
@@ -35,10 +50,14 @@ import {
 import { usePlatformAPI } from "../../platform-api/hooks/use-platform-api";
 import HookModuleManager from "./HookModuleManager";
 import HookModuleEditor from "./HookModuleEditor";
+import BranchNodeEditor from "./BranchNodeEditor";
+import WorkflowScopeEditor from "./WorkflowScopeEditor";
 import StartNode from "./nodes/StartNode";
 import EndNode from "./nodes/EndNode";
 import MCPCallNode from "./nodes/MCPCallNode";
 import HookNode from "./nodes/HookNode";
+import ConditionNode from "./nodes/ConditionNode";
+import SwitchNode from "./nodes/SwitchNode";
 
 interface WorkflowEditorProps {
   workflow?: WorkflowDefinition;
@@ -51,6 +70,31 @@ const nodeTypes: NodeTypes = {
   start: StartNode as unknown as NodeTypes["start"],
   end: EndNode as unknown as NodeTypes["end"],
   "mcp-call": MCPCallNode as unknown as NodeTypes["mcp-call"],
+  condition: ConditionNode as unknown as NodeTypes["condition"],
+  switch: SwitchNode as unknown as NodeTypes["switch"],
+};
+
+const workflowTypeLabels: Record<WorkflowType, string> = {
+  "tools/list": "Tools List",
+  "tools/call": "Tools Call",
+  "resources/list": "Resources List",
+  "resources/read": "Resources Read",
+  "prompts/list": "Prompts List",
+  "prompts/get": "Prompts Get",
+  "server/start": "Server Start",
+  "server/stop": "Server Stop",
+  "server/error": "Server Error",
+};
+
+const isLifecycleType = (type: WorkflowType) =>
+  (WORKFLOW_LIFECYCLE_TYPES as readonly WorkflowType[]).includes(type);
+
+const defaultMcpCallNode: WorkflowNode = {
+  id: "mcp-call",
+  type: "mcp-call",
+  position: { x: 350, y: 200 },
+  data: { label: "MCP Call" },
+  deletable: false,
 };
 
 const defaultEdgeOptions = {
@@ -98,9 +142,12 @@ export default function WorkflowEditor({
     setModuleManagerOpen,
   } = useHookStore();
 
-  const [workflowType, setWorkflowType] = useState<"tools/list" | "tools/call">(
+  const [workflowType, setWorkflowType] = useState<WorkflowType>(
     workflow?.workflowType || "tools/list",
   );
+  const [priority, setPriority] = useState<number>(workflow?.priority ?? 0);
+  const [scope, setScope] = useState<WorkflowScope>(workflow?.scope ?? {});
+  const [showScope, setShowScope] = useState(false);
 
   // Initialize nodes and edges when workflow prop changes
   useEffect(() => {
@@ -132,6 +179,7 @@ export default function WorkflowEditor({
       const initialEdges: Edge[] = (workflow.edges || []).map((edge) => ({
         id: edge.id || `${edge.source}-${edge.target}`,
         source: edge.source,
+        sourceHandle: edge.sourceHandle,
         target: edge.target,
         type: edge.type || "default",
         animated: edge.animated,
@@ -246,7 +294,10 @@ export default function WorkflowEditor({
 
       const newEdge = {
         ...params,
-        id: `${params.source}-${params.target}`,
+        // Branch nodes can connect several handles to the same target
+        id: params.sourceHandle
+          ? `${params.source}-${params.sourceHandle}-${params.target}`
+          : `${params.source}-${params.target}`,
         type: "default",
         animated: true,
         markerEnd: {
@@ -320,6 +371,73 @@ export default function WorkflowEditor({
     [nodes.length, addNode],
   );
 
+  const addBranchNode = useCallback(
+    (type: "condition" | "switch") => {
+      const newNode: WorkflowNode = {
+        id: `${type}-${Date.now()}`,
+        type,
+        position: { x: 300, y: 100 + nodes.length * 50 },
+        data:
+          type === "condition"
+            ? { label: "Condition", condition: { expression: "" } }
+            : { label: "Switch", switch: { expression: "", cases: [] } },
+      };
+      addNode(newNode);
+    },
+    [nodes.length, addNode],
+  );
+
+  const applyBranchNode = useCallback(
+    (data: {
+      label: string;
+      condition?: WorkflowCondition;
+      switch?: WorkflowSwitch;
+    }) => {
+      if (!selectedNode) return;
+
+      setNodes(
+        nodes.map((node: WorkflowNode) =>
+          node.id === selectedNode.id
+            ? { ...node, data: { ...node.data, ...data } }
+            : node,
+        ),
+      );
+      // Drop edges from switch cases that were removed
+      if (data.switch) {
+        const handles = [
+          ...data.switch.cases.map((c) => c.id),
+          WORKFLOW_SWITCH_DEFAULT_HANDLE,
+        ];
+        setEdges(
+          edges.filter(
+            (edge) =>
+              edge.source !== selectedNode.id ||
+              handles.includes(edge.sourceHandle ?? ""),
+          ),
+        );
+      }
+      setSelectedNode(null);
+    },
+    [selectedNode, nodes, edges, setNodes, setEdges, setSelectedNode],
+  );
+
+  // Server events have no request to wrap, so their workflows go from Start
+  // straight to End without an MCP Call node
+  const handleWorkflowTypeChange = (type: WorkflowType) => {
+    const existing = nodes.find((n) => n.type === "mcp-call");
+    if (isLifecycleType(type) && existing) {
+      setNodes(nodes.filter((n) => n.id !== existing.id));
+      setEdges(
+        edges.filter(
+          (e) => e.source !== existing.id && e.target !== existing.id,
+        ),
+      );
+    } else if (!isLifecycleType(type) && !existing) {
+      setNodes([...nodes, { ...defaultMcpCallNode }]);
+    }
+    setWorkflowType(type);
+  };
+
   const createWorkflowDefinition = useCallback(
     (enabled = true): WorkflowDefinition => ({
       id: workflow?.id || `workflow-${Date.now()}`,
@@ -329,10 +447,15 @@ export default function WorkflowEditor({
       nodes: nodes as WorkflowNode[],
       edges: edges as WorkflowEdge[],
       enabled,
+      priority,
+      // Empty lists match everything, so only keep the ones that restrict
+      scope: Object.values(scope).some((values) => values?.length)
+        ? scope
+        : undefined,
       createdAt: workflow?.createdAt || Date.now(),
       updatedAt: Date.now(),
     }),
-    [nodes, edges, workflow, workflowType],
+    [nodes, edges, workflow, workflowType, priority, scope],
   );
 
   const handleSave = useCallback(() => {
@@ -355,14 +478,34 @@ export default function WorkflowEditor({
             className="px-3 py-1 border rounded-md dark:bg-gray-800 dark:border-gray-700"
             value={workflowType}
             onChange={(e) =>
-              setWorkflowType(e.target.value as "tools/list" | "tools/call")
+              handleWorkflowTypeChange(e.target.value as WorkflowType)
             }
           >
-            <option value="tools/list">Tools List</option>
-            <option value="tools/call">Tools Call</option>
+            <optgroup label="MCP Requests">
+              {WORKFLOW_REQUEST_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {workflowTypeLabels[type]}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Server Events">
+              {WORKFLOW_LIFECYCLE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {workflowTypeLabels[type]}
+                </option>
+              ))}
+            </optgroup>
           </select>
         </div>
         <div className="flex gap-2">
+          <Button
+            onClick={() => setShowScope(!showScope)}
+            variant={showScope ? "secondary" : "outline"}
+            size="sm"
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-1" />
+            Priority & Scope
+          </Button>
           <Button onClick={handleSave} variant="default" size="sm">
             <Save className="w-4 h-4 mr-1" />
             Save
@@ -370,6 +513,15 @@ export default function WorkflowEditor({
         </div>
       </div>
 
+      {showScope && (
+        <WorkflowScopeEditor
+          priority={priority}
+          scope={scope}
+          onPriorityChange={setPriority}
+          onScopeChange={setScope}
+        />
+      )}
+
       <div className="flex-1 relative">
         <ReactFlow
           nodes={nodes as Node[]}
@@ -408,6 +560,24 @@ export default function WorkflowEditor({
               <Plus className="w-4 h-4" />
               Fire-and-Forget Hook
             </Button>
+            <Button
+              onClick={() => addBranchNode("condition")}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-1"
+            >
+              <GitBranch className="w-4 h-4" />
+              Condition
+            </Button>
+            <Button
+              onClick={() => addBranchNode("switch")}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-1"
+            >
+              <Split className="w-4 h-4" />
+              Switch
+            </Button>
           </Panel>
         </ReactFlow>
       </div>
@@ -564,7 +734,10 @@ export default function WorkflowEditor({
                     onChange={(value) => setNodeScript(value)}
                     height="200px"
                     placeholder="// Enter JavaScript code here
-// context object is available with request and response data"
+// context object is available with request and response data
+// return { params } or { response } to modify them,
+// or { deny: true, reason } to reject the request
+// (server events only provide serverName and error)"
                   />
                 </div>
               </div>
@@ -573,6 +746,17 @@ export default function WorkflowEditor({
         </div>
       )}
 
+      {selectedNode &&
+        (selectedNode.type === "condition" ||
+          selectedNode.type === "switch") && (
+          <BranchNodeEditor
+            key={selectedNode.id}
+            node={selectedNode}
+            onApply={applyBranchNode}
+            onCancel={() => setSelectedNode(null)}
+          />
+        )}
+
       {/* Hook Module Manager Dialog */}
       <HookModuleManager
         open={moduleManagerOpen}
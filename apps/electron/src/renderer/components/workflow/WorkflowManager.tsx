@@ -1,14 +1,15 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { WorkflowDefinition, HookModule } from "@mcp_router/shared";
-import WorkflowEditor from "./WorkflowEditor";
 import {
-  Button,
-  Input,
-  Label,
-  RadioGroup,
-  RadioGroupItem,
-} from "@mcp_router/ui";
+  WORKFLOW_CONDITION_FALSE_HANDLE,
+  WORKFLOW_CONDITION_TRUE_HANDLE,
+  WORKFLOW_LIFECYCLE_TYPES,
+  WORKFLOW_SWITCH_DEFAULT_HANDLE,
+  WorkflowDefinition,
+  HookModule,
+} from "@mcp_router/shared";
+import WorkflowEditor from "./WorkflowEditor";
+import { Button, Input, Label, Switch } from "@mcp_router/ui";
 import { Card } from "@mcp_router/ui";
 import {
   Plus,
@@ -107,12 +108,23 @@ export default function WorkflowManager() {
     const endNode = nodes.find((n) => n.type === "end");
     const mcpCallNode = nodes.find((n) => n.type === "mcp-call");
 
+    // サーバーイベントのWorkflowは MCP Call を持たない
+    const isLifecycle = (
+      WORKFLOW_LIFECYCLE_TYPES as readonly string[]
+    ).includes(workflow.workflowType);
+
     if (!startNode) {
       return { isValid: false, reason: "Start node is missing" };
     }
-    if (!mcpCallNode) {
+    if (!mcpCallNode && !isLifecycle) {
       return { isValid: false, reason: "MCP Call node is missing" };
     }
+    if (mcpCallNode && isLifecycle) {
+      return {
+        isValid: false,
+        reason: "Server event workflows cannot have an MCP Call node",
+      };
+    }
     if (!endNode) {
       return { isValid: false, reason: "End node is missing" };
     }
@@ -136,14 +148,59 @@ export default function WorkflowManager() {
       return false;
     };
 
-    // Start -> MCP Call のパス確認
-    if (!hasPath(startNode.id, mcpCallNode.id)) {
-      return { isValid: false, reason: "No path from Start to MCP Call" };
+    if (!mcpCallNode) {
+      // Start -> End のパス確認
+      if (!hasPath(startNode.id, endNode.id)) {
+        return { isValid: false, reason: "No path from Start to End" };
+      }
+    } else {
+      // Start -> MCP Call のパス確認
+      if (!hasPath(startNode.id, mcpCallNode.id)) {
+        return { isValid: false, reason: "No path from Start to MCP Call" };
+      }
+
+      // MCP Call -> End のパス確認
+      if (!hasPath(mcpCallNode.id, endNode.id)) {
+        return { isValid: false, reason: "No path from MCP Call to End" };
+      }
     }
 
-    // MCP Call -> End のパス確認
-    if (!hasPath(mcpCallNode.id, endNode.id)) {
-      return { isValid: false, reason: "No path from MCP Call to End" };
+    // 分岐ノードの確認（MCP Call より前の分岐はすべてMCP Callに到達する必要がある）
+    for (const node of nodes) {
+      if (node.type !== "condition" && node.type !== "switch") continue;
+
+      const name = node.data?.label || node.id;
+      const expression =
+        node.type === "condition"
+          ? node.data?.condition?.expression
+          : node.data?.switch?.expression;
+      if (!expression?.trim()) {
+        return { isValid: false, reason: `${name} has no expression` };
+      }
+
+      if (!mcpCallNode || !hasPath(node.id, mcpCallNode.id)) continue;
+      const handles =
+        node.type === "condition"
+          ? [WORKFLOW_CONDITION_TRUE_HANDLE, WORKFLOW_CONDITION_FALSE_HANDLE]
+          : [
+              ...(node.data?.switch?.cases ?? []).map((c) => c.id),
+              WORKFLOW_SWITCH_DEFAULT_HANDLE,
+            ];
+      const unconnected = handles.some(
+        (handle) =>
+          !edges.some(
+            (e) =>
+              e.source === node.id &&
+              e.sourceHandle === handle &&
+              hasPath(e.target, mcpCallNode.id),
+          ),
+      );
+      if (unconnected) {
+        return {
+          isValid: false,
+          reason: `A branch of ${name} does not lead to MCP Call`,
+        };
+      }
     }
 
     return { isValid: true };
@@ -186,33 +243,20 @@ export default function WorkflowManager() {
     }
   };
 
-  const handleSetActiveWorkflow = async (
-    workflowId: string | null,
-    workflowType: string,
-  ) => {
+  const handleToggleWorkflow = async (workflowId: string, enabled: boolean) => {
     try {
-      if (workflowId) {
+      if (enabled) {
         await platformAPI.workflows.workflows.setActive(workflowId);
       } else {
-        // 指定されたタイプの全てのワークフローを無効化
-        const activeWorkflow = workflows.find(
-          (w) => w.workflowType === workflowType && w.enabled,
-        );
-        if (activeWorkflow) {
-          await platformAPI.workflows.workflows.disable(activeWorkflow.id);
-        }
+        await platformAPI.workflows.workflows.disable(workflowId);
       }
       // ローカルのstateを直接更新して再レンダリングを最小限にする
-      workflows.forEach((w) => {
-        if (w.workflowType === workflowType) {
-          updateWorkflow(w.id, { enabled: w.id === workflowId });
-        }
-      });
+      updateWorkflow(workflowId, { enabled });
     } catch (error: any) {
-      console.error("Failed to set active workflow:", error);
+      console.error("Failed to toggle workflow:", error);
 
       // エラーメッセージを表示
-      const errorMessage = error?.message || "Failed to set active workflow";
+      const errorMessage = error?.message || "Failed to toggle workflow";
 
       // ユーザーにエラーを通知（簡易的なアラート）
       if (errorMessage.includes("not valid")) {
@@ -229,6 +273,21 @@ export default function WorkflowManager() {
     }
   };
 
+  // 実行順（優先度の高い順、同じ優先度は作成日時の古い順）
+  const sortByPriority = (items: WorkflowDefinition[]) =>
+    [...items].sort(
+      (a, b) =>
+        (b.priority ?? 0) - (a.priority ?? 0) || a.createdAt - b.createdAt,
+    );
+
+  // スコープの概要（未指定の項目は表示しない）
+  const describeScope = (workflow: WorkflowDefinition): string | undefined => {
+    const parts = Object.entries(workflow.scope ?? {})
+      .filter(([, values]) => values && values.length > 0)
+      .map(([key, values]) => `${key}: ${values!.join(", ")}`);
+    return parts.length > 0 ? parts.join(" / ") : undefined;
+  };
+
   const handleExecuteWorkflow = async (workflow: WorkflowDefinition) => {
     setIsLoading(true);
     try {
@@ -346,114 +405,103 @@ export default function WorkflowManager() {
                   <h3 className="text-lg font-semibold mb-3">
                     Type: {workflowType}
                   </h3>
-                  <RadioGroup
-                    value={typeWorkflows.find((w) => w.enabled)?.id || "none"}
-                    onValueChange={(value) =>
-                      handleSetActiveWorkflow(
-                        value === "none" ? null : value,
-                        workflowType,
-                      )
-                    }
-                  >
-                    <div className="space-y-3">
-                      {/* None option */}
-                      <div className="flex items-center space-x-3 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-900">
-                        <RadioGroupItem
-                          value="none"
-                          id={`${workflowType}-none`}
-                        />
-                        <Label
-                          htmlFor={`${workflowType}-none`}
-                          className="flex-1 cursor-pointer"
+                  <p className="text-xs text-gray-500 mb-3">
+                    Enabled workflows that match a request all run, highest
+                    priority first.
+                  </p>
+                  <div className="space-y-3">
+                    {sortByPriority(typeWorkflows).map((workflow) => {
+                      const validity = checkWorkflowValidity(workflow);
+                      const isDisabled = !validity.isValid;
+                      const scopeSummary = describeScope(workflow);
+
+                      return (
+                        <div
+                          key={workflow.id}
+                          className={`flex items-center space-x-3 p-2 rounded ${
+                            isDisabled
+                              ? "bg-gray-100 dark:bg-gray-900 opacity-60"
+                              : "hover:bg-gray-50 dark:hover:bg-gray-900"
+                          }`}
                         >
-                          <span className="text-gray-500">無効化</span>
-                        </Label>
-                      </div>
-
-                      {/* Workflows */}
-                      {typeWorkflows.map((workflow) => {
-                        const validity = checkWorkflowValidity(workflow);
-                        const isDisabled = !validity.isValid;
-
-                        return (
-                          <div
-                            key={workflow.id}
-                            className={`flex items-center space-x-3 p-2 rounded ${
-                              isDisabled
-                                ? "bg-gray-100 dark:bg-gray-900 opacity-60"
-                                : "hover:bg-gray-50 dark:hover:bg-gray-900"
-                            }`}
+                          <Switch
+                            id={workflow.id}
+                            checked={workflow.enabled}
+                            onCheckedChange={(checked) =>
+                              handleToggleWorkflow(workflow.id, checked)
+                            }
+                            disabled={isDisabled && !workflow.enabled}
+                          />
+                          <Label
+                            htmlFor={workflow.id}
+                            className={`flex-1 ${isDisabled ? "" : "cursor-pointer"}`}
                           >
-                            <RadioGroupItem
-                              value={workflow.id}
-                              id={workflow.id}
-                              disabled={isDisabled}
-                            />
-                            <Label
-                              htmlFor={workflow.id}
-                              className={`flex-1 ${isDisabled ? "" : "cursor-pointer"}`}
-                            >
-                              <div className="flex items-center justify-between">
-                                <div className="flex-1">
-                                  <div className="flex items-center gap-2">
-                                    <span
-                                      className={`font-medium ${isDisabled ? "text-gray-400" : ""}`}
-                                    >
-                                      {workflow.name}
-                                    </span>
-                                    {isDisabled && (
-                                      <div className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
-                                        <AlertCircle className="w-4 h-4" />
-                                        <span className="text-xs font-medium">
-                                          Invalid
-                                        </span>
-                                      </div>
-                                    )}
-                                  </div>
-                                  <p className="text-sm text-gray-500">
-                                    {workflow.nodes.length} nodes,{" "}
-                                    {workflow.edges.length} connections
-                                  </p>
-                                  {isDisabled && validity.reason && (
-                                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">
-                                      ⚠️ {validity.reason}
-                                    </p>
-                                  )}
-                                  {workflow.description && (
-                                    <p className="text-sm text-gray-600 mt-1">
-                                      {workflow.description}
-                                    </p>
-                                  )}
-                                </div>
-                                <div className="flex gap-2">
-                                  <Button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleEditWorkflow(workflow);
-                                    }}
-                                    variant="ghost"
-                                    size="sm"
-                                  >
-                                    編集
-                                  </Button>
-                                  <Button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleDeleteWorkflow(workflow.id);
-                                    }}
-                                    variant="ghost"
-                                    size="sm"
+                            <div className="flex items-center justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                  <span
+                                    className={`font-medium ${isDisabled ? "text-gray-400" : ""}`}
                                   >
-                                    <Trash2 className="w-4 h-4 text-red-500" />
-                                  </Button>
+                                    {workflow.name}
+                                  </span>
+                                  <span className="text-xs text-gray-500">
+                                    Priority {workflow.priority ?? 0}
+                                  </span>
+                                  {isDisabled && (
+                                    <div className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
+                                      <AlertCircle className="w-4 h-4" />
+                                      <span className="text-xs font-medium">
+                                        Invalid
+                                      </span>
+                                    </div>
+                                  )}
                                 </div>
+                                <p className="text-sm text-gray-500">
+                                  {workflow.nodes.length} nodes,{" "}
+                                  {workflow.edges.length} connections
+                                </p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Scope: {scopeSummary ?? "All requests"}
+                                </p>
+                                {isDisabled && validity.reason && (
+                                  <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                                    ⚠️ {validity.reason}
+                                  </p>
+                                )}
+                                {workflow.description && (
+                                  <p className="text-sm text-gray-600 mt-1">
+                                    {workflow.description}
+                                  </p>
+                                )}
                               </div>
-                            </Label>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </RadioGroup>
+                              <div className="flex gap-2">
+                                <Button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleEditWorkflow(workflow);
+                                  }}
+                                  variant="ghost"
+                                  size="sm"
+                                >
+                                  編集
+                                </Button>
+                                <Button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteWorkflow(workflow.id);
+                                  }}
+                                  variant="ghost"
+                                  size="sm"
+                                >
+                                  <Trash2 className="w-4 h-4 text-red-500" />
+                                </Button>
+                              </div>
+                            </div>
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </Card>
               ))}
             </div>
@@ -0,0 +1,87 @@
+import React from "react";
+import { WorkflowScope } from "@mcp_router/shared";
+import { Input, Label } from "@mcp_router/ui";
+
+interface WorkflowScopeEditorProps {
+  priority: number;
+  scope: WorkflowScope;
+  onPriorityChange: (priority: number) => void;
+  onScopeChange: (scope: WorkflowScope) => void;
+}
+
+const scopeFields: {
+  key: keyof WorkflowScope;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "servers", label: "Servers", placeholder: "github, slack" },
+  { key: "tools", label: "Tools", placeholder: "create_issue, send_message" },
+  { key: "clients", label: "Clients", placeholder: "claude-desktop" },
+  { key: "projects", label: "Project IDs", placeholder: "project ID" },
+];
+
+const parseList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Editor for the priority and scope of a workflow
+ */
+export default function WorkflowScopeEditor({
+  priority,
+  scope,
+  onPriorityChange,
+  onScopeChange,
+}: WorkflowScopeEditorProps) {
+  return (
+    <div className="p-4 border-b bg-gray-50 dark:bg-gray-900 space-y-3">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="workflow-priority" className="text-sm font-medium">
+          Priority
+        </Label>
+        <Input
+          id="workflow-priority"
+          type="number"
+          value={priority}
+          onChange={(e) => onPriorityChange(Number(e.target.value) || 0)}
+          className="w-24"
+        />
+        <p className="text-xs text-muted-foreground">
+          Higher priority workflows wrap lower ones: their pre-hooks run first
+          and their post-hooks run last.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {scopeFields.map((field) => (
+          <div key={field.key}>
+            <Label
+              htmlFor={`workflow-scope-${field.key}`}
+              className="text-sm font-medium"
+            >
+              {field.label}
+            </Label>
+            <Input
+              id={`workflow-scope-${field.key}`}
+              defaultValue={(scope[field.key] ?? []).join(", ")}
+              onBlur={(e) =>
+                onScopeChange({
+                  ...scope,
+                  [field.key]: parseList(e.target.value),
+                })
+              }
+              className="mt-1 font-mono"
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Comma-separated. Leave a field empty to match every value; otherwise the
+        request must match one of the listed values in each filled field.
+      </p>
+    </div>
+  );
+}
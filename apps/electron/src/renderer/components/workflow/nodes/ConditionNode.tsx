@@ -0,0 +1,62 @@
+import React, { memo } from "react";
+import { Handle, Position, NodeProps } from "@xyflow/react";
+import { GitBranch } from "lucide-react";
+import {
+  WORKFLOW_CONDITION_FALSE_HANDLE,
+  WORKFLOW_CONDITION_TRUE_HANDLE,
+} from "@mcp_router/shared";
+
+const branches = [
+  { id: WORKFLOW_CONDITION_TRUE_HANDLE, label: "True" },
+  { id: WORKFLOW_CONDITION_FALSE_HANDLE, label: "False" },
+];
+
+const ConditionNode = memo(({ data, selected }: NodeProps<any>) => {
+  const expression = data?.condition?.expression;
+
+  return (
+    <div
+      className={`py-2 shadow-md rounded-md border-2 ${
+        selected
+          ? "border-purple-500 bg-purple-50 dark:bg-purple-900/20"
+          : "border-purple-400 bg-white dark:bg-gray-800"
+      } min-w-[160px]`}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 bg-purple-400 border-2 border-white"
+      />
+
+      <div className="flex items-center gap-2 px-4">
+        <GitBranch className="w-4 h-4 text-purple-500" />
+        <div>
+          <div className="text-sm font-bold">
+            {String(data?.label || "Condition")}
+          </div>
+          <div className="max-w-[200px] truncate font-mono text-xs text-gray-500">
+            {expression ? String(expression) : "No expression"}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {branches.map((branch) => (
+          <div key={branch.id} className="relative pr-4 text-right text-xs">
+            {branch.label}
+            <Handle
+              id={branch.id}
+              type="source"
+              position={Position.Right}
+              className="w-3 h-3 bg-purple-400 border-2 border-white"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+ConditionNode.displayName = "ConditionNode";
+
+export default ConditionNode;
@@ -1,14 +1,20 @@
 import React, { memo } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
-import { FileCode } from "lucide-react";
+import { FileCode, ShieldAlert } from "lucide-react";
 
 const HookNode = memo(({ data, selected }: NodeProps<any>) => {
+  // Blocking hooks run inline and can deny the request
+  const blocking = data?.hook?.blocking === true;
+  const Icon = blocking ? ShieldAlert : FileCode;
+
   return (
     <div
       className={`px-4 py-2 shadow-md rounded-md border-2 ${
         selected
           ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
-          : "border-gray-300 bg-white dark:bg-gray-800"
+          : blocking
+            ? "border-amber-400 bg-white dark:bg-gray-800"
+            : "border-gray-300 bg-white dark:bg-gray-800"
       } min-w-[150px]`}
     >
       <Handle
@@ -19,11 +25,18 @@ const HookNode = memo(({ data, selected }: NodeProps<any>) => {
       />
 
       <div className="flex items-center gap-2">
-        <FileCode className="w-4 h-4 text-blue-500" />
+        <Icon
+          className={`w-4 h-4 ${blocking ? "text-amber-500" : "text-blue-500"}`}
+        />
         <div>
           <div className="text-sm font-bold">
             {String(data?.label || "Hook")}
           </div>
+          {blocking && (
+            <div className="text-xs text-amber-600 dark:text-amber-500">
+              Blocking · can deny
+            </div>
+          )}
           {data?.hookId && (
             <div className="text-xs text-gray-500">
               ID: {String(data?.hookId)}
@@ -32,7 +45,7 @@ const HookNode = memo(({ data, selected }: NodeProps<any>) => {
         </div>
       </div>
 
-      {data?.hook?.blocking === true && (
+      {blocking && (
         <Handle
           type="source"
           position={Position.Right}
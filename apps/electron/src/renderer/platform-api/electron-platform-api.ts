@@ -48,6 +48,8 @@ class ElectronPlatformAPI implements PlatformAPI {
         const server = servers.find((s: any) => s.id === id);
         return server?.status || { type: "stopped" };
       },
+      getLogs: (id) => window.electronAPI.getMcpServerLogs(id),
+      onLogs: (callback) => window.electronAPI.onMcpServerLogs(callback),
       selectFile: (options) => window.electronAPI.serverSelectFile(options),
     };
 
@@ -117,6 +119,7 @@ class ElectronPlatformAPI implements PlatformAPI {
           // logs property is already included from spread operator
         };
       },
+      listClients: () => window.electronAPI.getRequestLogClients(),
     };
 
     // Initialize workspaces domain
@@ -1,4 +1,8 @@
 import { create } from "zustand";
+import {
+  DEFAULT_SERVER_REQUEST_POLICY,
+  type ServerRequestPolicy,
+} from "@mcp_router/shared";
 
 interface ServerEditingState {
   // Editing state
@@ -12,6 +16,12 @@ interface ServerEditingState {
   editedArgs: string[];
   editedBearerToken: string;
   editedAutoStart: boolean;
+  editedServerRequestPolicy: ServerRequestPolicy;
+  editedToolCallTimeoutSec: string;
+  editedMaxConcurrentToolCalls: string;
+  editedMaxToolOutputChars: string;
+  toolTimeoutPairs: { toolName: string; timeoutSec: string }[];
+  toolOutputLimitPairs: { toolName: string; maxChars: string }[];
   envPairs: { key: string; value: string }[];
   editedToolPermissions: Record<string, boolean>;
 
@@ -24,6 +34,10 @@ interface ServerEditingState {
   setEditedArgs: (args: string[]) => void;
   setEditedBearerToken: (token: string) => void;
   setEditedAutoStart: (autoStart: boolean) => void;
+  setEditedServerRequestPolicy: (policy: ServerRequestPolicy) => void;
+  setEditedToolCallTimeoutSec: (timeoutSec: string) => void;
+  setEditedMaxConcurrentToolCalls: (maxCalls: string) => void;
+  setEditedMaxToolOutputChars: (maxChars: string) => void;
   setEnvPairs: (pairs: { key: string; value: string }[]) => void;
   setEditedToolPermissions: (
     permissions:
@@ -40,6 +54,22 @@ interface ServerEditingState {
   removeEnvPair: (index: number) => void;
   addEnvPair: () => void;
 
+  updateToolTimeoutPair: (
+    index: number,
+    field: "toolName" | "timeoutSec",
+    value: string,
+  ) => void;
+  removeToolTimeoutPair: (index: number) => void;
+  addToolTimeoutPair: () => void;
+
+  updateToolOutputLimitPair: (
+    index: number,
+    field: "toolName" | "maxChars",
+    value: string,
+  ) => void;
+  removeToolOutputLimitPair: (index: number) => void;
+  addToolOutputLimitPair: () => void;
+
   // Initialize editing state from server
   initializeFromServer: (server: {
     name?: string;
@@ -48,6 +78,12 @@ interface ServerEditingState {
     args?: string[];
     bearerToken?: string;
     autoStart?: boolean;
+    serverRequestPolicy?: ServerRequestPolicy;
+    toolCallTimeoutSec?: number;
+    toolTimeoutOverrides?: Record<string, number>;
+    maxConcurrentToolCalls?: number;
+    maxToolOutputChars?: number;
+    toolOutputLimitOverrides?: Record<string, number>;
     env?: Record<string, string | boolean | number>;
     toolPermissions?: Record<string, boolean>;
   }) => void;
@@ -66,6 +102,12 @@ export const useServerEditingStore = create<ServerEditingState>((set) => ({
   editedArgs: [],
   editedBearerToken: "",
   editedAutoStart: false,
+  editedServerRequestPolicy: DEFAULT_SERVER_REQUEST_POLICY,
+  editedToolCallTimeoutSec: "",
+  editedMaxConcurrentToolCalls: "",
+  editedMaxToolOutputChars: "",
+  toolTimeoutPairs: [],
+  toolOutputLimitPairs: [],
   envPairs: [],
   editedToolPermissions: {},
 
@@ -78,6 +120,14 @@ export const useServerEditingStore = create<ServerEditingState>((set) => ({
   setEditedArgs: (editedArgs) => set({ editedArgs }),
   setEditedBearerToken: (editedBearerToken) => set({ editedBearerToken }),
   setEditedAutoStart: (editedAutoStart) => set({ editedAutoStart }),
+  setEditedServerRequestPolicy: (editedServerRequestPolicy) =>
+    set({ editedServerRequestPolicy }),
+  setEditedToolCallTimeoutSec: (editedToolCallTimeoutSec) =>
+    set({ editedToolCallTimeoutSec }),
+  setEditedMaxConcurrentToolCalls: (editedMaxConcurrentToolCalls) =>
+    set({ editedMaxConcurrentToolCalls }),
+  setEditedMaxToolOutputChars: (editedMaxToolOutputChars) =>
+    set({ editedMaxToolOutputChars }),
   setEnvPairs: (envPairs) => set({ envPairs }),
   setEditedToolPermissions: (permissions) =>
     set((state) => ({
@@ -122,6 +172,48 @@ export const useServerEditingStore = create<ServerEditingState>((set) => ({
       envPairs: [...state.envPairs, { key: "", value: "" }],
     })),
 
+  updateToolTimeoutPair: (index, field, value) =>
+    set((state) => {
+      const newPairs = [...state.toolTimeoutPairs];
+      newPairs[index] = { ...newPairs[index], [field]: value };
+      return { toolTimeoutPairs: newPairs };
+    }),
+
+  removeToolTimeoutPair: (index) =>
+    set((state) => ({
+      toolTimeoutPairs: state.toolTimeoutPairs.filter((_, i) => i !== index),
+    })),
+
+  addToolTimeoutPair: () =>
+    set((state) => ({
+      toolTimeoutPairs: [
+        ...state.toolTimeoutPairs,
+        { toolName: "", timeoutSec: "" },
+      ],
+    })),
+
+  updateToolOutputLimitPair: (index, field, value) =>
+    set((state) => {
+      const newPairs = [...state.toolOutputLimitPairs];
+      newPairs[index] = { ...newPairs[index], [field]: value };
+      return { toolOutputLimitPairs: newPairs };
+    }),
+
+  removeToolOutputLimitPair: (index) =>
+    set((state) => ({
+      toolOutputLimitPairs: state.toolOutputLimitPairs.filter(
+        (_, i) => i !== index,
+      ),
+    })),
+
+  addToolOutputLimitPair: () =>
+    set((state) => ({
+      toolOutputLimitPairs: [
+        ...state.toolOutputLimitPairs,
+        { toolName: "", maxChars: "" },
+      ],
+    })),
+
   // Initialize from server
   initializeFromServer: (server) => {
     set({
@@ -131,6 +223,32 @@ export const useServerEditingStore = create<ServerEditingState>((set) => ({
       editedArgs: server.args || [],
       editedBearerToken: server.bearerToken || "",
       editedAutoStart: server.autoStart || false,
+      editedServerRequestPolicy:
+        server.serverRequestPolicy || DEFAULT_SERVER_REQUEST_POLICY,
+      editedToolCallTimeoutSec:
+        server.toolCallTimeoutSec !== undefined
+          ? String(server.toolCallTimeoutSec)
+          : "",
+      editedMaxConcurrentToolCalls:
+        server.maxConcurrentToolCalls !== undefined
+          ? String(server.maxConcurrentToolCalls)
+          : "",
+      editedMaxToolOutputChars:
+        server.maxToolOutputChars !== undefined
+          ? String(server.maxToolOutputChars)
+          : "",
+      toolTimeoutPairs: Object.entries(server.toolTimeoutOverrides || {}).map(
+        ([toolName, timeoutSec]) => ({
+          toolName,
+          timeoutSec: String(timeoutSec),
+        }),
+      ),
+      toolOutputLimitPairs: Object.entries(
+        server.toolOutputLimitOverrides || {},
+      ).map(([toolName, maxChars]) => ({
+        toolName,
+        maxChars: String(maxChars),
+      })),
       envPairs: Object.entries(server.env || {}).map(([key, value]) => ({
         key,
         value: String(value),
@@ -150,6 +268,12 @@ export const useServerEditingStore = create<ServerEditingState>((set) => ({
       editedArgs: [],
       editedBearerToken: "",
       editedAutoStart: false,
+      editedServerRequestPolicy: DEFAULT_SERVER_REQUEST_POLICY,
+      editedToolCallTimeoutSec: "",
+      editedMaxConcurrentToolCalls: "",
+      editedMaxToolOutputChars: "",
+      toolTimeoutPairs: [],
+      toolOutputLimitPairs: [],
       envPairs: [],
       editedToolPermissions: {},
     }),
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { AggregatorServer } from "@/main/modules/mcp-server-runtime/aggregator-server";
+import type { MCPServerManager } from "@/main/modules/mcp-server-manager/mcp-server-manager";
+import type { CapabilityKind } from "@/main/modules/mcp-server-manager/capability-cache";
+
+vi.mock("@/main/modules/settings/settings.service", () => ({
+  getSettingsService: () => ({ getSettings: () => ({}) }),
+}));
+
+vi.mock("@/main/modules/mcp-logger/mcp-logger.service", () => ({
+  getLogService: () => ({ recordMcpRequestLog: vi.fn() }),
+}));
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(predicate()).toBe(true);
+}
+
+describe("AggregatorServer", () => {
+  let aggregator: AggregatorServer;
+  let capabilitiesChanged: (kinds: CapabilityKind[]) => void;
+  let httpServer: http.Server;
+  let url: string;
+
+  beforeEach(async () => {
+    const serverManager = {
+      getMaps: () => ({
+        servers: new Map(),
+        clients: new Map(),
+        serverNameToIdMap: new Map(),
+        serverStatusMap: new Map(),
+      }),
+      onCapabilitiesChanged: (listener: (kinds: CapabilityKind[]) => void) => {
+        capabilitiesChanged = listener;
+      },
+    } as unknown as MCPServerManager;
+    aggregator = new AggregatorServer(serverManager);
+
+    httpServer = http.createServer(async (req, res) => {
+      const body = req.method === "POST" ? await readBody(req) : undefined;
+      await aggregator.handleRequest(req, res, body);
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await aggregator.shutdown();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  const sessionManager = () =>
+    (
+      aggregator as unknown as {
+        sessionManager: {
+          getSessionCount: () => number;
+          getSessionServers: () => unknown[];
+        };
+      }
+    ).sessionManager;
+
+  async function initialize(): Promise<string> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+    expect(response.status).toBe(200);
+    return response.headers.get("mcp-session-id")!;
+  }
+
+  function ping(sessionId: string): Promise<Response> {
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId,
+        "Mcp-Protocol-Version": "2025-03-26",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "ping" }),
+    });
+  }
+
+  it("creates a session on initialize", async () => {
+    const sessionId = await initialize();
+
+    expect(sessionId).toBeTruthy();
+    expect(sessionManager().getSessionCount()).toBe(1);
+    const response = await ping(sessionId);
+    await response.text();
+    expect(response.status).toBe(200);
+  });
+
+  it("answers 404 for an unknown session", async () => {
+    const response = await ping("unknown-session");
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.error.message).toBe("Session not found");
+  });
+
+  it("coalesces a burst of capability changes into one notification per kind", async () => {
+    await initialize();
+    const server = sessionManager().getSessionServers()[0] as {
+      sendToolListChanged: () => Promise<void>;
+      sendResourceListChanged: () => Promise<void>;
+      sendPromptListChanged: () => Promise<void>;
+    };
+    const sendTools = vi
+      .spyOn(server, "sendToolListChanged")
+      .mockResolvedValue(undefined);
+    const sendResources = vi
+      .spyOn(server, "sendResourceListChanged")
+      .mockResolvedValue(undefined);
+    const sendPrompts = vi
+      .spyOn(server, "sendPromptListChanged")
+      .mockResolvedValue(undefined);
+
+    capabilitiesChanged(["tools"]);
+    capabilitiesChanged(["resources", "resourceTemplates"]);
+    capabilitiesChanged(["tools"]);
+    await waitFor(() => sendTools.mock.calls.length > 0);
+    // Give a second (unwanted) flush the chance to run
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(sendTools).toHaveBeenCalledTimes(1);
+    expect(sendResources).toHaveBeenCalledTimes(1);
+    expect(sendPrompts).not.toHaveBeenCalled();
+  });
+
+  it("removes sessions once they are closed", async () => {
+    const sessionId = await initialize();
+
+    const response = await fetch(url, {
+      method: "DELETE",
+      headers: {
+        "Mcp-Session-Id": sessionId,
+        "Mcp-Protocol-Version": "2025-03-26",
+      },
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    await waitFor(() => sessionManager().getSessionCount() === 0);
+    const afterClose = await ping(sessionId);
+    await afterClose.text();
+    expect(afterClose.status).toBe(404);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { CapabilityCache } from "@/main/modules/mcp-server-manager/capability-cache";
+
+function createFakeClient(
+  capabilities: Record<string, unknown> = { tools: {} },
+) {
+  const handlers = new Map<unknown, () => void>();
+  const client = {
+    getServerCapabilities: vi.fn(() => capabilities),
+    setNotificationHandler: vi.fn((schema: unknown, handler: () => void) => {
+      handlers.set(schema, handler);
+    }),
+    listTools: vi.fn(async () => ({
+      tools: [{ name: "search", inputSchema: {} }],
+    })),
+    listPrompts: vi.fn(async () => ({ prompts: [] })),
+  };
+  return { client: client as unknown as Client, fake: client, handlers };
+}
+
+describe("CapabilityCache", () => {
+  it("caches lists after the first fetch", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient();
+    cache.attach("s1", client);
+
+    await cache.get("s1", client, "tools");
+    const tools = await cache.get("s1", client, "tools");
+
+    expect(tools.map((t) => t.name)).toEqual(["search"]);
+    expect(fake.listTools).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares a single in-flight request between concurrent callers", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient();
+    cache.attach("s1", client);
+
+    await Promise.all([
+      cache.get("s1", client, "tools"),
+      cache.get("s1", client, "tools"),
+    ]);
+
+    expect(fake.listTools).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-fetches after a tools/list_changed notification", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake, handlers } = createFakeClient();
+    cache.attach("s1", client);
+
+    await cache.get("s1", client, "tools");
+    handlers.get(ToolListChangedNotificationSchema)?.();
+    await cache.get("s1", client, "tools");
+
+    expect(fake.listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports upstream list changes to the listener", async () => {
+    const onListChanged = vi.fn();
+    const cache = new CapabilityCache(onListChanged);
+    const { client, handlers } = createFakeClient();
+    cache.attach("s1", client);
+
+    handlers.get(ToolListChangedNotificationSchema)?.();
+
+    expect(onListChanged).toHaveBeenCalledWith("s1", ["tools"]);
+  });
+
+  it("skips list methods the server does not advertise", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient({ tools: {} });
+    cache.attach("s1", client);
+
+    const prompts = await cache.get("s1", client, "prompts");
+
+    expect(prompts).toEqual([]);
+    expect(fake.listPrompts).not.toHaveBeenCalled();
+  });
+
+  it("does not store a list fetched before an invalidation", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient();
+    cache.attach("s1", client);
+
+    const pending = cache.get("s1", client, "tools");
+    cache.invalidate("s1", ["tools"]);
+    await pending;
+    await cache.get("s1", client, "tools");
+
+    expect(fake.listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches anew when called across an invalidation", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient();
+    cache.attach("s1", client);
+    let resolveStale!: (value: unknown) => void;
+    fake.listTools
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (resolveStale = resolve)),
+      )
+      .mockImplementationOnce(async () => ({
+        tools: [{ name: "fresh", inputSchema: {} }],
+      }));
+
+    const stale = cache.get("s1", client, "tools");
+    cache.invalidate("s1", ["tools"]);
+    const fresh = cache.get("s1", client, "tools");
+    resolveStale({ tools: [{ name: "stale", inputSchema: {} }] });
+
+    expect((await stale).map((t) => t.name)).toEqual(["stale"]);
+    expect((await fresh).map((t) => t.name)).toEqual(["fresh"]);
+    const cached = await cache.get("s1", client, "tools");
+    expect(cached.map((t) => t.name)).toEqual(["fresh"]);
+    expect(fake.listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps in-flight fetches of kinds that were not invalidated", async () => {
+    const cache = new CapabilityCache();
+    const { client, fake } = createFakeClient({ tools: {}, prompts: {} });
+    cache.attach("s1", client);
+
+    const pending = cache.get("s1", client, "tools");
+    cache.invalidate("s1", ["prompts"]);
+    await pending;
+    await cache.get("s1", client, "tools");
+
+    expect(fake.listTools).toHaveBeenCalledTimes(1);
+  });
+});
@@ -12,7 +12,12 @@ import type {
   CallMCPToolResult,
   MCPServerInfo,
   MCPToolInfo,
+  ToolResultContent,
 } from "@mcp_router/shared";
+import { EntryMCPService } from "@/main/modules/entry-mcp/entry-mcp.service";
+import { resolvePinningConfig } from "@/main/modules/entry-mcp/tool-pinning";
+import { EntryMessages } from "@/main/modules/entry-mcp/entry-messages";
+import { createPrefixedToolName } from "@/main/utils/tool-name-utils";
 
 describe("EntryMCPService", () => {
   const mockServers: MCPServer[] = [
@@ -442,4 +447,765 @@ describe("EntryMCPService", () => {
       expect(callMCPToolSchema.inputSchema.properties).toHaveProperty("timeoutSec");
     });
   });
+
+  describe("access scoping", () => {
+    const scopedServers: MCPServer[] = [
+      { ...mockServers[0], projectId: "project-a" },
+      { ...mockServers[1], projectId: null },
+    ];
+    const tokenAccess: Record<string, string[]> = {
+      "token-fs": ["server-1"],
+      "token-all": ["server-1", "server-2"],
+    };
+
+    const createService = (callTool = vi.fn()) =>
+      new EntryMCPService({
+        getServers: () => scopedServers,
+        hasServerAccess: (token, serverId) =>
+          !!tokenAccess[token]?.includes(serverId),
+        getServerTools: async (serverId) =>
+          (scopedServers.find((s) => s.id === serverId)?.tools ?? []).map(
+            (t) => ({ name: t.name, description: t.description })
+          ),
+        callTool,
+      });
+
+    it("should only list servers the token can access", () => {
+      const service = createService();
+
+      const servers = service.listMCPServers({
+        token: "token-fs",
+        projectId: null,
+      });
+
+      expect(servers.map((s) => s.name)).toEqual(["filesystem"]);
+      expect(service.listMCPServers({ projectId: null })).toEqual([]);
+    });
+
+    it("should only list servers of the selected project", async () => {
+      const service = createService();
+      const access = { token: "token-all", projectId: "project-a" };
+
+      expect(service.listMCPServers(access).map((s) => s.name)).toEqual([
+        "filesystem",
+      ]);
+      const result = await service.listMCPTools({ mcpName: "github" }, access);
+      expect(result.servers).toHaveLength(0);
+    });
+
+    it("should reject calls to servers outside the token's access", async () => {
+      const callTool = vi.fn();
+      const service = createService(callTool);
+
+      const result = await service.callMCPTool(
+        { mcpName: "github", toolName: "create_pr", arguments: {} },
+        undefined,
+        { token: "token-fs", projectId: null }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.errorCode).toBe("ACCESS_DENIED");
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("should reject calls to servers of another project", async () => {
+      const callTool = vi.fn();
+      const service = createService(callTool);
+
+      const result = await service.callMCPTool(
+        { mcpName: "filesystem", toolName: "read_file", arguments: {} },
+        undefined,
+        { token: "token-all", projectId: "project-b" }
+      );
+
+      expect(result.errorCode).toBe("SERVER_NOT_IN_PROJECT");
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("should call tools on accessible servers", async () => {
+      const callTool = vi.fn().mockResolvedValue({
+        content: [{ type: "text", text: "ok" }],
+      });
+      const service = createService(callTool);
+
+      const result = await service.callMCPTool(
+        { mcpName: "filesystem", toolName: "read_file", arguments: {} },
+        undefined,
+        { token: "token-fs", projectId: "project-a" }
+      );
+
+      expect(result.isError).toBe(false);
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only list servers selected for a named endpoint", () => {
+      const service = createService();
+
+      const bySelection = service.listMCPServers({
+        token: "token-all",
+        projectId: null,
+        endpoint: { name: "coding", serverIds: ["server-2"] },
+      });
+      const byProject = service.listMCPServers({
+        token: "token-all",
+        projectId: null,
+        endpoint: { name: "research", serverIds: [], projectId: "project-a" },
+      });
+
+      expect(bySelection.map((s) => s.name)).toEqual(["github"]);
+      expect(byProject.map((s) => s.name)).toEqual(["filesystem"]);
+    });
+
+    it("should reject calls to servers outside a named endpoint", async () => {
+      const callTool = vi.fn();
+      const service = createService(callTool);
+
+      const result = await service.callMCPTool(
+        { mcpName: "filesystem", toolName: "read_file", arguments: {} },
+        undefined,
+        {
+          token: "token-all",
+          projectId: null,
+          endpoint: { name: "coding", serverIds: ["server-2"] },
+        }
+      );
+
+      expect(result.errorCode).toBe("SERVER_NOT_IN_ENDPOINT");
+      expect(callTool).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("argument validation", () => {
+    const readFileTool: MCPToolInfo = {
+      name: "read_file",
+      inputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          maxLines: { type: "integer" },
+        },
+        required: ["path"],
+      },
+    };
+
+    const createService = (callTool = vi.fn(), coerce = false) =>
+      new EntryMCPService({
+        getServers: () => mockServers,
+        hasServerAccess: () => true,
+        getServerTools: async () => [readFileTool],
+        callTool,
+        shouldCoerceArguments: () => coerce,
+      });
+
+    it("should reject arguments that do not match the input schema", async () => {
+      const callTool = vi.fn();
+      const service = createService(callTool);
+
+      const result = await service.callMCPTool({
+        mcpName: "filesystem",
+        toolName: "read_file",
+        arguments: { maxLines: "20" },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.errorCode).toBe("INVALID_ARGUMENTS");
+      expect(result.content[0].text).toContain('missing required field "path"');
+      expect(result.content[0].text).toContain("Expected input schema:");
+      expect(callTool).not.toHaveBeenCalled();
+    });
+
+    it("should forward coerced arguments when coercion is enabled", async () => {
+      const callTool = vi.fn().mockResolvedValue({ content: [] });
+      const service = createService(callTool, true);
+
+      const result = await service.callMCPTool({
+        mcpName: "filesystem",
+        toolName: "read_file",
+        arguments: { path: "/tmp/a.txt", maxLines: "20" },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(callTool).toHaveBeenCalledWith(
+        "filesystem",
+        "read_file",
+        { path: "/tmp/a.txt", maxLines: 20 },
+        expect.any(Number),
+        undefined
+      );
+    });
+  });
+
+  describe("output limits", () => {
+    it("should pass tool output through the limiter with the caller's client ID", async () => {
+      const limitToolOutput = vi.fn(
+        (_serverId, _toolName, _clientId, content: ToolResultContent[]) =>
+          content.map((c) => ({ ...c, text: c.text?.slice(0, 3) }))
+      );
+      const service = new EntryMCPService({
+        getServers: () => mockServers,
+        hasServerAccess: () => true,
+        getServerTools: async () => [{ name: "read_file" }],
+        callTool: vi
+          .fn()
+          .mockResolvedValue({ content: [{ type: "text", text: "abcdef" }] }),
+        limitToolOutput,
+      });
+
+      const result = await service.callMCPTool(
+        { mcpName: "filesystem", toolName: "read_file", arguments: {} },
+        { clientId: "cursor" }
+      );
+
+      expect(limitToolOutput).toHaveBeenCalledWith(
+        "server-1",
+        "read_file",
+        "cursor",
+        [{ type: "text", text: "abcdef" }]
+      );
+      expect(result.content[0].text).toBe("abc");
+    });
+
+    it("should read stored pages and report expired results", () => {
+      const readToolOutput = vi.fn((resultId: string) =>
+        resultId === "r1"
+          ? { resultId, text: "page", offset: 10, total: 20, nextOffset: 14 }
+          : undefined
+      );
+      const service = new EntryMCPService({
+        getServers: () => mockServers,
+        hasServerAccess: () => true,
+        getServerTools: async () => [],
+        callTool: vi.fn(),
+        readToolOutput,
+      });
+
+      const page = service.readToolResult(
+        { resultId: "r1", offset: 10 },
+        "cursor"
+      );
+      const expired = service.readToolResult({ resultId: "r2" }, "cursor");
+
+      expect(readToolOutput).toHaveBeenCalledWith(
+        "r1",
+        "cursor",
+        10,
+        undefined
+      );
+      expect(page.isError).toBe(false);
+      expect(page.content[0].text).toContain('resultId "r1" and offset 14');
+      expect(expired.errorCode).toBe("RESULT_NOT_FOUND");
+    });
+  });
+
+  describe("callMCPToolsBatch", () => {
+    const createService = (callTool: ReturnType<typeof vi.fn>) =>
+      new EntryMCPService({
+        getServers: () => mockServers,
+        hasServerAccess: () => true,
+        getServerTools: async (serverId) =>
+          mockServers.find((s) => s.id === serverId)?.tools ?? [],
+        callTool,
+      });
+
+    it("should return results in call order with per-call errors", async () => {
+      const callTool = vi.fn(async (_server, toolName, args) => {
+        if (toolName === "list_issues") {
+          throw new Error("rate limited");
+        }
+        // 让先开始的调用后结束，确认结果仍按顺序返回
+        await new Promise((resolve) => setTimeout(resolve, args.delay));
+        return { content: [{ type: "text", text: String(args.delay) }] };
+      });
+      const service = createService(callTool);
+
+      const result = await service.callMCPToolsBatch({
+        calls: [
+          {
+            mcpName: "filesystem",
+            toolName: "read_file",
+            arguments: { delay: 20 },
+          },
+          { mcpName: "github", toolName: "list_issues", arguments: {} },
+          {
+            mcpName: "filesystem",
+            toolName: "read_file",
+            arguments: { delay: 1 },
+          },
+          { mcpName: "database", toolName: "query", arguments: {} },
+        ],
+      });
+
+      expect(
+        result.results.map((r) => [r.index, r.toolName, r.isError])
+      ).toEqual([
+        [0, "read_file", false],
+        [1, "list_issues", true],
+        [2, "read_file", false],
+        [3, "query", true],
+      ]);
+      expect(result.results[0].content[0].text).toBe("20");
+      expect(result.results[1].errorCode).toBe("CALL_FAILED");
+      expect(result.results[3].errorCode).toBe("SERVER_NOT_RUNNING");
+    });
+
+    it("should not run more calls at once than the concurrency limit", async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const callTool = vi.fn(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return { content: [] };
+      });
+      const service = createService(callTool);
+
+      await service.callMCPToolsBatch({
+        calls: Array.from({ length: 6 }, () => ({
+          mcpName: "filesystem",
+          toolName: "read_file",
+          arguments: {},
+        })),
+        concurrency: 2,
+      });
+
+      expect(callTool).toHaveBeenCalledTimes(6);
+      expect(maxRunning).toBe(2);
+    });
+
+    it("should pass each call through the runner", async () => {
+      const callTool = vi.fn().mockResolvedValue({ content: [] });
+      const runCall = vi.fn((_call, execute) => execute());
+      const service = createService(callTool);
+
+      await service.callMCPToolsBatch(
+        {
+          calls: [
+            { mcpName: "filesystem", toolName: "read_file", arguments: {} },
+            { mcpName: "github", toolName: "create_pr", arguments: {} },
+          ],
+        },
+        undefined,
+        undefined,
+        runCall
+      );
+
+      expect(runCall).toHaveBeenCalledTimes(2);
+      expect(runCall.mock.calls[1][0]).toMatchObject({
+        mcpName: "github",
+        toolName: "create_pr",
+      });
+    });
+
+    it("should reject empty or oversized batches", async () => {
+      const service = createService(vi.fn());
+
+      const empty = await service.callMCPToolsBatch({ calls: [] });
+      const oversized = await service.callMCPToolsBatch({
+        calls: Array.from({ length: 21 }, () => ({
+          mcpName: "filesystem",
+          toolName: "read_file",
+          arguments: {},
+        })),
+      });
+
+      expect(empty.errorCode).toBe("INVALID_PARAMS");
+      expect(oversized.errorCode).toBe("BATCH_TOO_LARGE");
+    });
+  });
+
+  describe("searchMCPTools", () => {
+    const searchServers: MCPServer[] = [
+      { ...mockServers[0], toolPermissions: { delete_file: false } },
+      mockServers[1],
+      mockServers[2],
+    ];
+    const serverTools: Record<string, MCPToolInfo[]> = {
+      "server-1": [
+        {
+          name: "read_file",
+          description: "Read the contents of a file",
+          inputSchema: {
+            type: "object",
+            properties: { path: { type: "string", description: "File path" } },
+          },
+        },
+        { name: "delete_file", description: "Delete a file" },
+      ],
+      "server-2": [
+        { name: "createPullRequest", description: "Open a pull request" },
+        { name: "list_issues", description: "List repository issues" },
+      ],
+      "server-3": [{ name: "query", description: "Run a SQL query" }],
+    };
+
+    const createService = (
+      embedTexts?: (texts: string[]) => Promise<number[][] | null>
+    ) =>
+      new EntryMCPService({
+        getServers: () => searchServers,
+        hasServerAccess: () => true,
+        getServerTools: async (serverId) => serverTools[serverId] ?? [],
+        callTool: vi.fn(),
+        embedTexts,
+      });
+
+    it("should rank tools across servers by keyword relevance", async () => {
+      const service = createService();
+
+      const result = await service.searchMCPTools({
+        query: "open pull requests",
+      });
+
+      expect(result.method).toBe("bm25");
+      expect(result.results[0]).toMatchObject({
+        mcpName: "github",
+        toolName: "createPullRequest",
+      });
+    });
+
+    it("should match schema fields and return the input schema", async () => {
+      const service = createService();
+
+      const result = await service.searchMCPTools({ query: "file path" });
+
+      expect(result.results[0].toolName).toBe("read_file");
+      expect(result.results[0].inputSchema).toEqual(
+        serverTools["server-1"][0].inputSchema
+      );
+    });
+
+    it("should skip disabled tools and stopped servers", async () => {
+      const service = createService();
+
+      const deleted = await service.searchMCPTools({ query: "delete file" });
+      const sql = await service.searchMCPTools({ query: "sql query" });
+
+      expect(deleted.results.map((r) => r.toolName)).not.toContain(
+        "delete_file"
+      );
+      expect(sql.results).toHaveLength(0);
+    });
+
+    it("should rank by embedding similarity when available", async () => {
+      const embedTexts = vi.fn(async (texts: string[]) =>
+        texts.map((text) =>
+          text === "bugs" || text.includes("list_issues") ? [1, 0] : [0, 1]
+        )
+      );
+      const service = createService(embedTexts);
+
+      const result = await service.searchMCPTools({ query: "bugs", limit: 1 });
+
+      expect(result.method).toBe("embedding");
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0].toolName).toBe("list_issues");
+    });
+
+    it("should fall back to BM25 when embeddings fail", async () => {
+      const service = createService(async () => {
+        throw new Error("network down");
+      });
+
+      const result = await service.searchMCPTools({ query: "read file" });
+
+      expect(result.method).toBe("bm25");
+      expect(result.results[0].toolName).toBe("read_file");
+    });
+  });
+
+  describe("resources and prompts", () => {
+    const createService = (overrides: Record<string, unknown> = {}) =>
+      new EntryMCPService({
+        getServers: () => mockServers,
+        hasServerAccess: (token, serverId) =>
+          token === "token-fs" && serverId === "server-1",
+        getServerTools: async () => [],
+        getServerResources: async (serverId) =>
+          serverId === "server-1"
+            ? {
+                resources: [{ uri: "file:///readme.md", name: "README" }],
+                resourceTemplates: [{ uriTemplate: "file:///{path}" }],
+              }
+            : { resources: [], resourceTemplates: [] },
+        getServerPrompts: async (serverId) =>
+          serverId === "server-2"
+            ? [{ name: "review_pr", arguments: [{ name: "number" }] }]
+            : [],
+        callTool: vi.fn(),
+        readResource: vi.fn(),
+        getPrompt: vi.fn(),
+        ...overrides,
+      });
+
+    it("should list resources grouped by server", async () => {
+      const service = createService();
+
+      const result = await service.listMCPResources({});
+
+      expect(result.servers).toEqual([
+        {
+          name: "filesystem",
+          resources: [{ uri: "file:///readme.md", name: "README" }],
+          resourceTemplates: [{ uriTemplate: "file:///{path}" }],
+        },
+      ]);
+    });
+
+    it("should list prompts of the requested server only", async () => {
+      const service = createService();
+
+      const github = await service.listMCPPrompts({ mcpName: "github" });
+      const missing = await service.listMCPPrompts({ mcpName: "database" });
+
+      expect(github.servers.map((s) => s.name)).toEqual(["github"]);
+      expect(missing.servers).toHaveLength(0);
+      expect(missing.message).toContain("database");
+    });
+
+    it("should read resources as embedded resource content", async () => {
+      const readResource = vi.fn().mockResolvedValue({
+        contents: [{ uri: "file:///readme.md", text: "# Hello" }],
+      });
+      const service = createService({ readResource });
+
+      const result = await service.readMCPResource({
+        mcpName: "filesystem",
+        uri: "file:///readme.md",
+      });
+
+      expect(readResource).toHaveBeenCalledWith(
+        "filesystem",
+        "file:///readme.md",
+        undefined
+      );
+      expect(result.isError).toBe(false);
+      expect(result.content[0]).toMatchObject({
+        type: "resource",
+        resource: { uri: "file:///readme.md", text: "# Hello" },
+      });
+    });
+
+    it("should pass prompt arguments as strings", async () => {
+      const getPrompt = vi.fn().mockResolvedValue({ messages: [] });
+      const service = createService({ getPrompt });
+
+      const result = await service.getMCPPrompt({
+        mcpName: "github",
+        promptName: "review_pr",
+        arguments: { number: 42 },
+      });
+
+      expect(result.isError).toBe(false);
+      expect(getPrompt).toHaveBeenCalledWith(
+        "github",
+        "review_pr",
+        { number: "42" },
+        undefined
+      );
+    });
+
+    it("should apply the same access checks as tool calls", async () => {
+      const readResource = vi.fn();
+      const getPrompt = vi.fn();
+      const service = createService({ readResource, getPrompt });
+      const access = { token: "token-fs", projectId: null };
+
+      const denied = await service.getMCPPrompt(
+        { mcpName: "github", promptName: "review_pr" },
+        undefined,
+        access
+      );
+      const stopped = await service.readMCPResource({
+        mcpName: "database",
+        uri: "db://tables",
+      });
+
+      expect(denied.errorCode).toBe("ACCESS_DENIED");
+      expect(stopped.errorCode).toBe("SERVER_NOT_RUNNING");
+      expect(readResource).not.toHaveBeenCalled();
+      expect(getPrompt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pinned tools", () => {
+    const pinServers: MCPServer[] = [
+      { ...mockServers[0], toolPermissions: { write_file: false } },
+      mockServers[1],
+      mockServers[2],
+    ];
+    const serverTools: Record<string, MCPToolInfo[]> = {
+      "server-1": [
+        { name: "read_file", description: "Read a file" },
+        { name: "write_file", description: "Write a file" },
+      ],
+      "server-2": [
+        { name: "create_pr", description: "Open a pull request" },
+        { name: "list_mcp_servers", description: "Conflicts with a meta-tool" },
+      ],
+      "server-3": [{ name: "query", description: "Run a SQL query" }],
+    };
+
+    const createService = (
+      counts: Array<{ serverName: string; toolName: string; count: number }> = []
+    ) =>
+      new EntryMCPService({
+        getServers: () => pinServers,
+        hasServerAccess: (token, serverId) =>
+          token === "token-all" || serverId === "server-1",
+        getServerTools: async (serverId) => serverTools[serverId] ?? [],
+        callTool: vi.fn(),
+        getToolCallCounts: () => counts,
+      });
+
+    it("should expose manually pinned tools in order", async () => {
+      const service = createService();
+
+      const pinned = await service.listPinnedTools(
+        {
+          tools: [
+            { serverName: "github", toolName: "create_pr" },
+            { serverName: "filesystem", toolName: "read_file" },
+          ],
+          autoPinCount: 0,
+        },
+        { token: "token-all", projectId: null }
+      );
+
+      expect(pinned.map((p) => p.exposedName)).toEqual([
+        "create_pr",
+        "read_file",
+      ]);
+      expect(pinned[0].tool.description).toBe("Open a pull request");
+    });
+
+    it("should auto-pin the most called tools after manual pins", async () => {
+      const service = createService([
+        { serverName: "filesystem", toolName: "read_file", count: 9 },
+        {
+          serverName: "github",
+          toolName: createPrefixedToolName("github", "create_pr"),
+          count: 5,
+        },
+        { serverName: "filesystem", toolName: "write_file", count: 3 },
+      ]);
+
+      const pinned = await service.listPinnedTools(
+        {
+          tools: [{ serverName: "filesystem", toolName: "read_file" }],
+          autoPinCount: 2,
+        },
+        { token: "token-all", projectId: null }
+      );
+
+      // read_file is already pinned and write_file is disabled
+      expect(pinned.map((p) => [p.serverName, p.toolName])).toEqual([
+        ["filesystem", "read_file"],
+        ["github", "create_pr"],
+      ]);
+    });
+
+    it("should skip tools the token cannot access or that are unavailable", async () => {
+      const service = createService();
+
+      const pinned = await service.listPinnedTools(
+        {
+          tools: [
+            { serverName: "github", toolName: "create_pr" },
+            { serverName: "database", toolName: "query" },
+            { serverName: "filesystem", toolName: "missing_tool" },
+            { serverName: "filesystem", toolName: "read_file" },
+          ],
+          autoPinCount: 0,
+        },
+        { token: "token-fs", projectId: null }
+      );
+
+      expect(pinned.map((p) => p.toolName)).toEqual(["read_file"]);
+    });
+
+    it("should prefix pinned tools named like meta-tools", async () => {
+      const service = createService();
+
+      const pinned = await service.listPinnedTools(
+        {
+          tools: [{ serverName: "github", toolName: "list_mcp_servers" }],
+          autoPinCount: 0,
+        },
+        { token: "token-all", projectId: null }
+      );
+
+      expect(pinned[0].exposedName).toBe(
+        createPrefixedToolName("github", "list_mcp_servers")
+      );
+    });
+
+    it("should prefer client settings over project and default settings", () => {
+      const settings = {
+        default: { tools: [], autoPinCount: 5 },
+        clients: { cursor: { tools: [], autoPinCount: 1 } },
+        projects: { "project-a": { tools: [], autoPinCount: 2 } },
+      };
+
+      expect(resolvePinningConfig(settings, "cursor", "project-a")).toBe(
+        settings.clients.cursor
+      );
+      expect(resolvePinningConfig(settings, "claude", "project-a")).toBe(
+        settings.projects["project-a"]
+      );
+      expect(resolvePinningConfig(settings, "claude", null)).toBe(
+        settings.default
+      );
+    });
+  });
+
+  describe("messages", () => {
+    const createService = (messages?: EntryMessages) =>
+      new EntryMCPService({
+        getServers: () => mockServers,
+        callTool: vi.fn(),
+        getMessages: messages ? () => messages : undefined,
+      });
+
+    it("should return English messages by default", async () => {
+      const result = await createService().callMCPTool({
+        mcpName: "missing",
+        toolName: "read_file",
+        arguments: {}
+      });
+
+      expect(result.content[0].text).toBe("MCP server not found: missing");
+    });
+
+    it("should return messages in the configured language", async () => {
+      const service = createService(new EntryMessages("zh"));
+
+      const result = await service.callMCPTool({
+        mcpName: "missing",
+        toolName: "read_file",
+        arguments: {}
+      });
+
+      expect(result.content[0].text).toBe("未找到MCP服务器: missing");
+    });
+
+    it("should prefer overridden meta-tool descriptions", () => {
+      const messages = new EntryMessages("ja", {
+        list_mcp_servers: "Custom description",
+        list_mcp_tools: "  "
+      });
+
+      const definitions = EntryMCPService.getMetaToolDefinitions(messages);
+      const byName = (name: string) =>
+        definitions.find((d) => d.name === name)?.description;
+
+      expect(byName("list_mcp_servers")).toBe("Custom description");
+      expect(byName("list_mcp_tools")).toBe(
+        messages.t("list_mcp_tools.description")
+      );
+      expect(byName("list_mcp_tools")).not.toBe(
+        new EntryMessages().t("list_mcp_tools.description")
+      );
+    });
+  });
 });
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "@/main/modules/mcp-server-runtime/in-memory-event-store";
+
+const message = (id: number): JSONRPCMessage => ({
+  jsonrpc: "2.0",
+  method: "notifications/message",
+  params: { id },
+});
+
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+  const sent: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (_eventId, msg) => {
+      sent.push(msg);
+    },
+  });
+  return { streamId, sent };
+}
+
+describe("InMemoryEventStore", () => {
+  it("replays only later events of the same stream", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", message(1));
+    await store.storeEvent("b", message(2));
+    await store.storeEvent("a", message(3));
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe("a");
+    expect(sent).toEqual([message(3)]);
+  });
+
+  it("maps event IDs back to their stream", async () => {
+    const store = new InMemoryEventStore();
+    const eventId = await store.storeEvent("a", message(1));
+
+    expect(await store.getStreamIdForEventId(eventId)).toBe("a");
+    expect(await store.getStreamIdForEventId("unknown")).toBeUndefined();
+  });
+
+  it("evicts the oldest events beyond the limit", async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent("a", message(1));
+    await store.storeEvent("a", message(2));
+    await store.storeEvent("a", message(3));
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe("");
+    expect(sent).toEqual([]);
+  });
+});
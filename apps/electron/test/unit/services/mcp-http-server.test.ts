@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import type express from "express";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CreateMessageRequestSchema,
+  ListRootsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MCPHttpServer } from "@/main/modules/mcp-server-runtime/http/mcp-http-server";
+import type { MCPServerManager } from "@/main/modules/mcp-server-manager/mcp-server-manager";
+
+vi.mock("@/main/modules/mcp-apps-manager/token-manager", () => ({
+  TokenManager: class {
+    validateToken() {
+      return { isValid: true, clientId: "test-client" };
+    }
+    hasServerAccess() {
+      return true;
+    }
+  },
+}));
+
+vi.mock("@/main/modules/settings/settings.service", () => ({
+  getSettingsService: () => ({ getSettings: () => ({}) }),
+}));
+
+vi.mock("@/main/modules/projects/projects.repository", () => ({
+  ProjectRepository: {
+    getInstance: () => ({
+      findByName: (name: string) => ({ id: `id-${name}`, name }),
+    }),
+  },
+}));
+
+vi.mock("@/main/modules/mcp-logger/mcp-logger.service", () => ({
+  getLogService: () => ({ recordMcpRequestLog: vi.fn() }),
+}));
+
+vi.mock("@/main/modules/workspace/platform-api-manager", () => ({
+  getPlatformAPIManager: () => ({}),
+}));
+
+vi.mock("@/main/modules/ai-summary/ai-summary.service", () => ({
+  getAISummaryService: () => ({}),
+}));
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !predicate(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(predicate()).toBe(true);
+}
+
+describe("MCPHttpServer /mcp/aggregator", () => {
+  let httpServer: MCPHttpServer;
+  let listener: http.Server;
+  let client: Client;
+  let setClientRoots: ReturnType<typeof vi.fn>;
+  let url: URL;
+  let roots: { uri: string; name: string }[];
+
+  beforeEach(async () => {
+    roots = [{ uri: "file:///work/app", name: "app" }];
+    setClientRoots = vi.fn();
+    const serverManager = {
+      getMaps: () => ({
+        servers: new Map(),
+        clients: new Map(),
+        serverNameToIdMap: new Map(),
+        serverStatusMap: new Map(),
+      }),
+      onCapabilitiesChanged: vi.fn(),
+      setClientRoots,
+      removeClientRoots: vi.fn(),
+    } as unknown as MCPServerManager;
+    httpServer = new MCPHttpServer(serverManager, 0);
+
+    const app = (httpServer as unknown as { app: express.Application }).app;
+    listener = http.createServer(app);
+    await new Promise<void>((resolve) => listener.listen(0, resolve));
+    url = new URL(
+      `http://127.0.0.1:${(listener.address() as AddressInfo).port}/mcp/aggregator`,
+    );
+
+    client = new Client(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { roots: { listChanged: true }, sampling: {} } },
+    );
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots }));
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      role: "assistant",
+      content: { type: "text", text: "sampled" },
+      model: "test-model",
+    }));
+    await client.connect(
+      new StreamableHTTPClientTransport(url, {
+        requestInit: {
+          headers: { Authorization: "Bearer token", "x-mcpr-project": "work" },
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await client.close();
+    listener.closeAllConnections();
+    await new Promise((resolve) => listener.close(resolve));
+  });
+
+  const sessionManager = () =>
+    (
+      httpServer as unknown as {
+        aggregatorServer: {
+          sessionManager: {
+            getSessionServers: () => Server[];
+            sessions: Map<
+              string,
+              { transport: { _streamMapping: Map<string, unknown> } }
+            >;
+          };
+        };
+      }
+    ).aggregatorServer.sessionManager;
+
+  it("delivers the client's response to a server request", async () => {
+    // Server requests go out over the client's GET stream
+    await waitFor(() =>
+      [...sessionManager().sessions.values()].some((s) =>
+        s.transport._streamMapping.has("_GET_stream"),
+      ),
+    );
+    const result = await sessionManager()
+      .getSessionServers()[0]
+      .createMessage(
+        {
+          messages: [{ role: "user", content: { type: "text", text: "hi" } }],
+          maxTokens: 10,
+        },
+        { timeout: 5000 },
+      );
+
+    expect(result.content).toEqual({ type: "text", text: "sampled" });
+  });
+
+  it("lists the roots of a project client through the route", async () => {
+    await waitFor(() => setClientRoots.mock.calls.length > 0);
+    expect(setClientRoots).toHaveBeenLastCalledWith(
+      expect.any(String),
+      "id-work",
+      roots,
+    );
+
+    roots.push({ uri: "file:///work/lib", name: "lib" });
+    await client.sendRootsListChanged();
+    await waitFor(() => setClientRoots.mock.calls.length > 1);
+    expect(setClientRoots.mock.calls[1][2]).toHaveLength(2);
+  });
+});
+
+describe("MCPHttpServer request metadata", () => {
+  it("attaches metadata to requests in a batch but not to responses", () => {
+    const httpServer = new MCPHttpServer(
+      {
+        getMaps: () => ({
+          servers: new Map(),
+          clients: new Map(),
+          serverNameToIdMap: new Map(),
+          serverStatusMap: new Map(),
+        }),
+        onCapabilitiesChanged: vi.fn(),
+      } as unknown as MCPServerManager,
+      0,
+    );
+    const internals = httpServer as unknown as {
+      copyMessageBody: (body: unknown) => any;
+      attachRequestMetadata: (
+        payload: unknown,
+        token: string | undefined,
+        projectId: string | null,
+      ) => void;
+    };
+    const body = [
+      { jsonrpc: "2.0", id: 1, method: "tools/list", params: {} },
+      { jsonrpc: "2.0", id: 0, result: { roots: [] } },
+    ];
+
+    const copy = internals.copyMessageBody(body);
+    internals.attachRequestMetadata(copy, "Bearer token", "p1");
+
+    expect(copy[0].params._meta).toEqual({
+      token: "Bearer token",
+      projectId: "p1",
+    });
+    expect(copy[1]).toEqual(body[1]);
+    expect(body[0].params).toEqual({});
+  });
+});
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { WorkflowDefinition, WorkflowNode } from "@mcp_router/shared";
+import { RequestHandlerBase } from "@/main/modules/mcp-server-runtime/request-handler-base";
+import type { TokenValidator } from "@/main/modules/mcp-server-runtime/token-validator";
+import { matchesWorkflowScope } from "@/main/modules/workflow/workflow-scope";
+
+let workflows: WorkflowDefinition[] = [];
+
+vi.mock("@/main/modules/workflow/workflow.repository", () => ({
+  getWorkflowRepository: () => ({
+    getWorkflowsByType: (type: string) =>
+      workflows.filter((w) => w.workflowType === type),
+    getWorkflowById: (id: string) => workflows.find((w) => w.id === id),
+  }),
+}));
+
+// Hook scripts are inline, so the hook module table is never read
+vi.mock("@/main/modules/workflow/hook.repository", () => ({
+  getHookRepository: () => ({}),
+}));
+
+vi.mock("@/main/modules/mcp-logger/mcp-logger.service", () => ({
+  getLogService: () => ({ recordMcpRequestLog: vi.fn() }),
+}));
+
+class TestRequestHandler extends RequestHandlerBase {
+  constructor() {
+    super({} as TokenValidator);
+  }
+
+  public call(
+    handler: (params: any) => Promise<any>,
+    metadata?: Record<string, any>,
+  ) {
+    return this.executeWithHooks(
+      "tools/call",
+      { name: "search", arguments: { trace: [] } },
+      "client",
+      handler,
+      metadata,
+    );
+  }
+}
+
+const node = (
+  id: string,
+  type: WorkflowNode["type"],
+  script?: string,
+): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: {
+    label: id,
+    hook: script ? { id: `hook-${id}`, script, blocking: true } : undefined,
+  },
+});
+
+// start -> pre -> mcp -> post -> end, where both hooks append the workflow id
+// to the trace in the arguments and the response
+const createWorkflow = (
+  id: string,
+  overrides: Partial<WorkflowDefinition> = {},
+  preScript = `return {
+    params: {
+      ...context.params,
+      arguments: { trace: [...context.params.arguments.trace, "${id}"] },
+    },
+  };`,
+): WorkflowDefinition => {
+  const nodes = [
+    node("start", "start"),
+    node("pre", "hook", preScript),
+    node("mcp", "mcp-call"),
+    node(
+      "post",
+      "hook",
+      `return { response: { trace: [...context.response.trace, "${id}"] } };`,
+    ),
+    node("end", "end"),
+  ];
+  return {
+    id,
+    name: id,
+    workflowType: "tools/call",
+    nodes,
+    edges: nodes
+      .slice(1)
+      .map((n, i) => ({ source: nodes[i].id, target: n.id })),
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+};
+
+const echoHandler = () =>
+  vi.fn(async (params: any) => ({
+    trace: [...params.arguments.trace, "handler"],
+  }));
+
+describe("RequestHandlerBase workflows", () => {
+  beforeEach(() => {
+    workflows = [];
+  });
+
+  it("composes matching workflows around the handler by priority", async () => {
+    workflows = [
+      createWorkflow("low", { priority: 0 }),
+      createWorkflow("high", { priority: 10 }),
+      createWorkflow("older", { priority: 0, createdAt: -1 }),
+    ];
+    const handler = echoHandler();
+
+    const result = await new TestRequestHandler().call(handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result.trace).toEqual([
+      "high",
+      "older",
+      "low",
+      "handler",
+      "low",
+      "older",
+      "high",
+    ]);
+  });
+
+  it("skips workflows that are disabled or out of scope", async () => {
+    workflows = [
+      createWorkflow("github", { scope: { servers: ["github"] } }),
+      createWorkflow("slack", { scope: { servers: ["slack"], tools: [] } }),
+      createWorkflow("disabled", { enabled: false }),
+    ];
+
+    const result = await new TestRequestHandler().call(echoHandler(), {
+      serverName: "slack",
+      toolName: "search",
+    });
+
+    expect(result.trace).toEqual(["slack", "handler", "slack"]);
+  });
+
+  it("does not fall back past a denial from an inner workflow", async () => {
+    workflows = [
+      createWorkflow("outer", { priority: 1 }),
+      createWorkflow(
+        "inner",
+        {},
+        `return { deny: true, reason: "Searching is not allowed" };`,
+      ),
+    ];
+    const handler = echoHandler();
+
+    await expect(new TestRequestHandler().call(handler)).rejects.toMatchObject({
+      message: expect.stringContaining("Searching is not allowed"),
+      data: { policyDenial: { workflowName: "inner" } },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("does not match a scoped dimension the request does not carry", () => {
+    expect(matchesWorkflowScope(undefined, {})).toBe(true);
+    expect(matchesWorkflowScope({ projects: [] }, {})).toBe(true);
+    expect(
+      matchesWorkflowScope({ projects: ["p1"] }, { projectId: null }),
+    ).toBe(false);
+    expect(
+      matchesWorkflowScope(
+        { clients: ["cursor"], projects: ["p1"] },
+        { clientId: "cursor", projectId: "p1" },
+      ),
+    ).toBe(true);
+  });
+});
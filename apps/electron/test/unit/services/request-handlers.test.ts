@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MCPServer, WorkflowDefinition } from "@mcp_router/shared";
+import { RequestHandlers } from "@/main/modules/mcp-server-runtime/request-handlers";
+import type { MCPServerManager } from "@/main/modules/mcp-server-manager/mcp-server-manager";
+
+let workflows: WorkflowDefinition[] = [];
+
+vi.mock("@/main/modules/workflow/workflow.repository", () => ({
+  getWorkflowRepository: () => ({
+    getWorkflowsByType: (type: string) =>
+      workflows.filter((w) => w.workflowType === type),
+    getWorkflowById: (id: string) => workflows.find((w) => w.id === id),
+  }),
+}));
+
+// Hook scripts are inline, so the hook module table is never read
+vi.mock("@/main/modules/workflow/hook.repository", () => ({
+  getHookRepository: () => ({}),
+}));
+
+vi.mock("@/main/modules/mcp-logger/mcp-logger.service", () => ({
+  getLogService: () => ({ recordMcpRequestLog: vi.fn() }),
+}));
+
+vi.mock("@/main/modules/settings/settings.service", () => ({
+  getSettingsService: () => ({ getSettings: () => ({}) }),
+}));
+
+// start -> pre -> mcp -> end, where the pre-hook replaces the resource URI
+const rewriteUriWorkflow = (uri: string): WorkflowDefinition => {
+  const nodes: WorkflowDefinition["nodes"] = [
+    { id: "start", type: "start", position: { x: 0, y: 0 }, data: {} },
+    {
+      id: "pre",
+      type: "hook",
+      position: { x: 0, y: 0 },
+      data: {
+        label: "pre",
+        hook: {
+          id: "hook-pre",
+          script: `return { params: { uri: ${JSON.stringify(uri)} } };`,
+          blocking: true,
+        },
+      },
+    },
+    { id: "mcp", type: "mcp-call", position: { x: 0, y: 0 }, data: {} },
+    { id: "end", type: "end", position: { x: 0, y: 0 }, data: {} },
+  ];
+  return {
+    id: "rewrite",
+    name: "rewrite",
+    workflowType: "resources/read",
+    nodes,
+    edges: nodes
+      .slice(1)
+      .map((n, i) => ({ source: nodes[i].id, target: n.id })),
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+};
+
+const createHandlers = () => {
+  const readResource = vi.fn(async ({ uri }: { uri: string }) => ({
+    contents: [{ uri, text: uri }],
+  }));
+  const maps = {
+    servers: new Map([
+      ["s1", { id: "s1", name: "github" } as MCPServer],
+      ["s2", { id: "s2", name: "slack" } as MCPServer],
+    ]),
+    clients: new Map([
+      ["s1", { readResource }],
+      ["s2", { readResource }],
+    ]),
+    serverNameToIdMap: new Map([
+      ["github", "s1"],
+      ["slack", "s2"],
+    ]),
+    serverStatusMap: new Map([
+      ["github", true],
+      ["slack", true],
+    ]),
+  };
+  const serverManager = {
+    getMaps: () => maps,
+  } as unknown as MCPServerManager;
+  return { handlers: new RequestHandlers(serverManager), readResource };
+};
+
+describe("RequestHandlers resources/read", () => {
+  beforeEach(() => {
+    workflows = [];
+  });
+
+  it("reads the URI rewritten by a workflow", async () => {
+    workflows = [rewriteUriWorkflow("resource://github/docs/other.md")];
+    const { handlers, readResource } = createHandlers();
+
+    await handlers.readResourceByUri("resource://github/docs/readme.md");
+
+    expect(readResource).toHaveBeenCalledWith({ uri: "docs/other.md" });
+  });
+
+  it("rejects a rewritten URI that points to another server", async () => {
+    workflows = [rewriteUriWorkflow("resource://slack/messages")];
+    const { handlers, readResource } = createHandlers();
+
+    await expect(
+      handlers.readResourceByUri("resource://github/docs/readme.md"),
+    ).rejects.toThrow(/does not belong to server github/);
+    expect(readResource).not.toHaveBeenCalled();
+  });
+});
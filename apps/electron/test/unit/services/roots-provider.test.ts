@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ListRootsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPServer, Project } from "@mcp_router/shared";
+import { RootsProvider } from "@/main/modules/mcp-server-manager/roots-provider";
+
+function createClient() {
+  const handlers = new Map<unknown, () => unknown>();
+  const client = {
+    setRequestHandler: vi.fn((schema: unknown, handler: () => unknown) => {
+      handlers.set(schema, handler);
+    }),
+    sendRootsListChanged: vi.fn(async () => {}),
+  };
+  return { client: client as unknown as Client, handlers, raw: client };
+}
+
+function setup(project: Partial<Project>) {
+  const servers: Record<string, MCPServer> = {
+    s1: { id: "s1", name: "fs", projectId: "p1" } as MCPServer,
+    s2: { id: "s2", name: "other", projectId: "p2" } as MCPServer,
+  };
+  const first = createClient();
+  const second = createClient();
+  const provider = new RootsProvider({
+    getServer: (serverId) => servers[serverId],
+    getProject: (projectId) =>
+      projectId === "p1"
+        ? ({ id: "p1", name: "work", ...project } as Project)
+        : null,
+    getClients: () =>
+      new Map([
+        ["s1", first.client],
+        ["s2", second.client],
+      ]),
+  });
+  return { provider, first, second };
+}
+
+describe("RootsProvider", () => {
+  it("answers roots/list with the roots of the server's project", async () => {
+    const { provider, first, second } = setup({
+      roots: [{ uri: "file:///work", name: "work" }],
+    });
+    provider.attach("s1", first.client);
+    provider.attach("s2", second.client);
+
+    await expect(
+      first.handlers.get(ListRootsRequestSchema)!(),
+    ).resolves.toEqual({ roots: [{ uri: "file:///work", name: "work" }] });
+    await expect(
+      second.handlers.get(ListRootsRequestSchema)!(),
+    ).resolves.toEqual({ roots: [] });
+  });
+
+  it("merges client roots only when forwarding is enabled", () => {
+    const disabled = setup({ roots: [{ uri: "file:///work" }] });
+    disabled.provider.setClientRoots("c1", "p1", [{ uri: "file:///client" }]);
+    expect(disabled.provider.getRoots("p1")).toEqual([{ uri: "file:///work" }]);
+    expect(disabled.first.raw.sendRootsListChanged).not.toHaveBeenCalled();
+
+    const enabled = setup({
+      roots: [{ uri: "file:///work" }],
+      forwardClientRoots: true,
+    });
+    enabled.provider.setClientRoots("c1", "p1", [
+      { uri: "file:///client" },
+      { uri: "file:///work" },
+    ]);
+    expect(enabled.provider.getRoots("p1")).toEqual([
+      { uri: "file:///work" },
+      { uri: "file:///client" },
+    ]);
+    expect(enabled.first.raw.sendRootsListChanged).toHaveBeenCalledTimes(1);
+    expect(enabled.second.raw.sendRootsListChanged).not.toHaveBeenCalled();
+  });
+
+  it("drops client roots when the session goes away", () => {
+    const { provider, first } = setup({ forwardClientRoots: true });
+    provider.setClientRoots("c1", "p1", [{ uri: "file:///client" }]);
+
+    provider.removeClientRoots("c1");
+
+    expect(provider.getRoots("p1")).toEqual([]);
+    expect(first.raw.sendRootsListChanged).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServerLogEntry } from "@mcp_router/shared";
+import { ServerLogBuffer } from "@/main/modules/mcp-server-manager/server-log-buffer";
+
+// Route the buffer's timers through the (fake) global timers
+vi.mock("timers", () => ({
+  setTimeout: (fn: () => void, ms: number) => globalThis.setTimeout(fn, ms),
+  clearTimeout: (id: ReturnType<typeof setTimeout>) =>
+    globalThis.clearTimeout(id),
+}));
+
+function setup(persisted: ServerLogEntry[] = [], maxLines = 500) {
+  const persist = vi.fn();
+  const onLines = vi.fn();
+  const buffer = new ServerLogBuffer(
+    { load: () => persisted, persist, onLines },
+    maxLines,
+  );
+  return { buffer, persist, onLines };
+}
+
+const lines = (entries: ServerLogEntry[]) => entries.map((e) => e.line);
+
+describe("ServerLogBuffer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("splits output into lines and keeps partial lines until completed", () => {
+    const { buffer, onLines } = setup();
+
+    buffer.append("s1", "starting\nlisten");
+    buffer.append("s1", "ing on stdio\r\n\n");
+
+    expect(lines(buffer.get("s1"))).toEqual(["starting", "listening on stdio"]);
+    expect(onLines).toHaveBeenCalledTimes(2);
+
+    buffer.append("s1", "fatal: crashed");
+    buffer.flushPartial("s1");
+    expect(lines(buffer.get("s1")).at(-1)).toBe("fatal: crashed");
+  });
+
+  it("keeps only the newest lines, after the persisted history", () => {
+    const history = [{ serverId: "s1", timestamp: 1, line: "old" }];
+    const { buffer } = setup(history, 3);
+
+    buffer.append("s1", "a\nb\n");
+    expect(lines(buffer.get("s1"))).toEqual(["old", "a", "b"]);
+
+    buffer.append("s1", "c\n");
+    expect(lines(buffer.get("s1"))).toEqual(["a", "b", "c"]);
+  });
+
+  it("persists new lines in batches", async () => {
+    const { buffer, persist } = setup();
+
+    buffer.append("s1", "one\n");
+    buffer.append("s1", "two\n");
+    expect(persist).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(persist).toHaveBeenCalledTimes(1);
+    expect(lines(persist.mock.calls[0][1])).toEqual(["one", "two"]);
+
+    buffer.append("s1", "three\n");
+    buffer.flush();
+    expect(lines(persist.mock.calls[1][1])).toEqual(["three"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MCPServer, ServerRequestPolicy } from "@mcp_router/shared";
+import { ServerRequestProxy } from "@/main/modules/mcp-server-manager/server-request-proxy";
+import type { InboundRequestExtra } from "@/main/utils/progress-utils";
+
+type Handler = (request: unknown, extra: { signal: AbortSignal }) => unknown;
+
+const samplingRequest = {
+  method: "sampling/createMessage",
+  params: {
+    messages: [{ role: "user", content: { type: "text", text: "hi" } }],
+    maxTokens: 10,
+  },
+};
+
+function setup(policy?: ServerRequestPolicy, approve = true) {
+  const handlers = new Map<unknown, Handler>();
+  const client = {
+    setRequestHandler: vi.fn((schema: unknown, handler: Handler) => {
+      handlers.set(schema, handler);
+    }),
+  } as unknown as Client;
+  const requestApproval = vi.fn(async () => approve);
+  const proxy = new ServerRequestProxy({
+    getServer: () =>
+      ({ id: "s1", name: "github", serverRequestPolicy: policy }) as MCPServer,
+    requestApproval,
+  });
+  proxy.attach("s1", client);
+
+  const call = (schema: unknown, request: unknown) =>
+    handlers.get(schema)!(request, {
+      signal: new AbortController().signal,
+    }) as Promise<unknown>;
+  return { proxy, call, requestApproval };
+}
+
+function createOrigin(result: unknown = { role: "assistant" }) {
+  const sendRequest = vi.fn(async () => result);
+  return {
+    origin: { sendRequest } as unknown as InboundRequestExtra,
+    sendRequest,
+  };
+}
+
+describe("ServerRequestProxy", () => {
+  it("relays requests to the session of the in-flight call", async () => {
+    const { proxy, call } = setup("allow");
+    const { origin, sendRequest } = createOrigin({ text: "done" });
+
+    const result = await proxy.runWithOrigin("s1", origin, () =>
+      call(CreateMessageRequestSchema, samplingRequest),
+    );
+
+    expect(result).toEqual({ text: "done" });
+    expect(sendRequest).toHaveBeenCalledWith(
+      samplingRequest,
+      expect.anything(),
+      expect.objectContaining({ timeout: expect.any(Number) }),
+    );
+  });
+
+  it("uses the innermost call when calls are nested", async () => {
+    const { proxy, call } = setup("allow");
+    const first = createOrigin();
+    const second = createOrigin();
+
+    await proxy.runWithOrigin("s1", first.origin, () =>
+      proxy.runWithOrigin("s1", second.origin, () =>
+        call(ElicitRequestSchema, {
+          method: "elicitation/create",
+          params: { message: "Name?", requestedSchema: { type: "object" } },
+        }),
+      ),
+    );
+
+    expect(second.sendRequest).toHaveBeenCalledTimes(1);
+    expect(first.sendRequest).not.toHaveBeenCalled();
+  });
+
+  it("routes concurrent calls from different sessions to their own origin", async () => {
+    const { proxy, call } = setup("allow");
+    const first = createOrigin({ text: "first" });
+    const second = createOrigin({ text: "second" });
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+    const results = await Promise.all([
+      proxy.runWithOrigin("s1", first.origin, async () => {
+        await tick();
+        return call(CreateMessageRequestSchema, samplingRequest);
+      }),
+      proxy.runWithOrigin("s1", second.origin, async () => {
+        await tick();
+        return call(CreateMessageRequestSchema, samplingRequest);
+      }),
+    ]);
+
+    expect(results).toEqual([{ text: "first" }, { text: "second" }]);
+    expect(first.sendRequest).toHaveBeenCalledTimes(1);
+    expect(second.sendRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses uncorrelated requests while several calls are in flight", async () => {
+    const { proxy, call } = setup("allow");
+    const first = createOrigin();
+    const second = createOrigin();
+    let release!: () => void;
+    const pending = new Promise<void>((resolve) => (release = resolve));
+
+    const calls = Promise.all([
+      proxy.runWithOrigin("s1", first.origin, () => pending),
+      proxy.runWithOrigin("s1", second.origin, () => pending),
+    ]);
+    // Arrives outside both calls' async context, as a stdio request would
+    const uncorrelated = call(CreateMessageRequestSchema, samplingRequest);
+
+    await expect(uncorrelated).rejects.toThrow(/Cannot tell which/);
+    release();
+    await calls;
+    expect(first.sendRequest).not.toHaveBeenCalled();
+    expect(second.sendRequest).not.toHaveBeenCalled();
+  });
+
+  it("relays uncorrelated requests when a single call is in flight", async () => {
+    const { proxy, call } = setup("allow");
+    const { origin, sendRequest } = createOrigin({ text: "done" });
+    let release!: () => void;
+    const pending = new Promise<void>((resolve) => (release = resolve));
+
+    const running = proxy.runWithOrigin("s1", origin, () => pending);
+    await expect(
+      call(CreateMessageRequestSchema, samplingRequest),
+    ).resolves.toEqual({ text: "done" });
+    release();
+    await running;
+    expect(sendRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects requests when the policy is deny", async () => {
+    const { proxy, call, requestApproval } = setup("deny");
+    const { origin, sendRequest } = createOrigin();
+
+    await expect(
+      proxy.runWithOrigin("s1", origin, () =>
+        call(CreateMessageRequestSchema, samplingRequest),
+      ),
+    ).rejects.toThrow(/not allowed/);
+    expect(requestApproval).not.toHaveBeenCalled();
+    expect(sendRequest).not.toHaveBeenCalled();
+  });
+
+  it("asks for approval by default", async () => {
+    const { proxy, call, requestApproval } = setup(undefined, false);
+    const { origin, sendRequest } = createOrigin();
+
+    await expect(
+      proxy.runWithOrigin("s1", origin, () =>
+        call(CreateMessageRequestSchema, samplingRequest),
+      ),
+    ).rejects.toThrow(/rejected by the user/);
+    expect(requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({
+        serverName: "github",
+        method: "sampling/createMessage",
+      }),
+    );
+    expect(sendRequest).not.toHaveBeenCalled();
+  });
+
+  it("fails when no call is in flight", async () => {
+    const { call } = setup("allow");
+
+    await expect(
+      call(CreateMessageRequestSchema, samplingRequest),
+    ).rejects.toThrow(/No client session/);
+  });
+});
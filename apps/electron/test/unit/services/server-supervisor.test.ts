@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { MCPServer } from "@mcp_router/shared";
+import { ServerSupervisor } from "@/main/modules/mcp-server-manager/server-supervisor";
+
+// Route the supervisor's timers through the (fake) global timers
+vi.mock("timers", () => ({
+  setTimeout: (fn: () => void, ms: number) => globalThis.setTimeout(fn, ms),
+  clearTimeout: (id: ReturnType<typeof setTimeout>) =>
+    globalThis.clearTimeout(id),
+  setInterval: (fn: () => void, ms: number) => globalThis.setInterval(fn, ms),
+  clearInterval: (id: ReturnType<typeof setInterval>) =>
+    globalThis.clearInterval(id),
+}));
+
+function createClient() {
+  const client = {
+    onclose: undefined as (() => void) | undefined,
+    onerror: undefined as ((error: Error) => void) | undefined,
+    ping: vi.fn(async () => ({})),
+    close: vi.fn(async () => {}),
+  };
+  return client;
+}
+
+function setup(
+  options: {
+    limit?: number;
+    restartFails?: boolean;
+    hasActiveCalls?: () => boolean;
+  } = {},
+) {
+  const server = { id: "s1", name: "fs", serverType: "local" } as MCPServer;
+  const onCrash = vi.fn();
+  const onRestartAttempt = vi.fn();
+  const onGiveUp = vi.fn();
+  const restart = vi.fn(async () => {
+    if (options.restartFails) {
+      throw new Error("spawn failed");
+    }
+  });
+  const supervisor = new ServerSupervisor({
+    getServer: () => server,
+    getRestartLimit: () => options.limit ?? 3,
+    onCrash,
+    restart,
+    onRestartAttempt,
+    onGiveUp,
+    hasActiveCalls: options.hasActiveCalls,
+  });
+  return { supervisor, server, onCrash, onRestartAttempt, onGiveUp, restart };
+}
+
+describe("ServerSupervisor", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("restarts a server whose process exits", async () => {
+    const { supervisor, onCrash, restart, onRestartAttempt } = setup();
+    const client = createClient();
+    supervisor.watch("s1", client as unknown as Client);
+
+    client.onerror?.(new Error("EPIPE"));
+    client.onclose?.();
+
+    expect(onCrash).toHaveBeenCalledWith("s1", "Server process exited: EPIPE");
+    expect(restart).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(restart).toHaveBeenCalledTimes(1);
+    expect(onRestartAttempt).toHaveBeenCalledWith("s1", 1);
+    supervisor.dispose();
+  });
+
+  it("backs off between failed restarts and gives up at the limit", async () => {
+    const { supervisor, restart, onRestartAttempt, onGiveUp } = setup({
+      limit: 2,
+      restartFails: true,
+    });
+    const client = createClient();
+    supervisor.watch("s1", client as unknown as Client);
+    client.onclose?.();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(restart).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(restart).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(restart).toHaveBeenCalledTimes(2);
+
+    expect(onRestartAttempt).toHaveBeenLastCalledWith("s1", 2, "spawn failed");
+    expect(onGiveUp).toHaveBeenCalledWith("s1", 2);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(restart).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not restart servers that were stopped on purpose", async () => {
+    const { supervisor, onCrash, restart } = setup();
+    const client = createClient();
+    supervisor.watch("s1", client as unknown as Client);
+
+    supervisor.unwatch("s1");
+    client.onclose?.();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(onCrash).not.toHaveBeenCalled();
+    expect(restart).not.toHaveBeenCalled();
+  });
+
+  it("treats a failed health check as a crash", async () => {
+    const { supervisor, onCrash } = setup();
+    const client = createClient();
+    client.ping.mockRejectedValueOnce(new Error("Request timed out"));
+    supervisor.watch("s1", client as unknown as Client);
+
+    await supervisor.checkHealth();
+
+    expect(onCrash).toHaveBeenCalledWith(
+      "s1",
+      "Health check failed: Request timed out",
+    );
+    expect(client.close).toHaveBeenCalled();
+    supervisor.dispose();
+  });
+
+  it("does not health check a server with tool calls in flight", async () => {
+    let busy = true;
+    const { supervisor, onCrash } = setup({ hasActiveCalls: () => busy });
+    const client = createClient();
+    client.ping.mockImplementation(async () => {
+      throw new Error("Request timed out");
+    });
+    supervisor.watch("s1", client as unknown as Client);
+
+    await supervisor.checkHealth();
+    expect(client.ping).not.toHaveBeenCalled();
+
+    // A call that starts while the ping is pending keeps the server alive too
+    busy = false;
+    client.ping.mockImplementationOnce(async () => {
+      busy = true;
+      throw new Error("Request timed out");
+    });
+    await supervisor.checkHealth();
+
+    expect(client.ping).toHaveBeenCalledTimes(1);
+    expect(onCrash).not.toHaveBeenCalled();
+    expect(client.close).not.toHaveBeenCalled();
+    supervisor.dispose();
+  });
+
+  it("ignores remote servers", () => {
+    const { supervisor, server, onCrash } = setup();
+    server.serverType = "remote-streamable";
+    const client = createClient();
+
+    supervisor.watch("s1", client as unknown as Client);
+    client.onclose?.();
+
+    expect(client.onclose).toBeUndefined();
+    expect(onCrash).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableSessionManager } from "@/main/modules/mcp-server-runtime/streamable-session-manager";
+
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(predicate()).toBe(true);
+}
+
+describe("StreamableSessionManager", () => {
+  let manager: StreamableSessionManager;
+  let httpServer: http.Server;
+  let url: string;
+  let now: number;
+
+  beforeEach(async () => {
+    now = Date.now();
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    manager = new StreamableSessionManager({
+      name: "Test",
+      createServer: () =>
+        new Server({ name: "test", version: "1.0.0" }, { capabilities: {} }),
+      isStateless: () => false,
+    });
+    httpServer = http.createServer(async (req, res) => {
+      const body = req.method === "POST" ? await readBody(req) : undefined;
+      await manager.handleRequest(req, res, body);
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await manager.shutdown();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  async function initialize(): Promise<string> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+    return response.headers.get("mcp-session-id")!;
+  }
+
+  function openResponses(sessionId: string): number | undefined {
+    const sessions = (
+      manager as unknown as {
+        sessions: Map<string, { openResponses: number }>;
+      }
+    ).sessions;
+    return sessions.get(sessionId)?.openResponses;
+  }
+
+  function sweep(): void {
+    (
+      manager as unknown as { closeExpiredSessions: () => void }
+    ).closeExpiredSessions();
+  }
+
+  it("expires sessions that stay idle past the timeout", async () => {
+    await initialize();
+    expect(manager.getSessionCount()).toBe(1);
+
+    now += IDLE_TIMEOUT_MS - 1;
+    sweep();
+    expect(manager.getSessionCount()).toBe(1);
+
+    now += 2;
+    sweep();
+    expect(manager.getSessionCount()).toBe(0);
+  });
+
+  it("keeps sessions with an open SSE stream alive", async () => {
+    const sessionId = await initialize();
+    const controller = new AbortController();
+    const stream = await fetch(url, {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+      signal: controller.signal,
+    });
+    expect(stream.status).toBe(200);
+
+    now += IDLE_TIMEOUT_MS * 2;
+    sweep();
+    expect(manager.getSessionCount()).toBe(1);
+
+    // Idle time counts from when the stream closed
+    controller.abort();
+    await stream.body?.cancel().catch(() => undefined);
+    await waitFor(() => openResponses(sessionId) === 0);
+    sweep();
+    expect(manager.getSessionCount()).toBe(1);
+    now += IDLE_TIMEOUT_MS + 1;
+    sweep();
+    expect(manager.getSessionCount()).toBe(0);
+  });
+});
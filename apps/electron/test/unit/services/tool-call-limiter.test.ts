@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+import type { MCPServer } from "@mcp_router/shared";
+import {
+  ToolCallLimiter,
+  resolveToolCallTimeoutMs,
+  type ToolCallContext,
+} from "@/main/modules/mcp-server-manager/tool-call-limiter";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+function setup(maxConcurrentToolCalls?: number) {
+  const onQueued = vi.fn();
+  const onRejected = vi.fn();
+  const limiter = new ToolCallLimiter({
+    getServer: () => ({ id: "s1", maxConcurrentToolCalls }) as MCPServer,
+    onQueued,
+    onRejected,
+  });
+  return { limiter, onQueued, onRejected };
+}
+
+function createCall(overrides: Partial<ToolCallContext> = {}): ToolCallContext {
+  return {
+    serverId: "s1",
+    toolName: "search",
+    clientId: "client",
+    timeoutMs: 60_000,
+    ...overrides,
+  };
+}
+
+describe("resolveToolCallTimeoutMs", () => {
+  it("prefers the per-tool override, then the server default", () => {
+    const server = {
+      toolCallTimeoutSec: 30,
+      toolTimeoutOverrides: { build: 600 },
+    } as unknown as MCPServer;
+
+    expect(resolveToolCallTimeoutMs(server, "build", 1000)).toBe(600_000);
+    expect(resolveToolCallTimeoutMs(server, "search", 1000)).toBe(30_000);
+    expect(resolveToolCallTimeoutMs(undefined, "search", 1000)).toBe(1000);
+  });
+});
+
+describe("ToolCallLimiter", () => {
+  it("runs calls directly when no limit is configured", async () => {
+    const { limiter, onQueued } = setup();
+    const first = deferred<string>();
+
+    const running = limiter.run(createCall(), () => first.promise);
+    const second = await limiter.run(createCall(), async () => "second");
+
+    expect(second).toBe("second");
+    expect(limiter.getStats("s1")).toEqual({ active: 1, queued: 0 });
+    first.resolve("first");
+    await expect(running).resolves.toBe("first");
+    expect(onQueued).not.toHaveBeenCalled();
+    expect(limiter.getStats("s1")).toEqual({ active: 0, queued: 0 });
+  });
+
+  it("queues calls over the limit and runs them in order", async () => {
+    const { limiter, onQueued } = setup(1);
+    const first = deferred<string>();
+    const order: string[] = [];
+
+    const running = limiter.run(createCall(), async () => {
+      order.push("first");
+      return first.promise;
+    });
+    const queued = limiter.run(createCall(), async () => {
+      order.push("second");
+      return "second";
+    });
+
+    await Promise.resolve();
+    expect(order).toEqual(["first"]);
+    expect(limiter.getStats("s1")).toEqual({ active: 1, queued: 1 });
+
+    first.resolve("first");
+    await expect(running).resolves.toBe("first");
+    await expect(queued).resolves.toBe("second");
+    expect(order).toEqual(["first", "second"]);
+    expect(onQueued).toHaveBeenCalledTimes(1);
+    expect(limiter.getStats("s1")).toEqual({ active: 0, queued: 0 });
+  });
+
+  it("rejects queued calls that are cancelled or time out", async () => {
+    const { limiter, onRejected } = setup(1);
+    const first = deferred<string>();
+    const controller = new AbortController();
+
+    const running = limiter.run(createCall(), () => first.promise);
+    const cancelled = limiter.run(
+      createCall({ signal: controller.signal }),
+      async () => "never",
+    );
+    const timedOut = limiter.run(
+      createCall({ timeoutMs: 10 }),
+      async () => "never",
+    );
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(/cancelled while queued/);
+    await expect(timedOut).rejects.toThrow(/timed out while waiting/);
+    expect(onRejected).toHaveBeenCalledTimes(2);
+
+    first.resolve("first");
+    await expect(running).resolves.toBe("first");
+    expect(limiter.getStats("s1")).toEqual({ active: 0, queued: 0 });
+  });
+
+  it("rejects an already cancelled call without queueing it", async () => {
+    const { limiter, onRejected } = setup(1);
+    const first = deferred<string>();
+    const controller = new AbortController();
+    controller.abort();
+
+    const running = limiter.run(createCall(), () => first.promise);
+    await expect(
+      limiter.run(
+        createCall({ signal: controller.signal }),
+        async () => "never",
+      ),
+    ).rejects.toThrow(/cancelled while queued/);
+    expect(onRejected).toHaveBeenCalledTimes(1);
+    expect(limiter.getStats("s1")).toEqual({ active: 1, queued: 0 });
+
+    first.resolve("first");
+    await running;
+  });
+
+  it("passes the timeout left after queueing to the call", async () => {
+    const { limiter } = setup(1);
+    const first = deferred<string>();
+    let now = 1_000;
+    const dateNow = vi.spyOn(Date, "now").mockImplementation(() => now);
+
+    const running = limiter.run(createCall(), async (remainingMs) => {
+      expect(remainingMs).toBe(60_000);
+      return first.promise;
+    });
+    const queued = limiter.run(
+      createCall(),
+      async (remainingMs) => remainingMs,
+    );
+
+    now += 15_000;
+    first.resolve("first");
+    await running;
+    await expect(queued).resolves.toBe(45_000);
+    dateNow.mockRestore();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { MCPServer } from "@mcp_router/shared";
+import {
+  TOOL_OUTPUT_TTL_MS,
+  ToolOutputStore,
+  formatToolOutputPage,
+  resolveToolOutputLimit,
+} from "@/main/modules/mcp-server-manager/tool-output-limiter";
+
+const resultIdOf = (text: string) => /resultId "([^"]+)"/.exec(text)?.[1] ?? "";
+
+describe("resolveToolOutputLimit", () => {
+  it("prefers the per-tool override, then the server default", () => {
+    const server = {
+      maxToolOutputChars: 1000,
+      toolOutputLimitOverrides: { query: 200 },
+    } as unknown as MCPServer;
+
+    expect(resolveToolOutputLimit(server, "query")).toBe(200);
+    expect(resolveToolOutputLimit(server, "list")).toBe(1000);
+    expect(resolveToolOutputLimit(undefined, "list")).toBeUndefined();
+  });
+});
+
+describe("ToolOutputStore", () => {
+  it("leaves content within the limit untouched", () => {
+    const store = new ToolOutputStore();
+    const content = [
+      { type: "text", text: "short" },
+      { type: "image", data: "abc" },
+    ];
+
+    expect(store.limitContent(content, 10, "client")).toEqual(content);
+    expect(store.limitContent(content, undefined, "client")).toBe(content);
+  });
+
+  it("truncates text over the limit and pages through the rest", () => {
+    const store = new ToolOutputStore();
+    const text = "0123456789".repeat(3);
+
+    const [limited] = store.limitContent(
+      [{ type: "text", text }],
+      12,
+      "client",
+    );
+
+    expect(limited.text.startsWith("012345678901\n\n[Output truncated")).toBe(
+      true,
+    );
+    const resultId = resultIdOf(limited.text);
+    const page = store.read(resultId, "client", 12);
+    expect(page).toMatchObject({
+      text: "234567890123",
+      offset: 12,
+      total: 30,
+      nextOffset: 24,
+    });
+    expect(store.read(resultId, "client", 24, 100)?.nextOffset).toBeUndefined();
+    expect(formatToolOutputPage(page!)).toContain("offset 24");
+  });
+
+  it("shares the limit across text items", () => {
+    const store = new ToolOutputStore();
+
+    const limited = store.limitContent(
+      [
+        { type: "text", text: "aaaa" },
+        { type: "text", text: "bbbb" },
+      ],
+      6,
+      "client",
+    );
+
+    expect(limited[0].text).toBe("aaaa");
+    expect(limited[1].text.startsWith("bb\n\n[Output truncated")).toBe(true);
+  });
+
+  it("only returns results to the client that made the call", () => {
+    const store = new ToolOutputStore();
+    const [limited] = store.limitContent(
+      [{ type: "text", text: "x".repeat(20) }],
+      5,
+      "client-a",
+    );
+    const resultId = resultIdOf(limited.text);
+
+    expect(store.read(resultId, "client-b")).toBeUndefined();
+    expect(store.read(resultId, "client-a")?.text).toBe("xxxxx");
+  });
+
+  it("forgets results after they expire", () => {
+    let now = 0;
+    const store = new ToolOutputStore(() => now);
+    const [limited] = store.limitContent(
+      [{ type: "text", text: "x".repeat(20) }],
+      5,
+      "client",
+    );
+
+    now = TOOL_OUTPUT_TTL_MS;
+    expect(store.read(resultIdOf(limited.text), "client")).toBeUndefined();
+  });
+});
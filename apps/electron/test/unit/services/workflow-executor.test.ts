@@ -0,0 +1,396 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+} from "@mcp_router/shared";
+import { WorkflowExecutor } from "@/main/modules/workflow/workflow-executor";
+
+// Hook scripts are inline; hooks that reference a module find none
+vi.mock("@/main/modules/workflow/hook.repository", () => ({
+  getHookRepository: () => ({ getHookModuleById: () => null }),
+}));
+
+const node = (
+  id: string,
+  type: WorkflowNode["type"],
+  script?: string,
+  blocking = false,
+): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: {
+    label: id,
+    hook: script ? { id: `hook-${id}`, script, blocking } : undefined,
+  },
+});
+
+const edge = (
+  source: string,
+  target: string,
+  sourceHandle?: string,
+): WorkflowEdge => ({ source, target, sourceHandle });
+
+const toWorkflow = (
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+): WorkflowDefinition => ({
+  id: "workflow-1",
+  name: "test",
+  workflowType: "tools/call",
+  nodes,
+  edges,
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// start -> pre -> mcp -> post -> end, leaving out hooks without a script
+const createWorkflow = (
+  preScript?: string,
+  postScript?: string,
+  blockingPre = false,
+  blockingPost = false,
+): WorkflowDefinition => {
+  const nodes = [
+    node("start", "start"),
+    ...(preScript ? [node("pre", "hook", preScript, blockingPre)] : []),
+    node("mcp", "mcp-call"),
+    ...(postScript ? [node("post", "hook", postScript, blockingPost)] : []),
+    node("end", "end"),
+  ];
+  return toWorkflow(
+    nodes,
+    nodes.slice(1).map((n, i) => edge(nodes[i].id, n.id)),
+  );
+};
+
+// start -> condition -(true)-> guard -> mcp -> end, with false going straight to mcp
+const createConditionWorkflow = (expression: string): WorkflowDefinition => {
+  const condition = node("check", "condition");
+  condition.data.condition = { expression };
+  return toWorkflow(
+    [
+      node("start", "start"),
+      condition,
+      node(
+        "guard",
+        "hook",
+        `return { params: { ...context.params, guarded: true } };`,
+      ),
+      node("mcp", "mcp-call"),
+      node("end", "end"),
+    ],
+    [
+      edge("start", "check"),
+      edge("check", "guard", "true"),
+      edge("check", "mcp", "false"),
+      edge("guard", "mcp"),
+      edge("mcp", "end"),
+    ],
+  );
+};
+
+const createContext = (mcpHandler: ReturnType<typeof vi.fn>) => ({
+  method: "tools/call",
+  params: { name: "search", arguments: { query: "mcp", apiKey: "secret" } },
+  clientId: "client",
+  mcpHandler,
+});
+
+describe("WorkflowExecutor", () => {
+  it("passes params rewritten by a pre-hook to the MCP handler", async () => {
+    const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+    const executor = new WorkflowExecutor(
+      createWorkflow(`
+        const { apiKey, ...args } = context.params.arguments;
+        return { params: { ...context.params, arguments: { ...args, limit: 10 } } };
+      `),
+    );
+
+    const result = await executor.execute(createContext(mcpHandler));
+
+    expect(mcpHandler).toHaveBeenCalledWith({
+      name: "search",
+      arguments: { query: "mcp", limit: 10 },
+    });
+    expect(result.mcpResult).toEqual({ content: [] });
+  });
+
+  it("returns the response transformed by a post-hook", async () => {
+    const mcpHandler = vi.fn().mockResolvedValue({
+      tools: [{ name: "read" }, { name: "delete" }],
+    });
+    const executor = new WorkflowExecutor(
+      createWorkflow(
+        undefined,
+        `return {
+          response: {
+            tools: context.response.tools.filter((t) => t.name !== "delete"),
+          },
+        };`,
+      ),
+    );
+
+    const result = await executor.execute(createContext(mcpHandler));
+
+    expect(result.mcpResult).toEqual({ tools: [{ name: "read" }] });
+  });
+
+  it("leaves the request alone when hooks return nothing to apply", async () => {
+    const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+    const context = createContext(mcpHandler);
+    const executor = new WorkflowExecutor(
+      createWorkflow(
+        `return { response: { content: ["ignored before the call"] } };`,
+        `console.log(context.response); return "logged";`,
+      ),
+    );
+
+    const result = await executor.execute(context);
+
+    expect(mcpHandler).toHaveBeenCalledWith(context.params);
+    expect(result.mcpResult).toEqual({ content: [] });
+    expect(result.results.post.result).toBe("logged");
+  });
+
+  it("ignores the return value of a failing hook", async () => {
+    const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+    const context = createContext(mcpHandler);
+    const executor = new WorkflowExecutor(
+      createWorkflow(`throw new Error("broken");`),
+    );
+
+    const result = await executor.execute(context);
+
+    expect(result.results.pre.success).toBe(false);
+    expect(mcpHandler).toHaveBeenCalledWith(context.params);
+    expect(result.mcpResult).toEqual({ content: [] });
+  });
+
+  it("stops before the MCP call when a blocking hook denies it", async () => {
+    const mcpHandler = vi.fn();
+    const executor = new WorkflowExecutor(
+      createWorkflow(
+        `if (context.params.name.startsWith("delete_")) {
+          return { deny: true, reason: "Deleting is not allowed" };
+        }`,
+        undefined,
+        true,
+      ),
+    );
+
+    const result = await executor.execute({
+      ...createContext(mcpHandler),
+      params: { name: "delete_file", arguments: {} },
+    });
+
+    expect(mcpHandler).not.toHaveBeenCalled();
+    expect(result.status).toBe("denied");
+    expect(result.denial).toEqual({
+      nodeId: "pre",
+      hookName: "pre",
+      reason: "Deleting is not allowed",
+    });
+    expect(result.mcpResult).toBeUndefined();
+  });
+
+  it("denies the call when a blocking hook fails", async () => {
+    const mcpHandler = vi.fn();
+    const executor = new WorkflowExecutor(
+      createWorkflow(`throw new Error("broken");`, undefined, true),
+    );
+
+    const result = await executor.execute(createContext(mcpHandler));
+
+    expect(mcpHandler).not.toHaveBeenCalled();
+    expect(result.status).toBe("denied");
+    expect(result.denial.reason).toContain("broken");
+  });
+
+  it("denies the call when the module of a blocking hook is missing", async () => {
+    const mcpHandler = vi.fn();
+    const workflow = createWorkflow("return;", undefined, true);
+    workflow.nodes[1].data.hook = {
+      id: "hook-pre",
+      hookModuleId: "missing",
+      blocking: true,
+    };
+
+    const result = await new WorkflowExecutor(workflow).execute(
+      createContext(mcpHandler),
+    );
+
+    expect(mcpHandler).not.toHaveBeenCalled();
+    expect(result.status).toBe("denied");
+    expect(result.denial.reason).toContain("Hook module not found: missing");
+  });
+
+  it("ignores denials from blocking hooks after the MCP call", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+    const executor = new WorkflowExecutor(
+      createWorkflow(
+        undefined,
+        `return { deny: true, reason: "Too late" };`,
+        false,
+        true,
+      ),
+    );
+
+    const result = await executor.execute(createContext(mcpHandler));
+
+    expect(mcpHandler).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe("completed");
+    expect(result.mcpResult).toEqual({ content: [] });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Ignoring denial from hook post"),
+    );
+    warn.mockRestore();
+  });
+
+  it("ignores deny decisions from non-blocking hooks", async () => {
+    const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+    const executor = new WorkflowExecutor(
+      createWorkflow(`return { deny: true };`),
+    );
+
+    const result = await executor.execute(createContext(mcpHandler));
+
+    expect(mcpHandler).toHaveBeenCalled();
+    expect(result.status).toBe("completed");
+  });
+
+  it("accepts server event workflows only without an MCP call", () => {
+    const withMcp = {
+      ...createWorkflow(),
+      workflowType: "server/start" as const,
+    };
+    const nodes = withMcp.nodes.filter((n) => n.type !== "mcp-call");
+    const withoutMcp = {
+      ...withMcp,
+      nodes,
+      edges: [edge("start", "end")],
+    };
+
+    expect(WorkflowExecutor.isValidWorkflow(withMcp)).toBe(false);
+    expect(WorkflowExecutor.isValidWorkflow(withoutMcp)).toBe(true);
+    expect(
+      WorkflowExecutor.isValidWorkflow({
+        ...withoutMcp,
+        workflowType: "tools/call",
+      }),
+    ).toBe(false);
+  });
+
+  describe("branch nodes", () => {
+    it("runs the hook chain of the branch the condition selects", async () => {
+      const workflow = createConditionWorkflow(
+        `toolName.startsWith("delete_") && args.force !== true`,
+      );
+      const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+
+      const guarded = await new WorkflowExecutor(workflow).execute({
+        ...createContext(mcpHandler),
+        params: { name: "delete_file", arguments: {} },
+      });
+      const direct = await new WorkflowExecutor(workflow).execute({
+        ...createContext(mcpHandler),
+        params: { name: "read_file", arguments: {} },
+      });
+
+      expect(mcpHandler).toHaveBeenNthCalledWith(1, {
+        name: "delete_file",
+        arguments: {},
+        guarded: true,
+      });
+      expect(guarded.results.check.branch).toBe("true");
+      expect(mcpHandler).toHaveBeenNthCalledWith(2, {
+        name: "read_file",
+        arguments: {},
+      });
+      expect(direct.results.guard).toEqual({
+        skipped: true,
+        reason: "Branch not taken",
+      });
+    });
+
+    it("takes the false branch when the expression fails", async () => {
+      const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+      const result = await new WorkflowExecutor(
+        createConditionWorkflow("args.missing.value"),
+      ).execute(createContext(mcpHandler));
+
+      expect(result.results.check.branch).toBe("false");
+      expect(result.results.check.error).toBeDefined();
+      expect(result.mcpResult).toEqual({ content: [] });
+    });
+
+    it("routes a switch to the matching case or the default branch", async () => {
+      const switchNode = node("route", "switch");
+      switchNode.data.switch = {
+        expression: "serverName",
+        cases: [{ id: "case-github", value: "github" }],
+      };
+      const workflow = toWorkflow(
+        [
+          node("start", "start"),
+          switchNode,
+          node("github", "hook", `return "github";`),
+          node("other", "hook", `return "other";`),
+          node("mcp", "mcp-call"),
+          node("end", "end"),
+        ],
+        [
+          edge("start", "route"),
+          edge("route", "github", "case-github"),
+          edge("route", "other", "default"),
+          edge("github", "mcp"),
+          edge("other", "mcp"),
+          edge("mcp", "end"),
+        ],
+      );
+      const mcpHandler = vi.fn().mockResolvedValue({ content: [] });
+
+      const github = await new WorkflowExecutor(workflow).execute({
+        ...createContext(mcpHandler),
+        serverName: "github",
+      });
+      const other = await new WorkflowExecutor(workflow).execute({
+        ...createContext(mcpHandler),
+        serverName: "slack",
+      });
+
+      expect(github.results.github.result).toBe("github");
+      expect(github.results.other.skipped).toBe(true);
+      expect(other.results.other.result).toBe("other");
+      expect(other.results.github.skipped).toBe(true);
+      expect(mcpHandler).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects branches before the MCP call that do not reach it", () => {
+      const workflow = createConditionWorkflow("true");
+
+      expect(WorkflowExecutor.isValidWorkflow(workflow)).toBe(true);
+      expect(
+        WorkflowExecutor.isValidWorkflow({
+          ...workflow,
+          edges: workflow.edges.filter((e) => e.sourceHandle !== "false"),
+        }),
+      ).toBe(false);
+
+      const condition = workflow.nodes.find((n) => n.id === "check")!;
+      expect(
+        WorkflowExecutor.isValidWorkflow({
+          ...workflow,
+          nodes: workflow.nodes.map((n) =>
+            n === condition
+              ? { ...n, data: { ...n.data, condition: { expression: " " } } }
+              : n,
+          ),
+        }),
+      ).toBe(false);
+    });
+  });
+});
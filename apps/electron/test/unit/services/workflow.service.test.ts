@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { WorkflowDefinition, WorkflowNode } from "@mcp_router/shared";
+import { WorkflowService } from "@/main/modules/workflow/workflow.service";
+
+let workflows: WorkflowDefinition[] = [];
+
+vi.mock("@/main/modules/workflow/workflow.repository", () => ({
+  getWorkflowRepository: () => ({
+    getWorkflowsByType: (type: string) =>
+      workflows.filter((w) => w.workflowType === type),
+    getWorkflowById: (id: string) => workflows.find((w) => w.id === id),
+    createWorkflow: vi.fn(),
+  }),
+}));
+
+// Hook scripts are inline, so the hook module table is never read
+vi.mock("@/main/modules/workflow/hook.repository", () => ({
+  getHookRepository: () => ({}),
+}));
+
+const node = (
+  id: string,
+  type: WorkflowNode["type"],
+  script?: string,
+): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: {
+    label: id,
+    hook: script ? { id: `hook-${id}`, script, blocking: false } : undefined,
+  },
+});
+
+// start -> notify -> end
+const createEventWorkflow = (
+  id: string,
+  overrides: Partial<WorkflowDefinition> = {},
+): WorkflowDefinition => ({
+  id,
+  name: id,
+  workflowType: "server/error",
+  nodes: [
+    node("start", "start"),
+    node("notify", "hook", "return `${context.serverName}: ${context.error}`;"),
+    node("end", "end"),
+  ],
+  edges: [
+    { source: "start", target: "notify" },
+    { source: "notify", target: "end" },
+  ],
+  enabled: true,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe("WorkflowService", () => {
+  beforeEach(() => {
+    workflows = [];
+    WorkflowService.resetInstance();
+  });
+
+  it("runs matching server event workflows by priority", async () => {
+    workflows = [
+      createEventWorkflow("low"),
+      createEventWorkflow("high", { priority: 5 }),
+      createEventWorkflow("other-server", { scope: { servers: ["slack"] } }),
+      createEventWorkflow("start-only", { workflowType: "server/start" }),
+    ];
+    const service = WorkflowService.getInstance();
+    const execute = vi.spyOn(service, "executeWorkflow");
+
+    await service.runLifecycleWorkflows("server/error", {
+      serverId: "server-1",
+      serverName: "github",
+      error: "spawn ENOENT",
+    });
+
+    expect(execute.mock.calls.map(([id]) => id)).toEqual(["high", "low"]);
+    expect(execute.mock.calls[0][1]).toMatchObject({
+      method: "server/error",
+      serverName: "github",
+      params: { serverName: "github", error: "spawn ENOENT" },
+    });
+    const result = await execute.mock.results[0].value;
+    expect(result.results.notify.result).toBe("github: spawn ENOENT");
+  });
+
+  it("rejects unsupported workflow types", async () => {
+    await expect(
+      WorkflowService.getInstance().createWorkflow({
+        name: "delete guard",
+        workflowType: "tools/delete" as WorkflowDefinition["workflowType"],
+        nodes: [],
+        edges: [],
+        enabled: true,
+      }),
+    ).rejects.toThrow("Unsupported workflow type: tools/delete");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createProgressRelay,
+  type InboundRequestExtra,
+} from "@/main/utils/progress-utils";
+
+function createExtra() {
+  const sendNotification = vi.fn().mockResolvedValue(undefined);
+  const extra = {
+    signal: new AbortController().signal,
+    requestId: 1,
+    sendNotification,
+    sendRequest: vi.fn(),
+  } as unknown as InboundRequestExtra;
+  return { extra, sendNotification };
+}
+
+describe("createProgressRelay", () => {
+  it("returns undefined when the caller sent no progress token", () => {
+    const { extra } = createExtra();
+    expect(createProgressRelay(undefined, extra)).toBeUndefined();
+  });
+
+  it("returns undefined without a request context", () => {
+    expect(createProgressRelay("token", undefined)).toBeUndefined();
+  });
+
+  it("re-emits progress with the caller's token", () => {
+    const { extra, sendNotification } = createExtra();
+    const relay = createProgressRelay("caller-token", extra);
+
+    relay?.({ progress: 3, total: 10, message: "working" });
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: "notifications/progress",
+      params: {
+        progress: 3,
+        total: 10,
+        message: "working",
+        progressToken: "caller-token",
+      },
+    });
+  });
+
+  it("swallows notification failures", async () => {
+    const { extra, sendNotification } = createExtra();
+    sendNotification.mockRejectedValueOnce(new Error("closed"));
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    createProgressRelay(0, extra)?.({ progress: 1 });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
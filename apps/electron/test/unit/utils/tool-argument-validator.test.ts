@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatToolArgumentError,
+  validateToolArguments,
+} from "@/main/utils/tool-argument-validator";
+
+const schema = {
+  type: "object",
+  properties: {
+    path: { type: "string" },
+    limit: { type: "integer" },
+    recursive: { type: "boolean" },
+    mode: { type: "string", enum: ["read", "write"] },
+    options: {
+      type: "object",
+      properties: { depth: { type: "number" } },
+      additionalProperties: false,
+    },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["path"],
+  additionalProperties: false,
+};
+
+describe("validateToolArguments", () => {
+  it("accepts arguments that match the schema", () => {
+    const args = { path: "/tmp", limit: 10, tags: ["a"] };
+
+    const result = validateToolArguments(schema, args);
+
+    expect(result.valid).toBe(true);
+    expect(result.arguments).toEqual(args);
+  });
+
+  it("reports missing, unexpected and mistyped fields with their paths", () => {
+    const result = validateToolArguments(schema, {
+      limit: "10",
+      mode: "delete",
+      file: "/tmp",
+      options: { depth: 2, verbose: true },
+      tags: ["a", 1],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { kind: "missing", path: "path", expected: "string" },
+      {
+        kind: "type",
+        path: "limit",
+        expected: "integer",
+        received: 'string "10"',
+      },
+      {
+        kind: "enum",
+        path: "mode",
+        expected: '"read", "write"',
+        received: '"delete"',
+      },
+      { kind: "unexpected", path: "file" },
+      { kind: "unexpected", path: "options.verbose" },
+      { kind: "type", path: "tags[1]", expected: "string", received: "number" },
+    ]);
+  });
+
+  it("coerces obvious mismatches only when enabled", () => {
+    const args = {
+      path: "/tmp",
+      limit: "10",
+      recursive: "true",
+      options: '{"depth": 2}',
+    };
+
+    const result = validateToolArguments(schema, args, { coerce: true });
+
+    expect(result.valid).toBe(true);
+    expect(result.arguments).toEqual({
+      path: "/tmp",
+      limit: 10,
+      recursive: true,
+      options: { depth: 2 },
+    });
+    expect(args.limit).toBe("10");
+    const fractional = { path: "/tmp", limit: "1.5" };
+    expect(
+      validateToolArguments(schema, fractional, { coerce: true }).valid,
+    ).toBe(false);
+  });
+
+  it("accepts any matching anyOf alternative", () => {
+    const unionSchema = {
+      type: "object",
+      properties: {
+        id: { anyOf: [{ type: "string" }, { type: "integer" }] },
+      },
+    };
+
+    expect(validateToolArguments(unionSchema, { id: 3 }).valid).toBe(true);
+    expect(validateToolArguments(unionSchema, { id: "x" }).valid).toBe(true);
+    expect(validateToolArguments(unionSchema, { id: true }).valid).toBe(false);
+  });
+
+  it("passes arguments through when the tool has no schema", () => {
+    const result = validateToolArguments(undefined, { anything: 1 });
+
+    expect(result.valid).toBe(true);
+    expect(result.arguments).toEqual({ anything: 1 });
+  });
+});
+
+describe("formatToolArgumentError", () => {
+  it("lists each issue followed by the expected schema", () => {
+    const { issues } = validateToolArguments(schema, { limit: true });
+
+    const message = formatToolArgumentError("read_file", issues, schema);
+
+    expect(message).toContain('Invalid arguments for tool "read_file":');
+    expect(message).toContain('- missing required field "path"');
+    expect(message).toContain('- field "limit" must be integer, got boolean');
+    expect(message).toContain(JSON.stringify(schema, null, 2));
+  });
+});
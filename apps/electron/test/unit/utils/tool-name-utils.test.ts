@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPrefixedToolName,
+  findToolNameCollisions,
+  resolveExposedToolNames,
+} from "@/main/utils/tool-name-utils";
+
+const tools = [
+  { serverName: "github", toolName: "search" },
+  { serverName: "github", toolName: "create_issue" },
+  { serverName: "exa", toolName: "search" },
+];
+
+describe("createPrefixedToolName", () => {
+  it("joins server and tool name with the separator", () => {
+    expect(createPrefixedToolName("github", "search")).toBe("github__search");
+  });
+
+  it("replaces characters not allowed in tool names", () => {
+    expect(createPrefixedToolName("my server.v2", "search")).toBe(
+      "my_server_v2__search",
+    );
+  });
+});
+
+describe("findToolNameCollisions", () => {
+  it("reports tools exposed by more than one server", () => {
+    expect(findToolNameCollisions(tools)).toEqual([
+      { toolName: "search", serverNames: ["github", "exa"] },
+    ]);
+  });
+
+  it("returns an empty list when names are unique", () => {
+    expect(findToolNameCollisions(tools.slice(0, 2))).toEqual([]);
+  });
+});
+
+describe("resolveExposedToolNames", () => {
+  it("prefixes only colliding tools with prefix-on-collision", () => {
+    const result = resolveExposedToolNames(tools, "prefix-on-collision");
+
+    expect(result.tools.map((t) => t.exposedName)).toEqual([
+      "github__search",
+      "create_issue",
+      "exa__search",
+    ]);
+    expect(result.collisions).toHaveLength(1);
+  });
+
+  it("prefixes every tool with prefix", () => {
+    const result = resolveExposedToolNames(tools, "prefix");
+
+    expect(result.tools.map((t) => t.exposedName)).toEqual([
+      "github__search",
+      "github__create_issue",
+      "exa__search",
+    ]);
+  });
+
+  it("keeps the first server for a colliding name with raw", () => {
+    const result = resolveExposedToolNames(tools, "raw");
+
+    expect(result.tools).toEqual([
+      { serverName: "github", toolName: "search", exposedName: "search" },
+      {
+        serverName: "github",
+        toolName: "create_issue",
+        exposedName: "create_issue",
+      },
+    ]);
+    expect(result.collisions).toEqual([
+      { toolName: "search", serverNames: ["github", "exa"] },
+    ]);
+  });
+
+  it("preserves extra fields for reverse mapping", () => {
+    const result = resolveExposedToolNames(
+      [{ serverName: "exa", toolName: "search", tool: { description: "d" } }],
+      "prefix",
+    );
+
+    expect(result.tools[0].tool).toEqual({ description: "d" });
+  });
+});
@@ -15,6 +15,8 @@ export interface AIConfig {
   apiKey: string;
   /** 模型名称 */
   model: string;
+  /** Embedding模型名称（可选，设置后入口MCP的工具搜索使用语义相似度） */
+  embeddingModel?: string;
 }
 
 /**
@@ -17,6 +17,46 @@ export interface EntryMCPConfig {
   description?: string;
 }
 
+/**
+ * 命名入口端点（/mcp/e/<name>）
+ * 只暴露选中的服务器，便于为不同的 Agent 提供聚焦的工具目录
+ */
+export interface EntryEndpointConfig {
+  /** 端点名称，用作 URL 路径（字母、数字、- 和 _） */
+  name: string;
+  /** 端点描述，作为 MCP 初始化结果中的 instructions 返回给客户端（可选） */
+  description?: string;
+  /** 暴露的服务器ID */
+  serverIds: string[];
+  /** 同时暴露该项目中的全部服务器（可选） */
+  projectId?: string;
+  /** 该端点 SKILL.md 的自定义模板（可选，默认使用 Skills 设置中的模板） */
+  skillTemplate?: string;
+}
+
+/**
+ * 命名入口端点名称的格式
+ */
+export const ENTRY_ENDPOINT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * 入口MCP暴露的元工具名称（按 tools/list 中的顺序）
+ */
+export const ENTRY_META_TOOL_NAMES = [
+  "list_mcp_servers",
+  "list_mcp_tools",
+  "search_mcp_tools",
+  "call_mcp_tool",
+  "call_mcp_tools_batch",
+  "read_tool_result",
+  "list_mcp_resources",
+  "read_mcp_resource",
+  "list_mcp_prompts",
+  "get_mcp_prompt",
+] as const;
+
+export type EntryMetaToolName = (typeof ENTRY_META_TOOL_NAMES)[number];
+
 /**
  * MCP工具信息
  */
@@ -65,6 +105,46 @@ export interface ListMCPToolsResult {
   message?: string;
 }
 
+/**
+ * search_mcp_tools 工具的参数
+ */
+export interface SearchMCPToolsParams {
+  /** 自然语言描述的需求 */
+  query: string;
+  /** 返回的最大数量（可选） */
+  limit?: number;
+  /** 只在指定MCP服务器中搜索（可选） */
+  mcpName?: string;
+}
+
+/**
+ * search_mcp_tools 的单个匹配结果
+ */
+export interface SearchMCPToolMatch {
+  /** MCP服务器名称 */
+  mcpName: string;
+  /** 工具名称 */
+  toolName: string;
+  /** 工具描述 */
+  description?: string;
+  /** 输入参数Schema */
+  inputSchema?: Record<string, unknown>;
+  /** 相关度得分（越大越相关） */
+  score: number;
+}
+
+/**
+ * search_mcp_tools 工具的返回结果
+ */
+export interface SearchMCPToolsResult {
+  /** 按相关度排序的工具 */
+  results: SearchMCPToolMatch[];
+  /** 使用的排序方式 */
+  method: "bm25" | "embedding";
+  /** 提示信息（可选） */
+  message?: string;
+}
+
 /**
  * call_mcp_tool 工具的参数
  */
@@ -79,6 +159,115 @@ export interface CallMCPToolParams {
   timeoutSec?: number;
 }
 
+/**
+ * MCP资源信息
+ */
+export interface MCPResourceInfo {
+  /** 资源URI（即 read_mcp_resource 的 uri 参数） */
+  uri: string;
+  /** 资源名称 */
+  name?: string;
+  /** 资源描述 */
+  description?: string;
+  /** MIME类型 */
+  mimeType?: string;
+}
+
+/**
+ * MCP资源模板信息
+ */
+export interface MCPResourceTemplateInfo {
+  /** URI模板（RFC 6570） */
+  uriTemplate: string;
+  /** 模板名称 */
+  name?: string;
+  /** 模板描述 */
+  description?: string;
+  /** MIME类型 */
+  mimeType?: string;
+}
+
+/**
+ * MCP提示词信息
+ */
+export interface MCPPromptInfo {
+  /** 提示词名称 */
+  name: string;
+  /** 提示词描述 */
+  description?: string;
+  /** 提示词参数 */
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+}
+
+/**
+ * list_mcp_resources 工具的参数
+ */
+export interface ListMCPResourcesParams {
+  /** 指定MCP名称过滤（可选） */
+  mcpName?: string;
+}
+
+/**
+ * list_mcp_resources 工具的返回结果
+ */
+export interface ListMCPResourcesResult {
+  /** 按服务器分组的资源 */
+  servers: Array<{
+    name: string;
+    resources: MCPResourceInfo[];
+    resourceTemplates: MCPResourceTemplateInfo[];
+  }>;
+  /** 提示信息（可选） */
+  message?: string;
+}
+
+/**
+ * read_mcp_resource 工具的参数
+ */
+export interface ReadMCPResourceParams {
+  /** MCP服务器名称 */
+  mcpName: string;
+  /** 资源URI */
+  uri: string;
+}
+
+/**
+ * list_mcp_prompts 工具的参数
+ */
+export interface ListMCPPromptsParams {
+  /** 指定MCP名称过滤（可选） */
+  mcpName?: string;
+}
+
+/**
+ * list_mcp_prompts 工具的返回结果
+ */
+export interface ListMCPPromptsResult {
+  /** 按服务器分组的提示词 */
+  servers: Array<{
+    name: string;
+    prompts: MCPPromptInfo[];
+  }>;
+  /** 提示信息（可选） */
+  message?: string;
+}
+
+/**
+ * get_mcp_prompt 工具的参数
+ */
+export interface GetMCPPromptParams {
+  /** MCP服务器名称 */
+  mcpName: string;
+  /** 提示词名称 */
+  promptName: string;
+  /** 提示词参数 */
+  arguments?: Record<string, unknown>;
+}
+
 /**
  * 工具调用结果内容项
  */
@@ -91,6 +280,13 @@ export interface ToolResultContent {
   data?: string;
   /** MIME类型 */
   mimeType?: string;
+  /** 嵌入的资源内容（type 为 resource 时） */
+  resource?: {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+  };
 }
 
 /**
@@ -105,6 +301,52 @@ export interface CallMCPToolResult {
   errorCode?: string;
 }
 
+/**
+ * read_tool_result 工具的参数
+ */
+export interface ReadToolResultParams {
+  /** 被截断的结果中给出的结果ID */
+  resultId: string;
+  /** 起始位置（字符数，默认 0） */
+  offset?: number;
+  /** 读取的字符数（可选） */
+  length?: number;
+}
+
+/**
+ * call_mcp_tools_batch 工具的参数
+ */
+export interface CallMCPToolsBatchParams {
+  /** 要执行的调用，每项与 call_mcp_tool 的参数相同 */
+  calls: CallMCPToolParams[];
+  /** 同时执行的最大调用数（可选） */
+  concurrency?: number;
+}
+
+/**
+ * call_mcp_tools_batch 中单个调用的结果
+ */
+export interface CallMCPToolsBatchItemResult extends CallMCPToolResult {
+  /** 在 calls 中的位置（从 0 开始） */
+  index: number;
+  /** MCP服务器名称 */
+  mcpName: string;
+  /** 工具名称 */
+  toolName: string;
+}
+
+/**
+ * call_mcp_tools_batch 工具的返回结果
+ */
+export interface CallMCPToolsBatchResult {
+  /** 与 calls 顺序一致的结果 */
+  results: CallMCPToolsBatchItemResult[];
+  /** 整批参数无效时的提示信息（可选） */
+  message?: string;
+  /** 整批参数无效时的错误码（可选） */
+  errorCode?: string;
+}
+
 /**
  * 默认入口MCP配置
  */
@@ -4,6 +4,12 @@
 
 import { CursorPaginationOptions, CursorPaginationResult } from "./pagination";
 
+/**
+ * リクエストログのステータス
+ * denied: WorkflowのブロッキングHookによってポリシー上拒否されたリクエスト
+ */
+export type RequestLogStatus = "success" | "error" | "denied";
+
 /**
  * リクエストログエントリのインターフェース
  */
@@ -16,7 +22,7 @@ export interface RequestLogEntry {
   serverName: string; // サーバ名
   requestType: string; // リクエストタイプ（CallTool, ReadResource など）
   requestParams: any; // リクエストパラメータ
-  responseStatus: "success" | "error"; // レスポンスステータス
+  responseStatus: RequestLogStatus; // レスポンスステータス
   responseData?: any; // レスポンスデータ
   duration: number; // 処理時間（ms）
   errorMessage?: string; // エラーメッセージ（あれば）
@@ -36,7 +42,7 @@ export interface RequestLogFilters {
   requestType?: string;
   startDate?: Date;
   endDate?: Date;
-  responseStatus?: "success" | "error";
+  responseStatus?: RequestLogStatus;
 }
 
 /**
@@ -59,13 +65,22 @@ export interface McpManagerRequestLogEntry {
   timestamp: string;
   requestType: string;
   params: any;
-  result: "success" | "error";
+  result: RequestLogStatus;
   errorMessage?: string;
   response?: any;
   duration: number;
   clientId: string;
 }
 
+/**
+ * ローカルMCPサーバの標準エラー出力1行分
+ */
+export interface ServerLogEntry {
+  serverId: string; // サーバ識別子
+  timestamp: number; // UNIX タイムスタンプ
+  line: string; // 出力内容（改行を除く）
+}
+
 /**
  * MCP Aggregatorサーバーの定数
  */
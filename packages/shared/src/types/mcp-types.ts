@@ -34,8 +34,31 @@ export interface MCPServerConfig {
   version?: string;
 
   toolPermissions?: MCPServerToolPermissions;
+
+  // How sampling/elicitation requests from this server are handled
+  serverRequestPolicy?: ServerRequestPolicy;
+
+  // Tool call limits (unset means the caller's default / unlimited)
+  toolCallTimeoutSec?: number;
+  toolTimeoutOverrides?: MCPServerToolTimeouts;
+  maxConcurrentToolCalls?: number;
+
+  // Maximum characters of text returned by a tool call (unset means unlimited).
+  // Longer output is truncated and can be paged with read_tool_result.
+  maxToolOutputChars?: number;
+  toolOutputLimitOverrides?: MCPServerToolOutputLimits;
 }
 
+/**
+ * Policy for server-initiated requests (sampling/createMessage, elicitation/create)
+ * - allow: relay to the client session that made the call
+ * - deny: reject without asking
+ * - ask: relay only after the user approves it in the desktop app
+ */
+export type ServerRequestPolicy = "allow" | "deny" | "ask";
+
+export const DEFAULT_SERVER_REQUEST_POLICY: ServerRequestPolicy = "ask";
+
 export interface MCPTool {
   name: string;
   description?: string;
@@ -47,6 +70,20 @@ export interface MCPServerToolPermissions {
   [toolName: string]: boolean;
 }
 
+/**
+ * Per-tool call timeout overrides in seconds
+ */
+export interface MCPServerToolTimeouts {
+  [toolName: string]: number;
+}
+
+/**
+ * Per-tool output limits in characters
+ */
+export interface MCPServerToolOutputLimits {
+  [toolName: string]: number;
+}
+
 export interface MCPResource {
   uri: string;
   name: string;
@@ -64,6 +101,10 @@ export interface MCPServer extends MCPServerConfig {
   status: "running" | "starting" | "stopping" | "stopped" | "error";
   errorMessage?: string; // Error message when status is "error"
   logs?: string[];
+  // Supervisor state (runtime only)
+  restartCount?: number; // Automatic restarts since the app started
+  lastCrashReason?: string;
+  lastCrashAt?: number;
   // Properties for the MCP Test Page
   tools?: MCPTool[];
   resources?: MCPResource[];
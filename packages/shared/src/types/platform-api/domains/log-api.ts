@@ -6,7 +6,7 @@ import type {
   CursorPaginationOptions,
   CursorPaginationResult,
 } from "../../pagination";
-import type { RequestLogEntry } from "../../log-types";
+import type { RequestLogEntry, RequestLogStatus } from "../../log-types";
 
 // Alias for API compatibility
 export type LogEntry = RequestLogEntry;
@@ -20,7 +20,7 @@ interface LogFilters {
   requestType?: string;
   startDate?: Date;
   endDate?: Date;
-  responseStatus?: "success" | "error";
+  responseStatus?: RequestLogStatus;
 }
 
 /**
@@ -37,4 +37,6 @@ export interface LogQueryResult extends CursorPaginationResult<LogEntry> {
 
 export interface LogAPI {
   query(options?: LogQueryOptions): Promise<LogQueryResult>;
+  /** Client IDs that appear in the request logs */
+  listClients(): Promise<string[]>;
 }
@@ -1,8 +1,8 @@
-import type { Project } from "../../project-types";
+import type { Project, ProjectUpdates } from "../../project-types";
 
 export interface ProjectsAPI {
   list: () => Promise<Project[]>;
   create: (input: { name: string }) => Promise<Project>;
-  update: (id: string, updates: { name?: string }) => Promise<Project>;
+  update: (id: string, updates: ProjectUpdates) => Promise<Project>;
   delete: (id: string) => Promise<void>;
 }
@@ -3,6 +3,8 @@
  */
 
 import type { MCPServerConfig, MCPServer, MCPTool } from "../../mcp-types";
+import type { ServerLogEntry } from "../../log-types";
+import type { Unsubscribe } from "./package-api";
 
 export interface ServerStatus {
   type: "stopped" | "starting" | "running" | "stopping" | "error";
@@ -37,6 +39,12 @@ export interface ServerAPI {
   start(id: string): Promise<boolean>;
   stop(id: string): Promise<boolean>;
   getStatus(id: string): Promise<ServerStatus>;
+  /** Recent stderr output of a local server, oldest first */
+  getLogs(id: string): Promise<ServerLogEntry[]>;
+  /** Receive stderr lines of all servers as they are written */
+  onLogs(
+    callback: (serverId: string, entries: ServerLogEntry[]) => void,
+  ): Unsubscribe;
   selectFile(options?: {
     title?: string;
     mode?: "file" | "directory";
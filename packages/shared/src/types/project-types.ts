@@ -1,10 +1,24 @@
 export interface Project {
   id: string;
   name: string;
+  // Roots advertised to servers in this project via roots/list
+  roots?: ProjectRoot[];
+  // Also expose roots reported by clients that connect with this project
+  forwardClientRoots?: boolean;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface ProjectRoot {
+  // file:// URI
+  uri: string;
+  name?: string;
+}
+
+export type ProjectUpdates = Partial<
+  Pick<Project, "name" | "roots" | "forwardClientRoots">
+>;
+
 // Shared constants for project handling
 // Use these across main, renderer, and CLI to avoid drift
 export const UNASSIGNED_PROJECT_ID = "__unassigned__" as const;
@@ -1,9 +1,87 @@
 import type { Theme } from "./ui";
+import type { EntryEndpointConfig } from "./entry-mcp-types";
 
 /**
  * MCP 端点模式
  */
-export type MCPEndpointMode = "entry" | "aggregator";
+export type MCPEndpointMode = "entry" | "aggregator" | "hybrid";
+
+/**
+ * 入口MCP面向模型的文本（元工具描述、提示与错误信息）使用的语言
+ */
+export type EntryMessageLocale = "en" | "ja" | "zh";
+
+/**
+ * 混合模式下固定暴露的工具
+ */
+export interface PinnedToolRef {
+  serverName: string;
+  toolName: string;
+}
+
+/**
+ * 混合模式的固定工具配置
+ */
+export interface ToolPinningConfig {
+  /** 手动固定的工具 */
+  tools: PinnedToolRef[];
+  /** 按最近调用次数自动固定的工具数量（0 表示不自动固定） */
+  autoPinCount: number;
+}
+
+/**
+ * 混合模式设置
+ * 按 客户端（token）→ 项目 → 默认 的顺序选用第一个存在的配置
+ */
+export interface HybridEndpointSettings {
+  default: ToolPinningConfig;
+  /** 按客户端ID覆盖 */
+  clients?: Record<string, ToolPinningConfig>;
+  /** 按项目ID覆盖 */
+  projects?: Record<string, ToolPinningConfig>;
+}
+
+/**
+ * 默认的混合模式设置
+ */
+export const DEFAULT_HYBRID_ENDPOINT_SETTINGS: HybridEndpointSettings = {
+  default: { tools: [], autoPinCount: 5 },
+};
+
+/**
+ * 聚合模式下的工具命名策略
+ * raw: 保持原始工具名（重名时只保留最先注册的服务器）
+ * prefix: 始终使用 `serverName__toolName`
+ * prefix-on-collision: 仅对重名工具添加服务器前缀
+ */
+export type ToolNamingStrategy = "raw" | "prefix" | "prefix-on-collision";
+
+/**
+ * 服务器前缀与工具名之间的分隔符
+ */
+export const TOOL_NAME_SEPARATOR = "__";
+
+/**
+ * 生成带服务器前缀的工具名（`serverName__toolName`）
+ * MCP客户端通常只允许 [A-Za-z0-9_-]，因此服务器名中的其他字符替换为 _
+ */
+export function createPrefixedToolName(
+  serverName: string,
+  toolName: string,
+): string {
+  const safeServerName = serverName.replace(/[^A-Za-z0-9_-]/g, "_");
+  return `${safeServerName}${TOOL_NAME_SEPARATOR}${toolName}`;
+}
+
+/**
+ * 多个服务器暴露同名工具时的冲突信息
+ */
+export interface ToolNameCollision {
+  /** 冲突的原始工具名 */
+  toolName: string;
+  /** 暴露该工具的服务器名 */
+  serverNames: string[];
+}
 
 /**
  * アプリケーション設定のインターフェース
@@ -58,11 +136,65 @@ export interface AppSettings {
 
   /**
    * MCP 端点模式
-   * entry: 只暴露 list_mcp_tools 和 call_mcp_tool
+   * entry: 只暴露 list_mcp_tools 和 call_mcp_tool 等元工具
    * aggregator: 暴露所有工具
+   * hybrid: 元工具加上固定的常用工具
    * デフォルト: "entry"
    */
   mcpEndpointMode?: MCPEndpointMode;
+
+  /**
+   * 混合模式下固定暴露的工具
+   * デフォルト: 自动固定最常用的 5 个工具
+   */
+  hybridEndpoint?: HybridEndpointSettings;
+
+  /**
+   * 入口MCP返回给模型的文本（元工具描述、提示与错误信息）的语言
+   * デフォルト: "en"
+   */
+  entryMessageLocale?: EntryMessageLocale;
+
+  /**
+   * 覆盖元工具的描述（键为工具名，如 list_mcp_tools）
+   * 未设置的工具使用所选语言的内置描述
+   * デフォルト: {}
+   */
+  entryToolDescriptions?: Record<string, string>;
+
+  /**
+   * 命名入口端点（/mcp/e/<name>），各自只暴露选中的服务器
+   * デフォルト: []
+   */
+  entryEndpoints?: EntryEndpointConfig[];
+
+  /**
+   * 聚合模式下的工具命名策略
+   * デフォルト: "prefix-on-collision"
+   */
+  toolNamingStrategy?: ToolNamingStrategy;
+
+  /**
+   * /mcp を無状態（Mcp-Session-Id なし）で提供するか
+   * 無効時はセッションごとに通知・再開をサポート
+   * デフォルト: false
+   */
+  mcpStatelessHttp?: boolean;
+
+  /**
+   * ツール引数のスキーマ検証時に明らかな型の不一致を変換するか
+   * 例: 数値文字列 "42" → 42、"true" → true、JSON 文字列 → オブジェクト/配列
+   * 無効時は検証エラーとして呼び出し元に返す
+   * デフォルト: false
+   */
+  coerceToolArguments?: boolean;
+
+  /**
+   * クラッシュしたローカルサーバを自動再起動する連続回数の上限
+   * 0 の場合は自動再起動しない
+   * デフォルト: 3
+   */
+  serverAutoRestartLimit?: number;
 }
 
 /**
@@ -78,4 +210,12 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   showWindowOnStartup: true,
   theme: "system",
   mcpEndpointMode: "entry",
+  hybridEndpoint: DEFAULT_HYBRID_ENDPOINT_SETTINGS,
+  entryMessageLocale: "en",
+  entryToolDescriptions: {},
+  entryEndpoints: [],
+  toolNamingStrategy: "prefix-on-collision",
+  mcpStatelessHttp: false,
+  coerceToolArguments: false,
+  serverAutoRestartLimit: 3,
 };
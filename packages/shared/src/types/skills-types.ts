@@ -69,8 +69,30 @@ export interface SkillsContent {
   generatedAt: string;
   /** Skills版本 */
   version: string;
+  /** 技能名称（可选，默认 mcp-router-skills） */
+  skillName?: string;
+  /** 技能描述（可选，命名入口端点使用端点描述） */
+  skillDescription?: string;
+  /** 提供这些服务器的MCP端点路径（可选，默认 /mcp） */
+  endpointPath?: string;
 }
 
+/**
+ * 默认技能名称（SKILL.md 的 name 字段）
+ */
+export const DEFAULT_SKILL_NAME = "mcp-router-skills";
+
+/**
+ * 默认MCP端点路径
+ */
+export const DEFAULT_SKILL_ENDPOINT_PATH = "/mcp";
+
+/**
+ * 默认技能描述
+ */
+export const DEFAULT_SKILL_DESCRIPTION =
+  "Master registry of available MCP servers. Used to identify which server handles a specific domain of tasks.";
+
 /**
  * 默认Skills配置
  */
@@ -84,18 +106,19 @@ export const DEFAULT_SKILLS_CONFIG: SkillsConfig = {
  * 默认SKILL.md模板（符合agentskills.io规范）
  */
 export const DEFAULT_SKILL_TEMPLATE = `---
-name: mcp-router-skills
-description: Master registry of available MCP servers. Used to identify which server handles a specific domain of tasks.
+name: {{skillName}}
+description: {{skillDescription}}
 license: MIT
 metadata:
   version: "{{version}}"
   updatedAt: "{{generatedAt}}"
   serverCount: {{serverCount}}
+  endpoint: "{{endpointPath}}"
 ---
 
 # MCP Server Registry
 
-This document lists the available **MCP Servers** managed by the Router.
+This document lists the available **MCP Servers** managed by the Router, served at the \`{{endpointPath}}\` endpoint.
 
 ## 🧠 Routing Instructions
 
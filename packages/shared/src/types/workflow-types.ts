@@ -7,7 +7,7 @@
  */
 export interface WorkflowNode {
   id: string;
-  type: "start" | "end" | "mcp-call" | "hook";
+  type: "start" | "end" | "mcp-call" | "hook" | "condition" | "switch";
   position: {
     x: number;
     y: number;
@@ -15,6 +15,8 @@ export interface WorkflowNode {
   data: {
     label: string;
     hook?: WorkflowHook;
+    condition?: WorkflowCondition;
+    switch?: WorkflowSwitch;
     [key: string]: any;
   };
   deletable?: boolean;
@@ -27,6 +29,8 @@ export interface WorkflowEdge {
   id?: string;
   source: string;
   target: string;
+  // condition / switch ノードの分岐（true・false、caseのID、default）
+  sourceHandle?: string | null;
   type?: string;
   animated?: boolean;
   markerEnd?: {
@@ -43,9 +47,62 @@ export interface WorkflowHook {
   id: string;
   hookModuleId?: string; // HookModuleへの参照
   script?: string; // Inline Script用（hookModuleIdがない場合のみ使用）
+  // MCP Call より前のブロッキングHookがエラーになった場合やHookModuleが見つからない場合はリクエストを拒否する
   blocking: boolean;
 }
 
+/**
+ * condition ノードの分岐ハンドル
+ */
+export const WORKFLOW_CONDITION_TRUE_HANDLE = "true";
+export const WORKFLOW_CONDITION_FALSE_HANDLE = "false";
+
+/**
+ * switch ノードでどのcaseにも一致しなかった場合の分岐ハンドル
+ */
+export const WORKFLOW_SWITCH_DEFAULT_HANDLE = "default";
+
+/**
+ * condition ノードの設定
+ * expression はJavaScriptの式で、method・toolName・serverName・clientId・args・params を参照できる
+ * 結果がtruthyなら true、それ以外（評価エラーを含む）は false の分岐に進む
+ */
+export interface WorkflowCondition {
+  expression: string;
+}
+
+/**
+ * switch ノードの分岐
+ */
+export interface WorkflowSwitchCase {
+  id: string; // 分岐ハンドルとして使用
+  value: string;
+}
+
+/**
+ * switch ノードの設定
+ * expression の評価結果を文字列にして各caseの value と比較し、一致しなければ default の分岐に進む
+ */
+export interface WorkflowSwitch {
+  expression: string;
+  cases: WorkflowSwitchCase[];
+}
+
+/**
+ * Hookスクリプトの戻り値
+ * - params: MCP Call ノードより前のHookが返すと、以降のHookとMCPリクエストに渡すparamsを置き換える
+ * - response: MCP Call ノードより後のHookが返すと、クライアントに返すレスポンスを置き換える
+ * - deny: MCP Call ノードより前のブロッキングHookのみ。true を返すとWorkflowを中断し、reason をMCPエラーとしてクライアントに返す
+ *   （MCP Call より後のHookの deny は警告を出して無視する）
+ * いずれも含まない戻り値（undefinedを含む）は結果として記録されるだけで、リクエストには影響しない
+ */
+export interface WorkflowHookResult {
+  params?: any;
+  response?: any;
+  deny?: boolean;
+  reason?: string;
+}
+
 /**
  * Hook module definition
  */
@@ -55,6 +112,45 @@ export interface HookModule {
   script: string;
 }
 
+/**
+ * MCPリクエストを包むWorkflowの種類
+ * Start -> MCP Call -> End の構造を持ち、MCP Call ノードで本来のリクエストを実行する
+ */
+export const WORKFLOW_REQUEST_TYPES = [
+  "tools/list",
+  "tools/call",
+  "resources/list",
+  "resources/read",
+  "prompts/list",
+  "prompts/get",
+] as const;
+
+/**
+ * サーバーのライフサイクルイベントで実行されるWorkflowの種類
+ * 包むリクエストがないため MCP Call ノードを持たず（Start -> End）、Hookは通知として実行される
+ */
+export const WORKFLOW_LIFECYCLE_TYPES = [
+  "server/start",
+  "server/stop",
+  "server/error",
+] as const;
+
+export type WorkflowRequestType = (typeof WORKFLOW_REQUEST_TYPES)[number];
+export type WorkflowLifecycleType = (typeof WORKFLOW_LIFECYCLE_TYPES)[number];
+export type WorkflowType = WorkflowRequestType | WorkflowLifecycleType;
+
+/**
+ * Workflowを適用するリクエストの範囲
+ * 各項目は空または未指定なら制限なし。指定した項目はすべて一致する必要があり、
+ * リクエストにその属性がない場合（tools/list のサーバー名など）は一致しない
+ */
+export interface WorkflowScope {
+  servers?: string[]; // サーバー名
+  tools?: string[]; // ツール名（サーバー側の元の名前）
+  clients?: string[]; // クライアントID
+  projects?: string[]; // プロジェクトID
+}
+
 /**
  * Workflow definition
  */
@@ -62,10 +158,13 @@ export interface WorkflowDefinition {
   id: string;
   name: string;
   description?: string;
-  workflowType: "tools/list" | "tools/call";
+  workflowType: WorkflowType;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   enabled: boolean;
+  // 同じリクエストに一致する複数のWorkflowの実行順（大きいほど外側で先に実行、既定は0）
+  priority?: number;
+  scope?: WorkflowScope;
   createdAt: number;
   updatedAt: number;
 }